@@ -0,0 +1,108 @@
+import { assertEquals } from "@std/assert";
+import {
+  ATTACHMENT_MAX_AGE_MS,
+  buildPromptContent,
+  getDecodedSize,
+  isImageAttachment,
+  MAX_ATTACHMENTS,
+  MAX_IMAGE_BYTES,
+  removeOldAttachments,
+  sanitizeFileName,
+  stripAttachedFiles,
+  validateAttachments,
+} from "./attachments.ts";
+
+const screenshot = { name: "shot.png", mimeType: "image/png", data: "aGk=" };
+
+Deno.test("isImageAttachment - accepts only supported image types", () => {
+  assertEquals(isImageAttachment(screenshot), true);
+  assertEquals(
+    isImageAttachment({ name: "a.svg", mimeType: "image/svg+xml", data: "" }),
+    false,
+  );
+});
+
+Deno.test("getDecodedSize - accounts for base64 padding", () => {
+  assertEquals(getDecodedSize(btoa("hi")), 2);
+  assertEquals(getDecodedSize(btoa("hey")), 3);
+  assertEquals(getDecodedSize(btoa("hello")), 5);
+});
+
+Deno.test("validateAttachments - enforces the upload limits", () => {
+  assertEquals(validateAttachments([screenshot]), null);
+  assertEquals(
+    validateAttachments(Array(MAX_ATTACHMENTS + 1).fill(screenshot)),
+    `At most ${MAX_ATTACHMENTS} attachments can be sent at once`,
+  );
+  assertEquals(
+    validateAttachments([
+      { ...screenshot, data: "A".repeat(MAX_IMAGE_BYTES / 3 * 4 + 4) },
+    ]),
+    "Attachment shot.png exceeds the 5 MB limit",
+  );
+  assertEquals(
+    validateAttachments([{ name: "a.txt", data: "aGk=" }]),
+    "Each attachment needs a name, mimeType and base64 data",
+  );
+});
+
+Deno.test("sanitizeFileName - drops directories and unsafe characters", () => {
+  assertEquals(sanitizeFileName("../../etc/passwd"), "passwd");
+  assertEquals(sanitizeFileName("C:\\tmp\\log$.txt"), "log_.txt");
+  assertEquals(sanitizeFileName(".."), "attachment");
+});
+
+Deno.test("buildPromptContent - keeps plain text without images", () => {
+  assertEquals(
+    buildPromptContent("look at this", [], ["/p/.claude/attachments/x/a.log"]),
+    "look at this\nAttached files:\n- /p/.claude/attachments/x/a.log",
+  );
+});
+
+Deno.test("stripAttachedFiles - leaves the typed text", () => {
+  const text = buildPromptContent("look at this", [], ["/p/a.log", "/p/b.txt"]);
+  assertEquals(stripAttachedFiles(text as string), "look at this");
+  assertEquals(
+    stripAttachedFiles(buildPromptContent("", [], ["/p/a.log"]) as string),
+    "",
+  );
+  assertEquals(
+    stripAttachedFiles("Attached files: none"),
+    "Attached files: none",
+  );
+});
+
+Deno.test("buildPromptContent - puts images before the text", () => {
+  assertEquals(buildPromptContent("what is wrong?", [screenshot], []), [
+    {
+      type: "image",
+      source: { type: "base64", media_type: "image/png", data: "aGk=" },
+    },
+    { type: "text", text: "what is wrong?" },
+  ]);
+});
+
+Deno.test("buildPromptContent - omits an empty text block", () => {
+  const content = buildPromptContent("", [screenshot], []);
+
+  assertEquals(Array.isArray(content) ? content.length : 0, 1);
+});
+
+Deno.test("removeOldAttachments - removes only expired uploads", async () => {
+  const baseDir = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(`${baseDir}/old`);
+    await Deno.mkdir(`${baseDir}/new`);
+    const now = Date.now();
+    const expired = new Date(now - ATTACHMENT_MAX_AGE_MS - 1000);
+    await Deno.utime(`${baseDir}/old`, expired, expired);
+
+    await removeOldAttachments(baseDir, now);
+
+    const names: string[] = [];
+    for await (const entry of Deno.readDir(baseDir)) names.push(entry.name);
+    assertEquals(names, ["new"]);
+  } finally {
+    await Deno.remove(baseDir, { recursive: true });
+  }
+});
@@ -0,0 +1,219 @@
+import type { ChatAttachment } from "../../shared/types.ts";
+
+// Image types accepted by Claude as base64 image content blocks
+const IMAGE_MEDIA_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+] as const;
+
+type ImageMediaType = typeof IMAGE_MEDIA_TYPES[number];
+
+// Heads the list of saved files appended to the prompt text
+export const ATTACHED_FILES_HEADING = "Attached files:";
+const ATTACHED_FILES_PATTERN = new RegExp(
+  `(^|\n)${ATTACHED_FILES_HEADING}(\n- [^\n]*)+$`,
+);
+
+// Same limits as the chat input enforces before uploading
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_FILE_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 10;
+
+// Resumed and forked sessions refer to uploaded files by path, so uploads
+// are kept this long and removed when a later upload is saved
+export const ATTACHMENT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Content blocks of the user message sent to Claude
+export type PromptContentBlock =
+  | { type: "text"; text: string }
+  | {
+    type: "image";
+    source: { type: "base64"; media_type: ImageMediaType; data: string };
+  };
+
+/**
+ * Whether an attachment can be sent to Claude as an image content block
+ */
+export function isImageAttachment(attachment: ChatAttachment): boolean {
+  return (IMAGE_MEDIA_TYPES as readonly string[]).includes(
+    attachment.mimeType,
+  );
+}
+
+/**
+ * Size of base64 data once decoded, without decoding it
+ */
+export function getDecodedSize(data: string): number {
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor(data.length * 3 / 4) - padding;
+}
+
+/**
+ * Checks the attachments of a chat request against the upload limits
+ * @returns The reason the attachments are refused, or null if they are accepted
+ */
+export function validateAttachments(attachments: unknown): string | null {
+  if (!Array.isArray(attachments)) {
+    return "attachments must be a list";
+  }
+  if (attachments.length > MAX_ATTACHMENTS) {
+    return `At most ${MAX_ATTACHMENTS} attachments can be sent at once`;
+  }
+  for (const attachment of attachments) {
+    if (
+      !attachment || typeof attachment !== "object" ||
+      typeof attachment.name !== "string" ||
+      typeof attachment.mimeType !== "string" ||
+      typeof attachment.data !== "string"
+    ) {
+      return "Each attachment needs a name, mimeType and base64 data";
+    }
+    const limit = isImageAttachment(attachment)
+      ? MAX_IMAGE_BYTES
+      : MAX_FILE_BYTES;
+    if (getDecodedSize(attachment.data) > limit) {
+      return `Attachment ${attachment.name} exceeds the ${
+        limit / (1024 * 1024)
+      } MB limit`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Strips directory parts and unsafe characters from an uploaded file name
+ */
+export function sanitizeFileName(name: string): string {
+  const baseName = name.split(/[\\/]/).pop() ?? "";
+  const safeName = baseName.replace(/[^\w.\- ]/g, "_").replace(/^\.+/, "");
+  return safeName || "attachment";
+}
+
+/**
+ * Deletes a folder of uploaded files
+ */
+async function removeUploadDir(directory: string) {
+  try {
+    await Deno.remove(directory, { recursive: true });
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      console.error("[Chat] Failed to remove attachments:", error);
+    }
+  }
+}
+
+/**
+ * Deletes the upload folders not changed for ATTACHMENT_MAX_AGE_MS
+ * @param baseDir - Folder holding one folder per upload
+ * @param now - Current time in milliseconds
+ */
+export async function removeOldAttachments(baseDir: string, now: number) {
+  try {
+    for await (const entry of Deno.readDir(baseDir)) {
+      if (!entry.isDirectory) continue;
+      const uploadDir = `${baseDir}/${entry.name}`;
+      const { mtime } = await Deno.stat(uploadDir);
+      if (mtime && now - mtime.getTime() > ATTACHMENT_MAX_AGE_MS) {
+        await removeUploadDir(uploadDir);
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      console.error("[Chat] Failed to remove old attachments:", error);
+    }
+  }
+}
+
+/**
+ * Writes non-image attachments to disk so Claude can read them by path
+ * Files go to <project>/.claude/attachments, or a temp dir without a
+ * project, and stay there for later requests of the session
+ * @param attachments - Attachments that are not sent as image blocks
+ * @param workingDirectory - Optional project directory
+ * @returns Absolute paths of the saved files, in attachment order
+ */
+export async function saveFileAttachments(
+  attachments: ChatAttachment[],
+  workingDirectory?: string,
+): Promise<string[]> {
+  if (attachments.length === 0) return [];
+
+  const baseDir = workingDirectory
+    ? `${workingDirectory.replace(/[\\/]+$/, "")}/.claude/attachments`
+    : await Deno.makeTempDir({ prefix: "claude-webui-attachments-" });
+  if (workingDirectory) {
+    await removeOldAttachments(baseDir, Date.now());
+  }
+  // A folder per upload keeps original names without collisions
+  const uploadDir = `${baseDir}/${crypto.randomUUID()}`;
+  await Deno.mkdir(uploadDir, { recursive: true });
+  if (workingDirectory) {
+    // Keep uploads out of the project's version control
+    await Deno.writeTextFile(`${baseDir}/.gitignore`, "*\n");
+  }
+
+  const paths: string[] = [];
+  try {
+    for (const attachment of attachments) {
+      const filePath = `${uploadDir}/${sanitizeFileName(attachment.name)}`;
+      const bytes = Uint8Array.from(
+        atob(attachment.data),
+        (char) => char.charCodeAt(0),
+      );
+      await Deno.writeFile(filePath, bytes);
+      paths.push(filePath);
+    }
+  } catch (error) {
+    await removeUploadDir(workingDirectory ? uploadDir : baseDir);
+    throw error;
+  }
+  return paths;
+}
+
+/**
+ * Builds the user message content: image blocks first, then the text with
+ * references to any saved files
+ * @param message - Text typed by the user
+ * @param images - Image attachments sent inline
+ * @param filePaths - Paths of saved non-image attachments
+ * @returns Plain text when there are no images, otherwise content blocks
+ */
+export function buildPromptContent(
+  message: string,
+  images: ChatAttachment[],
+  filePaths: string[],
+): string | PromptContentBlock[] {
+  const text = filePaths.length > 0
+    ? [
+      message,
+      ATTACHED_FILES_HEADING,
+      ...filePaths.map((path) => `- ${path}`),
+    ].filter(Boolean).join("\n")
+    : message;
+
+  if (images.length === 0) return text;
+
+  const blocks: PromptContentBlock[] = images.map((image) => ({
+    type: "image",
+    source: {
+      type: "base64",
+      media_type: image.mimeType as ImageMediaType,
+      data: image.data,
+    },
+  }));
+  // The API rejects empty text blocks, e.g. for a screenshot sent on its own
+  if (text.trim()) {
+    blocks.push({ type: "text", text });
+  }
+  return blocks;
+}
+
+/**
+ * Removes the list of saved files buildPromptContent appended to a prompt,
+ * leaving the text the user typed
+ */
+export function stripAttachedFiles(text: string): string {
+  return text.replace(ATTACHED_FILES_PATTERN, "");
+}
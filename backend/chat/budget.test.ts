@@ -0,0 +1,59 @@
+import { assertAlmostEquals, assertEquals } from "@std/assert";
+import {
+  createBudgetTracker,
+  estimateUsageCost,
+  isCostExceeded,
+  recordMessageCost,
+} from "./budget.ts";
+
+Deno.test("estimateUsageCost - prices tokens per million", () => {
+  const cost = estimateUsageCost("claude-3-5-sonnet-20241022", {
+    input_tokens: 1_000_000,
+    output_tokens: 100_000,
+  });
+
+  assertAlmostEquals(cost, 3 + 1.5);
+});
+
+Deno.test("estimateUsageCost - falls back to the model family", () => {
+  const cost = estimateUsageCost("claude-opus-4-20250514", {
+    output_tokens: 1_000_000,
+  });
+
+  assertAlmostEquals(cost, 75);
+});
+
+Deno.test("recordMessageCost - counts each assistant message once", () => {
+  const tracker = createBudgetTracker(1);
+  const message = {
+    type: "assistant",
+    message: {
+      id: "msg_1",
+      model: "claude-3-5-sonnet-20241022",
+      usage: { input_tokens: 200_000, output_tokens: 10_000 },
+    },
+  };
+
+  recordMessageCost(tracker, message);
+  recordMessageCost(tracker, message);
+
+  assertAlmostEquals(tracker.costUsd, 0.6 + 0.15);
+  assertEquals(isCostExceeded(tracker), false);
+});
+
+Deno.test("recordMessageCost - result total replaces the estimate", () => {
+  const tracker = createBudgetTracker(0.5);
+
+  recordMessageCost(tracker, { type: "result", total_cost_usd: 0.75 });
+
+  assertEquals(tracker.costUsd, 0.75);
+  assertEquals(isCostExceeded(tracker), true);
+});
+
+Deno.test("isCostExceeded - never true without a ceiling", () => {
+  const tracker = createBudgetTracker();
+
+  recordMessageCost(tracker, { type: "result", total_cost_usd: 100 });
+
+  assertEquals(isCostExceeded(tracker), false);
+});
@@ -0,0 +1,102 @@
+import { MODEL_PRICING, type ModelPricing } from "../../shared/billingTypes.ts";
+
+// Token counts as reported in the usage field of assistant messages
+interface TokenUsage {
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+// The parts of an SDK message that carry spend information
+interface SpendMessage {
+  type: string;
+  total_cost_usd?: number;
+  message?: {
+    id?: string;
+    model?: string;
+    usage?: TokenUsage | null;
+  };
+}
+
+/**
+ * Running cost estimate for a single chat request
+ */
+export interface BudgetTracker {
+  maxCostUsd?: number;
+  costUsd: number;
+  // Assistant messages repeat their usage once per content block
+  countedMessageIds: Set<string>;
+}
+
+/**
+ * Finds the pricing for a model, falling back to its family for model
+ * versions missing from the pricing table
+ */
+function getModelPricing(model: string): ModelPricing {
+  const pricing = MODEL_PRICING[model];
+  if (pricing) return pricing;
+
+  if (model.includes("opus")) {
+    return MODEL_PRICING["claude-3-opus-20240229"];
+  }
+  if (model.includes("haiku")) {
+    return MODEL_PRICING["claude-3-5-haiku-20241022"];
+  }
+  return MODEL_PRICING["claude-3-5-sonnet-20241022"];
+}
+
+/**
+ * Estimates the USD cost of one API response from its token usage
+ */
+export function estimateUsageCost(model: string, usage: TokenUsage): number {
+  const pricing = getModelPricing(model);
+  return (
+    ((usage.input_tokens ?? 0) * pricing.inputPrice +
+      (usage.output_tokens ?? 0) * pricing.outputPrice +
+      (usage.cache_creation_input_tokens ?? 0) * pricing.cacheCreationPrice +
+      (usage.cache_read_input_tokens ?? 0) * pricing.cacheReadPrice) /
+    1_000_000
+  );
+}
+
+/**
+ * Creates a tracker for a request, optionally capped at maxCostUsd
+ */
+export function createBudgetTracker(maxCostUsd?: number): BudgetTracker {
+  return { maxCostUsd, costUsd: 0, countedMessageIds: new Set() };
+}
+
+/**
+ * Adds the spend reported by an SDK message to the running estimate
+ * Result messages carry the CLI's own total, which replaces the estimate
+ */
+export function recordMessageCost(
+  tracker: BudgetTracker,
+  message: SpendMessage,
+) {
+  if (message.type === "result" && message.total_cost_usd !== undefined) {
+    tracker.costUsd = Math.max(tracker.costUsd, message.total_cost_usd);
+    return;
+  }
+
+  const apiMessage = message.message;
+  if (message.type !== "assistant" || !apiMessage?.usage) return;
+  if (apiMessage.id) {
+    if (tracker.countedMessageIds.has(apiMessage.id)) return;
+    tracker.countedMessageIds.add(apiMessage.id);
+  }
+
+  tracker.costUsd += estimateUsageCost(
+    apiMessage.model ?? "",
+    apiMessage.usage,
+  );
+}
+
+/**
+ * Whether the running estimate has crossed the request's cost ceiling
+ */
+export function isCostExceeded(tracker: BudgetTracker): boolean {
+  return tracker.maxCostUsd !== undefined &&
+    tracker.costUsd > tracker.maxCostUsd;
+}
@@ -0,0 +1,50 @@
+import { assertEquals } from "@std/assert";
+import { validateChatRequest } from "./requestValidation.ts";
+
+const request = { message: "hello", requestId: "r1" };
+
+Deno.test("validateChatRequest - accepts a request with valid options", () => {
+  assertEquals(validateChatRequest(request), null);
+  assertEquals(
+    validateChatRequest({
+      ...request,
+      model: "sonnet",
+      permissionMode: "plan",
+      maxTurns: 5,
+      maxCostUsd: 0.5,
+    }),
+    null,
+  );
+});
+
+Deno.test("validateChatRequest - refuses guardrails that would be ignored", () => {
+  for (const maxCostUsd of [-1, 0, "2", Infinity]) {
+    assertEquals(
+      validateChatRequest({ ...request, maxCostUsd }),
+      "maxCostUsd must be a positive number",
+    );
+  }
+  for (const maxTurns of [0, 2.5, "3"]) {
+    assertEquals(
+      validateChatRequest({ ...request, maxTurns }),
+      "maxTurns must be a positive integer",
+    );
+  }
+});
+
+Deno.test("validateChatRequest - refuses unknown permission modes and models", () => {
+  assertEquals(
+    validateChatRequest({ ...request, permissionMode: "yolo" })?.startsWith(
+      "permissionMode must be one of",
+    ),
+    true,
+  );
+  assertEquals(
+    validateChatRequest({ ...request, model: 42 }),
+    "model must be a non-empty string",
+  );
+  assertEquals(
+    validateChatRequest({ message: "hi" }),
+    "requestId is required",
+  );
+});
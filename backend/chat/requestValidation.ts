@@ -0,0 +1,66 @@
+/**
+ * Chat request validation
+ * Options that reach the SDK are checked before a request starts, so a bad
+ * value is refused instead of being ignored or disabling a guardrail.
+ */
+
+import type { ChatRequest, PermissionMode } from "../../shared/types.ts";
+import { validateAttachments } from "./attachments.ts";
+
+export const PERMISSION_MODES: PermissionMode[] = [
+  "default",
+  "acceptEdits",
+  "bypassPermissions",
+  "plan",
+];
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || (typeof value === "string" && value !== "");
+}
+
+/**
+ * Checks a chat request received from a client
+ * @returns The reason the request is invalid, or null if it can run
+ */
+export function validateChatRequest(request: unknown): string | null {
+  const chatRequest = request as Partial<ChatRequest> | null;
+  if (!chatRequest || typeof chatRequest !== "object") {
+    return "Chat request must be an object";
+  }
+  if (typeof chatRequest.message !== "string") {
+    return "message must be a string";
+  }
+  if (typeof chatRequest.requestId !== "string" || !chatRequest.requestId) {
+    return "requestId is required";
+  }
+  if (!isOptionalString(chatRequest.model)) {
+    return "model must be a non-empty string";
+  }
+  if (!isOptionalString(chatRequest.fallbackModel)) {
+    return "fallbackModel must be a non-empty string";
+  }
+  if (
+    chatRequest.permissionMode !== undefined &&
+    !PERMISSION_MODES.includes(chatRequest.permissionMode)
+  ) {
+    return `permissionMode must be one of ${PERMISSION_MODES.join(", ")}`;
+  }
+  if (
+    chatRequest.maxTurns !== undefined &&
+    (!Number.isInteger(chatRequest.maxTurns) || chatRequest.maxTurns < 1)
+  ) {
+    return "maxTurns must be a positive integer";
+  }
+  if (
+    chatRequest.maxCostUsd !== undefined &&
+    (typeof chatRequest.maxCostUsd !== "number" ||
+      !Number.isFinite(chatRequest.maxCostUsd) ||
+      chatRequest.maxCostUsd <= 0)
+  ) {
+    return "maxCostUsd must be a positive number";
+  }
+  if (chatRequest.attachments !== undefined) {
+    return validateAttachments(chatRequest.attachments);
+  }
+  return null;
+}
@@ -0,0 +1,52 @@
+import { assertEquals } from "@std/assert";
+import {
+  attachSessionRequest,
+  findActiveSessionRequest,
+  type SessionWatchers,
+  watchSession,
+} from "./sessionMirror.ts";
+import {
+  type ChatStreamBuffer,
+  createStreamBuffer,
+  finishStreamBuffer,
+} from "./streamBuffer.ts";
+
+Deno.test("attachSessionRequest - notifies watchers of the session once", () => {
+  const watchers: SessionWatchers = new Map();
+  const seen: string[] = [];
+  watchSession(watchers, "session-1", (requestId) => seen.push(requestId));
+  watchSession(watchers, "session-2", () => seen.push("wrong session"));
+
+  const buffer = createStreamBuffer("hello");
+  attachSessionRequest(watchers, "request-1", buffer, "session-1");
+  attachSessionRequest(watchers, "request-1", buffer, "session-1");
+
+  assertEquals(seen, ["request-1"]);
+  assertEquals(buffer.sessionId, "session-1");
+});
+
+Deno.test("watchSession - unsubscribing removes empty sessions", () => {
+  const watchers: SessionWatchers = new Map();
+  const unwatch = watchSession(watchers, "session-1", () => {});
+
+  unwatch();
+
+  assertEquals(watchers.size, 0);
+});
+
+Deno.test("findActiveSessionRequest - returns the latest unfinished request", () => {
+  const chatStreams = new Map<string, ChatStreamBuffer>();
+  const finished = createStreamBuffer();
+  finished.sessionId = "session-1";
+  finishStreamBuffer(finished);
+  const running = createStreamBuffer();
+  running.sessionId = "session-1";
+  const other = createStreamBuffer();
+  other.sessionId = "session-2";
+  chatStreams.set("request-1", running);
+  chatStreams.set("request-2", finished);
+  chatStreams.set("request-3", other);
+
+  assertEquals(findActiveSessionRequest(chatStreams, "session-1"), "request-1");
+  assertEquals(findActiveSessionRequest(chatStreams, "session-3"), null);
+});
@@ -0,0 +1,83 @@
+import type { ChatStreamBuffer } from "./streamBuffer.ts";
+
+/**
+ * Called when a chat request starts running in a watched Claude session
+ */
+export type SessionRequestListener = (
+  requestId: string,
+  buffer: ChatStreamBuffer,
+) => void;
+
+/**
+ * Listeners mirroring a Claude session to other devices, by session ID
+ */
+export type SessionWatchers = Map<string, Set<SessionRequestListener>>;
+
+/**
+ * Registers a listener for requests running in a session
+ * @param watchers - Shared map of session watchers
+ * @param sessionId - Claude session to follow
+ * @param listener - Called with each request attached to the session
+ * @returns Function removing the listener again
+ */
+export function watchSession(
+  watchers: SessionWatchers,
+  sessionId: string,
+  listener: SessionRequestListener,
+): () => void {
+  let listeners = watchers.get(sessionId);
+  if (!listeners) {
+    listeners = new Set();
+    watchers.set(sessionId, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && watchers.get(sessionId) === listeners) {
+      watchers.delete(sessionId);
+    }
+  };
+}
+
+/**
+ * Records the session a request runs in and notifies the session's watchers
+ * Resumed sessions can be reported under a new ID by the SDK, so a request
+ * is announced again whenever its session ID changes
+ * @param watchers - Shared map of session watchers
+ * @param requestId - Chat request running in the session
+ * @param buffer - Stream buffer of the request
+ * @param sessionId - Claude session ID reported for the request
+ */
+export function attachSessionRequest(
+  watchers: SessionWatchers,
+  requestId: string,
+  buffer: ChatStreamBuffer,
+  sessionId: string,
+) {
+  if (buffer.sessionId === sessionId) return;
+  buffer.sessionId = sessionId;
+
+  for (const listener of Array.from(watchers.get(sessionId) ?? [])) {
+    listener(requestId, buffer);
+  }
+}
+
+/**
+ * Finds the request currently running in a session, if any
+ * @param chatStreams - Shared map of buffered chat streams
+ * @param sessionId - Claude session to look up
+ * @returns Request ID of the most recent unfinished request in the session
+ */
+export function findActiveSessionRequest(
+  chatStreams: Map<string, ChatStreamBuffer>,
+  sessionId: string,
+): string | null {
+  let active: string | null = null;
+  for (const [requestId, buffer] of chatStreams) {
+    if (buffer.sessionId === sessionId && !buffer.finished) {
+      active = requestId;
+    }
+  }
+  return active;
+}
@@ -0,0 +1,25 @@
+import { assertEquals } from "@std/assert";
+import { isValidCommandFile, parseCommandFile } from "./slashCommands.ts";
+
+Deno.test("parseCommandFile - reads frontmatter fields", () => {
+  assertEquals(
+    parseCommandFile(
+      '---\ndescription: "Create a git commit"\nargument-hint: [message]\nallowed-tools: Bash(git add:*)\n---\nCommit the staged changes.\n',
+    ),
+    { description: "Create a git commit", argumentHint: "[message]" },
+  );
+});
+
+Deno.test("parseCommandFile - falls back to the first body line", () => {
+  assertEquals(parseCommandFile("\n# Fix issue $ARGUMENTS\n\nSteps..."), {
+    description: "Fix issue $ARGUMENTS",
+  });
+  assertEquals(parseCommandFile(""), {});
+});
+
+Deno.test("isValidCommandFile - rejects paths leaving the directory", () => {
+  assertEquals(isValidCommandFile("frontend/component"), true);
+  assertEquals(isValidCommandFile("../secrets"), false);
+  assertEquals(isValidCommandFile("/etc/passwd"), false);
+  assertEquals(isValidCommandFile("deploy.md"), false);
+});
@@ -0,0 +1,143 @@
+import type {
+  CommandFileScope,
+  SlashCommand,
+  SlashCommandSource,
+} from "../../shared/types.ts";
+
+// Built-in commands the CLI handles when running without a terminal
+export const BUILTIN_COMMANDS: SlashCommand[] = [
+  {
+    name: "compact",
+    source: "builtin",
+    description: "Clear conversation history but keep a summary in context",
+    argumentHint: "[instructions]",
+  },
+  {
+    name: "init",
+    source: "builtin",
+    description: "Initialize a CLAUDE.md file with codebase documentation",
+  },
+  {
+    name: "pr-comments",
+    source: "builtin",
+    description: "Get comments from a GitHub pull request",
+  },
+  {
+    name: "review",
+    source: "builtin",
+    description: "Review a pull request",
+  },
+  {
+    name: "security-review",
+    source: "builtin",
+    description: "Complete a security review of the pending changes",
+  },
+];
+
+// Relative file path without ".md", e.g. "deploy" or "frontend/component"
+const COMMAND_FILE_PATTERN = /^[A-Za-z0-9_-]+(?:\/[A-Za-z0-9_-]+)*$/;
+
+/**
+ * Whether a command file path is safe to join onto a commands directory
+ */
+export function isValidCommandFile(file: string): boolean {
+  return COMMAND_FILE_PATTERN.test(file);
+}
+
+/**
+ * Returns the commands directory of a scope
+ * @param scope - "project" for <project>/.claude/commands, "user" for ~/.claude/commands
+ * @param workingDirectory - Project directory, required for the project scope
+ * @returns Directory path, or null if it cannot be resolved
+ */
+export function getCommandsDir(
+  scope: CommandFileScope,
+  workingDirectory?: string,
+): string | null {
+  const baseDir = scope === "project"
+    ? workingDirectory?.replace(/[\\/]+$/, "")
+    : Deno.env.get("HOME") || Deno.env.get("USERPROFILE");
+  return baseDir ? `${baseDir}/.claude/commands` : null;
+}
+
+/**
+ * Reads description and argument hint from a command file
+ * Frontmatter keys win; otherwise the first non-empty body line is used
+ * as the description
+ */
+export function parseCommandFile(
+  content: string,
+): Pick<SlashCommand, "description" | "argumentHint"> {
+  const frontmatter: Record<string, string> = {};
+  let body = content;
+
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+  if (match) {
+    body = content.slice(match[0].length);
+    for (const line of match[1].split(/\r?\n/)) {
+      const separator = line.indexOf(":");
+      if (separator === -1) continue;
+      const key = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).trim()
+        .replace(/^(["'])(.*)\1$/, "$2");
+      if (key && value) frontmatter[key] = value;
+    }
+  }
+
+  const firstLine = body.split(/\r?\n/)
+    .map((line) => line.replace(/^#+\s*/, "").trim())
+    .find(Boolean);
+  const description = frontmatter["description"] || firstLine;
+  const argumentHint = frontmatter["argument-hint"];
+
+  return {
+    ...(description ? { description } : {}),
+    ...(argumentHint ? { argumentHint } : {}),
+  };
+}
+
+/**
+ * Lists the markdown command files of a commands directory, including
+ * subdirectories, sorted by name
+ * @param commandsDir - Directory to scan; a missing directory yields no commands
+ * @param source - Source reported for the commands found
+ */
+export async function listCustomCommands(
+  commandsDir: string,
+  source: SlashCommandSource,
+): Promise<SlashCommand[]> {
+  const commands: SlashCommand[] = [];
+
+  const walk = async (dir: string, prefix: string) => {
+    let entries: Deno.DirEntry[];
+    try {
+      entries = await Array.fromAsync(Deno.readDir(dir));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      if (entry.isDirectory) {
+        await walk(`${dir}/${entry.name}`, `${prefix}${entry.name}/`);
+        continue;
+      }
+      if (!entry.isFile || !entry.name.endsWith(".md")) continue;
+
+      const file = `${prefix}${entry.name.slice(0, -".md".length)}`;
+      if (!isValidCommandFile(file)) continue;
+
+      const content = await Deno.readTextFile(`${dir}/${entry.name}`);
+      commands.push({
+        // The CLI invokes nested commands by file name alone
+        name: file.split("/").pop()!,
+        source,
+        file,
+        ...parseCommandFile(content),
+      });
+    }
+  };
+
+  await walk(commandsDir, "");
+  return commands.sort((a, b) => a.name.localeCompare(b.name));
+}
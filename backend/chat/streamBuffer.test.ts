@@ -0,0 +1,57 @@
+import { assertEquals } from "@std/assert";
+import {
+  appendStreamEvent,
+  createStreamBuffer,
+  finishStreamBuffer,
+  readStreamEvents,
+} from "./streamBuffer.ts";
+import type { StreamResponse } from "../../shared/types.ts";
+
+async function collect(
+  events: AsyncGenerator<StreamResponse>,
+): Promise<StreamResponse[]> {
+  const result: StreamResponse[] = [];
+  for await (const event of events) {
+    result.push(event);
+  }
+  return result;
+}
+
+Deno.test("appendStreamEvent - assigns sequence numbers from 1", () => {
+  const buffer = createStreamBuffer();
+
+  assertEquals(appendStreamEvent(buffer, { type: "claude_json" }), 1);
+  assertEquals(appendStreamEvent(buffer, { type: "done" }), 2);
+  assertEquals(buffer.events.map((event) => event.seq), [1, 2]);
+});
+
+Deno.test("readStreamEvents - replays only events after the given seq", async () => {
+  const buffer = createStreamBuffer();
+  appendStreamEvent(buffer, { type: "claude_json", data: "a" });
+  appendStreamEvent(buffer, { type: "claude_json", data: "b" });
+  appendStreamEvent(buffer, { type: "done" });
+  finishStreamBuffer(buffer);
+
+  const events = await collect(readStreamEvents(buffer, 1));
+  assertEquals(events.map((event) => event.seq), [2, 3]);
+  assertEquals(await collect(readStreamEvents(buffer, 3)), []);
+});
+
+Deno.test("readStreamEvents - waits for new events until finished", async () => {
+  const buffer = createStreamBuffer();
+  appendStreamEvent(buffer, { type: "claude_json", data: "a" });
+
+  const reading = collect(readStreamEvents(buffer));
+
+  await Promise.resolve();
+  appendStreamEvent(buffer, { type: "claude_json", data: "b" });
+  appendStreamEvent(buffer, { type: "done" });
+  finishStreamBuffer(buffer);
+
+  const events = await reading;
+  assertEquals(events.map((event) => event.type), [
+    "claude_json",
+    "claude_json",
+    "done",
+  ]);
+});
@@ -0,0 +1,119 @@
+import type { StreamResponse } from "../../shared/types.ts";
+
+// How long a finished stream stays available for clients to reattach
+export const STREAM_RETENTION_MS = 5 * 60 * 1000;
+
+/**
+ * Buffered StreamResponse events for a single chat request
+ * Events are numbered from 1 so clients can resume after the last seq they saw
+ */
+export interface ChatStreamBuffer {
+  events: StreamResponse[];
+  finished: boolean;
+  waiters: Set<() => void>;
+  // User message that started the request, shown to mirroring devices
+  message?: string;
+  // Claude session the request runs in, once known
+  sessionId?: string;
+}
+
+/**
+ * Creates an empty stream buffer
+ * @param message - Optional user message that started the request
+ */
+export function createStreamBuffer(message?: string): ChatStreamBuffer {
+  return {
+    events: [],
+    finished: false,
+    waiters: new Set(),
+    ...(message !== undefined ? { message } : {}),
+  };
+}
+
+function notifyWaiters(buffer: ChatStreamBuffer) {
+  const waiters = Array.from(buffer.waiters);
+  buffer.waiters.clear();
+  for (const wake of waiters) {
+    wake();
+  }
+}
+
+/**
+ * Appends an event, assigning it the next sequence number
+ * @returns The sequence number assigned to the event
+ */
+export function appendStreamEvent(
+  buffer: ChatStreamBuffer,
+  event: StreamResponse,
+): number {
+  const seq = buffer.events.length + 1;
+  buffer.events.push({ ...event, seq });
+  notifyWaiters(buffer);
+  return seq;
+}
+
+/**
+ * Marks the buffer as complete so readers stop once they have caught up
+ */
+export function finishStreamBuffer(buffer: ChatStreamBuffer) {
+  buffer.finished = true;
+  notifyWaiters(buffer);
+}
+
+/**
+ * Yields buffered events with a sequence number greater than `after`,
+ * then waits for new events until the buffer is finished
+ * @param buffer - Stream buffer to read from
+ * @param after - Last sequence number the client has already received
+ */
+export async function* readStreamEvents(
+  buffer: ChatStreamBuffer,
+  after = 0,
+): AsyncGenerator<StreamResponse> {
+  let index = Math.max(0, after);
+
+  while (true) {
+    while (index < buffer.events.length) {
+      yield buffer.events[index];
+      index++;
+    }
+
+    if (buffer.finished) return;
+
+    await new Promise<void>((resolve) => {
+      buffer.waiters.add(resolve);
+    });
+  }
+}
+
+/**
+ * Wraps a StreamResponse iterator in a streaming NDJSON response
+ * Cancelling the response only detaches this reader, not the chat request
+ */
+export function createNdjsonResponse(
+  events: AsyncGenerator<StreamResponse>,
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await events.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(JSON.stringify(value) + "\n"));
+    },
+    async cancel() {
+      await events.return(undefined);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
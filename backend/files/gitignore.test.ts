@@ -0,0 +1,33 @@
+import { assertEquals } from "@std/assert";
+import { matchGitignore, parseGitignore } from "./gitignore.ts";
+
+const rules = parseGitignore(`
+# dependencies
+node_modules/
+*.log
+!keep.log
+/dist
+docs/**/*.tmp
+`);
+
+Deno.test("matchGitignore - matches unanchored patterns at any depth", () => {
+  assertEquals(matchGitignore(rules, "node_modules", true), true);
+  assertEquals(matchGitignore(rules, "packages/a/node_modules", true), true);
+  assertEquals(matchGitignore(rules, "logs/server.log", false), true);
+});
+
+Deno.test("matchGitignore - directory patterns skip files", () => {
+  assertEquals(matchGitignore(rules, "node_modules", false), undefined);
+});
+
+Deno.test("matchGitignore - anchored patterns only match at the root", () => {
+  assertEquals(matchGitignore(rules, "dist", true), true);
+  assertEquals(matchGitignore(rules, "frontend/dist", true), undefined);
+  assertEquals(matchGitignore(rules, "docs/a/b/c.tmp", false), true);
+  assertEquals(matchGitignore(rules, "docs/c.tmp", false), true);
+});
+
+Deno.test("matchGitignore - later negations re-include files", () => {
+  assertEquals(matchGitignore(rules, "keep.log", false), false);
+  assertEquals(matchGitignore(rules, "src/main.ts", false), undefined);
+});
@@ -0,0 +1,102 @@
+// A compiled line of a .gitignore file
+export interface GitignoreRule {
+  regex: RegExp;
+  negate: boolean;
+  // Patterns with a trailing "/" only match directories
+  directoryOnly: boolean;
+}
+
+/**
+ * Converts a gitignore glob to a regular expression source
+ * Supports "*", "?", "**" and character classes
+ */
+function globToRegexSource(glob: string): string {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" everything
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, "^")}]`;
+        i = end;
+      }
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return source;
+}
+
+/**
+ * Parses the contents of a .gitignore file into ordered rules
+ */
+export function parseGitignore(content: string): GitignoreRule[] {
+  const rules: GitignoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let pattern = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!pattern || pattern.startsWith("#")) continue;
+
+    const negate = pattern.startsWith("!");
+    if (negate) pattern = pattern.slice(1);
+    if (pattern.startsWith("\\#") || pattern.startsWith("\\!")) {
+      pattern = pattern.slice(1);
+    }
+
+    const directoryOnly = pattern.endsWith("/");
+    if (directoryOnly) pattern = pattern.slice(0, -1);
+    if (!pattern) continue;
+
+    // A slash anywhere but the end anchors the pattern to the .gitignore directory
+    const anchored = pattern.includes("/");
+    if (pattern.startsWith("/")) pattern = pattern.slice(1);
+
+    const source = globToRegexSource(pattern);
+    rules.push({
+      regex: new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`),
+      negate,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Applies rules to a path relative to the .gitignore directory
+ * @returns true or false when a rule matched (the last match wins),
+ * undefined when no rule applies
+ */
+export function matchGitignore(
+  rules: GitignoreRule[],
+  relativePath: string,
+  isDirectory: boolean,
+): boolean | undefined {
+  let ignored: boolean | undefined;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.regex.test(relativePath)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
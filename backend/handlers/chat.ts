@@ -1,17 +1,90 @@
 import { Context } from "hono";
 import { AbortError, query } from "@anthropic-ai/claude-code";
-import type { ChatRequest, StreamResponse } from "../../shared/types.ts";
+import type { CanUseTool, SDKUserMessage } from "@anthropic-ai/claude-code";
+import type {
+  BudgetExceeded,
+  ChatAttachment,
+  ChatRequest,
+  PermissionMode,
+  StreamResponse,
+} from "../../shared/types.ts";
 import { convertWindowsPathToWSL } from "../history/pathUtils.ts";
+import {
+  denyPendingPermissions,
+  type PendingPermission,
+} from "./permission.ts";
+import {
+  createBudgetTracker,
+  isCostExceeded,
+  recordMessageCost,
+} from "../chat/budget.ts";
+import {
+  buildPromptContent,
+  isImageAttachment,
+  type PromptContentBlock,
+  saveFileAttachments,
+} from "../chat/attachments.ts";
+import {
+  appendStreamEvent,
+  type ChatStreamBuffer,
+  createNdjsonResponse,
+  createStreamBuffer,
+  finishStreamBuffer,
+  readStreamEvents,
+  STREAM_RETENTION_MS,
+} from "../chat/streamBuffer.ts";
+import {
+  attachSessionRequest,
+  type SessionWatchers,
+} from "../chat/sessionMirror.ts";
+import { validateChatRequest } from "../chat/requestValidation.ts";
+
+// Reason given to Claude for prompts still open when a request ends
+const PERMISSION_REQUEST_ENDED =
+  "The request ended before permission was granted";
+
+/**
+ * Creates the streaming input for a single chat turn
+ * canUseTool requires streaming input, and stdin must stay open until the turn
+ * finishes so the SDK can deliver permission answers to the CLI
+ * @param content - User message text or content blocks, sent as the only prompt
+ * @param sessionId - Optional session ID for conversation continuity
+ * @param finished - Resolves once the turn has produced its result
+ * @returns AsyncGenerator yielding the user message
+ */
+async function* createPromptStream(
+  content: string | PromptContentBlock[],
+  sessionId: string | undefined,
+  finished: Promise<void>,
+): AsyncGenerator<SDKUserMessage> {
+  yield {
+    type: "user",
+    message: { role: "user", content },
+    parent_tool_use_id: null,
+    session_id: sessionId || "",
+  };
+  await finished;
+}
 
 /**
  * Executes a Claude command and yields streaming responses
  * @param message - User message or command
  * @param requestId - Unique request identifier for abort functionality
  * @param requestAbortControllers - Shared map of abort controllers
+ * @param pendingPermissions - Shared map of tool permission prompts awaiting an answer
  * @param sessionId - Optional session ID for conversation continuity
  * @param allowedTools - Optional array of allowed tool names
+ * @param disallowedTools - Optional array of denied tool rules
  * @param workingDirectory - Optional working directory for Claude execution
  * @param thinking - Optional thinking configuration for Claude
+ * @param model - Optional model to use instead of the CLI default
+ * @param fallbackModel - Optional model to fall back to when the primary model is overloaded
+ * @param permissionMode - Optional permission mode (default, acceptEdits, bypassPermissions, plan)
+ * @param customSystemPrompt - Optional system prompt replacing the default one
+ * @param appendSystemPrompt - Optional text appended to the default system prompt
+ * @param maxTurns - Optional limit on agentic turns
+ * @param maxCostUsd - Optional spend ceiling; the request is aborted once crossed
+ * @param attachments - Optional images and files sent with the message
  * @param debugMode - Enable debug logging
  * @returns AsyncGenerator yielding StreamResponse objects
  */
@@ -19,22 +92,28 @@ async function* executeClaudeCommand(
   message: string,
   requestId: string,
   requestAbortControllers: Map<string, AbortController>,
+  pendingPermissions: Map<string, PendingPermission>,
   sessionId?: string,
   allowedTools?: string[],
+  disallowedTools?: string[],
   workingDirectory?: string,
   thinking?: { type: "enabled"; budget_tokens: number },
+  model?: string,
+  fallbackModel?: string,
+  permissionMode?: PermissionMode,
+  customSystemPrompt?: string,
+  appendSystemPrompt?: string,
+  maxTurns?: number,
+  maxCostUsd?: number,
+  attachments?: ChatAttachment[],
   debugMode?: boolean,
 ): AsyncGenerator<StreamResponse> {
   let abortController: AbortController;
+  // Set when a guardrail stops the request; reported instead of done/aborted.
+  // Cast so TypeScript does not narrow it to null, as consumeQuery assigns it
+  let budgetExceeded = null as BudgetExceeded | null;
 
   try {
-    // Process commands that start with '/'
-    let processedMessage = message;
-    if (message.startsWith("/")) {
-      // Remove the '/' and send just the command
-      processedMessage = message.substring(1);
-    }
-
     // Create and store AbortController for this request
     abortController = new AbortController();
     requestAbortControllers.set(requestId, abortController);
@@ -113,38 +192,220 @@ async function* executeClaudeCommand(
     console.log(
       `[Chat] Starting Claude query with session: ${sessionId || "new"}`,
     );
+    if (permissionMode && permissionMode !== "default") {
+      console.log(`[Chat] Using permission mode: ${permissionMode}`);
+    }
+    if (model) {
+      console.log(
+        `[Chat] Using model: ${model}${
+          fallbackModel ? ` (fallback: ${fallbackModel})` : ""
+        }`,
+      );
+    }
+
+    if (customSystemPrompt || appendSystemPrompt) {
+      console.log(
+        `[Chat] Using ${
+          customSystemPrompt ? "custom" : "appended"
+        } system prompt`,
+      );
+    }
+
+    if (maxTurns || maxCostUsd) {
+      console.log(
+        `[Chat] Guardrails: max turns ${maxTurns ?? "none"}, max cost ${
+          maxCostUsd !== undefined ? `$${maxCostUsd}` : "none"
+        }`,
+      );
+    }
+    const budget = createBudgetTracker(maxCostUsd);
+
+    // Images go inline as content blocks, other files are referenced by path
+    const images = (attachments ?? []).filter(isImageAttachment);
+    const filePaths = await saveFileAttachments(
+      (attachments ?? []).filter((attachment) =>
+        !isImageAttachment(attachment)
+      ),
+      workingDirectory,
+    );
+    if (attachments?.length) {
+      console.log(
+        `[Chat] Attachments: ${images.length} images, ${filePaths.length} files`,
+      );
+    }
+    // Messages starting with '/' are passed through unchanged so the CLI
+    // expands built-in and custom slash commands itself
+    const promptContent = buildPromptContent(
+      message,
+      images,
+      filePaths,
+    );
+
+    // Merge SDK messages and permission prompts into one ordered stream
+    const events: StreamResponse[] = [];
+    let wakeUp: (() => void) | null = null;
+    let queryFinished = false;
+    let queryError: unknown = null;
+    const pushEvent = (event: StreamResponse) => {
+      events.push(event);
+      wakeUp?.();
+    };
+
+    // Resolved when the turn ends so the prompt stream can close stdin
+    let endPrompt: () => void = () => {};
+    const promptFinished = new Promise<void>((resolve) => {
+      endPrompt = resolve;
+    });
 
-    for await (
-      const sdkMessage of query({
-        prompt: processedMessage,
-        options: {
-          abortController,
-          pathToClaudeCodeExecutable: claudePath,
-          ...(sessionId ? { resume: sessionId } : {}),
-          ...(allowedTools ? { allowedTools } : {}),
-          ...(workingDirectory ? { cwd: workingDirectory } : {}),
-          ...(thinking ? { thinking } : {}),
-        },
-      })
-    ) {
-      // Debug logging of raw SDK messages
-      if (debugMode) {
-        console.debug("[DEBUG] Claude SDK Message:");
-        console.debug(JSON.stringify(sdkMessage, null, 2));
-        console.debug("---");
+    // Pause the tool call until the browser answers via /api/permission/:requestId
+    const canUseTool: CanUseTool = (toolName, input) =>
+      new Promise((resolve) => {
+        const permissionId = crypto.randomUUID();
+        pendingPermissions.set(permissionId, {
+          requestId,
+          toolName,
+          resolve: (response) => {
+            // Lets every device mirroring the request close its prompt
+            pushEvent({
+              type: "permission_resolved",
+              resolved: {
+                permissionId,
+                behavior: response.behavior,
+              },
+            });
+            resolve(
+              response.behavior === "allow"
+                ? { behavior: "allow", updatedInput: input }
+                : {
+                  behavior: "deny",
+                  message: response.message ||
+                    "The user denied permission to use this tool",
+                },
+            );
+          },
+        });
+
+        console.log(`[Chat] Waiting for permission to use ${toolName}`);
+        pushEvent({
+          type: "permission_request",
+          permission: { permissionId, toolName, input },
+        });
+      });
+
+    const consumeQuery = async () => {
+      try {
+        for await (
+          const sdkMessage of query({
+            prompt: createPromptStream(
+              promptContent,
+              sessionId,
+              promptFinished,
+            ),
+            options: {
+              abortController,
+              pathToClaudeCodeExecutable: claudePath,
+              canUseTool,
+              ...(sessionId ? { resume: sessionId } : {}),
+              ...(allowedTools ? { allowedTools } : {}),
+              ...(disallowedTools ? { disallowedTools } : {}),
+              ...(workingDirectory ? { cwd: workingDirectory } : {}),
+              ...(thinking ? { thinking } : {}),
+              ...(model ? { model } : {}),
+              // The SDK rejects a fallback model identical to the primary model
+              ...(fallbackModel && fallbackModel !== model
+                ? { fallbackModel }
+                : {}),
+              ...(permissionMode ? { permissionMode } : {}),
+              ...(customSystemPrompt ? { customSystemPrompt } : {}),
+              ...(appendSystemPrompt ? { appendSystemPrompt } : {}),
+              ...(maxTurns ? { maxTurns } : {}),
+            },
+          })
+        ) {
+          // Debug logging of raw SDK messages
+          if (debugMode) {
+            console.debug("[DEBUG] Claude SDK Message:");
+            console.debug(JSON.stringify(sdkMessage, null, 2));
+            console.debug("---");
+          }
+
+          // Log session ID extraction for debugging
+          if (sdkMessage.session_id) {
+            console.log(
+              `[Session] SDK Message type: ${sdkMessage.type}, session_id: ${sdkMessage.session_id}`,
+            );
+          }
+
+          pushEvent({
+            type: "claude_json",
+            data: sdkMessage,
+          });
+
+          recordMessageCost(budget, sdkMessage);
+          if (!budgetExceeded && isCostExceeded(budget)) {
+            budgetExceeded = {
+              reason: "max_cost",
+              limit: budget.maxCostUsd!,
+              actual: budget.costUsd,
+            };
+            console.log(
+              `[Chat] Cost ceiling of $${budget.maxCostUsd} crossed ($${
+                budget.costUsd.toFixed(4)
+              }), aborting request ${requestId}`,
+            );
+            requestAbortControllers.get(requestId)?.abort();
+          }
+
+          if (sdkMessage.type === "result") {
+            if (sdkMessage.subtype === "error_max_turns" && maxTurns) {
+              budgetExceeded ??= {
+                reason: "max_turns",
+                limit: maxTurns,
+                actual: sdkMessage.num_turns,
+              };
+            }
+            endPrompt();
+          }
+        }
+      } catch (error) {
+        queryError = error;
+      } finally {
+        endPrompt();
+        queryFinished = true;
+        wakeUp?.();
       }
+    };
+    consumeQuery();
 
-      // Log session ID extraction for debugging
-      if (sdkMessage.session_id) {
-        console.log(
-          `[Session] SDK Message type: ${sdkMessage.type}, session_id: ${sdkMessage.session_id}`,
-        );
+    while (true) {
+      const event = events.shift();
+      if (event) {
+        yield event;
+        continue;
       }
+      if (queryFinished) break;
+      await new Promise<void>((resolve) => {
+        wakeUp = resolve;
+      });
+      wakeUp = null;
+    }
+
+    // Prompts left open by an abort or error are denied here, so their
+    // permission_resolved events still reach every device before the end
+    denyPendingPermissions(
+      pendingPermissions,
+      requestId,
+      PERMISSION_REQUEST_ENDED,
+    );
+    yield* events.splice(0);
+
+    if (queryError) {
+      throw queryError;
+    }
 
-      yield {
-        type: "claude_json",
-        data: sdkMessage,
-      };
+    if (budgetExceeded) {
+      yield { type: "budget_exceeded", budget: budgetExceeded };
+      return;
     }
 
     console.log("[Chat] Claude query completed successfully");
@@ -153,7 +414,9 @@ async function* executeClaudeCommand(
   } catch (error) {
     // Check if error is due to abort
     if (error instanceof AbortError) {
-      yield { type: "aborted" };
+      yield budgetExceeded
+        ? { type: "budget_exceeded", budget: budgetExceeded }
+        : { type: "aborted" };
     } else {
       // Handle Claude Code exit code 1 specifically
       const errorMessage = error instanceof Error
@@ -239,22 +502,133 @@ async function* executeClaudeCommand(
     if (requestAbortControllers.has(requestId)) {
       requestAbortControllers.delete(requestId);
     }
+
+    // Deny any prompts still waiting so the SDK is not left hanging
+    denyPendingPermissions(
+      pendingPermissions,
+      requestId,
+      PERMISSION_REQUEST_ENDED,
+    );
   }
 }
 
+/**
+ * Starts a chat request in the background, buffering its events
+ * The run is independent of any connection so clients can reattach to it
+ * @param chatRequest - Chat request from the client
+ * @param requestAbortControllers - Shared map of abort controllers
+ * @param pendingPermissions - Shared map of tool permission prompts awaiting an answer
+ * @param chatStreams - Shared map of buffered chat streams for reattaching
+ * @param sessionWatchers - Shared map of devices mirroring sessions
+ * @param debugMode - Enable debug logging
+ * @returns Buffer receiving the request's StreamResponse events
+ */
+export function startChatRequest(
+  chatRequest: ChatRequest,
+  requestAbortControllers: Map<string, AbortController>,
+  pendingPermissions: Map<string, PendingPermission>,
+  chatStreams: Map<string, ChatStreamBuffer>,
+  sessionWatchers: SessionWatchers,
+  debugMode?: boolean,
+): ChatStreamBuffer {
+  const buffer = createStreamBuffer(chatRequest.message);
+  chatStreams.set(chatRequest.requestId, buffer);
+  if (chatRequest.sessionId) {
+    attachSessionRequest(
+      sessionWatchers,
+      chatRequest.requestId,
+      buffer,
+      chatRequest.sessionId,
+    );
+  }
+
+  (async () => {
+    try {
+      for await (
+        const chunk of executeClaudeCommand(
+          chatRequest.message,
+          chatRequest.requestId,
+          requestAbortControllers,
+          pendingPermissions,
+          chatRequest.sessionId,
+          chatRequest.allowedTools,
+          chatRequest.disallowedTools,
+          chatRequest.workingDirectory,
+          chatRequest.thinking,
+          chatRequest.model,
+          chatRequest.fallbackModel,
+          chatRequest.permissionMode,
+          chatRequest.customSystemPrompt,
+          chatRequest.appendSystemPrompt,
+          chatRequest.maxTurns,
+          chatRequest.maxCostUsd,
+          chatRequest.attachments,
+          debugMode,
+        )
+      ) {
+        appendStreamEvent(buffer, chunk);
+
+        // New sessions get their ID from the SDK's first message
+        const sessionId = chunk.type === "claude_json"
+          ? (chunk.data as { session_id?: string }).session_id
+          : undefined;
+        if (sessionId) {
+          attachSessionRequest(
+            sessionWatchers,
+            chatRequest.requestId,
+            buffer,
+            sessionId,
+          );
+        }
+      }
+    } catch (error) {
+      appendStreamEvent(buffer, {
+        type: "error",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      finishStreamBuffer(buffer);
+      setTimeout(() => {
+        if (chatStreams.get(chatRequest.requestId) === buffer) {
+          chatStreams.delete(chatRequest.requestId);
+        }
+      }, STREAM_RETENTION_MS);
+    }
+  })();
+
+  return buffer;
+}
+
 /**
  * Handles POST /api/chat requests with streaming responses
  * @param c - Hono context object with config variables
  * @param requestAbortControllers - Shared map of abort controllers
+ * @param pendingPermissions - Shared map of tool permission prompts awaiting an answer
+ * @param chatStreams - Shared map of buffered chat streams for reattaching
+ * @param sessionWatchers - Shared map of devices mirroring sessions
  * @returns Response with streaming NDJSON
  */
 export async function handleChatRequest(
   c: Context,
   requestAbortControllers: Map<string, AbortController>,
+  pendingPermissions: Map<string, PendingPermission>,
+  chatStreams: Map<string, ChatStreamBuffer>,
+  sessionWatchers: SessionWatchers,
 ) {
-  const chatRequest: ChatRequest = await c.req.json();
   const { debugMode } = c.var.config;
 
+  let chatRequest: ChatRequest;
+  try {
+    chatRequest = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const validationError = validateChatRequest(chatRequest);
+  if (validationError) {
+    return c.json({ error: validationError }, 400);
+  }
+
   if (debugMode) {
     console.debug(
       "[DEBUG] Received chat request:",
@@ -262,43 +636,53 @@ export async function handleChatRequest(
     );
   }
 
-  const stream = new ReadableStream({
-    async start(controller) {
-      try {
-        for await (
-          const chunk of executeClaudeCommand(
-            chatRequest.message,
-            chatRequest.requestId,
-            requestAbortControllers,
-            chatRequest.sessionId,
-            chatRequest.allowedTools,
-            chatRequest.workingDirectory,
-            chatRequest.thinking,
-            debugMode,
-          )
-        ) {
-          const data = JSON.stringify(chunk) + "\n";
-          controller.enqueue(new TextEncoder().encode(data));
-        }
-        controller.close();
-      } catch (error) {
-        const errorResponse: StreamResponse = {
-          type: "error",
-          error: error instanceof Error ? error.message : String(error),
-        };
-        controller.enqueue(
-          new TextEncoder().encode(JSON.stringify(errorResponse) + "\n"),
-        );
-        controller.close();
-      }
-    },
-  });
-
-  return new Response(stream, {
-    headers: {
-      "Content-Type": "application/x-ndjson",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
-    },
-  });
+  // Clients can reattach via /api/chat/:requestId/stream if the connection drops
+  const buffer = startChatRequest(
+    chatRequest,
+    requestAbortControllers,
+    pendingPermissions,
+    chatStreams,
+    sessionWatchers,
+    debugMode,
+  );
+
+  return createNdjsonResponse(readStreamEvents(buffer));
+}
+
+/**
+ * Handles GET /api/chat/:requestId/stream requests
+ * Replays buffered events after the given sequence number and keeps
+ * streaming until the chat request finishes
+ * @param c - Hono context object with config variables
+ * @param chatStreams - Shared map of buffered chat streams
+ * @returns Response with streaming NDJSON
+ */
+export function handleChatStreamRequest(
+  c: Context,
+  chatStreams: Map<string, ChatStreamBuffer>,
+) {
+  const { debugMode } = c.var.config;
+  const requestId = c.req.param("requestId");
+  const after = Number(c.req.query("after") ?? "0");
+
+  if (!requestId) {
+    return c.json({ error: "Request ID is required" }, 400);
+  }
+
+  if (!Number.isInteger(after) || after < 0) {
+    return c.json({ error: "after must be a non-negative integer" }, 400);
+  }
+
+  const buffer = chatStreams.get(requestId);
+  if (!buffer) {
+    return c.json({ error: "Stream not found or expired" }, 404);
+  }
+
+  if (debugMode) {
+    console.debug(
+      `[DEBUG] Reattaching to request ${requestId} after event ${after} (${buffer.events.length} buffered)`,
+    );
+  }
+
+  return createNdjsonResponse(readStreamEvents(buffer, after));
 }
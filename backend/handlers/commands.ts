@@ -0,0 +1,209 @@
+import { Context } from "hono";
+import type {
+  CommandFileResponse,
+  CommandFileScope,
+  SaveCommandFileRequest,
+  SlashCommandsResponse,
+} from "../../shared/types.ts";
+import {
+  BUILTIN_COMMANDS,
+  getCommandsDir,
+  isValidCommandFile,
+  listCustomCommands,
+} from "../chat/slashCommands.ts";
+
+/**
+ * Resolves and validates the location of a command file
+ * @returns The file path, or an error message for a 400 response
+ */
+function resolveCommandFile(
+  scope: unknown,
+  file: unknown,
+  workingDirectory?: unknown,
+): { path: string } | { error: string } {
+  if (scope !== "project" && scope !== "user") {
+    return { error: 'Scope must be "project" or "user"' };
+  }
+  if (typeof file !== "string" || !isValidCommandFile(file)) {
+    return { error: "Invalid command file name" };
+  }
+  // Request bodies are JSON, so any value may arrive here
+  if (workingDirectory !== undefined && typeof workingDirectory !== "string") {
+    return { error: "Working directory must be a string" };
+  }
+
+  const commandsDir = getCommandsDir(scope, workingDirectory);
+  if (!commandsDir) {
+    return {
+      error: scope === "project"
+        ? "Working directory is required"
+        : "HOME environment variable not found",
+    };
+  }
+  return { path: `${commandsDir}/${file}.md` };
+}
+
+/**
+ * Handles GET /api/commands requests
+ * Lists built-in slash commands plus custom ones from the project's
+ * .claude/commands and the user's ~/.claude/commands directories
+ * @param c - Hono context object with config variables
+ * @returns JSON response with SlashCommandsResponse
+ */
+export async function handleCommandsRequest(c: Context) {
+  const workingDirectory = c.req.query("workingDirectory");
+
+  try {
+    const projectDir = getCommandsDir("project", workingDirectory);
+    const userDir = getCommandsDir("user");
+    const [projectCommands, userCommands] = await Promise.all([
+      projectDir ? listCustomCommands(projectDir, "project") : [],
+      userDir ? listCustomCommands(userDir, "user") : [],
+    ]);
+
+    const response: SlashCommandsResponse = {
+      commands: [...projectCommands, ...userCommands, ...BUILTIN_COMMANDS],
+    };
+    return c.json(response);
+  } catch (error) {
+    console.error("[Commands] Error listing slash commands:", error);
+    return c.json(
+      {
+        error: "Failed to list slash commands",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+/**
+ * Handles GET /api/commands/file requests
+ * Returns the markdown source of one custom command
+ * @param c - Hono context object with config variables
+ * @returns JSON response with CommandFileResponse
+ */
+export async function handleCommandFileRequest(c: Context) {
+  const scope = c.req.query("scope");
+  const file = c.req.query("file");
+  const resolved = resolveCommandFile(
+    scope,
+    file,
+    c.req.query("workingDirectory"),
+  );
+  if ("error" in resolved) {
+    return c.json({ error: resolved.error }, 400);
+  }
+
+  try {
+    const response: CommandFileResponse = {
+      scope: scope as CommandFileScope,
+      file: file!,
+      content: await Deno.readTextFile(resolved.path),
+    };
+    return c.json(response);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return c.json({ error: "Command file not found" }, 404);
+    }
+    console.error("[Commands] Error reading command file:", error);
+    return c.json(
+      {
+        error: "Failed to read command file",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+/**
+ * Handles POST /api/commands/file requests
+ * Creates or overwrites a custom command file, creating its directory
+ * @param c - Hono context object with config variables
+ * @returns JSON response with the saved CommandFileResponse
+ */
+export async function handleCommandFileSave(c: Context) {
+  const { debugMode } = c.var.config;
+
+  let body: SaveCommandFileRequest;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  if (typeof body?.content !== "string") {
+    return c.json({ error: "Content is required" }, 400);
+  }
+
+  const resolved = resolveCommandFile(
+    body.scope,
+    body.file,
+    body.workingDirectory,
+  );
+  if ("error" in resolved) {
+    return c.json({ error: resolved.error }, 400);
+  }
+
+  try {
+    await Deno.mkdir(resolved.path.replace(/\/[^/]+$/, ""), {
+      recursive: true,
+    });
+    await Deno.writeTextFile(resolved.path, body.content);
+
+    if (debugMode) {
+      console.debug(`[DEBUG] Saved command file ${resolved.path}`);
+    }
+
+    const response: CommandFileResponse = {
+      scope: body.scope,
+      file: body.file,
+      content: body.content,
+    };
+    return c.json(response);
+  } catch (error) {
+    console.error("[Commands] Error saving command file:", error);
+    return c.json(
+      {
+        error: "Failed to save command file",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+/**
+ * Handles DELETE /api/commands/file requests
+ * Removes a custom command file
+ * @param c - Hono context object with config variables
+ * @returns JSON response confirming the deletion
+ */
+export async function handleCommandFileDelete(c: Context) {
+  const resolved = resolveCommandFile(
+    c.req.query("scope"),
+    c.req.query("file"),
+    c.req.query("workingDirectory"),
+  );
+  if ("error" in resolved) {
+    return c.json({ error: resolved.error }, 400);
+  }
+
+  try {
+    await Deno.remove(resolved.path);
+    return c.json({ success: true });
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return c.json({ error: "Command file not found" }, 404);
+    }
+    console.error("[Commands] Error deleting command file:", error);
+    return c.json(
+      {
+        error: "Failed to delete command file",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
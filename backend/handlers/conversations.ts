@@ -1,18 +1,50 @@
 import { Context } from "hono";
+import type {
+  ConversationExportFormat,
+  ConversationPageOrder,
+  ForkConversationRequest,
+  ForkConversationResponse,
+  ToolResultContentResponse,
+} from "../../shared/types.ts";
 import { validateEncodedProjectName } from "../history/pathUtils.ts";
-import { loadConversation } from "../history/conversationLoader.ts";
+import {
+  loadConversation,
+  readConversationLines,
+  validateSessionId,
+} from "../history/conversationLoader.ts";
+import {
+  createConversationPage,
+  DEFAULT_PAGE_SIZE,
+  findToolResult,
+  MAX_PAGE_SIZE,
+} from "../history/conversationPages.ts";
+import {
+  EXPORT_FORMATS,
+  exportConversation,
+} from "../history/conversationExport.ts";
+import {
+  createForkLines,
+  findForkPoint,
+  findPromptLine,
+  recordSessionFork,
+} from "../history/forks.ts";
 
 /**
  * Handles GET /api/projects/:encodedProjectName/histories/:sessionId requests
- * Retrieves detailed conversation history for a specific session
+ * Retrieves one page of the conversation history for a specific session.
+ * Query: order=asc|desc (default asc), limit, and the cursor of the last page
  * @param c - Hono context object with config variables
- * @returns JSON response with conversation details
+ * @returns JSON response with ConversationPage
  */
 export async function handleConversationRequest(c: Context) {
   try {
     const { debugMode } = c.var.config;
     const encodedProjectName = c.req.param("encodedProjectName");
     const sessionId = c.req.param("sessionId");
+    const order = (c.req.query("order") || "asc") as ConversationPageOrder;
+    const limitParam = c.req.query("limit");
+    const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_SIZE;
+    const cursor = c.req.query("cursor");
 
     if (!encodedProjectName) {
       return c.json({ error: "Encoded project name is required" }, 400);
@@ -26,6 +58,17 @@ export async function handleConversationRequest(c: Context) {
       return c.json({ error: "Invalid encoded project name" }, 400);
     }
 
+    if (order !== "asc" && order !== "desc") {
+      return c.json({ error: "order must be asc or desc" }, 400);
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return c.json(
+        { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` },
+        400,
+      );
+    }
+
     if (debugMode) {
       console.debug(
         `[DEBUG] Fetching conversation details for project: ${encodedProjectName}, session: ${sessionId}`,
@@ -45,13 +88,22 @@ export async function handleConversationRequest(c: Context) {
       }, 404);
     }
 
+    const page = createConversationPage(conversationHistory, {
+      order,
+      limit,
+      cursor,
+    });
+    if (!page) {
+      return c.json({ error: "Invalid cursor", details: cursor }, 400);
+    }
+
     if (debugMode) {
       console.debug(
-        `[DEBUG] Loaded conversation with ${conversationHistory.messages.length} messages`,
+        `[DEBUG] Loaded conversation with ${conversationHistory.messages.length} messages, returning ${page.messages.length}`,
       );
     }
 
-    return c.json(conversationHistory);
+    return c.json(page);
   } catch (error) {
     console.error("Error fetching conversation details:", error);
 
@@ -78,3 +130,228 @@ export async function handleConversationRequest(c: Context) {
     }, 500);
   }
 }
+
+/**
+ * Handles GET /api/projects/:encodedProjectName/histories/:sessionId/tool-results/:toolUseId requests
+ * Retrieves the full output of a tool call that conversation pages shortened
+ * @param c - Hono context object with config variables
+ * @returns JSON response with ToolResultContentResponse
+ */
+export async function handleToolResultRequest(c: Context) {
+  try {
+    const encodedProjectName = c.req.param("encodedProjectName");
+    const sessionId = c.req.param("sessionId");
+    const toolUseId = c.req.param("toolUseId");
+
+    if (
+      !encodedProjectName || !validateEncodedProjectName(encodedProjectName)
+    ) {
+      return c.json({ error: "Invalid encoded project name" }, 400);
+    }
+
+    if (!sessionId || !validateSessionId(sessionId)) {
+      return c.json({ error: "Invalid session ID format" }, 400);
+    }
+
+    const conversationHistory = await loadConversation(
+      encodedProjectName,
+      sessionId,
+    );
+    if (!conversationHistory) {
+      return c.json({ error: "Conversation not found", sessionId }, 404);
+    }
+
+    const content = findToolResult(conversationHistory.messages, toolUseId);
+    if (content === null) {
+      return c.json({ error: "Tool result not found", toolUseId }, 404);
+    }
+
+    const response: ToolResultContentResponse = { toolUseId, content };
+    return c.json(response);
+  } catch (error) {
+    console.error("Error fetching tool result:", error);
+
+    return c.json({
+      error: "Failed to fetch tool result",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+}
+
+/**
+ * Handles GET /api/projects/:encodedProjectName/histories/:sessionId/export requests
+ * Exports a conversation as a download in the format given by ?format=md|html|json
+ * @param c - Hono context object with config variables
+ * @returns The exported document as an attachment
+ */
+export async function handleConversationExport(c: Context) {
+  try {
+    const encodedProjectName = c.req.param("encodedProjectName");
+    const sessionId = c.req.param("sessionId");
+    const format = (c.req.query("format") || "md") as ConversationExportFormat;
+
+    if (
+      !encodedProjectName || !validateEncodedProjectName(encodedProjectName)
+    ) {
+      return c.json({ error: "Invalid encoded project name" }, 400);
+    }
+
+    if (!sessionId || !validateSessionId(sessionId)) {
+      return c.json({ error: "Invalid session ID format" }, 400);
+    }
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return c.json(
+        { error: `format must be one of ${EXPORT_FORMATS.join(", ")}` },
+        400,
+      );
+    }
+
+    const conversationHistory = await loadConversation(
+      encodedProjectName,
+      sessionId,
+    );
+    if (!conversationHistory) {
+      return c.json({ error: "Conversation not found", sessionId }, 404);
+    }
+
+    // Bundles keep the transcript as written, for importing elsewhere
+    const transcriptLines = format === "json"
+      ? await readConversationLines(encodedProjectName, sessionId)
+      : null;
+
+    const exported = exportConversation(
+      conversationHistory,
+      format,
+      encodedProjectName,
+      transcriptLines ?? [],
+    );
+    return c.body(exported.content, 200, {
+      "Content-Type": exported.contentType,
+      "Content-Disposition": `attachment; filename="${exported.fileName}"`,
+    });
+  } catch (error) {
+    console.error("Error exporting conversation:", error);
+
+    return c.json({
+      error: "Failed to export conversation",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+}
+
+/**
+ * Handles POST /api/projects/:encodedProjectName/histories/:sessionId/fork requests
+ * Starts a new session holding the conversation before the given user prompt,
+ * which can then be resumed like any other session
+ * @param c - Hono context object with config variables
+ * @returns JSON response with ForkConversationResponse
+ */
+export async function handleConversationFork(c: Context) {
+  try {
+    const { debugMode } = c.var.config;
+    const encodedProjectName = c.req.param("encodedProjectName");
+    const sessionId = c.req.param("sessionId");
+
+    if (
+      !encodedProjectName || !validateEncodedProjectName(encodedProjectName)
+    ) {
+      return c.json({ error: "Invalid encoded project name" }, 400);
+    }
+
+    if (!sessionId || !validateSessionId(sessionId)) {
+      return c.json({ error: "Invalid session ID format" }, 400);
+    }
+
+    let body: ForkConversationRequest;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    // A JSON null body is parsed without error
+    const laterOccurrences = body?.laterOccurrences ?? 0;
+    if (
+      typeof body?.content !== "string" ||
+      !Number.isInteger(laterOccurrences) || laterOccurrences < 0
+    ) {
+      return c.json(
+        { error: "content and a non-negative laterOccurrences are required" },
+        400,
+      );
+    }
+
+    if (
+      body.messageUuid !== undefined &&
+      (typeof body.messageUuid !== "string" || !body.messageUuid)
+    ) {
+      return c.json({ error: "messageUuid must be a non-empty string" }, 400);
+    }
+
+    const homeDir = Deno.env.get("HOME");
+    if (!homeDir) {
+      return c.json({ error: "Server configuration error" }, 500);
+    }
+
+    const historyDir = `${homeDir}/.claude/projects/${encodedProjectName}`;
+    const lines = await readConversationLines(encodedProjectName, sessionId);
+    if (!lines) {
+      return c.json({ error: "Conversation not found", sessionId }, 404);
+    }
+
+    // Forks copy lines with new UUIDs, so a chat continuing in a fork may
+    // still hold the parent's; the prompt text is the fallback
+    let forkPoint = body.messageUuid
+      ? findPromptLine(lines, body.messageUuid)
+      : -1;
+    if (forkPoint === -1) {
+      forkPoint = findForkPoint(lines, body.content, laterOccurrences);
+    }
+    if (forkPoint === -1) {
+      return c.json({ error: "Message not found in conversation" }, 404);
+    }
+
+    const forkSessionId = crypto.randomUUID();
+    const fork = createForkLines(lines, forkPoint, forkSessionId);
+    if (!fork.branchUuid) {
+      return c.json(
+        { error: "Cannot fork before the first message of a conversation" },
+        400,
+      );
+    }
+
+    await Deno.writeTextFile(
+      `${historyDir}/${forkSessionId}.jsonl`,
+      fork.lines.map((line) => JSON.stringify(line)).join("\n") + "\n",
+    );
+    await recordSessionFork(encodedProjectName, {
+      sessionId: forkSessionId,
+      parentSessionId: sessionId,
+      branchUuid: fork.branchUuid,
+      createdAt: new Date().toISOString(),
+    });
+
+    console.log(
+      `[Conversations] Forked session ${sessionId} into ${forkSessionId} (${fork.lines.length} lines)`,
+    );
+    if (debugMode) {
+      console.debug(
+        `[DEBUG] Fork branches at line ${forkPoint}, uuid ${fork.branchUuid}`,
+      );
+    }
+
+    const response: ForkConversationResponse = {
+      sessionId: forkSessionId,
+      parentSessionId: sessionId,
+    };
+    return c.json(response);
+  } catch (error) {
+    console.error("Error forking conversation:", error);
+
+    return c.json({
+      error: "Failed to fork conversation",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+}
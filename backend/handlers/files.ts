@@ -1,8 +1,19 @@
 import { Context } from "hono";
+import type {
+  FileIndexRequest,
+  FileIndexResponse,
+  FileLinesRequest,
+  FileLinesResponse,
+} from "../../shared/types.ts";
 import {
   convertWindowsPathToWSL,
   convertWSLPathToWindows,
 } from "../history/pathUtils.ts";
+import {
+  type GitignoreRule,
+  matchGitignore,
+  parseGitignore,
+} from "../files/gitignore.ts";
 
 interface FileItem {
   name: string;
@@ -415,3 +426,224 @@ export async function handleFilesList(c: Context) {
     }, 500);
   }
 }
+
+// Upper bound on indexed files so huge trees cannot stall the picker
+const MAX_INDEXED_FILES = 20000;
+
+// Directories skipped even without a .gitignore entry
+const ALWAYS_SKIPPED_DIRS = new Set([".git", "node_modules"]);
+
+// Upper bound on lines inlined into a prompt from one file
+const MAX_INLINE_LINES = 500;
+
+/**
+ * Lists project files through git, which honours every .gitignore,
+ * .git/info/exclude and the global excludes file
+ * @returns Relative paths, or null when the directory is not a git work tree
+ */
+async function listGitFiles(root: string): Promise<string[] | null> {
+  try {
+    const result = await new Deno.Command("git", {
+      args: [
+        "ls-files",
+        "--cached",
+        "--others",
+        "--exclude-standard",
+        "-z",
+      ],
+      cwd: root,
+      stdout: "piped",
+      stderr: "piped",
+    }).output();
+
+    if (!result.success) return null;
+
+    const output = new TextDecoder().decode(result.stdout);
+    return Array.from(new Set(output.split("\0").filter(Boolean)));
+  } catch {
+    // git is not installed
+    return null;
+  }
+}
+
+/**
+ * Walks a directory tree, applying .gitignore files found along the way
+ * Used for projects that are not git repositories
+ */
+async function walkProjectFiles(
+  root: string,
+  limit: number,
+): Promise<string[]> {
+  const files: string[] = [];
+  // Rules of each .gitignore, with the directory it applies to
+  type Scope = { base: string; rules: GitignoreRule[] };
+
+  const isIgnored = (scopes: Scope[], path: string, isDirectory: boolean) => {
+    let ignored = false;
+    for (const scope of scopes) {
+      const relative = scope.base ? path.slice(scope.base.length + 1) : path;
+      ignored = matchGitignore(scope.rules, relative, isDirectory) ?? ignored;
+    }
+    return ignored;
+  };
+
+  const walk = async (relativeDir: string, parentScopes: Scope[]) => {
+    const dir = relativeDir ? `${root}/${relativeDir}` : root;
+    let scopes = parentScopes;
+    try {
+      const rules = parseGitignore(
+        await Deno.readTextFile(`${dir}/.gitignore`),
+      );
+      scopes = [...parentScopes, { base: relativeDir, rules }];
+    } catch {
+      // No .gitignore in this directory
+    }
+
+    let entries: Deno.DirEntry[];
+    try {
+      entries = await Array.fromAsync(Deno.readDir(dir));
+    } catch (error) {
+      console.warn(`[Files] Failed to read directory ${dir}:`, error);
+      return;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (files.length >= limit) return;
+      const path = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory) {
+        if (ALWAYS_SKIPPED_DIRS.has(entry.name)) continue;
+        if (isIgnored(scopes, path, true)) continue;
+        await walk(path, scopes);
+      } else if (entry.isFile && !isIgnored(scopes, path, false)) {
+        files.push(path);
+      }
+    }
+  };
+
+  await walk("", []);
+  return files;
+}
+
+/**
+ * Handles POST /api/files/index requests
+ * Returns every file below a project directory, excluding gitignored ones,
+ * for the chat input's @-mention picker
+ */
+export async function handleFilesIndex(c: Context) {
+  try {
+    const { debugMode } = c.var.config;
+    const request: FileIndexRequest = await c.req.json();
+
+    if (!request.path) {
+      return c.json({ error: "Path is required" }, 400);
+    }
+
+    const root = await normalizePath(request.path);
+    try {
+      const stat = await Deno.stat(root);
+      if (!stat.isDirectory) {
+        return c.json(
+          { error: `Path is not a directory: ${request.path}` },
+          400,
+        );
+      }
+    } catch (error) {
+      return c.json({
+        error: `Cannot access path: ${request.path}`,
+        details: error instanceof Error ? error.message : String(error),
+      }, 404);
+    }
+
+    const gitFiles = await listGitFiles(root);
+    // Ask the walk for one extra file to detect truncation
+    const files = gitFiles ??
+      await walkProjectFiles(root, MAX_INDEXED_FILES + 1);
+    files.sort();
+
+    const response: FileIndexResponse = {
+      root,
+      files: files.slice(0, MAX_INDEXED_FILES),
+      truncated: files.length > MAX_INDEXED_FILES,
+    };
+
+    if (debugMode) {
+      console.debug(
+        `[DEBUG] Indexed ${response.files.length} files in ${root} using ${
+          gitFiles ? "git" : "directory walk"
+        }`,
+      );
+    }
+
+    return c.json(response);
+  } catch (error) {
+    console.error("Error indexing files:", error);
+    return c.json({
+      error: "Failed to index files",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+}
+
+/**
+ * Handles POST /api/files/lines requests
+ * Returns a line range of a file inside the project so it can be inlined
+ * into a prompt
+ */
+export async function handleFileLines(c: Context) {
+  try {
+    const request: FileLinesRequest = await c.req.json();
+
+    if (!request.root || !request.path) {
+      return c.json({ error: "Root and path are required" }, 400);
+    }
+    if (!Number.isInteger(request.startLine) || request.startLine < 1) {
+      return c.json({ error: "startLine must be a positive integer" }, 400);
+    }
+
+    // Resolve symlinks and ".." before checking the file stays in the project
+    let root: string;
+    let filePath: string;
+    try {
+      root = await Deno.realPath(request.root);
+      filePath = await Deno.realPath(
+        request.path.startsWith("/") ? request.path : `${root}/${request.path}`,
+      );
+    } catch {
+      return c.json({ error: `File not found: ${request.path}` }, 404);
+    }
+    if (!filePath.startsWith(`${root.replace(/\/+$/, "")}/`)) {
+      return c.json({ error: "File is outside the project directory" }, 403);
+    }
+
+    const lines = (await Deno.readTextFile(filePath)).split(/\r?\n/);
+    const totalLines = lines.length;
+    if (request.startLine > totalLines) {
+      return c.json({
+        error: `File has only ${totalLines} lines`,
+      }, 400);
+    }
+
+    const endLine = Math.min(
+      Math.max(request.endLine ?? request.startLine, request.startLine),
+      request.startLine + MAX_INLINE_LINES - 1,
+      totalLines,
+    );
+
+    const response: FileLinesResponse = {
+      path: request.path,
+      startLine: request.startLine,
+      endLine,
+      totalLines,
+      content: lines.slice(request.startLine - 1, endLine).join("\n"),
+    };
+    return c.json(response);
+  } catch (error) {
+    console.error("Error reading file lines:", error);
+    return c.json({
+      error: "Failed to read file lines",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+}
@@ -1,16 +1,42 @@
 import { Context } from "hono";
-import type { HistoryListResponse } from "../../shared/types.ts";
+import type {
+  HistoryImportRequest,
+  HistoryImportResponse,
+  HistoryListResponse,
+  HistorySearchResponse,
+  HistoryTreeResponse,
+} from "../../shared/types.ts";
 import { validateEncodedProjectName } from "../history/pathUtils.ts";
-import { parseAllHistoryFiles } from "../history/parser.ts";
-import { groupConversations } from "../history/grouping.ts";
+import {
+  type HistoryCache,
+  loadConversationFiles,
+} from "../history/historyCache.ts";
+import {
+  buildConversationTree,
+  groupConversations,
+} from "../history/grouping.ts";
+import { readSessionForks } from "../history/forks.ts";
+import {
+  searchHistory,
+  type SearchIndexCache,
+  tokenize,
+} from "../history/searchIndex.ts";
+import { prepareHistoryImport } from "../history/historyImport.ts";
+
+const DEFAULT_SEARCH_LIMIT = 50;
+const MAX_SEARCH_LIMIT = 200;
 
 /**
  * Handles GET /api/projects/:encodedProjectName/histories requests
  * Fetches conversation history list for a specific project
  * @param c - Hono context object with config variables
+ * @param historyCache - Shared cache of parsed conversation files
  * @returns JSON response with conversation history list
  */
-export async function handleHistoriesRequest(c: Context) {
+export async function handleHistoriesRequest(
+  c: Context,
+  historyCache: HistoryCache,
+) {
   try {
     const { debugMode } = c.var.config;
     const encodedProjectName = c.req.param("encodedProjectName");
@@ -55,7 +81,11 @@ export async function handleHistoriesRequest(c: Context) {
       throw error;
     }
 
-    const conversationFiles = await parseAllHistoryFiles(historyDir);
+    const conversationFiles = await loadConversationFiles(
+      historyCache,
+      encodedProjectName,
+      historyDir,
+    );
 
     if (debugMode) {
       console.debug(
@@ -64,7 +94,10 @@ export async function handleHistoriesRequest(c: Context) {
     }
 
     // Group conversations and remove duplicates
-    const conversations = groupConversations(conversationFiles);
+    const conversations = groupConversations(
+      conversationFiles,
+      await readSessionForks(encodedProjectName),
+    );
 
     if (debugMode) {
       console.debug(
@@ -86,3 +119,277 @@ export async function handleHistoriesRequest(c: Context) {
     }, 500);
   }
 }
+
+/**
+ * Handles GET /api/projects/:encodedProjectName/histories/tree requests
+ * Lists every session file of a project with the session it was continued,
+ * resumed or forked from
+ * @param c - Hono context object with config variables
+ * @param historyCache - Shared cache of parsed conversation files
+ * @returns JSON response with the project's conversation tree
+ */
+export async function handleHistoryTreeRequest(
+  c: Context,
+  historyCache: HistoryCache,
+) {
+  try {
+    const { debugMode } = c.var.config;
+    const encodedProjectName = c.req.param("encodedProjectName");
+
+    if (!encodedProjectName) {
+      return c.json({ error: "Encoded project name is required" }, 400);
+    }
+
+    if (!validateEncodedProjectName(encodedProjectName)) {
+      return c.json({ error: "Invalid encoded project name" }, 400);
+    }
+
+    const homeDir = Deno.env.get("HOME");
+    if (!homeDir) {
+      return c.json({ error: "Server configuration error" }, 500);
+    }
+
+    const historyDir = `${homeDir}/.claude/projects/${encodedProjectName}`;
+
+    try {
+      const dirInfo = await Deno.stat(historyDir);
+      if (!dirInfo.isDirectory) {
+        return c.json({ error: "Project not found" }, 404);
+      }
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return c.json({ error: "Project not found" }, 404);
+      }
+      throw error;
+    }
+
+    const conversationFiles = await loadConversationFiles(
+      historyCache,
+      encodedProjectName,
+      historyDir,
+    );
+    const nodes = buildConversationTree(
+      conversationFiles,
+      await readSessionForks(encodedProjectName),
+    );
+
+    if (debugMode) {
+      const linked = nodes.filter((node) => node.parentSessionId).length;
+      console.debug(
+        `[DEBUG] Conversation tree: ${nodes.length} sessions, ${linked} linked to a parent`,
+      );
+    }
+
+    const response: HistoryTreeResponse = { nodes };
+
+    return c.json(response);
+  } catch (error) {
+    console.error("Error building conversation tree:", error);
+
+    return c.json({
+      error: "Failed to build conversation tree",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+}
+
+/**
+ * Handles POST /api/projects/:encodedProjectName/histories/import requests
+ * Adds a session file or export bundle from another machine to the project's
+ * history, where it can be listed and resumed like the project's own
+ * @param c - Hono context object with config variables
+ * @param historyCache - Shared cache of parsed conversation files
+ * @returns JSON response with HistoryImportResponse
+ */
+export async function handleHistoryImport(
+  c: Context,
+  historyCache: HistoryCache,
+) {
+  try {
+    const { debugMode } = c.var.config;
+    const encodedProjectName = c.req.param("encodedProjectName");
+
+    if (
+      !encodedProjectName || !validateEncodedProjectName(encodedProjectName)
+    ) {
+      return c.json({ error: "Invalid encoded project name" }, 400);
+    }
+
+    let body: HistoryImportRequest;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    if (
+      typeof body.content !== "string" || typeof body.projectPath !== "string"
+    ) {
+      return c.json({ error: "content and projectPath are required" }, 400);
+    }
+
+    // The CLI finds a project's history by its path with '/' and '.' as '-'
+    const expectedEncoded = body.projectPath.replace(/\/$/, "").replace(
+      /[/.]/g,
+      "-",
+    );
+    if (expectedEncoded !== encodedProjectName) {
+      return c.json(
+        { error: "projectPath does not belong to this project" },
+        400,
+      );
+    }
+
+    const prepared = prepareHistoryImport(
+      body.content,
+      body.fileName,
+      body.projectPath,
+    );
+    if ("error" in prepared) {
+      return c.json(
+        { error: "Invalid history file", details: prepared.error },
+        400,
+      );
+    }
+
+    const homeDir = Deno.env.get("HOME");
+    if (!homeDir) {
+      return c.json({ error: "Server configuration error" }, 500);
+    }
+
+    const historyDir = `${homeDir}/.claude/projects/${encodedProjectName}`;
+    await Deno.mkdir(historyDir, { recursive: true });
+    try {
+      await Deno.writeTextFile(
+        `${historyDir}/${prepared.sessionId}.jsonl`,
+        prepared.lines.map((line) => JSON.stringify(line)).join("\n") + "\n",
+        { createNew: true },
+      );
+    } catch (error) {
+      if (error instanceof Deno.errors.AlreadyExists) {
+        return c.json({
+          error: "A session with this ID already exists",
+          sessionId: prepared.sessionId,
+        }, 409);
+      }
+      throw error;
+    }
+
+    // Don't wait for the watcher to list the new session
+    const cachedProject = historyCache.get(encodedProjectName);
+    if (cachedProject) cachedProject.fresh = false;
+
+    console.log(
+      `[History] Imported session ${prepared.sessionId} into ${encodedProjectName} (${prepared.lines.length} lines)`,
+    );
+    if (debugMode) {
+      console.debug(`[DEBUG] Imported from ${body.fileName ?? "upload"}`);
+    }
+
+    const response: HistoryImportResponse = {
+      sessionId: prepared.sessionId,
+      messageCount: prepared.lines.length,
+    };
+    return c.json(response);
+  } catch (error) {
+    console.error("Error importing history:", error);
+
+    return c.json({
+      error: "Failed to import history",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+}
+
+/**
+ * Handles GET /api/histories/search requests
+ * Searches prompts, replies and tool calls across project histories
+ * Query parameters: q (required), project, from, to, tool, file, limit
+ * @param c - Hono context object with config variables
+ * @param searchIndexCache - Shared search indexes of project histories
+ * @returns JSON response with matching messages, newest first
+ */
+export async function handleHistorySearchRequest(
+  c: Context,
+  searchIndexCache: SearchIndexCache,
+) {
+  try {
+    const { debugMode } = c.var.config;
+    const query = c.req.query("q")?.trim();
+    const project = c.req.query("project");
+    const rawLimit = c.req.query("limit");
+    const requestedLimit = rawLimit === undefined
+      ? DEFAULT_SEARCH_LIMIT
+      : Number(rawLimit);
+
+    if (!query) {
+      return c.json({ error: "Search query is required" }, 400);
+    }
+
+    if (!Number.isInteger(requestedLimit) || requestedLimit < 1) {
+      return c.json({ error: "Limit must be a positive integer" }, 400);
+    }
+    const limit = Math.min(requestedLimit, MAX_SEARCH_LIMIT);
+
+    // Punctuation-only queries would otherwise match every message
+    if (tokenize(query).length === 0) {
+      return c.json(
+        { error: "Search query must contain at least one word" },
+        400,
+      );
+    }
+
+    if (project && !validateEncodedProjectName(project)) {
+      return c.json({ error: "Invalid encoded project name" }, 400);
+    }
+
+    const homeDir = Deno.env.get("HOME");
+    if (!homeDir) {
+      return c.json({ error: "Server configuration error" }, 500);
+    }
+
+    const projects: string[] = [];
+    if (project) {
+      projects.push(project);
+    } else {
+      try {
+        for await (const entry of Deno.readDir(`${homeDir}/.claude/projects`)) {
+          if (entry.isDirectory) projects.push(entry.name);
+        }
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) throw error;
+      }
+    }
+
+    const startedAt = Date.now();
+    const response: HistorySearchResponse = await searchHistory(
+      searchIndexCache,
+      projects,
+      query,
+      {
+        from: c.req.query("from") || undefined,
+        to: c.req.query("to") || undefined,
+        toolName: c.req.query("tool") || undefined,
+        filePath: c.req.query("file") || undefined,
+      },
+      limit,
+    );
+
+    if (debugMode) {
+      console.debug(
+        `[DEBUG] Search "${query}" in ${projects.length} projects: ${response.results.length} results in ${
+          Date.now() - startedAt
+        }ms`,
+      );
+    }
+
+    return c.json(response);
+  } catch (error) {
+    console.error("Error searching conversation histories:", error);
+
+    return c.json({
+      error: "Failed to search conversation histories",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+}
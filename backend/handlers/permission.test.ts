@@ -0,0 +1,49 @@
+import { assertEquals } from "@std/assert";
+import type { PermissionResponse } from "../../shared/types.ts";
+import {
+  denyPendingPermissions,
+  type PendingPermission,
+  validatePermissionResponse,
+} from "./permission.ts";
+
+Deno.test("validatePermissionResponse - requires an ID and allow or deny", () => {
+  assertEquals(
+    validatePermissionResponse({ permissionId: "p1", behavior: "deny" }),
+    null,
+  );
+  for (
+    const response of [
+      null,
+      { permissionId: "p1" },
+      { permissionId: "", behavior: "allow" },
+      { permissionId: 1, behavior: "allow" },
+    ]
+  ) {
+    assertEquals(
+      validatePermissionResponse(response),
+      "permissionId and behavior (allow or deny) are required",
+    );
+  }
+});
+
+Deno.test("denyPendingPermissions - denies only the ended request's prompts", () => {
+  const answers: PermissionResponse[] = [];
+  const prompt = (requestId: string): PendingPermission => ({
+    requestId,
+    toolName: "Bash",
+    resolve: (response) => answers.push(response),
+  });
+  const pendingPermissions = new Map([
+    ["p1", prompt("r1")],
+    ["p2", prompt("r2")],
+    ["p3", prompt("r1")],
+  ]);
+
+  denyPendingPermissions(pendingPermissions, "r1", "ended");
+
+  assertEquals(answers, [
+    { permissionId: "p1", behavior: "deny", message: "ended" },
+    { permissionId: "p3", behavior: "deny", message: "ended" },
+  ]);
+  assertEquals(Array.from(pendingPermissions.keys()), ["p2"]);
+});
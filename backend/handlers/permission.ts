@@ -0,0 +1,114 @@
+import { Context } from "hono";
+import type { PermissionResponse } from "../../shared/types.ts";
+
+/**
+ * A tool permission prompt waiting for the browser's answer
+ */
+export interface PendingPermission {
+  requestId: string;
+  toolName: string;
+  resolve: (response: PermissionResponse) => void;
+}
+
+/**
+ * Checks a permission answer received from a client
+ * @returns The reason the answer is invalid, or null if it can be applied
+ */
+export function validatePermissionResponse(response: unknown): string | null {
+  const answer = response as Partial<PermissionResponse> | null;
+  if (
+    !answer || typeof answer !== "object" ||
+    typeof answer.permissionId !== "string" || !answer.permissionId ||
+    (answer.behavior !== "allow" && answer.behavior !== "deny")
+  ) {
+    return "permissionId and behavior (allow or deny) are required";
+  }
+  return null;
+}
+
+/**
+ * Answers a pending permission prompt belonging to the given chat request
+ * @param pendingPermissions - Map of permission IDs to pending permission prompts
+ * @param requestId - Chat request the prompt belongs to
+ * @param response - The user's decision
+ * @returns true if a matching prompt was waiting and has been resolved
+ */
+export function resolvePendingPermission(
+  pendingPermissions: Map<string, PendingPermission>,
+  requestId: string,
+  response: PermissionResponse,
+): boolean {
+  const pending = pendingPermissions.get(response.permissionId);
+  if (!pending || pending.requestId !== requestId) {
+    return false;
+  }
+
+  pendingPermissions.delete(response.permissionId);
+  pending.resolve(response);
+  return true;
+}
+
+/**
+ * Denies every prompt of a chat request that is still waiting for an answer
+ * @param pendingPermissions - Map of permission IDs to pending permission prompts
+ * @param requestId - Chat request that ended
+ * @param message - Reason passed to Claude with the denial
+ */
+export function denyPendingPermissions(
+  pendingPermissions: Map<string, PendingPermission>,
+  requestId: string,
+  message: string,
+) {
+  for (const [permissionId, pending] of pendingPermissions) {
+    if (pending.requestId === requestId) {
+      pendingPermissions.delete(permissionId);
+      pending.resolve({ permissionId, behavior: "deny", message });
+    }
+  }
+}
+
+/**
+ * Handles POST /api/permission/:requestId requests
+ * Resolves a pending tool permission prompt so the paused chat turn can continue
+ * @param c - Hono context object with config variables
+ * @param pendingPermissions - Map of permission IDs to pending permission prompts
+ * @returns JSON response indicating success or failure
+ */
+export async function handlePermissionResponse(
+  c: Context,
+  pendingPermissions: Map<string, PendingPermission>,
+) {
+  const { debugMode } = c.var.config;
+  const requestId = c.req.param("requestId");
+
+  if (!requestId) {
+    return c.json({ error: "Request ID is required" }, 400);
+  }
+
+  let body: PermissionResponse;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const validationError = validatePermissionResponse(body);
+  if (validationError) {
+    return c.json({ error: validationError }, 400);
+  }
+
+  if (!resolvePendingPermission(pendingPermissions, requestId, body)) {
+    return c.json(
+      { error: "Permission request not found or already answered" },
+      404,
+    );
+  }
+
+  if (debugMode) {
+    console.debug(
+      `[DEBUG] Permission ${body.behavior} for request ${requestId}`,
+    );
+  }
+
+  return c.json({ success: true });
+}
@@ -0,0 +1,181 @@
+import { Context } from "hono";
+import type {
+  PermissionRules,
+  PermissionRulesResponse,
+  SavePermissionRulesRequest,
+} from "../../shared/types.ts";
+
+// Claude Code settings files holding permissions.allow/deny for a project
+const LOCAL_SETTINGS_FILE = "settings.local.json";
+const PROJECT_SETTINGS_FILE = "settings.json";
+
+/**
+ * Trims, de-duplicates and drops empty entries from a rule list
+ */
+function normalizeRules(rules: unknown): string[] {
+  if (!Array.isArray(rules)) return [];
+
+  const normalized = rules
+    .filter((rule): rule is string => typeof rule === "string")
+    .map((rule) => rule.trim())
+    .filter((rule) => rule.length > 0);
+
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * Reads a Claude Code settings file, returning an empty object if it is missing
+ */
+async function readSettingsFile(
+  filePath: string,
+): Promise<Record<string, unknown>> {
+  let content: string;
+  try {
+    content = await Deno.readTextFile(filePath);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return {};
+    throw error;
+  }
+
+  const settings = JSON.parse(content);
+  return settings && typeof settings === "object" ? settings : {};
+}
+
+/**
+ * Extracts permissions.allow/deny from parsed settings
+ */
+function extractRules(settings: Record<string, unknown>): PermissionRules {
+  const permissions = (settings.permissions ?? {}) as Record<string, unknown>;
+  return {
+    allow: normalizeRules(permissions.allow),
+    deny: normalizeRules(permissions.deny),
+  };
+}
+
+/**
+ * Validates that the working directory exists and returns its .claude directory
+ */
+async function getClaudeSettingsDir(
+  workingDirectory: string,
+): Promise<string | null> {
+  try {
+    const dirInfo = await Deno.stat(workingDirectory);
+    if (!dirInfo.isDirectory) return null;
+  } catch {
+    return null;
+  }
+  return `${workingDirectory.replace(/[\\/]+$/, "")}/.claude`;
+}
+
+/**
+ * Handles GET /api/permissions/rules requests
+ * Returns the permission rules saved for a project
+ * @param c - Hono context object with config variables
+ * @returns JSON response with PermissionRulesResponse
+ */
+export async function handlePermissionRulesRequest(c: Context) {
+  const workingDirectory = c.req.query("workingDirectory");
+
+  if (!workingDirectory) {
+    return c.json({ error: "Working directory is required" }, 400);
+  }
+
+  const settingsDir = await getClaudeSettingsDir(workingDirectory);
+  if (!settingsDir) {
+    return c.json({ error: "Directory not found" }, 400);
+  }
+
+  try {
+    const localSettings = await readSettingsFile(
+      `${settingsDir}/${LOCAL_SETTINGS_FILE}`,
+    );
+    const projectSettings = await readSettingsFile(
+      `${settingsDir}/${PROJECT_SETTINGS_FILE}`,
+    );
+
+    const response: PermissionRulesResponse = {
+      rules: extractRules(localSettings),
+      projectRules: extractRules(projectSettings),
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error("[Permissions] Error reading permission rules:", error);
+    return c.json(
+      {
+        error: "Failed to read permission rules",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+/**
+ * Handles POST /api/permissions/rules requests
+ * Saves permission rules to the project's .claude/settings.local.json,
+ * preserving any other settings already in the file
+ * @param c - Hono context object with config variables
+ * @returns JSON response with the saved rules
+ */
+export async function handlePermissionRulesSave(c: Context) {
+  const { debugMode } = c.var.config;
+
+  let body: SavePermissionRulesRequest;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  if (
+    typeof body !== "object" || body === null ||
+    typeof body.workingDirectory !== "string" || !body.workingDirectory
+  ) {
+    return c.json({ error: "Working directory is required" }, 400);
+  }
+
+  const settingsDir = await getClaudeSettingsDir(body.workingDirectory);
+  if (!settingsDir) {
+    return c.json({ error: "Directory not found" }, 400);
+  }
+
+  const rules: PermissionRules = {
+    allow: normalizeRules(body.allow),
+    deny: normalizeRules(body.deny),
+  };
+
+  try {
+    const settingsPath = `${settingsDir}/${LOCAL_SETTINGS_FILE}`;
+    const settings = await readSettingsFile(settingsPath);
+    const permissions = (settings.permissions ?? {}) as Record<
+      string,
+      unknown
+    >;
+
+    settings.permissions = { ...permissions, ...rules };
+
+    await Deno.mkdir(settingsDir, { recursive: true });
+    await Deno.writeTextFile(
+      settingsPath,
+      JSON.stringify(settings, null, 2) + "\n",
+    );
+
+    if (debugMode) {
+      console.debug(
+        `[DEBUG] Saved ${rules.allow.length} allow and ${rules.deny.length} deny rules to ${settingsPath}`,
+      );
+    }
+
+    return c.json({ rules });
+  } catch (error) {
+    console.error("[Permissions] Error saving permission rules:", error);
+    return c.json(
+      {
+        error: "Failed to save permission rules",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
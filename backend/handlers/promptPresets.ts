@@ -0,0 +1,209 @@
+import { Context } from "hono";
+import type {
+  PromptPreset,
+  PromptPresetsResponse,
+  SavePromptPresetsRequest,
+} from "../../shared/types.ts";
+
+// Presets live outside the project so repos without a writable CLAUDE.md work too
+const PRESETS_FILE = "webui_prompt_presets.json";
+
+// Stored file shape: presets keyed by project working directory
+type PresetsFile = Record<string, PromptPreset[]>;
+
+/**
+ * Returns the path of the presets file in the user's ~/.claude directory
+ */
+function getPresetsPath(): string | null {
+  const home = Deno.env.get("HOME") || Deno.env.get("USERPROFILE");
+  return home ? `${home}/.claude/${PRESETS_FILE}` : null;
+}
+
+/**
+ * Normalizes a project path so trailing slashes map to the same key
+ */
+function getProjectKey(workingDirectory: string): string {
+  return workingDirectory.replace(/[\\/]+$/, "") || "/";
+}
+
+/**
+ * Reads the presets file, returning an empty object if it is missing
+ */
+async function readPresetsFile(filePath: string): Promise<PresetsFile> {
+  let content: string;
+  try {
+    content = await Deno.readTextFile(filePath);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return {};
+    throw error;
+  }
+
+  const presets = JSON.parse(content);
+  return presets && typeof presets === "object" ? presets : {};
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === "string";
+}
+
+/**
+ * Checks the presets a client asked to save
+ * @returns The reason the presets are invalid, or null if they can be saved
+ */
+function validatePresets(presets: unknown): string | null {
+  if (!Array.isArray(presets)) {
+    return "Presets must be a list";
+  }
+  for (const preset of presets) {
+    if (
+      !preset || typeof preset !== "object" ||
+      typeof preset.name !== "string" ||
+      !isOptionalString(preset.id) ||
+      !isOptionalString(preset.customSystemPrompt) ||
+      !isOptionalString(preset.appendSystemPrompt)
+    ) {
+      return "Each preset needs a name, and its prompts must be strings";
+    }
+  }
+  return null;
+}
+
+/**
+ * Drops presets without a name or any prompt text and trims the rest
+ */
+function normalizePresets(presets: unknown): PromptPreset[] {
+  if (!Array.isArray(presets)) return [];
+
+  return presets
+    // The stored file may have been edited by hand
+    .filter((preset): preset is PromptPreset =>
+      !!preset && typeof preset === "object" &&
+      typeof preset.name === "string" &&
+      isOptionalString(preset.customSystemPrompt) &&
+      isOptionalString(preset.appendSystemPrompt)
+    )
+    .map((preset) => ({
+      id: typeof preset.id === "string" && preset.id
+        ? preset.id
+        : crypto.randomUUID(),
+      name: preset.name.trim(),
+      ...(preset.customSystemPrompt?.trim()
+        ? { customSystemPrompt: preset.customSystemPrompt.trim() }
+        : {}),
+      ...(preset.appendSystemPrompt?.trim()
+        ? { appendSystemPrompt: preset.appendSystemPrompt.trim() }
+        : {}),
+    }))
+    .filter((preset) =>
+      preset.name.length > 0 &&
+      (preset.customSystemPrompt || preset.appendSystemPrompt)
+    );
+}
+
+/**
+ * Handles GET /api/prompt-presets requests
+ * Returns the system prompt presets saved for a project
+ * @param c - Hono context object with config variables
+ * @returns JSON response with PromptPresetsResponse
+ */
+export async function handlePromptPresetsRequest(c: Context) {
+  const workingDirectory = c.req.query("workingDirectory");
+
+  if (!workingDirectory) {
+    return c.json({ error: "Working directory is required" }, 400);
+  }
+
+  const presetsPath = getPresetsPath();
+  if (!presetsPath) {
+    return c.json({ error: "HOME environment variable not found" }, 500);
+  }
+
+  try {
+    const presetsFile = await readPresetsFile(presetsPath);
+    const response: PromptPresetsResponse = {
+      presets: normalizePresets(presetsFile[getProjectKey(workingDirectory)]),
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error("[PromptPresets] Error reading prompt presets:", error);
+    return c.json(
+      {
+        error: "Failed to read prompt presets",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+/**
+ * Handles POST /api/prompt-presets requests
+ * Replaces the presets of one project in ~/.claude/webui_prompt_presets.json,
+ * leaving other projects untouched
+ * @param c - Hono context object with config variables
+ * @returns JSON response with the saved presets
+ */
+export async function handlePromptPresetsSave(c: Context) {
+  const { debugMode } = c.var.config;
+
+  let body: SavePromptPresetsRequest;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  if (
+    !body || typeof body.workingDirectory !== "string" || !body.workingDirectory
+  ) {
+    return c.json({ error: "Working directory is required" }, 400);
+  }
+
+  const validationError = validatePresets(body.presets);
+  if (validationError) {
+    return c.json({ error: validationError }, 400);
+  }
+
+  const presetsPath = getPresetsPath();
+  if (!presetsPath) {
+    return c.json({ error: "HOME environment variable not found" }, 500);
+  }
+
+  const presets = normalizePresets(body.presets);
+  const projectKey = getProjectKey(body.workingDirectory);
+
+  try {
+    const presetsFile = await readPresetsFile(presetsPath);
+    if (presets.length > 0) {
+      presetsFile[projectKey] = presets;
+    } else {
+      delete presetsFile[projectKey];
+    }
+
+    await Deno.mkdir(presetsPath.replace(/[\\/][^\\/]+$/, ""), {
+      recursive: true,
+    });
+    await Deno.writeTextFile(
+      presetsPath,
+      JSON.stringify(presetsFile, null, 2) + "\n",
+    );
+
+    if (debugMode) {
+      console.debug(
+        `[DEBUG] Saved ${presets.length} prompt presets for ${projectKey}`,
+      );
+    }
+
+    return c.json({ presets });
+  } catch (error) {
+    console.error("[PromptPresets] Error saving prompt presets:", error);
+    return c.json(
+      {
+        error: "Failed to save prompt presets",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
@@ -1,75 +1,290 @@
 import { Context } from "hono";
+import type {
+  SessionConflictResponse,
+  SessionListResponse,
+  SessionSaveRequest,
+  SessionUpdateRequest,
+} from "../../shared/types.ts";
+import { validateSessionId } from "../history/conversationLoader.ts";
+import {
+  deleteSession,
+  getSession,
+  listSessions,
+  paginateSessions,
+  saveSession,
+  type SessionWriteResult,
+  updateSession,
+} from "../sessions/sessionStore.ts";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Checks the body of a save request against the session it is sent to
+ * @returns The session to store, or the reason it was rejected
+ */
+function parseSessionBody(
+  sessionId: string,
+  body: unknown,
+): SessionSaveRequest | { error: string } {
+  const session = body as Partial<SessionSaveRequest> | null;
+  if (!session?.metadata || !Array.isArray(session.messages)) {
+    return { error: "Session metadata and messages are required" };
+  }
+  if (session.metadata.sessionId !== sessionId) {
+    return { error: "Session ID does not match the request" };
+  }
+  if (
+    typeof session.metadata.title !== "string" ||
+    typeof session.metadata.projectPath !== "string"
+  ) {
+    return { error: "Session title and project path must be strings" };
+  }
+  if (
+    session.metadata.tags !== undefined && !isStringArray(session.metadata.tags)
+  ) {
+    return { error: "Tags must be a list of strings" };
+  }
+  if (!isRevision(session.baseRevision)) {
+    return { error: "Base revision must be a non-negative integer" };
+  }
+  return session as SessionSaveRequest;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) &&
+    value.every((item) => typeof item === "string");
+}
+
+function isRevision(value: unknown): value is number | undefined {
+  return value === undefined ||
+    (Number.isInteger(value) && (value as number) >= 0);
+}
+
+/**
+ * Refuses a change built on a revision another device already replaced
+ */
+function conflictResponse(c: Context, result: SessionWriteResult) {
+  const response: SessionConflictResponse = {
+    error: "Session was changed on another device",
+    metadata: result.metadata,
+  };
+  return c.json(response, 409);
+}
+
+/**
+ * Handles GET /api/sessions requests
+ * Lists stored sessions, most recently updated first, filtered by project,
+ * tag or search text and split into pages
+ * @param c - Hono context object with config variables
+ * @returns JSON response with one page of session metadata
+ */
+export async function handleSessionList(c: Context) {
+  try {
+    const limit = Math.min(
+      Number(c.req.query("limit")) || DEFAULT_PAGE_SIZE,
+      MAX_PAGE_SIZE,
+    );
+    if (limit < 1) {
+      return c.json({ error: "Limit must be positive" }, 400);
+    }
+
+    const sessions = await listSessions({
+      projectPath: c.req.query("project"),
+      search: c.req.query("q"),
+      tag: c.req.query("tag"),
+    });
+
+    const response: SessionListResponse | null = paginateSessions(
+      sessions,
+      limit,
+      c.req.query("cursor"),
+    );
+    if (!response) {
+      return c.json({ error: "Invalid cursor" }, 400);
+    }
+
+    return c.json(response);
+  } catch (error) {
+    console.error("Error listing sessions:", error);
+    return c.json({
+      error: "Failed to list sessions",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+}
 
 /**
- * Handles POST /api/sessions/:sessionId/save requests
- * Receives session data from sendBeacon for reliable save on page unload
- * @param c - Hono context object
- * @returns Empty response with 204 status
+ * Handles PUT /api/sessions/:sessionId and POST /api/sessions/:sessionId/save
+ * requests
+ * Stores a session with its messages; the POST form receives sendBeacon
+ * saves on page unload, which cannot read the response. Saves with a base
+ * revision are refused with 409 if the session changed since; beacons must
+ * name one and are also refused if they hold fewer messages than stored.
+ * @param c - Hono context object with config variables
+ * @returns JSON response with the stored metadata, or 204 for beacon saves
  */
 export async function handleSessionSave(c: Context) {
   try {
+    const { debugMode } = c.var.config;
     const sessionId = c.req.param("sessionId");
-    const sessionData = await c.req.json();
 
-    // Log the save attempt (in production, you might want to persist this)
-    console.log(
-      `[Session] Saving session ${sessionId} with ${
-        sessionData.messages?.length || 0
-      } messages`,
-    );
+    if (!validateSessionId(sessionId)) {
+      return c.json({ error: "Invalid session ID format" }, 400);
+    }
 
-    // Since the frontend uses IndexedDB for storage, this endpoint
-    // primarily serves as a fallback for sendBeacon on page unload
-    // In a production environment, you might want to:
-    // 1. Store sessions in a database
-    // 2. Implement server-side session recovery
-    // 3. Add authentication/authorization
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON in request body" }, 400);
+    }
+    const session = parseSessionBody(sessionId, body);
+    if ("error" in session) {
+      return c.json({ error: session.error }, 400);
+    }
 
-    return c.body(null, 204);
+    const fromBeacon = c.req.method === "POST";
+    if (fromBeacon && session.baseRevision === undefined) {
+      return c.json({ error: "Base revision is required" }, 400);
+    }
+
+    const { baseRevision, ...stored } = session;
+    const result = await saveSession(stored, baseRevision, fromBeacon);
+    if (result.conflict) {
+      return conflictResponse(c, result);
+    }
+
+    if (debugMode) {
+      console.debug(
+        `[DEBUG] Saved session ${sessionId} at revision ${result.metadata.revision}`,
+      );
+    }
+
+    return fromBeacon ? c.body(null, 204) : c.json(result.metadata);
   } catch (error) {
     console.error("Error saving session:", error);
-    return c.json({ error: "Failed to save session" }, 500);
+    return c.json({
+      error: "Failed to save session",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
   }
 }
 
 /**
  * Handles GET /api/sessions/:sessionId requests
- * Retrieves a specific session (placeholder for future server-side storage)
- * @param c - Hono context object
- * @returns JSON response with session data or 404
+ * Retrieves a stored session with its messages
+ * @param c - Hono context object with config variables
+ * @returns JSON response with the session, or 404 if it is not stored
  */
 export async function handleSessionGet(c: Context) {
   try {
     const sessionId = c.req.param("sessionId");
 
-    // This is a placeholder for future server-side session storage
-    // Currently, sessions are stored in the browser's IndexedDB
-    console.log(`[Session] Request for session ${sessionId}`);
+    if (!validateSessionId(sessionId)) {
+      return c.json({ error: "Invalid session ID format" }, 400);
+    }
 
-    // Return 404 to indicate client should use local storage
-    return c.json({ error: "Session not found on server" }, 404);
+    const session = await getSession(sessionId);
+    if (!session) {
+      return c.json({ error: "Session not found on server" }, 404);
+    }
+
+    return c.json(session);
   } catch (error) {
     console.error("Error retrieving session:", error);
-    return c.json({ error: "Failed to retrieve session" }, 500);
+    return c.json({
+      error: "Failed to retrieve session",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+}
+
+/**
+ * Handles PATCH /api/sessions/:sessionId requests
+ * Renames or retags a stored session without resending its messages;
+ * updates with a base revision are refused with 409 if the session changed
+ * @param c - Hono context object with config variables
+ * @returns JSON response with the updated metadata, or 404 if it is not stored
+ */
+export async function handleSessionUpdate(c: Context) {
+  try {
+    const sessionId = c.req.param("sessionId");
+
+    if (!validateSessionId(sessionId)) {
+      return c.json({ error: "Invalid session ID format" }, 400);
+    }
+
+    let update: SessionUpdateRequest;
+    try {
+      update = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON in request body" }, 400);
+    }
+
+    if (
+      update.title !== undefined &&
+      (typeof update.title !== "string" || !update.title.trim())
+    ) {
+      return c.json({ error: "Title must be a non-empty string" }, 400);
+    }
+    if (update.tags !== undefined && !isStringArray(update.tags)) {
+      return c.json({ error: "Tags must be a list of strings" }, 400);
+    }
+    if (!isRevision(update.baseRevision)) {
+      return c.json(
+        { error: "Base revision must be a non-negative integer" },
+        400,
+      );
+    }
+
+    const result = await updateSession(sessionId, {
+      title: update.title?.trim(),
+      tags: update.tags,
+      baseRevision: update.baseRevision,
+    });
+    if (!result) {
+      return c.json({ error: "Session not found on server" }, 404);
+    }
+    if (result.conflict) {
+      return conflictResponse(c, result);
+    }
+
+    return c.json(result.metadata);
+  } catch (error) {
+    console.error("Error updating session:", error);
+    return c.json({
+      error: "Failed to update session",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
   }
 }
 
 /**
  * Handles DELETE /api/sessions/:sessionId requests
- * Deletes a session (placeholder for future server-side storage)
- * @param c - Hono context object
- * @returns Empty response with 204 status
+ * Deletes a stored session
+ * @param c - Hono context object with config variables
+ * @returns Empty response with 204 status, or 404 if it is not stored
  */
 export async function handleSessionDelete(c: Context) {
   try {
     const sessionId = c.req.param("sessionId");
 
-    console.log(`[Session] Deleting session ${sessionId}`);
+    if (!validateSessionId(sessionId)) {
+      return c.json({ error: "Invalid session ID format" }, 400);
+    }
+
+    if (!(await deleteSession(sessionId))) {
+      return c.json({ error: "Session not found on server" }, 404);
+    }
 
-    // Placeholder for future server-side deletion
+    console.log(`[Session] Deleted session ${sessionId}`);
     return c.body(null, 204);
   } catch (error) {
     console.error("Error deleting session:", error);
-    return c.json({ error: "Failed to delete session" }, 500);
+    return c.json({
+      error: "Failed to delete session",
+      details: error instanceof Error ? error.message : String(error),
+    }, 500);
   }
 }
@@ -0,0 +1,160 @@
+import { assertEquals } from "@std/assert";
+import type { Context } from "hono";
+import type {
+  PermissionResponse,
+  WebSocketClientMessage,
+  WebSocketServerMessage,
+} from "../../shared/types.ts";
+import { handleChatWebSocket } from "./websocket.ts";
+import type { PendingPermission } from "./permission.ts";
+import {
+  appendStreamEvent,
+  type ChatStreamBuffer,
+  createStreamBuffer,
+  finishStreamBuffer,
+} from "../chat/streamBuffer.ts";
+
+// Stands in for the socket Deno.upgradeWebSocket hands to the handler
+class FakeSocket {
+  readyState: number = WebSocket.OPEN;
+  sent: WebSocketServerMessage[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = WebSocket.CLOSED;
+    this.onclose?.();
+  }
+
+  receive(message: WebSocketClientMessage) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+function connect(
+  pendingPermissions = new Map<string, PendingPermission>(),
+  chatStreams = new Map<string, ChatStreamBuffer>(),
+) {
+  const socket = new FakeSocket();
+  const upgradeWebSocket = Deno.upgradeWebSocket;
+  Deno.upgradeWebSocket = () => ({
+    socket: socket as unknown as WebSocket,
+    response: new Response(null),
+  });
+  try {
+    const c = {
+      var: { config: { debugMode: false } },
+      req: {
+        header: () => "websocket",
+        raw: new Request("http://localhost/api/ws"),
+      },
+    } as unknown as Context;
+    handleChatWebSocket(
+      c,
+      new Map(),
+      pendingPermissions,
+      chatStreams,
+      new Map(),
+    );
+  } finally {
+    Deno.upgradeWebSocket = upgradeWebSocket;
+  }
+  return socket;
+}
+
+// Lets forwarded stream events reach the socket
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+Deno.test("handleChatWebSocket - resume replays only events after the given seq", async () => {
+  const buffer = createStreamBuffer();
+  appendStreamEvent(buffer, { type: "claude_json", data: "a" });
+  appendStreamEvent(buffer, { type: "claude_json", data: "b" });
+  appendStreamEvent(buffer, { type: "done" });
+  finishStreamBuffer(buffer);
+  const socket = connect(undefined, new Map([["r1", buffer]]));
+
+  socket.receive({ type: "resume", requestId: "r1", after: 1 });
+  await flush();
+
+  assertEquals(
+    socket.sent.map((message) =>
+      message.type === "stream" ? message.event.seq : message.type
+    ),
+    [2, 3],
+  );
+  socket.close();
+});
+
+Deno.test("handleChatWebSocket - resume ends an expired request with an error event", async () => {
+  const socket = connect();
+
+  socket.receive({ type: "resume", requestId: "gone", after: 4 });
+  await flush();
+
+  assertEquals(socket.sent, [{
+    type: "stream",
+    requestId: "gone",
+    event: { type: "error", error: "Stream not found or expired" },
+  }]);
+  socket.close();
+});
+
+Deno.test("handleChatWebSocket - refuses malformed permission answers", () => {
+  const answers: PermissionResponse[] = [];
+  const pendingPermissions = new Map<string, PendingPermission>([[
+    "p1",
+    {
+      requestId: "r1",
+      toolName: "Bash",
+      resolve: (response) => answers.push(response),
+    },
+  ]]);
+  const socket = connect(pendingPermissions);
+
+  socket.receive({
+    type: "permission_response",
+    requestId: "r1",
+    response: { permissionId: "p1", behavior: "maybe" },
+  } as unknown as WebSocketClientMessage);
+
+  assertEquals(socket.sent, [{
+    type: "error",
+    requestId: "r1",
+    error: "permissionId and behavior (allow or deny) are required",
+  }]);
+  assertEquals(pendingPermissions.has("p1"), true);
+
+  socket.receive({
+    type: "permission_response",
+    requestId: "r1",
+    response: { permissionId: "p1", behavior: "allow" },
+  });
+
+  assertEquals(answers, [{ permissionId: "p1", behavior: "allow" }]);
+  assertEquals(pendingPermissions.has("p1"), false);
+  socket.close();
+});
+
+Deno.test("handleChatWebSocket - ends invalid chat requests with an error event", () => {
+  const socket = connect();
+
+  socket.receive({
+    type: "chat",
+    request: { message: "hi", requestId: "r2", maxTurns: 0 },
+  });
+
+  assertEquals(socket.sent, [{
+    type: "stream",
+    requestId: "r2",
+    event: { type: "error", error: "maxTurns must be a positive integer" },
+  }]);
+  socket.close();
+});
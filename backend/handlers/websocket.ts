@@ -0,0 +1,269 @@
+import { Context } from "hono";
+import type {
+  StreamResponse,
+  WebSocketClientMessage,
+  WebSocketServerMessage,
+} from "../../shared/types.ts";
+import { startChatRequest } from "./chat.ts";
+import { validateChatRequest } from "../chat/requestValidation.ts";
+import {
+  type PendingPermission,
+  resolvePendingPermission,
+  validatePermissionResponse,
+} from "./permission.ts";
+import {
+  type ChatStreamBuffer,
+  readStreamEvents,
+} from "../chat/streamBuffer.ts";
+import {
+  findActiveSessionRequest,
+  type SessionWatchers,
+  watchSession,
+} from "../chat/sessionMirror.ts";
+
+// Server sends a ping this often; sockets silent for two intervals are closed
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Handles GET /api/ws WebSocket upgrades
+ * Multiplexes chat requests, aborts, permission answers and streamed
+ * StreamResponse frames over a single connection. Watched sessions are
+ * mirrored live, so any authenticated device can follow, answer and abort
+ * a request started on another one.
+ * @param c - Hono context object with config variables
+ * @param requestAbortControllers - Shared map of abort controllers
+ * @param pendingPermissions - Shared map of tool permission prompts awaiting an answer
+ * @param chatStreams - Shared map of buffered chat streams
+ * @param sessionWatchers - Shared map of devices mirroring sessions
+ * @returns WebSocket upgrade response
+ */
+export function handleChatWebSocket(
+  c: Context,
+  requestAbortControllers: Map<string, AbortController>,
+  pendingPermissions: Map<string, PendingPermission>,
+  chatStreams: Map<string, ChatStreamBuffer>,
+  sessionWatchers: SessionWatchers,
+) {
+  const { debugMode } = c.var.config;
+
+  if (c.req.header("upgrade")?.toLowerCase() !== "websocket") {
+    return c.json({ error: "Expected a WebSocket upgrade request" }, 426);
+  }
+
+  const { socket, response } = Deno.upgradeWebSocket(c.req.raw);
+
+  // Event readers forwarding buffered streams to this socket, by request ID
+  const readers = new Map<string, AsyncGenerator<StreamResponse>>();
+  // Requests started on this socket are not mirrored back to it
+  const ownRequests = new Set<string>();
+  // Unsubscribe functions of the sessions this socket watches, by session ID
+  const watchedSessions = new Map<string, () => void>();
+  let lastSeen = Date.now();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const send = (message: WebSocketServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const forwardStream = async (requestId: string, after: number) => {
+    const buffer = chatStreams.get(requestId);
+    if (!buffer) {
+      // Sent as a stream event so the client ends the request it is waiting on
+      send({
+        type: "stream",
+        requestId,
+        event: { type: "error", error: "Stream not found or expired" },
+      });
+      return;
+    }
+
+    // A resume replaces any reader already attached for this request
+    readers.get(requestId)?.return(undefined);
+
+    const events = readStreamEvents(buffer, after);
+    readers.set(requestId, events);
+    try {
+      for await (const event of events) {
+        if (
+          socket.readyState !== WebSocket.OPEN ||
+          readers.get(requestId) !== events
+        ) {
+          break;
+        }
+        send({ type: "stream", requestId, event });
+      }
+    } finally {
+      if (readers.get(requestId) === events) {
+        readers.delete(requestId);
+      }
+    }
+  };
+
+  const mirrorRequest = (
+    sessionId: string,
+    requestId: string,
+    buffer: ChatStreamBuffer,
+  ) => {
+    if (ownRequests.has(requestId) || readers.has(requestId)) return;
+    if (debugMode) {
+      console.debug(
+        `[DEBUG] Mirroring request ${requestId} of session ${sessionId}`,
+      );
+    }
+    send({
+      type: "session_request",
+      sessionId,
+      requestId,
+      message: buffer.message ?? "",
+    });
+    forwardStream(requestId, 0);
+  };
+
+  const handleMessage = (message: WebSocketClientMessage) => {
+    switch (message.type) {
+      case "chat": {
+        if (debugMode) {
+          console.debug(
+            "[DEBUG] Received chat request over WebSocket:",
+            JSON.stringify(message.request, null, 2),
+          );
+        }
+        const validationError = validateChatRequest(message.request);
+        if (validationError) {
+          // Sent as a stream event so the client ends the request it started
+          send({
+            type: "stream",
+            requestId: message.request?.requestId ?? "",
+            event: { type: "error", error: validationError },
+          });
+          break;
+        }
+        ownRequests.add(message.request.requestId);
+        startChatRequest(
+          message.request,
+          requestAbortControllers,
+          pendingPermissions,
+          chatStreams,
+          sessionWatchers,
+          debugMode,
+        );
+        forwardStream(message.request.requestId, 0);
+        break;
+      }
+      case "resume":
+        forwardStream(message.requestId, message.after);
+        break;
+      case "abort": {
+        const abortController = requestAbortControllers.get(message.requestId);
+        if (abortController) {
+          abortController.abort();
+          requestAbortControllers.delete(message.requestId);
+        } else {
+          send({
+            type: "error",
+            requestId: message.requestId,
+            error: "Request not found or already completed",
+          });
+        }
+        break;
+      }
+      case "permission_response": {
+        const validationError = validatePermissionResponse(message.response);
+        if (validationError) {
+          send({
+            type: "error",
+            requestId: message.requestId,
+            error: validationError,
+          });
+          break;
+        }
+        if (
+          !resolvePendingPermission(
+            pendingPermissions,
+            message.requestId,
+            message.response,
+          )
+        ) {
+          send({
+            type: "error",
+            requestId: message.requestId,
+            error: "Permission request not found or already answered",
+          });
+        }
+        break;
+      }
+      case "watch_session": {
+        const { sessionId } = message;
+        if (watchedSessions.has(sessionId)) break;
+        watchedSessions.set(
+          sessionId,
+          watchSession(
+            sessionWatchers,
+            sessionId,
+            (requestId, buffer) => mirrorRequest(sessionId, requestId, buffer),
+          ),
+        );
+
+        // Catch up with a request that was already running
+        const requestId = findActiveSessionRequest(chatStreams, sessionId);
+        const buffer = requestId ? chatStreams.get(requestId) : undefined;
+        if (requestId && buffer) {
+          mirrorRequest(sessionId, requestId, buffer);
+        }
+        break;
+      }
+      case "unwatch_session":
+        watchedSessions.get(message.sessionId)?.();
+        watchedSessions.delete(message.sessionId);
+        break;
+      case "pong":
+        break;
+    }
+  };
+
+  socket.onopen = () => {
+    console.log("[WebSocket] Client connected");
+    heartbeat = setInterval(() => {
+      if (Date.now() - lastSeen > HEARTBEAT_INTERVAL_MS * 2) {
+        console.log("[WebSocket] Closing unresponsive connection");
+        socket.close(1001, "Heartbeat timeout");
+        return;
+      }
+      send({ type: "ping" });
+    }, HEARTBEAT_INTERVAL_MS);
+  };
+
+  socket.onmessage = (event) => {
+    lastSeen = Date.now();
+    try {
+      handleMessage(JSON.parse(event.data) as WebSocketClientMessage);
+    } catch (error) {
+      console.error("[WebSocket] Invalid message:", error);
+      send({ type: "error", error: "Invalid message" });
+    }
+  };
+
+  socket.onclose = () => {
+    clearInterval(heartbeat);
+    // Detach readers only; chat requests keep running so clients can resume
+    for (const events of readers.values()) {
+      events.return(undefined);
+    }
+    readers.clear();
+    for (const unwatch of watchedSessions.values()) {
+      unwatch();
+    }
+    watchedSessions.clear();
+    if (debugMode) {
+      console.debug("[DEBUG] WebSocket client disconnected");
+    }
+  };
+
+  socket.onerror = (error) => {
+    console.error("[WebSocket] Socket error:", error);
+  };
+
+  return response;
+}
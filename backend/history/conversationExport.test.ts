@@ -0,0 +1,133 @@
+import { assertEquals } from "@std/assert";
+import {
+  createDiff,
+  exportConversation,
+  extractExportBlocks,
+  renderHtml,
+  renderMarkdown,
+} from "./conversationExport.ts";
+import { prepareHistoryImport } from "./historyImport.ts";
+import type { ConversationHistory } from "../../shared/types.ts";
+
+function line(type: string, content: unknown) {
+  return {
+    type,
+    timestamp: "2025-01-01T00:00:00.000Z",
+    message: { role: type, content },
+  };
+}
+
+function history(messages: unknown[]): ConversationHistory {
+  return {
+    sessionId: "session",
+    messages,
+    metadata: {
+      startTime: "2025-01-01T00:00:00.000Z",
+      endTime: "2025-01-01T00:00:00.000Z",
+      messageCount: messages.length,
+    },
+  };
+}
+
+Deno.test("extractExportBlocks - renders turns, thinking and tool calls", () => {
+  const blocks = extractExportBlocks([
+    line("user", "fix the typo"),
+    line("assistant", [{ type: "thinking", thinking: "look at README" }]),
+    line("assistant", [{ type: "text", text: "Fixing it" }]),
+    line("assistant", [
+      {
+        type: "tool_use",
+        id: "t1",
+        name: "Edit",
+        input: { file_path: "README.md", old_string: "teh", new_string: "the" },
+      },
+    ]),
+    line("user", [
+      { type: "tool_result", tool_use_id: "t1", content: "File updated" },
+    ]),
+    { ...line("user", "Caveat: local commands"), isMeta: true },
+  ]);
+
+  assertEquals(
+    blocks.map(({ kind, title, text }) => [kind, title, text]),
+    [
+      ["user", "User", "fix the typo"],
+      ["thinking", "Thinking", "look at README"],
+      ["assistant", "Claude", "Fixing it"],
+      ["tool_use", "Edit README.md", "-teh\n+the"],
+      ["tool_result", "Output of Edit", "File updated"],
+    ],
+  );
+});
+
+Deno.test("createDiff - marks every removed and added line", () => {
+  assertEquals(createDiff("a\nb", "c"), "-a\n-b\n+c");
+  assertEquals(createDiff("", "new"), "+new");
+});
+
+Deno.test("renderMarkdown - fences code longer than the backticks it contains", () => {
+  const conversation = history([
+    line("assistant", [
+      {
+        type: "tool_use",
+        id: "t1",
+        name: "Bash",
+        input: { command: "echo ```" },
+      },
+    ]),
+  ]);
+  const markdown = renderMarkdown(
+    conversation,
+    extractExportBlocks(conversation.messages),
+  );
+
+  assertEquals(markdown.includes("````bash\necho ```\n````"), true);
+});
+
+Deno.test("renderHtml - escapes transcript text", () => {
+  const conversation = history([line("user", "<script>alert(1)</script>")]);
+  const html = renderHtml(
+    conversation,
+    extractExportBlocks(conversation.messages),
+  );
+
+  assertEquals(html.includes("&lt;script&gt;alert(1)&lt;/script&gt;"), true);
+  assertEquals(html.includes("<script>"), false);
+});
+
+Deno.test("renderHtml - escapes timestamps from the transcript", () => {
+  const conversation = history([
+    { ...line("user", "hi"), timestamp: "<img src=x onerror=alert(1)>" },
+  ]);
+  const html = renderHtml(
+    conversation,
+    extractExportBlocks(conversation.messages),
+  );
+
+  assertEquals(html.includes("<img"), false);
+  assertEquals(html.includes("<time>&lt;img src=x"), true);
+});
+
+Deno.test("exportConversation - bundles the transcript lines an import writes back", () => {
+  const lines = [
+    { type: "summary", summary: "Typo fix", leafUuid: "a1" },
+    { ...line("user", "fix the typo"), sessionId: "session" },
+    {
+      ...line("assistant", [{ type: "text", text: "Fixed" }]),
+      timestamp: "2024-12-31T00:00:00.000Z",
+    },
+  ];
+  const exported = exportConversation(
+    history(lines.slice(1).reverse()),
+    "json",
+    "-work-app",
+    lines,
+  );
+
+  const prepared = prepareHistoryImport(
+    exported.content,
+    exported.fileName,
+    "/work/app",
+  );
+  assertEquals(prepared, { sessionId: "session", lines });
+});
@@ -0,0 +1,408 @@
+/**
+ * Conversation export
+ * Renders a conversation as a self-contained Markdown or HTML document, or
+ * as a JSON bundle that keeps the transcript lines for importing elsewhere.
+ */
+
+import type {
+  ConversationExportBundle,
+  ConversationExportFormat,
+  ConversationHistory,
+} from "../../shared/types.ts";
+import { getToolResultText } from "./conversationPages.ts";
+
+export const EXPORT_FORMATS: ConversationExportFormat[] = [
+  "md",
+  "html",
+  "json",
+];
+
+// Bumped when the bundle shape changes; version 1 held the processed
+// messages, sorted by their restored timestamps
+const BUNDLE_VERSION = 2;
+
+const CONTENT_TYPES: Record<ConversationExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+/**
+ * One readable part of a transcript
+ */
+export interface ExportBlock {
+  kind: "user" | "assistant" | "thinking" | "tool_use" | "tool_result";
+  title: string;
+  text: string;
+  language?: string; // Set when the text is code; "diff" for file edits
+  timestamp?: string;
+}
+
+/**
+ * Rendered export, ready to be sent as a download
+ */
+export interface ExportedConversation {
+  content: string;
+  contentType: string;
+  fileName: string;
+}
+
+interface TranscriptLine {
+  type?: string;
+  timestamp?: string;
+  cwd?: string;
+  isMeta?: boolean;
+  message?: { content?: unknown };
+}
+
+interface ContentBlock {
+  type?: string;
+  text?: string;
+  thinking?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+}
+
+/**
+ * Shows a file edit as removed and added lines
+ */
+export function createDiff(oldText: string, newText: string): string {
+  const removed = oldText ? oldText.split("\n").map((line) => `-${line}`) : [];
+  const added = newText ? newText.split("\n").map((line) => `+${line}`) : [];
+  return [...removed, ...added].join("\n");
+}
+
+/**
+ * Describes a tool call, showing file changes as diffs
+ */
+function formatToolUse(
+  name: string,
+  input: Record<string, unknown>,
+): Pick<ExportBlock, "title" | "text" | "language"> {
+  const filePath = typeof input.file_path === "string" ? input.file_path : "";
+  const str = (value: unknown) => (typeof value === "string" ? value : "");
+
+  switch (name) {
+    case "Edit":
+      return {
+        title: `Edit ${filePath}`,
+        text: createDiff(str(input.old_string), str(input.new_string)),
+        language: "diff",
+      };
+    case "MultiEdit": {
+      const edits = Array.isArray(input.edits) ? input.edits : [];
+      return {
+        title: `Edit ${filePath}`,
+        text: edits
+          .map((edit) =>
+            `@@\n${createDiff(str(edit?.old_string), str(edit?.new_string))}`
+          )
+          .join("\n"),
+        language: "diff",
+      };
+    }
+    case "Write":
+      return {
+        title: `Write ${filePath}`,
+        text: createDiff("", str(input.content)),
+        language: "diff",
+      };
+    case "Bash":
+      return {
+        title: input.description ? `Bash: ${input.description}` : "Bash",
+        text: str(input.command),
+        language: "bash",
+      };
+    default:
+      return {
+        title: name,
+        text: JSON.stringify(input, null, 2),
+        language: "json",
+      };
+  }
+}
+
+/**
+ * Turns transcript lines into readable blocks
+ * Tool results are labelled with the tool that produced them, and the text
+ * blocks the CLI writes as separate lines are joined into one reply.
+ */
+export function extractExportBlocks(messages: unknown[]): ExportBlock[] {
+  const blocks: ExportBlock[] = [];
+  const toolNames = new Map<string, string>();
+
+  for (const message of messages as TranscriptLine[]) {
+    // Caveats and command output the CLI adds for the model only
+    if (message.isMeta) continue;
+    const timestamp = message.timestamp;
+    const content = message.message?.content;
+
+    if (message.type === "user") {
+      if (typeof content === "string") {
+        blocks.push({ kind: "user", title: "User", text: content, timestamp });
+        continue;
+      }
+      for (
+        const block of (Array.isArray(content) ? content : []) as ContentBlock[]
+      ) {
+        if (block.type === "text" && block.text) {
+          blocks.push({
+            kind: "user",
+            title: "User",
+            text: block.text,
+            timestamp,
+          });
+        } else if (block.type === "tool_result") {
+          const toolName = toolNames.get(block.tool_use_id ?? "") ?? "Tool";
+          blocks.push({
+            kind: "tool_result",
+            title: `${block.is_error ? "Error from" : "Output of"} ${toolName}`,
+            text: getToolResultText(block.content),
+            language: "",
+            timestamp,
+          });
+        }
+      }
+    } else if (message.type === "assistant") {
+      for (
+        const block of (Array.isArray(content) ? content : []) as ContentBlock[]
+      ) {
+        if (block.type === "text" && block.text) {
+          const previous = blocks[blocks.length - 1];
+          if (previous?.kind === "assistant") {
+            previous.text += `\n\n${block.text}`;
+          } else {
+            blocks.push({
+              kind: "assistant",
+              title: "Claude",
+              text: block.text,
+              timestamp,
+            });
+          }
+        } else if (block.type === "thinking" && block.thinking) {
+          blocks.push({
+            kind: "thinking",
+            title: "Thinking",
+            text: block.thinking,
+            timestamp,
+          });
+        } else if (block.type === "tool_use" && block.name) {
+          if (block.id) toolNames.set(block.id, block.name);
+          blocks.push({
+            kind: "tool_use",
+            ...formatToolUse(block.name, block.input ?? {}),
+            timestamp,
+          });
+        }
+      }
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Wraps text in a code fence longer than any backtick run inside it
+ */
+function fence(text: string, language = ""): string {
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const marker = "`".repeat(Math.max(3, longestRun + 1));
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Lists what the document header shows about the conversation
+ */
+function describeConversation(history: ConversationHistory): string[][] {
+  const cwd = (history.messages as TranscriptLine[]).find((line) => line.cwd)
+    ?.cwd;
+  return [
+    ["Session", history.sessionId],
+    ...(cwd ? [["Project", cwd]] : []),
+    ["Started", history.metadata.startTime],
+    ["Ended", history.metadata.endTime],
+    ["Messages", String(history.metadata.messageCount)],
+  ];
+}
+
+/**
+ * Renders a conversation as Markdown; thinking and tool output are folded
+ */
+export function renderMarkdown(
+  history: ConversationHistory,
+  blocks: ExportBlock[],
+): string {
+  const parts = [
+    "# Claude conversation",
+    describeConversation(history)
+      .map(([label, value]) => `- **${label}:** ${value}`)
+      .join("\n"),
+  ];
+
+  for (const block of blocks) {
+    const time = block.timestamp ?? "";
+    switch (block.kind) {
+      case "user":
+      case "assistant":
+        parts.push(`## ${block.title}${time ? ` · ${time}` : ""}`, block.text);
+        break;
+      case "tool_use":
+        parts.push(`### ${block.title}`, fence(block.text, block.language));
+        break;
+      case "thinking":
+      case "tool_result":
+        parts.push(
+          `<details>\n<summary>${escapeHtml(block.title)}</summary>\n\n${
+            fence(block.text, block.language)
+          }\n\n</details>`,
+        );
+        break;
+    }
+  }
+
+  return parts.join("\n\n") + "\n";
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 56rem; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.5; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; color: #59636e; }
+dt { font-weight: 600; }
+section { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 0.5rem; border: 1px solid #d1d9e0; }
+section.user { background: #ddf4ff; }
+section.assistant { background: #f6f8fa; }
+h2, h3 { margin: 0 0 0.5rem; font-size: 0.9rem; }
+time { font-weight: normal; color: #59636e; margin-left: 0.5rem; }
+.text { white-space: pre-wrap; word-wrap: break-word; }
+details { margin: 0.5rem 0; }
+summary { cursor: pointer; color: #59636e; font-size: 0.9rem; }
+pre { background: #f6f8fa; padding: 0.75rem; border-radius: 0.375rem; overflow-x: auto; font-size: 0.8rem; }
+.add { color: #1a7f37; background: #dafbe1; }
+.del { color: #cf222e; background: #ffebe9; }
+`;
+
+/**
+ * Renders code, colouring the lines of diffs
+ */
+function renderCode(block: ExportBlock): string {
+  const code = block.language === "diff"
+    ? block.text
+      .split("\n")
+      .map((line) => {
+        const className = line.startsWith("+")
+          ? "add"
+          : line.startsWith("-")
+          ? "del"
+          : "";
+        return className
+          ? `<span class="${className}">${escapeHtml(line)}</span>`
+          : escapeHtml(line);
+      })
+      .join("\n")
+    : escapeHtml(block.text);
+  return `<pre><code>${code}</code></pre>`;
+}
+
+/**
+ * Renders a conversation as a standalone HTML page with inline styles
+ */
+export function renderHtml(
+  history: ConversationHistory,
+  blocks: ExportBlock[],
+): string {
+  const body = blocks.map((block) => {
+    const time = block.timestamp ?? "";
+    const title = escapeHtml(block.title);
+    switch (block.kind) {
+      case "user":
+      case "assistant":
+        return `<section class="${block.kind}"><h2>${title}${
+          time ? `<time>${escapeHtml(time)}</time>` : ""
+        }</h2><div class="text">${escapeHtml(block.text)}</div></section>`;
+      case "tool_use":
+        return `<h3>${title}</h3>${renderCode(block)}`;
+      case "thinking":
+      case "tool_result":
+        return `<details><summary>${title}</summary>${
+          renderCode(block)
+        }</details>`;
+    }
+  });
+
+  const details = describeConversation(history)
+    .map(([label, value]) =>
+      `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Claude conversation ${escapeHtml(history.sessionId)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>Claude conversation</h1>
+<dl>${details}</dl>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
+
+/**
+ * Exports a conversation in the given format
+ * @param history - The whole processed conversation
+ * @param format - Document type to render
+ * @param encodedProjectName - Project the conversation belongs to
+ * @param transcriptLines - Session file lines in file order, which JSON
+ * bundles keep unchanged so an import writes the same file back
+ * @returns The document with its content type and download file name
+ */
+export function exportConversation(
+  history: ConversationHistory,
+  format: ConversationExportFormat,
+  encodedProjectName: string,
+  transcriptLines: unknown[],
+): ExportedConversation {
+  let content: string;
+  if (format === "json") {
+    const bundle: ConversationExportBundle = {
+      format: "claude-webui-conversation",
+      version: BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      sessionId: history.sessionId,
+      encodedProjectName,
+      metadata: history.metadata,
+      messages: transcriptLines,
+    };
+    content = JSON.stringify(bundle, null, 2);
+  } else {
+    const blocks = extractExportBlocks(history.messages);
+    content = format === "md"
+      ? renderMarkdown(history, blocks)
+      : renderHtml(history, blocks);
+  }
+
+  return {
+    content,
+    contentType: CONTENT_TYPES[format],
+    fileName: `claude-conversation-${history.sessionId}.${format}`,
+  };
+}
@@ -48,6 +48,50 @@ export async function loadConversation(
   }
 }
 
+/**
+ * Reads the lines of a conversation file in the order the CLI wrote them
+ * Lines that are not complete JSON are skipped
+ * @returns The lines, or null if the session file does not exist
+ */
+export async function readConversationLines(
+  encodedProjectName: string,
+  sessionId: string,
+): Promise<RawHistoryLine[] | null> {
+  if (!validateEncodedProjectName(encodedProjectName)) {
+    throw new Error("Invalid encoded project name");
+  }
+
+  if (!validateSessionId(sessionId)) {
+    throw new Error("Invalid session ID format");
+  }
+
+  const homeDir = Deno.env.get("HOME");
+  if (!homeDir) {
+    throw new Error("HOME environment variable not found");
+  }
+
+  let content: string;
+  try {
+    content = await Deno.readTextFile(
+      `${homeDir}/.claude/projects/${encodedProjectName}/${sessionId}.jsonl`,
+    );
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+
+  const lines: RawHistoryLine[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      lines.push(JSON.parse(line));
+    } catch {
+      // Skip lines the CLI could not have written completely
+    }
+  }
+  return lines;
+}
+
 /**
  * Parse a specific conversation file
  * Converts JSONL lines to timestamped SDK messages
@@ -92,7 +136,7 @@ async function parseConversationFile(
  * Validate session ID format
  * Should be a valid filename without dangerous characters
  */
-function validateSessionId(sessionId: string): boolean {
+export function validateSessionId(sessionId: string): boolean {
   // Should not be empty
   if (!sessionId) {
     return false;
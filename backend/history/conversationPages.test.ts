@@ -0,0 +1,123 @@
+import { assertEquals } from "@std/assert";
+import {
+  createConversationPage,
+  findToolResult,
+  TOOL_RESULT_PREVIEW_LENGTH,
+} from "./conversationPages.ts";
+import type { ConversationHistory } from "../../shared/types.ts";
+
+function history(messages: unknown[]): ConversationHistory {
+  return {
+    sessionId: "session",
+    messages,
+    metadata: {
+      startTime: "2025-01-01T00:00:00.000Z",
+      endTime: "2025-01-01T00:00:00.000Z",
+      messageCount: messages.length,
+    },
+  };
+}
+
+function text(uuid: string) {
+  return { type: "user", uuid, message: { role: "user", content: uuid } };
+}
+
+const toolCall = {
+  type: "assistant",
+  uuid: "a1",
+  message: {
+    role: "assistant",
+    content: [{ type: "tool_use", id: "t1", name: "Bash", input: {} }],
+  },
+};
+
+function toolResult(content: unknown) {
+  return {
+    type: "user",
+    uuid: "u2",
+    message: {
+      role: "user",
+      content: [{ type: "tool_result", tool_use_id: "t1", content }],
+    },
+  };
+}
+
+function uuids(messages: unknown[]) {
+  return messages.map((message) => (message as { uuid: string }).uuid);
+}
+
+Deno.test("createConversationPage - pages forward from the oldest message", () => {
+  const conversation = history(["m1", "m2", "m3"].map(text));
+
+  const first = createConversationPage(conversation, {
+    order: "asc",
+    limit: 2,
+  })!;
+  assertEquals(uuids(first.messages), ["m1", "m2"]);
+  assertEquals(first.nextCursor, "2");
+
+  const second = createConversationPage(conversation, {
+    order: "asc",
+    limit: 2,
+    cursor: first.nextCursor!,
+  })!;
+  assertEquals(uuids(second.messages), ["m3"]);
+  assertEquals(second.nextCursor, null);
+});
+
+Deno.test("createConversationPage - pages backward from the newest message", () => {
+  const conversation = history(["m1", "m2", "m3"].map(text));
+
+  const first = createConversationPage(conversation, {
+    order: "desc",
+    limit: 2,
+  })!;
+  assertEquals(uuids(first.messages), ["m3", "m2"]);
+  assertEquals(first.nextCursor, "1");
+
+  const second = createConversationPage(conversation, {
+    order: "desc",
+    limit: 2,
+    cursor: first.nextCursor!,
+  })!;
+  assertEquals(uuids(second.messages), ["m1"]);
+  assertEquals(second.nextCursor, null);
+});
+
+Deno.test("createConversationPage - rejects cursors outside the conversation", () => {
+  const conversation = history([text("m1")]);
+
+  assertEquals(
+    createConversationPage(conversation, {
+      order: "asc",
+      limit: 1,
+      cursor: "5",
+    }),
+    null,
+  );
+  assertEquals(
+    createConversationPage(conversation, {
+      order: "asc",
+      limit: 1,
+      cursor: "-1",
+    }),
+    null,
+  );
+});
+
+Deno.test("createConversationPage - shortens large tool outputs and names their tool", () => {
+  const output = "x".repeat(TOOL_RESULT_PREVIEW_LENGTH + 10);
+  const conversation = history([toolCall, toolResult(output)]);
+
+  const page = createConversationPage(conversation, {
+    order: "desc",
+    limit: 1,
+  })!;
+  const [block] = (page.messages[0] as ReturnType<typeof toolResult>).message
+    .content;
+
+  assertEquals((block.content as string).length, TOOL_RESULT_PREVIEW_LENGTH);
+  assertEquals(page.toolNames, { t1: "Bash" });
+  assertEquals(page.truncatedToolResults, { t1: output.length });
+  assertEquals(findToolResult(conversation.messages, "t1"), output);
+});
@@ -0,0 +1,156 @@
+/**
+ * Paging of conversation transcripts
+ * Splits a processed conversation into pages addressed by cursors and
+ * shortens large tool outputs, which are fetched separately when needed.
+ */
+
+import type {
+  ConversationHistory,
+  ConversationPage,
+  ConversationPageOrder,
+} from "../../shared/types.ts";
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+// Tool outputs longer than this are cut short in pages
+export const TOOL_RESULT_PREVIEW_LENGTH = 4000;
+
+interface ContentBlock {
+  type?: string;
+  id?: string;
+  name?: string;
+  tool_use_id?: string;
+  content?: unknown;
+}
+
+interface PageOptions {
+  order: ConversationPageOrder;
+  limit: number;
+  cursor?: string;
+}
+
+/**
+ * Returns the content blocks of a transcript message, empty for plain text
+ */
+function getContentBlocks(message: unknown): ContentBlock[] {
+  const content = (message as { message?: { content?: unknown } })?.message
+    ?.content;
+  return Array.isArray(content) ? content : [];
+}
+
+/**
+ * Returns a tool output as the text the chat shows for it
+ */
+export function getToolResultText(content: unknown): string {
+  if (content === undefined || content === null) return "";
+  return typeof content === "string" ? content : JSON.stringify(content);
+}
+
+/**
+ * Reads a cursor, which is the index of a message boundary
+ * @returns The index, or null if the cursor is not one of this conversation
+ */
+function parseCursor(cursor: string, messageCount: number): number | null {
+  if (!/^\d+$/.test(cursor)) return null;
+  const index = Number(cursor);
+  return index <= messageCount ? index : null;
+}
+
+/**
+ * Creates one page of a conversation
+ * Ascending pages start at the oldest message and their cursor marks where
+ * the next page starts; descending pages start at the newest message, list
+ * it first, and their cursor marks where the next older page ends.
+ * @param history - The whole processed conversation
+ * @param options - Order, page size and cursor from the previous page
+ * @returns The page, or null if the cursor is invalid
+ */
+export function createConversationPage(
+  history: ConversationHistory,
+  options: PageOptions,
+): ConversationPage | null {
+  const { messages } = history;
+  const { order, limit } = options;
+
+  const cursor = options.cursor === undefined
+    ? undefined
+    : parseCursor(options.cursor, messages.length);
+  if (cursor === null) return null;
+
+  let pageMessages: unknown[];
+  let nextCursor: string | null;
+  if (order === "asc") {
+    const start = cursor ?? 0;
+    const end = Math.min(start + limit, messages.length);
+    pageMessages = messages.slice(start, end);
+    nextCursor = end < messages.length ? String(end) : null;
+  } else {
+    const end = cursor ?? messages.length;
+    const start = Math.max(0, end - limit);
+    pageMessages = messages.slice(start, end).reverse();
+    nextCursor = start > 0 ? String(start) : null;
+  }
+
+  // Results may be on a later page than the call that produced them
+  const allToolNames = new Map<string, string>();
+  for (const message of messages) {
+    for (const block of getContentBlocks(message)) {
+      if (block.type === "tool_use" && block.id && block.name) {
+        allToolNames.set(block.id, block.name);
+      }
+    }
+  }
+
+  const toolNames: Record<string, string> = {};
+  const truncatedToolResults: Record<string, number> = {};
+  pageMessages = pageMessages.map((message) => {
+    const blocks = getContentBlocks(message);
+    if (!blocks.some((block) => block.type === "tool_result")) return message;
+
+    let shortened = false;
+    const content = blocks.map((block) => {
+      if (block.type !== "tool_result" || !block.tool_use_id) return block;
+
+      const toolName = allToolNames.get(block.tool_use_id);
+      if (toolName) toolNames[block.tool_use_id] = toolName;
+
+      const text = getToolResultText(block.content);
+      if (text.length <= TOOL_RESULT_PREVIEW_LENGTH) return block;
+
+      shortened = true;
+      truncatedToolResults[block.tool_use_id] = text.length;
+      return { ...block, content: text.slice(0, TOOL_RESULT_PREVIEW_LENGTH) };
+    });
+    if (!shortened) return message;
+
+    const line = message as { message: Record<string, unknown> };
+    return { ...line, message: { ...line.message, content } };
+  });
+
+  return {
+    ...history,
+    messages: pageMessages,
+    order,
+    nextCursor,
+    toolNames,
+    truncatedToolResults,
+  };
+}
+
+/**
+ * Finds the full output of a tool call in a conversation
+ * @returns The output as shown in the chat, or null if there is none
+ */
+export function findToolResult(
+  messages: unknown[],
+  toolUseId: string,
+): string | null {
+  for (const message of messages) {
+    for (const block of getContentBlocks(message)) {
+      if (block.type === "tool_result" && block.tool_use_id === toolUseId) {
+        return getToolResultText(block.content);
+      }
+    }
+  }
+  return null;
+}
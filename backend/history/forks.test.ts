@@ -0,0 +1,107 @@
+import { assertEquals, assertNotEquals } from "@std/assert";
+import {
+  createForkLines,
+  findForkPoint,
+  findPromptLine,
+  findSessionFork,
+  getPromptText,
+  type SessionFork,
+} from "./forks.ts";
+import type { RawHistoryLine } from "./parser.ts";
+
+function line(
+  uuid: string,
+  parentUuid: string | null,
+  type: RawHistoryLine["type"],
+  content: unknown,
+): RawHistoryLine {
+  return {
+    type,
+    uuid,
+    parentUuid,
+    sessionId: "parent",
+    timestamp: "2025-01-01T00:00:00.000Z",
+    message: { role: type, content } as RawHistoryLine["message"],
+  };
+}
+
+const conversation = [
+  line("u1", null, "user", "fix the bug"),
+  line("a1", "u1", "assistant", [{ type: "text", text: "Done" }]),
+  line("u2", "a1", "user", [
+    { type: "tool_result", tool_use_id: "t1", content: "ok" },
+  ]),
+  line("u3", "u2", "user", [{ type: "text", text: "fix the bug" }]),
+  line("a3", "u3", "assistant", [{ type: "text", text: "Again" }]),
+];
+
+Deno.test("getPromptText - ignores tool results and sidechains", () => {
+  assertEquals(getPromptText(conversation[0]), "fix the bug");
+  assertEquals(getPromptText(conversation[1]), null);
+  assertEquals(getPromptText(conversation[2]), null);
+  assertEquals(
+    getPromptText({ ...conversation[0], isSidechain: true }),
+    null,
+  );
+});
+
+Deno.test("findForkPoint - counts occurrences from the end", () => {
+  assertEquals(findForkPoint(conversation, "fix the bug"), 3);
+  assertEquals(findForkPoint(conversation, "fix the bug", 1), 0);
+  assertEquals(findForkPoint(conversation, "fix the bug", 2), -1);
+  assertEquals(findForkPoint(conversation, "something else"), -1);
+});
+
+Deno.test("findPromptLine - finds only user prompts", () => {
+  assertEquals(findPromptLine(conversation, "u3"), 3);
+  assertEquals(findPromptLine(conversation, "u2"), -1);
+  assertEquals(findPromptLine(conversation, "a1"), -1);
+  assertEquals(findPromptLine(conversation, "missing"), -1);
+});
+
+Deno.test("findForkPoint - ignores attached file paths but not other text", () => {
+  const lines = [
+    line("u1", null, "user", "fix the bug in the parser"),
+    line("u2", "u1", "user", "fix the bug\nAttached files:\n- /p/a.log"),
+  ];
+
+  assertEquals(findForkPoint(lines, "fix the bug"), 1);
+  assertEquals(findForkPoint(lines, "fix the bug", 1), -1);
+  assertEquals(findForkPoint(lines, "fix the bug in the parser"), 0);
+});
+
+Deno.test("createForkLines - copies earlier lines with fresh UUIDs", () => {
+  const { lines, branchUuid } = createForkLines(conversation, 3, "fork");
+
+  assertEquals(lines.length, 3);
+  assertEquals(lines.map((copy) => copy.sessionId), ["fork", "fork", "fork"]);
+  assertNotEquals(lines[0].uuid, "u1");
+  assertEquals(lines[0].parentUuid, null);
+  assertEquals(lines[1].parentUuid, lines[0].uuid);
+  assertEquals(lines[2].parentUuid, lines[1].uuid);
+  assertEquals(branchUuid, lines[2].uuid);
+  // The parent conversation is left untouched
+  assertEquals(conversation[0].uuid, "u1");
+});
+
+Deno.test("findSessionFork - matches continuations by branch UUID", () => {
+  const forks: SessionFork[] = [
+    {
+      sessionId: "fork",
+      parentSessionId: "parent",
+      branchUuid: "b1",
+      createdAt: "2025-01-01T00:00:00.000Z",
+    },
+  ];
+  const parentUuids = new Set(conversation.map((line) => line.uuid));
+
+  assertEquals(
+    findSessionFork(forks, "fork", new Set())?.parentSessionId,
+    "parent",
+  );
+  assertEquals(
+    findSessionFork(forks, "later", new Set(["u1", "b1"]))?.sessionId,
+    "fork",
+  );
+  assertEquals(findSessionFork(forks, "parent", parentUuids), undefined);
+});
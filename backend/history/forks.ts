@@ -0,0 +1,208 @@
+/**
+ * Conversation forking utilities
+ * Copies a conversation up to a user prompt into a new session file and
+ * records which session each fork was branched from
+ */
+
+import type { RawHistoryLine } from "./parser.ts";
+import { stripAttachedFiles } from "../chat/attachments.ts";
+
+// Lives next to the CLI's project folders, which only hold session files
+const FORKS_FILE = "webui_session_forks.json";
+
+/**
+ * A session created by forking another one
+ */
+export interface SessionFork {
+  sessionId: string;
+  parentSessionId: string;
+  // UUID of the last copied line; later copies of the fork still contain it
+  branchUuid: string;
+  createdAt: string;
+}
+
+// Stored file shape: forks keyed by encoded project name, oldest first
+type ForksFile = Record<string, SessionFork[]>;
+
+/**
+ * Returns the path of the forks file in the user's ~/.claude directory
+ */
+function getForksPath(): string | null {
+  const home = Deno.env.get("HOME") || Deno.env.get("USERPROFILE");
+  return home ? `${home}/.claude/${FORKS_FILE}` : null;
+}
+
+/**
+ * Reads the forks file, returning an empty object if it is missing
+ */
+async function readForksFile(filePath: string): Promise<ForksFile> {
+  let content: string;
+  try {
+    content = await Deno.readTextFile(filePath);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return {};
+    throw error;
+  }
+
+  const forks = JSON.parse(content);
+  return forks && typeof forks === "object" ? forks : {};
+}
+
+/**
+ * Loads the forks recorded for a project
+ */
+export async function readSessionForks(
+  encodedProjectName: string,
+): Promise<SessionFork[]> {
+  const filePath = getForksPath();
+  if (!filePath) return [];
+
+  const forks = await readForksFile(filePath);
+  return Array.isArray(forks[encodedProjectName])
+    ? forks[encodedProjectName]
+    : [];
+}
+
+/**
+ * Appends a fork to the project's recorded forks
+ */
+export async function recordSessionFork(
+  encodedProjectName: string,
+  fork: SessionFork,
+): Promise<void> {
+  const filePath = getForksPath();
+  if (!filePath) {
+    throw new Error("HOME environment variable not found");
+  }
+
+  const forks = await readForksFile(filePath);
+  forks[encodedProjectName] = [...(forks[encodedProjectName] ?? []), fork];
+  await Deno.writeTextFile(filePath, JSON.stringify(forks, null, 2) + "\n");
+}
+
+/**
+ * Returns the text of a prompt the user typed, or null for other lines
+ * such as tool results, meta messages and sub-agent conversations
+ */
+export function getPromptText(line: RawHistoryLine): string | null {
+  if (
+    line.type !== "user" || line.isSidechain ||
+    (line as { isMeta?: boolean }).isMeta
+  ) {
+    return null;
+  }
+
+  const content = line.message?.content;
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return null;
+  if (content.some((block) => block.type === "tool_result")) return null;
+
+  return content
+    .filter((block) => block.type === "text")
+    .map((block) => (block as { text: string }).text)
+    .join("\n");
+}
+
+/**
+ * Finds the line of a user prompt to fork before
+ * Prompts sent with file attachments carry their paths after the typed
+ * text; those are ignored on both sides, then the texts must be equal.
+ * Prompts are counted from the end, as a chat may not have loaded the
+ * beginning of a long conversation.
+ * @param lines - Lines of the conversation file in order
+ * @param content - Prompt text as shown in the chat
+ * @param laterOccurrences - How many later prompts had the same text
+ * @returns Index of the matching line, or -1 if there is none
+ */
+export function findForkPoint(
+  lines: RawHistoryLine[],
+  content: string,
+  laterOccurrences = 0,
+): number {
+  const prompt = stripAttachedFiles(content);
+  let seen = 0;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const text = getPromptText(lines[i]);
+    if (text === null) continue;
+    if (stripAttachedFiles(text) === prompt) {
+      if (seen === laterOccurrences) return i;
+      seen++;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Finds the line of the user prompt with the given UUID
+ * @returns Index of the line, or -1 if it is missing or not a prompt
+ */
+export function findPromptLine(
+  lines: RawHistoryLine[],
+  messageUuid: string,
+): number {
+  return lines.findIndex((line) =>
+    line.uuid === messageUuid && getPromptText(line) !== null
+  );
+}
+
+/**
+ * Copies the lines before `end` into a new session
+ * Lines get fresh UUIDs so the fork and its continuations can be told
+ * apart from the parent, which contains the same messages
+ * @param lines - Lines of the parent conversation file
+ * @param end - Index of the first line not to copy
+ * @param sessionId - ID of the new session
+ * @returns Copied lines and the UUID the fork branches at
+ */
+export function createForkLines(
+  lines: RawHistoryLine[],
+  end: number,
+  sessionId: string,
+): { lines: RawHistoryLine[]; branchUuid: string | null } {
+  const uuids = new Map<string, string>();
+  const remap = (uuid: string) => {
+    let mapped = uuids.get(uuid);
+    if (!mapped) {
+      mapped = crypto.randomUUID();
+      uuids.set(uuid, mapped);
+    }
+    return mapped;
+  };
+
+  let branchUuid: string | null = null;
+  const copied = lines.slice(0, end).map((line) => {
+    const copy: RawHistoryLine & { leafUuid?: string } = { ...line, sessionId };
+    if (line.uuid) {
+      copy.uuid = remap(line.uuid);
+      branchUuid = copy.uuid;
+    }
+    if (line.parentUuid) copy.parentUuid = remap(line.parentUuid);
+    const { leafUuid } = line as { leafUuid?: string };
+    if (leafUuid) copy.leafUuid = remap(leafUuid);
+    return copy;
+  });
+
+  return { lines: copied, branchUuid };
+}
+
+/**
+ * Finds the fork a conversation descends from, preferring the most recent
+ * one when forks were themselves forked
+ * @param uuids - UUIDs of the conversation's lines
+ */
+export function findSessionFork(
+  forks: SessionFork[],
+  sessionId: string,
+  uuids: Set<string>,
+): SessionFork | undefined {
+  for (let i = forks.length - 1; i >= 0; i--) {
+    const fork = forks[i];
+    if (
+      fork.parentSessionId !== sessionId &&
+      (fork.sessionId === sessionId || uuids.has(fork.branchUuid))
+    ) {
+      return fork;
+    }
+  }
+  return undefined;
+}
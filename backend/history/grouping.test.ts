@@ -0,0 +1,83 @@
+import { assertEquals } from "@std/assert";
+import { buildConversationTree } from "./grouping.ts";
+import type { SessionFork } from "./forks.ts";
+import type { ConversationFile } from "./parser.ts";
+
+function conversation(
+  sessionId: string,
+  startTime: string,
+  messageIds: string[],
+  uuids: string[] = [],
+): ConversationFile {
+  return {
+    sessionId,
+    filePath: `/history/${sessionId}.jsonl`,
+    uuids: new Set(uuids),
+    messageIds: new Set(messageIds),
+    startTime,
+    lastTime: startTime,
+    messageCount: messageIds.length,
+    lastMessagePreview: "",
+  };
+}
+
+function parents(nodes: ReturnType<typeof buildConversationTree>) {
+  return Object.fromEntries(
+    nodes.map((node) => [node.sessionId, node.parentSessionId ?? null]),
+  );
+}
+
+Deno.test("buildConversationTree - links continuations to the version they extend", () => {
+  const nodes = buildConversationTree([
+    conversation("c", "2025-01-03T00:00:00Z", ["m1", "m2", "m3"]),
+    conversation("a", "2025-01-01T00:00:00Z", ["m1"]),
+    conversation("b", "2025-01-02T00:00:00Z", ["m1", "m2"]),
+  ]);
+
+  assertEquals(nodes.map((node) => node.sessionId), ["a", "b", "c"]);
+  assertEquals(parents(nodes), { a: null, b: "a", c: "b" });
+  assertEquals(nodes[2].relation, "continuation");
+  assertEquals(nodes[2].sharedMessageCount, 2);
+});
+
+Deno.test("buildConversationTree - links partial overlaps as resumes", () => {
+  const nodes = buildConversationTree([
+    conversation("a", "2025-01-01T00:00:00Z", ["m1", "m2", "m3"]),
+    conversation("b", "2025-01-02T00:00:00Z", ["m1", "m2", "x1"]),
+    conversation("c", "2025-01-03T00:00:00Z", ["m1", "y1"]),
+  ]);
+
+  assertEquals(parents(nodes), { a: null, b: "a", c: "a" });
+  assertEquals(nodes[1].relation, "resume");
+  assertEquals(nodes[2].sharedMessageCount, 1);
+});
+
+Deno.test("buildConversationTree - links forks and their continuations", () => {
+  const forks: SessionFork[] = [
+    {
+      sessionId: "fork",
+      parentSessionId: "a",
+      branchUuid: "b1",
+      createdAt: "2025-01-02T00:00:00Z",
+    },
+  ];
+  const nodes = buildConversationTree([
+    conversation("a", "2025-01-01T00:00:00Z", ["m1", "m2"]),
+    conversation("fork", "2025-01-02T00:00:00Z", ["m1"], ["b1"]),
+    conversation("later", "2025-01-03T00:00:00Z", ["m1", "f1"], ["b1"]),
+  ], forks);
+
+  assertEquals(parents(nodes), { a: null, fork: "a", later: "fork" });
+  assertEquals(nodes[1].relation, "fork");
+  assertEquals(nodes[2].relation, "continuation");
+});
+
+Deno.test("buildConversationTree - identical files do not link to each other twice", () => {
+  const nodes = buildConversationTree([
+    conversation("a", "2025-01-01T00:00:00Z", ["m1"]),
+    conversation("b", "2025-01-01T00:00:00Z", ["m1"]),
+  ]);
+
+  assertEquals(parents(nodes), { a: null, b: "a" });
+  assertEquals(nodes.map((node) => node.isDuplicate), [false, true]);
+});
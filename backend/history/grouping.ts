@@ -3,21 +3,53 @@
  * Groups conversation files and removes duplicates from continued sessions
  */
 
-import type { ConversationSummary } from "../../shared/types.ts";
+import type {
+  ConversationRelation,
+  ConversationSummary,
+  ConversationTreeNode,
+} from "../../shared/types.ts";
 import type { ConversationFile } from "./parser.ts";
 import { isSubset } from "./parser.ts";
+import { findSessionFork, type SessionFork } from "./forks.ts";
 
 /**
  * Group conversations and remove duplicates from continued sessions
  * Based on the algorithm described in docs/histories.md
+ * @param conversationFiles - Parsed conversation files of a project
+ * @param forks - Forks recorded for the project, to link forks to their parent
  */
 export function groupConversations(
   conversationFiles: ConversationFile[],
+  forks: SessionFork[] = [],
 ): ConversationSummary[] {
   if (conversationFiles.length === 0) {
     return [];
   }
 
+  const uniqueConversations = findUniqueConversations(conversationFiles);
+
+  // Convert to ConversationSummary format and sort by start time (newest first)
+  const summaries = uniqueConversations.map((conv) =>
+    createConversationSummary(
+      conv,
+      findForkParent(conv, forks, conversationFiles, uniqueConversations),
+    )
+  );
+
+  // Sort by start time, newest first
+  summaries.sort((a, b) =>
+    new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
+  );
+
+  return summaries;
+}
+
+/**
+ * Returns the conversations not contained in a larger continuation
+ */
+function findUniqueConversations(
+  conversationFiles: ConversationFile[],
+): ConversationFile[] {
   // Sort conversations by message ID set size (ascending)
   // This ensures we process smaller conversations first
   const sortedConversations = [...conversationFiles].sort((a, b) => {
@@ -39,17 +71,36 @@ export function groupConversations(
     }
   }
 
-  // Convert to ConversationSummary format and sort by start time (newest first)
-  const summaries = uniqueConversations.map((conv) =>
-    createConversationSummary(conv)
+  return uniqueConversations;
+}
+
+/**
+ * Finds the listed conversation a conversation was forked from
+ * The parent file itself may be hidden as a duplicate, in which case the
+ * conversation that continued it is reported instead
+ */
+function findForkParent(
+  conversation: ConversationFile,
+  forks: SessionFork[],
+  conversationFiles: ConversationFile[],
+  uniqueConversations: ConversationFile[],
+): string | undefined {
+  const fork = findSessionFork(
+    forks,
+    conversation.sessionId,
+    conversation.uuids,
   );
+  if (!fork) return undefined;
 
-  // Sort by start time, newest first
-  summaries.sort((a, b) =>
-    new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
+  const parent = conversationFiles.find((conv) =>
+    conv.sessionId === fork.parentSessionId
   );
+  if (!parent) return undefined;
+  if (uniqueConversations.includes(parent)) return parent.sessionId;
 
-  return summaries;
+  return uniqueConversations.find((conv) =>
+    conv !== conversation && isSubset(parent.messageIds, conv.messageIds)
+  )?.sessionId;
 }
 
 /**
@@ -57,6 +108,7 @@ export function groupConversations(
  */
 function createConversationSummary(
   conversationFile: ConversationFile,
+  forkedFrom?: string,
 ): ConversationSummary {
   return {
     sessionId: conversationFile.sessionId,
@@ -64,9 +116,162 @@ function createConversationSummary(
     lastTime: conversationFile.lastTime,
     messageCount: conversationFile.messageCount,
     lastMessagePreview: conversationFile.lastMessagePreview,
+    ...(forkedFrom ? { forkedFrom } : {}),
   };
 }
 
+// Link from a session file to the one it was created from
+interface TreeLink {
+  parent: ConversationFile;
+  relation: ConversationRelation;
+}
+
+/**
+ * Build the tree of how a project's session files came from each other
+ * Files descending from a recorded fork are linked to the forked session.
+ * Other files are linked by the assistant messages they share: a
+ * continuation contains all of its parent's messages, a resume only part
+ * of an older session's. Sessions with several children are branch points.
+ * @param conversationFiles - Parsed conversation files of a project
+ * @param forks - Forks recorded for the project
+ * @returns One node per file, oldest first
+ */
+export function buildConversationTree(
+  conversationFiles: ConversationFile[],
+  forks: SessionFork[] = [],
+): ConversationTreeNode[] {
+  const uniqueConversations = findUniqueConversations(conversationFiles);
+  const sorted = [...conversationFiles].sort(compareStartTime);
+
+  // Forks copy their parent's messages, so messages are only compared
+  // between files descending from the same fork
+  const lineages = new Map(
+    sorted.map((conv) => [
+      conv,
+      findSessionFork(forks, conv.sessionId, conv.uuids)?.sessionId,
+    ]),
+  );
+
+  const links = new Map<ConversationFile, TreeLink>();
+  for (const conv of sorted) {
+    const link = findTreeParent(conv, sorted, lineages, forks);
+    if (link && !hasAncestor(link.parent, conv, links)) {
+      links.set(conv, link);
+    }
+  }
+
+  return sorted.map((conv) => {
+    const link = links.get(conv);
+    return {
+      sessionId: conv.sessionId,
+      ...(link
+        ? {
+          parentSessionId: link.parent.sessionId,
+          relation: link.relation,
+          sharedMessageCount: countShared(
+            link.parent.messageIds,
+            conv.messageIds,
+          ),
+        }
+        : {}),
+      startTime: conv.startTime,
+      lastTime: conv.lastTime,
+      messageCount: conv.messageCount,
+      lastMessagePreview: conv.lastMessagePreview,
+      isDuplicate: !uniqueConversations.includes(conv),
+    };
+  });
+}
+
+/**
+ * Orders conversations by start time, then by session ID
+ */
+function compareStartTime(a: ConversationFile, b: ConversationFile): number {
+  if (a.startTime !== b.startTime) return a.startTime < b.startTime ? -1 : 1;
+  return a.sessionId < b.sessionId ? -1 : a.sessionId > b.sessionId ? 1 : 0;
+}
+
+/**
+ * Finds the file a conversation file was created from
+ */
+function findTreeParent(
+  conv: ConversationFile,
+  conversations: ConversationFile[],
+  lineages: Map<ConversationFile, string | undefined>,
+  forks: SessionFork[],
+): TreeLink | undefined {
+  const lineage = conversations.filter((other) =>
+    other !== conv && lineages.get(other) === lineages.get(conv)
+  );
+
+  // The latest version this file extends
+  let continued: ConversationFile | undefined;
+  for (const other of lineage) {
+    if (
+      other.messageIds.size > 0 &&
+      isSubset(other.messageIds, conv.messageIds) &&
+      (other.messageIds.size < conv.messageIds.size ||
+        compareStartTime(other, conv) < 0) &&
+      (!continued || other.messageIds.size >= continued.messageIds.size)
+    ) {
+      continued = other;
+    }
+  }
+  if (continued) return { parent: continued, relation: "continuation" };
+
+  // The older file it shares the most messages with
+  let resumed: ConversationFile | undefined;
+  let resumedShared = 0;
+  for (const other of lineage) {
+    if (
+      compareStartTime(other, conv) >= 0 ||
+      isSubset(conv.messageIds, other.messageIds)
+    ) {
+      continue;
+    }
+    const shared = countShared(other.messageIds, conv.messageIds);
+    if (shared > resumedShared) {
+      resumed = other;
+      resumedShared = shared;
+    }
+  }
+  if (resumed) return { parent: resumed, relation: "resume" };
+
+  const fork = forks.find((fork) => fork.sessionId === lineages.get(conv));
+  const forked = fork &&
+    conversations.find((other) => other.sessionId === fork.parentSessionId);
+  return forked ? { parent: forked, relation: "fork" } : undefined;
+}
+
+/**
+ * Checks whether `ancestor` is reached by following links up from `conv`
+ */
+function hasAncestor(
+  conv: ConversationFile,
+  ancestor: ConversationFile,
+  links: Map<ConversationFile, TreeLink>,
+): boolean {
+  for (
+    let current: ConversationFile | undefined = conv;
+    current;
+    current = links.get(current)?.parent
+  ) {
+    if (current === ancestor) return true;
+  }
+  return false;
+}
+
+/**
+ * Counts the message IDs two sets have in common
+ */
+function countShared(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const id of a) {
+    if (b.has(id)) shared++;
+  }
+  return shared;
+}
+
 /**
  * Debug helper to analyze conversation relationships
  * Useful for understanding how conversations are grouped
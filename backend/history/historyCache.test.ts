@@ -0,0 +1,164 @@
+import { assertEquals } from "@std/assert";
+import {
+  type HistoryCache,
+  loadConversationFiles,
+  MAX_WATCHED_PROJECTS,
+} from "./historyCache.ts";
+
+function historyLine(uuid: string, timestamp: string): string {
+  return JSON.stringify({
+    type: "user",
+    uuid,
+    timestamp,
+    message: { role: "user", content: "hello" },
+  }) + "\n";
+}
+
+// Runs a test with HOME in a temp dir holding one project's history folder
+async function withHistoryDir(
+  fn: (historyDir: string) => Promise<void>,
+) {
+  const home = await Deno.makeTempDir({ prefix: "history-cache-test-" });
+  const previousHome = Deno.env.get("HOME");
+  Deno.env.set("HOME", home);
+  const historyDir = `${home}/.claude/projects/-work-app`;
+  await Deno.mkdir(historyDir, { recursive: true });
+  try {
+    await fn(historyDir);
+  } finally {
+    if (previousHome === undefined) {
+      Deno.env.delete("HOME");
+    } else {
+      Deno.env.set("HOME", previousHome);
+    }
+    await Deno.remove(home, { recursive: true });
+  }
+}
+
+const mtime = new Date("2024-01-01T00:00:00Z");
+
+Deno.test("loadConversationFiles - parses a file again when its mtime or size changes", async () => {
+  await withHistoryDir(async (historyDir) => {
+    const cache: HistoryCache = new Map();
+    const filePath = `${historyDir}/s1.jsonl`;
+    await Deno.writeTextFile(filePath, historyLine("u1", "2024-01-01"));
+    await Deno.utime(filePath, mtime, mtime);
+
+    const [first] = await loadConversationFiles(
+      cache,
+      "-work-app",
+      historyDir,
+      false,
+    );
+    const [unchanged] = await loadConversationFiles(
+      cache,
+      "-work-app",
+      historyDir,
+      false,
+    );
+    assertEquals(unchanged === first, true);
+
+    await Deno.utime(filePath, mtime, new Date("2024-01-02T00:00:00Z"));
+    const [touched] = await loadConversationFiles(
+      cache,
+      "-work-app",
+      historyDir,
+      false,
+    );
+    assertEquals(touched === first, false);
+
+    // Same mtime, different size
+    await Deno.writeTextFile(filePath, historyLine("u2", "2024-01-02"), {
+      append: true,
+    });
+    await Deno.utime(filePath, mtime, new Date("2024-01-02T00:00:00Z"));
+    const [grown] = await loadConversationFiles(
+      cache,
+      "-work-app",
+      historyDir,
+      false,
+    );
+    assertEquals(grown.messageCount, 2);
+  });
+});
+
+Deno.test("loadConversationFiles - drops files deleted from the folder", async () => {
+  await withHistoryDir(async (historyDir) => {
+    const cache: HistoryCache = new Map();
+    await Deno.writeTextFile(
+      `${historyDir}/s1.jsonl`,
+      historyLine("u1", "2024-01-01"),
+    );
+    await Deno.writeTextFile(
+      `${historyDir}/s2.jsonl`,
+      historyLine("u2", "2024-01-02"),
+    );
+
+    const files = await loadConversationFiles(
+      cache,
+      "-work-app",
+      historyDir,
+      false,
+    );
+    assertEquals(files.length, 2);
+
+    await Deno.remove(`${historyDir}/s1.jsonl`);
+    const remaining = await loadConversationFiles(
+      cache,
+      "-work-app",
+      historyDir,
+      false,
+    );
+    assertEquals(remaining.map((file) => file.sessionId), ["s2"]);
+  });
+});
+
+Deno.test("loadConversationFiles - reads back the cache stored on disk", async () => {
+  await withHistoryDir(async (historyDir) => {
+    const filePath = `${historyDir}/s1.jsonl`;
+    await Deno.writeTextFile(filePath, historyLine("u1", "2024-01-01"));
+    await Deno.utime(filePath, mtime, mtime);
+    await loadConversationFiles(new Map(), "-work-app", historyDir, false);
+
+    // Same size and mtime, so a new server trusts the stored summary
+    await Deno.writeTextFile(filePath, historyLine("u9", "2024-01-01"));
+    await Deno.utime(filePath, mtime, mtime);
+    const [file] = await loadConversationFiles(
+      new Map(),
+      "-work-app",
+      historyDir,
+      false,
+    );
+
+    assertEquals(file.uuids, new Set(["u1"]));
+    assertEquals(file.startTime, "2024-01-01");
+  });
+});
+
+Deno.test("loadConversationFiles - watches only the most recently loaded projects", async () => {
+  await withHistoryDir(async (historyDir) => {
+    const cache: HistoryCache = new Map();
+    const projects = Array.from(
+      { length: MAX_WATCHED_PROJECTS + 1 },
+      (_, index) => `-work-app-${index}`,
+    );
+    const projectsDir = historyDir.slice(0, historyDir.lastIndexOf("/"));
+    for (const project of projects) {
+      await Deno.mkdir(`${projectsDir}/${project}`);
+      await loadConversationFiles(cache, project, `${projectsDir}/${project}`);
+    }
+
+    assertEquals(cache.get(projects[0])?.watcher, null);
+    assertEquals(cache.get(projects[0])?.fresh, false);
+    assertEquals(
+      Array.from(cache.values()).filter((project) => project.watcher).length,
+      MAX_WATCHED_PROJECTS,
+    );
+
+    for (const project of cache.values()) {
+      project.watcher?.close();
+    }
+    // Let the watcher loops finish
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+});
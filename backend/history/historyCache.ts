@@ -0,0 +1,262 @@
+/**
+ * Persistent cache of parsed conversation files
+ * Keeps the summary fields and ID sets of every session file keyed by path,
+ * modification time and size, so only changed files are parsed again.
+ * A filesystem watcher per project marks the cache stale when files change;
+ * only the most recently loaded projects are watched.
+ */
+
+import type { ConversationFile } from "./parser.ts";
+import { parseHistoryFile } from "./parser.ts";
+
+// One cache file per project, next to the CLI's project folders
+const CACHE_DIR = "webui_history_index";
+// Bumped when the stored shape changes so old caches are rebuilt
+const CACHE_VERSION = 1;
+// Projects watched at once; the least recently loaded one stops being
+// watched when another project needs a watcher
+export const MAX_WATCHED_PROJECTS = 8;
+
+// Conversation file as stored on disk, with sets as arrays
+interface CachedFile extends Omit<ConversationFile, "uuids" | "messageIds"> {
+  mtimeMs: number;
+  size: number;
+  uuids: string[];
+  messageIds: string[];
+}
+
+interface StoredHistoryCache {
+  version: number;
+  files: Record<string, CachedFile>;
+}
+
+/**
+ * Cached conversation files of one project
+ */
+export interface ProjectHistoryCache {
+  files: Map<string, { mtimeMs: number; size: number; file: ConversationFile }>;
+  // True while the watcher has seen no change since the last scan
+  fresh: boolean;
+  watcher: Deno.FsWatcher | null;
+}
+
+/**
+ * Cached conversation files by encoded project name, least recently
+ * loaded first
+ */
+export type HistoryCache = Map<string, ProjectHistoryCache>;
+
+/**
+ * Returns the path of a project's cache file in the user's ~/.claude directory
+ */
+function getCachePath(encodedProjectName: string): string | null {
+  const home = Deno.env.get("HOME") || Deno.env.get("USERPROFILE");
+  return home
+    ? `${home}/.claude/${CACHE_DIR}/${encodedProjectName}.json`
+    : null;
+}
+
+/**
+ * Reads a project's stored cache, returning no files if it is missing or
+ * was written by another version
+ */
+async function readStoredCache(
+  cachePath: string,
+): Promise<ProjectHistoryCache["files"]> {
+  const files: ProjectHistoryCache["files"] = new Map();
+  try {
+    const stored: StoredHistoryCache = JSON.parse(
+      await Deno.readTextFile(cachePath),
+    );
+    if (stored?.version !== CACHE_VERSION || !stored.files) return files;
+
+    for (const [filePath, cached] of Object.entries(stored.files)) {
+      const { mtimeMs, size, uuids, messageIds, ...summary } = cached;
+      files.set(filePath, {
+        mtimeMs,
+        size,
+        file: {
+          ...summary,
+          uuids: new Set(uuids),
+          messageIds: new Set(messageIds),
+        },
+      });
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      console.warn(
+        `[History] Rebuilding unreadable cache ${cachePath}:`,
+        error,
+      );
+    }
+  }
+  return files;
+}
+
+/**
+ * Writes a project's cache to disk
+ */
+async function writeStoredCache(
+  cachePath: string,
+  files: ProjectHistoryCache["files"],
+) {
+  const stored: StoredHistoryCache = { version: CACHE_VERSION, files: {} };
+  for (const [filePath, { mtimeMs, size, file }] of files) {
+    stored.files[filePath] = {
+      ...file,
+      mtimeMs,
+      size,
+      uuids: Array.from(file.uuids),
+      messageIds: Array.from(file.messageIds),
+    };
+  }
+
+  await Deno.mkdir(cachePath.slice(0, cachePath.lastIndexOf("/")), {
+    recursive: true,
+  });
+  await Deno.writeTextFile(cachePath, JSON.stringify(stored));
+}
+
+/**
+ * Stops watching a project; its files are checked again on the next load
+ */
+function unwatchProject(project: ProjectHistoryCache) {
+  const watcher = project.watcher;
+  project.watcher = null;
+  project.fresh = false;
+  watcher?.close();
+}
+
+/**
+ * Closes the watchers of the least recently loaded projects so that
+ * another one can be started within MAX_WATCHED_PROJECTS
+ */
+function releaseWatchers(cache: HistoryCache) {
+  const watched = Array.from(cache.values()).filter((project) =>
+    project.watcher
+  );
+  const excess = watched.length - MAX_WATCHED_PROJECTS + 1;
+  for (const project of watched.slice(0, Math.max(excess, 0))) {
+    unwatchProject(project);
+  }
+}
+
+/**
+ * Marks the project's cache stale whenever a session file changes
+ * The cache falls back to checking every file if the watcher stops
+ */
+function watchHistoryDir(project: ProjectHistoryCache, historyDir: string) {
+  let watcher: Deno.FsWatcher;
+  try {
+    watcher = Deno.watchFs(historyDir, { recursive: false });
+  } catch (error) {
+    console.warn(`[History] Cannot watch ${historyDir}:`, error);
+    return;
+  }
+  project.watcher = watcher;
+
+  (async () => {
+    try {
+      for await (const event of watcher) {
+        if (event.paths.some((path) => path.endsWith(".jsonl"))) {
+          project.fresh = false;
+        }
+      }
+    } catch (error) {
+      console.warn(`[History] Stopped watching ${historyDir}:`, error);
+    } finally {
+      // A closed watcher may already have been replaced
+      if (project.watcher === watcher) {
+        project.watcher = null;
+        project.fresh = false;
+      }
+    }
+  })();
+}
+
+/**
+ * Returns the parsed conversation files of a project
+ * Files are parsed again only when their modification time or size
+ * changed; while the project's watcher reports no changes, the cached
+ * files are returned without looking at the folder at all
+ * @param cache - Shared history cache
+ * @param encodedProjectName - Project whose history to load
+ * @param historyDir - The project's folder of session files
+ * @param watch - Whether to start a watcher for the folder
+ * @returns Parsed conversation files
+ */
+export async function loadConversationFiles(
+  cache: HistoryCache,
+  encodedProjectName: string,
+  historyDir: string,
+  watch = true,
+): Promise<ConversationFile[]> {
+  const cachePath = getCachePath(encodedProjectName);
+  let project = cache.get(encodedProjectName);
+  if (!project) {
+    project = {
+      files: cachePath ? await readStoredCache(cachePath) : new Map(),
+      fresh: false,
+      watcher: null,
+    };
+  }
+  // Reinserted so the map stays ordered by last use
+  cache.delete(encodedProjectName);
+  cache.set(encodedProjectName, project);
+
+  if (project.fresh) {
+    return Array.from(project.files.values(), ({ file }) => file);
+  }
+
+  // Start watching before the scan so changes made during it are not missed
+  if (watch && !project.watcher) {
+    releaseWatchers(cache);
+    watchHistoryDir(project, historyDir);
+  }
+  project.fresh = project.watcher !== null;
+
+  const seen = new Set<string>();
+  let changed = false;
+  try {
+    for await (const entry of Deno.readDir(historyDir)) {
+      if (!entry.isFile || !entry.name.endsWith(".jsonl")) continue;
+
+      const filePath = `${historyDir}/${entry.name}`;
+      seen.add(filePath);
+      const stat = await Deno.stat(filePath);
+      const mtimeMs = stat.mtime?.getTime() ?? 0;
+      const cached = project.files.get(filePath);
+      if (cached && cached.mtimeMs === mtimeMs && cached.size === stat.size) {
+        continue;
+      }
+
+      const file = await parseHistoryFile(filePath);
+      if (file) {
+        project.files.set(filePath, { mtimeMs, size: stat.size, file });
+      } else {
+        project.files.delete(filePath);
+      }
+      changed = true;
+    }
+
+    for (const filePath of project.files.keys()) {
+      if (!seen.has(filePath)) {
+        project.files.delete(filePath);
+        changed = true;
+      }
+    }
+  } catch (error) {
+    project.fresh = false;
+    throw error;
+  }
+
+  if (changed && cachePath) {
+    try {
+      await writeStoredCache(cachePath, project.files);
+    } catch (error) {
+      console.warn(`[History] Failed to write cache ${cachePath}:`, error);
+    }
+  }
+
+  return Array.from(project.files.values(), ({ file }) => file);
+}
@@ -0,0 +1,96 @@
+import { assertEquals } from "@std/assert";
+import { prepareHistoryImport, relocateLines } from "./historyImport.ts";
+import { validateSessionId } from "./conversationLoader.ts";
+
+function line(sessionId: string | undefined, cwd: string) {
+  return {
+    type: "user",
+    ...(sessionId ? { sessionId } : {}),
+    cwd,
+    timestamp: "2025-01-01T00:00:00.000Z",
+    message: { role: "user", content: "hello" },
+  };
+}
+
+function jsonl(lines: unknown[]) {
+  return lines.map((entry) => JSON.stringify(entry)).join("\n") + "\n";
+}
+
+Deno.test("prepareHistoryImport - takes the session ID from the file name", () => {
+  const prepared = prepareHistoryImport(
+    jsonl([line(undefined, "/Users/me/app")]),
+    "abc-123.jsonl",
+    "/home/me/app",
+  );
+
+  assertEquals(
+    "error" in prepared ? prepared.error : prepared.sessionId,
+    "abc-123",
+  );
+});
+
+Deno.test("prepareHistoryImport - reads export bundles", () => {
+  const bundle = {
+    format: "claude-webui-conversation",
+    version: 1,
+    sessionId: "bundled",
+    messages: [line("bundled", "/Users/me/app")],
+  };
+  const prepared = prepareHistoryImport(
+    JSON.stringify(bundle),
+    "export.json",
+    "/home/me/app",
+  );
+
+  assertEquals(
+    "error" in prepared ? prepared.error : prepared.sessionId,
+    "bundled",
+  );
+});
+
+Deno.test("prepareHistoryImport - rejects broken and empty files", () => {
+  assertEquals(
+    prepareHistoryImport("{}\nnot json\n", "a.jsonl", "/app"),
+    { error: "Line 2 is not valid JSON" },
+  );
+  assertEquals(
+    prepareHistoryImport(jsonl([{ type: "summary" }]), "a.jsonl", "/app"),
+    { error: "No user or assistant messages found" },
+  );
+});
+
+Deno.test("prepareHistoryImport - falls back when the file name is no session ID", () => {
+  const fromTranscript = prepareHistoryImport(
+    jsonl([line("abc-123", "/app")]),
+    "export (1).jsonl",
+    "/app",
+  );
+  assertEquals(
+    "error" in fromTranscript ? fromTranscript.error : fromTranscript.sessionId,
+    "abc-123",
+  );
+
+  const generated = prepareHistoryImport(
+    jsonl([line("../escape", "/app")]),
+    "../a.jsonl",
+    "/app",
+  );
+  assertEquals(
+    "error" in generated ? false : validateSessionId(generated.sessionId),
+    true,
+  );
+});
+
+Deno.test("relocateLines - moves working directories into the local project", () => {
+  const lines = relocateLines([
+    line("s", "/Users/me/app"),
+    line("s", "/Users/me/app/src"),
+    line("s", "/tmp"),
+  ], "/home/me/app/");
+
+  assertEquals(lines.map((entry) => entry.cwd), [
+    "/home/me/app",
+    "/home/me/app/src",
+    "/home/me/app",
+  ]);
+});
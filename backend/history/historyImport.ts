@@ -0,0 +1,132 @@
+/**
+ * Importing conversation histories from other machines
+ * Accepts a session file as the CLI writes it or a JSON export bundle,
+ * checks it, and moves its working directories to the local project.
+ */
+
+import type { ConversationExportBundle } from "../../shared/types.ts";
+import { validateSessionId } from "./conversationLoader.ts";
+
+type TranscriptLine = Record<string, unknown>;
+
+/**
+ * Transcript ready to be written into a project's history folder
+ */
+export interface PreparedImport {
+  sessionId: string;
+  lines: TranscriptLine[];
+}
+
+function isBundle(value: unknown): value is ConversationExportBundle {
+  return (value as ConversationExportBundle)?.format ===
+    "claude-webui-conversation";
+}
+
+/**
+ * Reads the transcript lines of a JSONL file, rejecting the whole file if
+ * any line is not a JSON object
+ */
+function parseJsonLines(content: string): TranscriptLine[] | string {
+  const lines: TranscriptLine[] = [];
+  const rawLines = content.split("\n");
+  for (let i = 0; i < rawLines.length; i++) {
+    if (!rawLines[i].trim()) continue;
+    try {
+      const parsed = JSON.parse(rawLines[i]);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        return `Line ${i + 1} is not a transcript entry`;
+      }
+      lines.push(parsed);
+    } catch {
+      return `Line ${i + 1} is not valid JSON`;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Moves every working directory from the other machine's project folder to
+ * the local one; subfolders keep their place inside the project
+ */
+export function relocateLines(
+  lines: TranscriptLine[],
+  projectPath: string,
+): TranscriptLine[] {
+  const originalRoot = lines.find((line) => typeof line.cwd === "string")
+    ?.cwd as string | undefined;
+  if (!originalRoot) return lines;
+
+  const localRoot = projectPath.replace(/\/$/, "");
+  return lines.map((line) => {
+    if (typeof line.cwd !== "string") return line;
+    const cwd = line.cwd === originalRoot ||
+        line.cwd.startsWith(`${originalRoot}/`)
+      ? localRoot + line.cwd.slice(originalRoot.length)
+      : localRoot;
+    return { ...line, cwd };
+  });
+}
+
+/**
+ * Checks an uploaded history and prepares it for the local project
+ * The session ID comes from the bundle, the transcript itself or the .jsonl
+ * file name, whichever is a valid session file name first, since downloads
+ * are often renamed to "abc (1).jsonl"; without any a new ID is made. Like the
+ * history parser, every line must be JSON, and the file must hold at least
+ * one user or assistant message with a timestamp.
+ * @param content - Uploaded JSONL transcript or JSON export bundle
+ * @param fileName - Name of the uploaded file
+ * @param projectPath - Local project the session is resolved against
+ * @returns The prepared transcript, or the reason it was rejected
+ */
+export function prepareHistoryImport(
+  content: string,
+  fileName: string | undefined,
+  projectPath: string,
+): PreparedImport | { error: string } {
+  let lines: TranscriptLine[];
+  let bundleId: unknown;
+  let fileId: string | undefined;
+
+  let bundle: unknown = null;
+  try {
+    bundle = JSON.parse(content);
+  } catch {
+    // Not a single JSON document, so read it as JSONL
+  }
+
+  if (isBundle(bundle)) {
+    if (
+      !Array.isArray(bundle.messages) ||
+      bundle.messages.some((line) => !line || typeof line !== "object")
+    ) {
+      return { error: "Export bundle has no valid messages" };
+    }
+    lines = bundle.messages as TranscriptLine[];
+    bundleId = bundle.sessionId;
+  } else {
+    const parsed = parseJsonLines(content);
+    if (typeof parsed === "string") return { error: parsed };
+    lines = parsed;
+    if (fileName?.endsWith(".jsonl")) {
+      fileId = fileName.slice(0, -".jsonl".length);
+    }
+  }
+
+  const messages = lines.filter((line) =>
+    (line.type === "user" || line.type === "assistant") &&
+    typeof line.timestamp === "string" && line.message
+  );
+  if (messages.length === 0) {
+    return { error: "No user or assistant messages found" };
+  }
+
+  // Resumed transcripts start with earlier sessions' lines, so the last
+  // message names the session the file belongs to
+  const transcriptId = messages[messages.length - 1].sessionId;
+  const sessionId = [bundleId, transcriptId, fileId].find(
+    (id): id is string => typeof id === "string" && validateSessionId(id),
+  ) ?? crypto.randomUUID();
+
+  return { sessionId, lines: relocateLines(lines, projectPath) };
+}
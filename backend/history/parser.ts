@@ -28,7 +28,7 @@ export interface RawHistoryLine {
 export interface ConversationFile {
   sessionId: string;
   filePath: string;
-  messages: RawHistoryLine[];
+  uuids: Set<string>; // Line UUIDs, to find the fork a file descends from
   messageIds: Set<string>;
   startTime: string;
   lastTime: string;
@@ -38,9 +38,8 @@ export interface ConversationFile {
 
 /**
  * Parse a single JSONL file and extract conversation data
- * @private - Internal function used by parseAllHistoryFiles
  */
-async function parseHistoryFile(
+export async function parseHistoryFile(
   filePath: string,
 ): Promise<ConversationFile | null> {
   try {
@@ -51,8 +50,9 @@ async function parseHistoryFile(
       return null; // Empty file
     }
 
-    const messages: RawHistoryLine[] = [];
+    const uuids = new Set<string>();
     const messageIds = new Set<string>();
+    let messageCount = 0;
     let startTime = "";
     let lastTime = "";
     let lastMessagePreview = "";
@@ -60,7 +60,10 @@ async function parseHistoryFile(
     for (const line of lines) {
       try {
         const parsed = JSON.parse(line) as RawHistoryLine;
-        messages.push(parsed);
+        messageCount++;
+        if (parsed.uuid) {
+          uuids.add(parsed.uuid);
+        }
 
         // Track message IDs from assistant messages
         if (parsed.message?.role === "assistant" && parsed.message?.id) {
@@ -103,11 +106,11 @@ async function parseHistoryFile(
     return {
       sessionId,
       filePath,
-      messages,
+      uuids,
       messageIds,
       startTime,
       lastTime,
-      messageCount: messages.length,
+      messageCount,
       lastMessagePreview: lastMessagePreview || "No preview available",
     };
   } catch (error) {
@@ -116,47 +119,6 @@ async function parseHistoryFile(
   }
 }
 
-/**
- * Get all JSONL files in a history directory
- * @private - Internal function used by parseAllHistoryFiles
- */
-async function getHistoryFiles(historyDir: string): Promise<string[]> {
-  try {
-    const files: string[] = [];
-
-    for await (const entry of Deno.readDir(historyDir)) {
-      if (entry.isFile && entry.name.endsWith(".jsonl")) {
-        files.push(`${historyDir}/${entry.name}`);
-      }
-    }
-
-    return files;
-  } catch (_error) {
-    // Directory doesn't exist or can't be read
-    return [];
-  }
-}
-
-/**
- * Parse all conversation files in a history directory
- * Used by the histories endpoint to get conversation summaries
- */
-export async function parseAllHistoryFiles(
-  historyDir: string,
-): Promise<ConversationFile[]> {
-  const filePaths = await getHistoryFiles(historyDir);
-  const results: ConversationFile[] = [];
-
-  for (const filePath of filePaths) {
-    const parsed = await parseHistoryFile(filePath);
-    if (parsed) {
-      results.push(parsed);
-    }
-  }
-
-  return results;
-}
-
 /**
  * Check if one set of message IDs is a subset of another
  */
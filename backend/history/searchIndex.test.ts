@@ -0,0 +1,152 @@
+import { assertEquals } from "@std/assert";
+import {
+  createProjectIndex,
+  createSnippet,
+  extractSearchEntries,
+  findEntries,
+  indexSearchEntries,
+  setIndexedFile,
+  tokenize,
+} from "./searchIndex.ts";
+import type { RawHistoryLine } from "./parser.ts";
+
+function line(
+  uuid: string,
+  type: RawHistoryLine["type"],
+  content: unknown,
+): RawHistoryLine {
+  return {
+    type,
+    uuid,
+    sessionId: "session",
+    timestamp: "2025-01-01T00:00:00.000Z",
+    message: { role: type, content } as RawHistoryLine["message"],
+  };
+}
+
+Deno.test("tokenize - lowercases words and drops punctuation", () => {
+  assertEquals(tokenize("Fix parseConfig() in src/app.ts!"), [
+    "fix",
+    "parseconfig",
+    "in",
+    "src",
+    "app",
+    "ts",
+  ]);
+  assertEquals(tokenize("??? !!"), []);
+});
+
+Deno.test("extractSearchEntries - attributes tool results to their tool", () => {
+  const { entries, filePaths } = extractSearchEntries([
+    line("u1", "user", "rename the config loader"),
+    line("a1", "assistant", [
+      { type: "text", text: "Reading it first" },
+      {
+        type: "tool_use",
+        id: "t1",
+        name: "Read",
+        input: { file_path: "/repo/src/config.ts" },
+      },
+    ]),
+    line("u2", "user", [
+      { type: "tool_result", tool_use_id: "t1", content: "export function" },
+    ]),
+  ]);
+
+  assertEquals(
+    entries.map(({ uuid, kind, toolName }) => [uuid, kind, toolName]),
+    [
+      ["u1", "prompt", undefined],
+      ["a1", "assistant", undefined],
+      ["a1", "tool_input", "Read"],
+      ["u2", "tool_output", "Read"],
+    ],
+  );
+  assertEquals(filePaths, ["/repo/src/config.ts"]);
+});
+
+Deno.test("extractSearchEntries - skips meta lines", () => {
+  const meta = {
+    ...line("u1", "user", "Caveat: local commands"),
+    isMeta: true,
+  };
+
+  assertEquals(extractSearchEntries([meta]).entries, []);
+});
+
+function indexedFile(sessionId: string, lines: RawHistoryLine[]) {
+  return {
+    mtimeMs: 0,
+    size: 0,
+    sessionId,
+    ...indexSearchEntries(lines),
+  };
+}
+
+Deno.test("findEntries - matches entries where every query word starts a word", () => {
+  const index = createProjectIndex();
+  setIndexedFile(
+    index,
+    "s1.jsonl",
+    indexedFile("s1", [
+      line("u1", "user", "rename the config loader"),
+      line("u2", "user", "configure the linter"),
+    ]),
+  );
+  setIndexedFile(
+    index,
+    "s2.jsonl",
+    indexedFile("s2", [line("u3", "user", "load the config")]),
+  );
+
+  const found = (query: string) =>
+    findEntries(index, tokenize(query))
+      .map(({ fileName, entry }) => `${fileName}:${entry.uuid}`)
+      .sort();
+
+  assertEquals(found("conf"), ["s1.jsonl:u1", "s1.jsonl:u2", "s2.jsonl:u3"]);
+  assertEquals(found("config load"), ["s1.jsonl:u1", "s2.jsonl:u3"]);
+  assertEquals(found("onfig"), []);
+});
+
+Deno.test("setIndexedFile - drops the words of a replaced or deleted file", () => {
+  const index = createProjectIndex();
+  setIndexedFile(
+    index,
+    "s1.jsonl",
+    indexedFile("s1", [line("u1", "user", "old words")]),
+  );
+  setIndexedFile(
+    index,
+    "s1.jsonl",
+    indexedFile("s1", [line("u2", "user", "new words")]),
+  );
+
+  assertEquals(findEntries(index, ["old"]), []);
+  assertEquals(findEntries(index, ["words"]).map(({ entry }) => entry.uuid), [
+    "u2",
+  ]);
+  assertEquals(index.sortedTerms, ["new", "words"]);
+
+  setIndexedFile(index, "s1.jsonl", null);
+  assertEquals(index.sortedTerms, []);
+  assertEquals(index.files.size, 0);
+});
+
+Deno.test("indexSearchEntries - keeps the start of long texts for snippets", () => {
+  const text = `${"word ".repeat(1000)}needle`;
+  const { entries } = indexSearchEntries([line("u1", "user", text)]);
+
+  assertEquals(entries[0].text.length < text.length, true);
+  assertEquals(entries[0].terms, ["word", "needle"]);
+});
+
+Deno.test("createSnippet - centers on the first matched word", () => {
+  const text = `${"a ".repeat(100)}needle ${"b ".repeat(100)}`;
+  const snippet = createSnippet(text, ["needle"]);
+
+  assertEquals(snippet.startsWith("…"), true);
+  assertEquals(snippet.endsWith("…"), true);
+  assertEquals(snippet.includes("needle"), true);
+  assertEquals(createSnippet("short text", ["missing"]), "short text");
+});
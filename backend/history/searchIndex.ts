@@ -0,0 +1,532 @@
+/**
+ * Full-text search over conversation history
+ * Keeps an index of the words of every session file in memory, stored on
+ * disk between runs, re-reading only files that changed since they were
+ * last indexed
+ */
+
+import type {
+  HistorySearchMatchKind,
+  HistorySearchResult,
+} from "../../shared/types.ts";
+import type { RawHistoryLine } from "./parser.ts";
+
+// One index file per project, next to the CLI's project folders
+const INDEX_DIR = "webui_search_index";
+// Bumped when the stored shape changes so old indexes are rebuilt
+const INDEX_VERSION = 2;
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 140;
+// Text kept per entry for snippets; words past it are still indexed
+const STORED_TEXT_LENGTH = 2000;
+
+/**
+ * Searchable text of one message part
+ */
+export interface SearchEntry {
+  uuid: string;
+  kind: HistorySearchMatchKind;
+  toolName?: string;
+  timestamp: string;
+  text: string;
+}
+
+// Entry as indexed: its distinct words and the start of its text
+interface IndexedEntry extends SearchEntry {
+  terms: string[];
+}
+
+interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  sessionId: string;
+  // Files read or changed by tools in the session
+  filePaths: string[];
+  entries: IndexedEntry[];
+}
+
+interface StoredSearchIndex {
+  version: number;
+  files: Record<string, IndexedFile>;
+}
+
+/**
+ * Search index of one project's session files
+ */
+export interface ProjectSearchIndex {
+  files: Map<string, IndexedFile>;
+  // Entries containing each word, by file name
+  postings: Map<string, Map<string, IndexedEntry[]>>;
+  // Words of postings in order, so a prefix is found by binary search
+  sortedTerms: string[];
+}
+
+/**
+ * Search indexes by encoded project name, kept in memory between searches
+ */
+export type SearchIndexCache = Map<string, ProjectSearchIndex>;
+
+/**
+ * Filters narrowing a history search
+ */
+export interface HistorySearchFilters {
+  from?: string; // ISO date or timestamp, inclusive
+  to?: string; // ISO date or timestamp, inclusive
+  toolName?: string;
+  filePath?: string; // Substring of a path the session's tools touched
+}
+
+// Tool input fields naming the file a tool works on
+const FILE_PATH_FIELDS = ["file_path", "notebook_path", "path"];
+
+/**
+ * Splits text into lowercase words
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+/**
+ * Returns the text of a tool result's content
+ */
+function getToolResultText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((block) => block?.type === "text")
+    .map((block) => String(block.text))
+    .join("\n");
+}
+
+/**
+ * Extracts the searchable parts of a conversation's lines
+ * Tool results are attributed to the tool that produced them
+ * @param lines - Lines of a conversation file in order
+ * @returns Searchable entries and the files the session's tools touched
+ */
+export function extractSearchEntries(
+  lines: RawHistoryLine[],
+): { entries: SearchEntry[]; filePaths: string[] } {
+  const entries: SearchEntry[] = [];
+  const filePaths = new Set<string>();
+  const toolNames = new Map<string, string>();
+
+  for (const line of lines) {
+    if ((line as { isMeta?: boolean }).isMeta || !line.uuid) continue;
+    const content = line.message?.content;
+    const base = { uuid: line.uuid, timestamp: line.timestamp };
+
+    if (typeof content === "string") {
+      if (line.type === "user" || line.type === "assistant") {
+        entries.push({
+          ...base,
+          kind: line.type === "assistant" ? "assistant" : "prompt",
+          text: content,
+        });
+      }
+      continue;
+    }
+    if (!Array.isArray(content)) continue;
+
+    for (const block of content as Array<Record<string, unknown>>) {
+      if (block.type === "text" && typeof block.text === "string") {
+        entries.push({
+          ...base,
+          kind: line.type === "assistant" ? "assistant" : "prompt",
+          text: block.text,
+        });
+      } else if (block.type === "tool_use") {
+        const toolName = String(block.name);
+        const input = (block.input ?? {}) as Record<string, unknown>;
+        toolNames.set(String(block.id), toolName);
+        for (const field of FILE_PATH_FIELDS) {
+          if (typeof input[field] === "string") filePaths.add(input[field]);
+        }
+        entries.push({
+          ...base,
+          kind: "tool_input",
+          toolName,
+          text: Object.values(input)
+            .map((value) =>
+              typeof value === "string" ? value : JSON.stringify(value)
+            )
+            .join("\n"),
+        });
+      } else if (block.type === "tool_result") {
+        const toolName = toolNames.get(String(block.tool_use_id));
+        entries.push({
+          ...base,
+          kind: "tool_output",
+          ...(toolName ? { toolName } : {}),
+          text: getToolResultText(block.content),
+        });
+      }
+    }
+  }
+
+  return {
+    entries: entries.filter((entry) => entry.text.trim()),
+    filePaths: Array.from(filePaths),
+  };
+}
+
+/**
+ * Returns the text around the first occurrence of a query word
+ */
+export function createSnippet(text: string, queryTerms: string[]): string {
+  const lower = text.toLowerCase();
+  const positions = queryTerms
+    .map((term) => lower.indexOf(term))
+    .filter((position) => position >= 0);
+  const position = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, position - SNIPPET_BEFORE);
+  const end = Math.min(text.length, position + SNIPPET_AFTER);
+  return (start > 0 ? "…" : "") +
+    text.slice(start, end).replace(/\s+/g, " ").trim() +
+    (end < text.length ? "…" : "");
+}
+
+/**
+ * Reads the lines of a conversation file, skipping malformed ones
+ */
+async function readHistoryLines(filePath: string): Promise<RawHistoryLine[]> {
+  const content = await Deno.readTextFile(filePath);
+  const lines: RawHistoryLine[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      lines.push(JSON.parse(line));
+    } catch {
+      // Partially written last line; indexed once it is complete
+    }
+  }
+  return lines;
+}
+
+/**
+ * Returns the first position in a sorted list not before the value
+ */
+function lowerBound(sorted: string[], value: string): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sorted[middle] < value) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+/**
+ * Creates an empty project index
+ */
+export function createProjectIndex(): ProjectSearchIndex {
+  return { files: new Map(), postings: new Map(), sortedTerms: [] };
+}
+
+/**
+ * Replaces the indexed entries of one session file
+ * @param index - Project index to change
+ * @param fileName - Name of the session file
+ * @param file - The file's new index, or null if it was deleted
+ */
+export function setIndexedFile(
+  index: ProjectSearchIndex,
+  fileName: string,
+  file: IndexedFile | null,
+) {
+  const previous = index.files.get(fileName);
+  for (const entry of previous?.entries ?? []) {
+    for (const term of entry.terms) {
+      const byFile = index.postings.get(term);
+      if (!byFile?.delete(fileName) || byFile.size > 0) continue;
+      index.postings.delete(term);
+      index.sortedTerms.splice(lowerBound(index.sortedTerms, term), 1);
+    }
+  }
+  if (!file) {
+    index.files.delete(fileName);
+    return;
+  }
+
+  index.files.set(fileName, file);
+  for (const entry of file.entries) {
+    for (const term of entry.terms) {
+      let byFile = index.postings.get(term);
+      if (!byFile) {
+        byFile = new Map();
+        index.postings.set(term, byFile);
+        index.sortedTerms.splice(lowerBound(index.sortedTerms, term), 0, term);
+      }
+      const entries = byFile.get(fileName);
+      if (entries) entries.push(entry);
+      else byFile.set(fileName, [entry]);
+    }
+  }
+}
+
+/**
+ * Returns the entries with a word starting with the prefix, with the
+ * files they are in
+ */
+function findPrefix(
+  index: ProjectSearchIndex,
+  prefix: string,
+): Map<IndexedEntry, string> {
+  const found = new Map<IndexedEntry, string>();
+  const { sortedTerms } = index;
+  for (
+    let position = lowerBound(sortedTerms, prefix);
+    position < sortedTerms.length && sortedTerms[position].startsWith(prefix);
+    position++
+  ) {
+    for (
+      const [fileName, entries] of index.postings.get(sortedTerms[position])!
+    ) {
+      for (const entry of entries) found.set(entry, fileName);
+    }
+  }
+  return found;
+}
+
+/**
+ * Finds the entries in which each query word starts one of their words
+ * @returns The matching entries with the files they are in
+ */
+export function findEntries(
+  index: ProjectSearchIndex,
+  queryTerms: string[],
+): { fileName: string; entry: IndexedEntry }[] {
+  let found: Map<IndexedEntry, string> | null = null;
+  for (const term of queryTerms) {
+    const candidates = findPrefix(index, term);
+    if (found) {
+      for (const entry of found.keys()) {
+        if (!candidates.has(entry)) found.delete(entry);
+      }
+    } else {
+      found = candidates;
+    }
+    if (found.size === 0) break;
+  }
+  return Array.from(found ?? [], ([entry, fileName]) => ({ fileName, entry }));
+}
+
+/**
+ * Indexes the searchable entries of a conversation's lines
+ */
+export function indexSearchEntries(
+  lines: RawHistoryLine[],
+): Pick<IndexedFile, "filePaths" | "entries"> {
+  const { entries, filePaths } = extractSearchEntries(lines);
+  return {
+    filePaths,
+    entries: entries.map((entry) => ({
+      ...entry,
+      text: entry.text.slice(0, STORED_TEXT_LENGTH),
+      terms: Array.from(new Set(tokenize(entry.text))),
+    })),
+  };
+}
+
+/**
+ * Returns the path of a project's index file in the user's ~/.claude directory
+ */
+function getIndexPath(encodedProjectName: string): string | null {
+  const home = Deno.env.get("HOME") || Deno.env.get("USERPROFILE");
+  return home
+    ? `${home}/.claude/${INDEX_DIR}/${encodedProjectName}.json`
+    : null;
+}
+
+/**
+ * Reads a project's stored index, returning an empty one if it is missing
+ * or was written by another version
+ */
+async function readStoredIndex(
+  indexPath: string,
+): Promise<ProjectSearchIndex> {
+  const index = createProjectIndex();
+  try {
+    const stored: StoredSearchIndex = JSON.parse(
+      await Deno.readTextFile(indexPath),
+    );
+    if (stored?.version !== INDEX_VERSION || !stored.files) return index;
+    for (const [fileName, file] of Object.entries(stored.files)) {
+      setIndexedFile(index, fileName, file);
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      console.warn(`[Search] Rebuilding unreadable index ${indexPath}:`, error);
+    }
+  }
+  return index;
+}
+
+/**
+ * Brings a project's index up to date with its history folder
+ * The index is read from disk once and then kept in memory; files are
+ * re-read only when their size or modification time changed
+ * @param cache - Search indexes kept between searches
+ * @param encodedProjectName - Project whose history to index
+ * @param historyDir - The project's folder of session files
+ * @returns The project's index
+ */
+async function updateProjectIndex(
+  cache: SearchIndexCache,
+  encodedProjectName: string,
+  historyDir: string,
+): Promise<ProjectSearchIndex> {
+  const indexPath = getIndexPath(encodedProjectName);
+  let index = cache.get(encodedProjectName);
+  if (!index) {
+    index = indexPath ? await readStoredIndex(indexPath) : createProjectIndex();
+    cache.set(encodedProjectName, index);
+  }
+
+  const seen = new Set<string>();
+  let changed = false;
+
+  for await (const entry of Deno.readDir(historyDir)) {
+    if (!entry.isFile || !entry.name.endsWith(".jsonl")) continue;
+    seen.add(entry.name);
+
+    const filePath = `${historyDir}/${entry.name}`;
+    const stat = await Deno.stat(filePath);
+    const mtimeMs = stat.mtime?.getTime() ?? 0;
+    const indexed = index.files.get(entry.name);
+    if (indexed && indexed.mtimeMs === mtimeMs && indexed.size === stat.size) {
+      continue;
+    }
+
+    try {
+      setIndexedFile(index, entry.name, {
+        mtimeMs,
+        size: stat.size,
+        sessionId: entry.name.replace(".jsonl", ""),
+        ...indexSearchEntries(await readHistoryLines(filePath)),
+      });
+      changed = true;
+    } catch (error) {
+      console.error(`[Search] Failed to index ${filePath}:`, error);
+    }
+  }
+
+  for (const fileName of Array.from(index.files.keys())) {
+    if (!seen.has(fileName)) {
+      setIndexedFile(index, fileName, null);
+      changed = true;
+    }
+  }
+
+  if (changed && indexPath) {
+    const stored: StoredSearchIndex = {
+      version: INDEX_VERSION,
+      files: Object.fromEntries(index.files),
+    };
+    try {
+      await Deno.mkdir(indexPath.slice(0, indexPath.lastIndexOf("/")), {
+        recursive: true,
+      });
+      await Deno.writeTextFile(indexPath, JSON.stringify(stored));
+    } catch (error) {
+      console.warn(`[Search] Failed to write index ${indexPath}:`, error);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Converts an inclusive date filter into a timestamp bound
+ * A bare end date covers that whole day
+ */
+function toBound(value: string | undefined, isEnd: boolean): string | null {
+  if (!value) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return `${value}T${isEnd ? "23:59:59.999" : "00:00:00.000"}Z`;
+  }
+  return value;
+}
+
+/**
+ * Searches the history of the given projects
+ * Entries match when each query word starts one of their words
+ * @param cache - Search indexes kept between searches
+ * @param projects - Encoded project names to search
+ * @param query - Words to look for
+ * @param filters - Date, tool and file filters
+ * @param limit - Maximum number of results
+ * @returns Matches newest first, with snippets of the matched text
+ */
+export async function searchHistory(
+  cache: SearchIndexCache,
+  projects: string[],
+  query: string,
+  filters: HistorySearchFilters,
+  limit: number,
+): Promise<{ results: HistorySearchResult[]; truncated: boolean }> {
+  const homeDir = Deno.env.get("HOME");
+  if (!homeDir) {
+    throw new Error("HOME environment variable not found");
+  }
+
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) {
+    return { results: [], truncated: false };
+  }
+  const from = toBound(filters.from, false);
+  const to = toBound(filters.to, true);
+  const toolName = filters.toolName?.toLowerCase();
+  const filePath = filters.filePath?.toLowerCase();
+
+  type Match = {
+    encodedProjectName: string;
+    fileName: string;
+    entry: IndexedEntry;
+  };
+  const matches: Match[] = [];
+
+  for (const encodedProjectName of projects) {
+    const historyDir = `${homeDir}/.claude/projects/${encodedProjectName}`;
+    let index: ProjectSearchIndex;
+    try {
+      index = await updateProjectIndex(cache, encodedProjectName, historyDir);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) continue;
+      throw error;
+    }
+
+    for (const { fileName, entry } of findEntries(index, queryTerms)) {
+      if (from && entry.timestamp < from) continue;
+      if (to && entry.timestamp > to) continue;
+      if (toolName && entry.toolName?.toLowerCase() !== toolName) continue;
+      if (
+        filePath &&
+        !index.files.get(fileName)?.filePaths.some((path) =>
+          path.toLowerCase().includes(filePath)
+        )
+      ) {
+        continue;
+      }
+      matches.push({ encodedProjectName, fileName, entry });
+    }
+  }
+
+  matches.sort((a, b) => b.entry.timestamp.localeCompare(a.entry.timestamp));
+  const results: HistorySearchResult[] = matches
+    .slice(0, limit)
+    .map(({ encodedProjectName, fileName, entry }) => ({
+      encodedProjectName,
+      sessionId: fileName.replace(".jsonl", ""),
+      messageUuid: entry.uuid,
+      kind: entry.kind,
+      ...(entry.toolName ? { toolName: entry.toolName } : {}),
+      timestamp: entry.timestamp,
+      snippet: createSnippet(entry.text, queryTerms),
+    }));
+
+  return { results, truncated: matches.length > limit };
+}
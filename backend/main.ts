@@ -7,10 +7,46 @@ import {
   createConfigMiddleware,
 } from "./middleware/config.ts";
 import { handleProjectsRequest } from "./handlers/projects.ts";
-import { handleHistoriesRequest } from "./handlers/histories.ts";
-import { handleConversationRequest } from "./handlers/conversations.ts";
-import { handleChatRequest } from "./handlers/chat.ts";
+import {
+  handleHistoriesRequest,
+  handleHistoryImport,
+  handleHistorySearchRequest,
+  handleHistoryTreeRequest,
+} from "./handlers/histories.ts";
+import {
+  handleConversationExport,
+  handleConversationFork,
+  handleConversationRequest,
+  handleToolResultRequest,
+} from "./handlers/conversations.ts";
+import {
+  handleChatRequest,
+  handleChatStreamRequest,
+} from "./handlers/chat.ts";
+import type { ChatStreamBuffer } from "./chat/streamBuffer.ts";
+import type { SessionWatchers } from "./chat/sessionMirror.ts";
+import type { HistoryCache } from "./history/historyCache.ts";
+import type { SearchIndexCache } from "./history/searchIndex.ts";
+import { handleChatWebSocket } from "./handlers/websocket.ts";
 import { handleAbortRequest } from "./handlers/abort.ts";
+import {
+  handlePermissionResponse,
+  type PendingPermission,
+} from "./handlers/permission.ts";
+import {
+  handlePermissionRulesRequest,
+  handlePermissionRulesSave,
+} from "./handlers/permissionRules.ts";
+import {
+  handlePromptPresetsRequest,
+  handlePromptPresetsSave,
+} from "./handlers/promptPresets.ts";
+import {
+  handleCommandFileDelete,
+  handleCommandFileRequest,
+  handleCommandFileSave,
+  handleCommandsRequest,
+} from "./handlers/commands.ts";
 import { handleMCP } from "./handlers/mcp.ts";
 import { handleBillingRequest } from "./handlers/billing.ts";
 import { handleUsageRequest } from "./handlers/usage.ts";
@@ -33,11 +69,17 @@ import {
   handleTerminalInfo,
   handleTerminalShells,
 } from "./handlers/terminal.ts";
-import { handleFilesList } from "./handlers/files.ts";
+import {
+  handleFileLines,
+  handleFilesIndex,
+  handleFilesList,
+} from "./handlers/files.ts";
 import {
   handleSessionDelete,
   handleSessionGet,
+  handleSessionList,
   handleSessionSave,
+  handleSessionUpdate,
 } from "./handlers/sessions.ts";
 import { authHandler } from "./handlers/auth.ts";
 import { networkHandler } from "./handlers/network.ts";
@@ -56,12 +98,27 @@ const app = new Hono<ConfigContext>();
 // Store AbortControllers for each request (shared with chat handler)
 const requestAbortControllers = new Map<string, AbortController>();
 
+// Store tool permission prompts awaiting a browser answer (shared with chat handler)
+const pendingPermissions = new Map<string, PendingPermission>();
+
+// Buffered chat streams so clients can reattach after a dropped connection
+const chatStreams = new Map<string, ChatStreamBuffer>();
+
+// Devices following sessions live, notified when a request starts in one
+const sessionWatchers: SessionWatchers = new Map();
+
+// Parsed history files per project, refreshed when their files change
+const historyCache: HistoryCache = new Map();
+
+// Word indexes of project histories, kept between searches
+const searchIndexCache: SearchIndexCache = new Map();
+
 // CORS middleware
 app.use(
   "*",
   cors({
     origin: "*",
-    allowMethods: ["GET", "POST", "DELETE", "OPTIONS"],
+    allowMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
     allowHeaders: ["Content-Type", "Authorization"],
   }),
 );
@@ -84,9 +141,22 @@ app.route("/api/network", networkHandler);
 // API routes (protected by auth middleware)
 app.get("/api/projects", (c) => handleProjectsRequest(c));
 
+app.get("/api/histories/search", (c) => handleHistorySearchRequest(c, searchIndexCache));
+
 app.get(
   "/api/projects/:encodedProjectName/histories",
-  (c) => handleHistoriesRequest(c),
+  (c) => handleHistoriesRequest(c, historyCache),
+);
+
+app.post(
+  "/api/projects/:encodedProjectName/histories/import",
+  (c) => handleHistoryImport(c, historyCache),
+);
+
+// Registered before the session route so "tree" is not read as a session ID
+app.get(
+  "/api/projects/:encodedProjectName/histories/tree",
+  (c) => handleHistoryTreeRequest(c, historyCache),
 );
 
 app.get(
@@ -94,14 +164,60 @@ app.get(
   (c) => handleConversationRequest(c),
 );
 
+app.get(
+  "/api/projects/:encodedProjectName/histories/:sessionId/tool-results/:toolUseId",
+  (c) => handleToolResultRequest(c),
+);
+
+app.get(
+  "/api/projects/:encodedProjectName/histories/:sessionId/export",
+  (c) => handleConversationExport(c),
+);
+
+app.post(
+  "/api/projects/:encodedProjectName/histories/:sessionId/fork",
+  (c) => handleConversationFork(c),
+);
+
 app.post(
   "/api/abort/:requestId",
   (c) => handleAbortRequest(c, requestAbortControllers),
 );
 
+app.post(
+  "/api/permission/:requestId",
+  (c) => handlePermissionResponse(c, pendingPermissions),
+);
+
 app.post(
   "/api/chat",
-  (c) => handleChatRequest(c, requestAbortControllers),
+  (c) =>
+    handleChatRequest(
+      c,
+      requestAbortControllers,
+      pendingPermissions,
+      chatStreams,
+      sessionWatchers,
+    ),
+);
+
+app.get(
+  "/api/chat/:requestId/stream",
+  (c) => handleChatStreamRequest(c, chatStreams),
+);
+
+// WebSocket chat transport (multiplexes chat, abort, permission answers and
+// live mirroring of sessions to other devices)
+app.get(
+  "/api/ws",
+  (c) =>
+    handleChatWebSocket(
+      c,
+      requestAbortControllers,
+      pendingPermissions,
+      chatStreams,
+      sessionWatchers,
+    ),
 );
 
 // Settings API routes
@@ -161,12 +277,31 @@ app.get("/api/terminal/info", (c) => handleTerminalInfo(c));
 
 app.post("/api/terminal/validate-path", (c) => handlePathValidation(c));
 
+// Permission rules API routes
+app.get("/api/permissions/rules", (c) => handlePermissionRulesRequest(c));
+app.post("/api/permissions/rules", (c) => handlePermissionRulesSave(c));
+
+// Prompt preset API routes
+app.get("/api/prompt-presets", (c) => handlePromptPresetsRequest(c));
+app.post("/api/prompt-presets", (c) => handlePromptPresetsSave(c));
+
+// Slash command API routes
+app.get("/api/commands", (c) => handleCommandsRequest(c));
+app.get("/api/commands/file", (c) => handleCommandFileRequest(c));
+app.post("/api/commands/file", (c) => handleCommandFileSave(c));
+app.delete("/api/commands/file", (c) => handleCommandFileDelete(c));
+
 // Files API routes
 app.post("/api/files/list", (c) => handleFilesList(c));
+app.post("/api/files/index", (c) => handleFilesIndex(c));
+app.post("/api/files/lines", (c) => handleFileLines(c));
 
 // Session API routes
+app.get("/api/sessions", (c) => handleSessionList(c));
 app.post("/api/sessions/:sessionId/save", (c) => handleSessionSave(c));
 app.get("/api/sessions/:sessionId", (c) => handleSessionGet(c));
+app.put("/api/sessions/:sessionId", (c) => handleSessionSave(c));
+app.patch("/api/sessions/:sessionId", (c) => handleSessionUpdate(c));
 app.delete("/api/sessions/:sessionId", (c) => handleSessionDelete(c));
 
 // Static file serving with SPA fallback
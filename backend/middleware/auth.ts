@@ -30,9 +30,18 @@ export async function authMiddleware(c: Context, next: Next) {
     return next();
   }
 
-  // Check for bearer token
+  // Check for bearer token; browsers cannot set headers on WebSocket
+  // upgrades, so only those may pass it as a query parameter instead.
+  // Anywhere else it would end up in logs, history and Referer headers.
   const authHeader = c.req.header("Authorization");
-  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+  const isWebSocketUpgrade = path === "/api/ws" &&
+    c.req.header("upgrade")?.toLowerCase() === "websocket";
+  const token = authHeader?.startsWith("Bearer ")
+    ? authHeader.substring(7)
+    : isWebSocketUpgrade
+    ? c.req.query("token")
+    : undefined;
+  if (!token) {
     // Check if request is from localhost (web UI)
     const host = c.req.header("host");
     const origin = c.req.header("origin");
@@ -44,8 +53,6 @@ export async function authMiddleware(c: Context, next: Next) {
     return c.json({ error: "Unauthorized" }, 401);
   }
 
-  const token = authHeader.substring(7);
-  
   try {
     // Verify JWT
     const payload = await verify(token, JWT_SECRET);
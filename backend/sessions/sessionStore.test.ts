@@ -0,0 +1,149 @@
+import { assertEquals } from "@std/assert";
+import {
+  createSessionMetadata,
+  dropsStoredMessages,
+  filterSessions,
+  isStale,
+  paginateSessions,
+} from "./sessionStore.ts";
+import type { ServerSessionMetadata } from "../../shared/types.ts";
+
+function metadata(
+  sessionId: string,
+  overrides: Partial<ServerSessionMetadata> = {},
+): ServerSessionMetadata {
+  return {
+    sessionId,
+    projectPath: "/work/app",
+    title: `Session ${sessionId}`,
+    createdAt: 1000,
+    lastUpdated: 1000,
+    messageCount: 0,
+    tags: [],
+    revision: 1,
+    ...overrides,
+  };
+}
+
+Deno.test("createSessionMetadata derives counts and previews from messages", () => {
+  const result = createSessionMetadata(
+    {
+      metadata: metadata("s1", { messageCount: 99, lastUpdated: 1 }),
+      messages: [
+        { type: "chat", role: "user", content: "x".repeat(150) },
+        { type: "tool", content: "Read" },
+        { type: "chat", role: "assistant", content: "Done" },
+      ],
+    },
+    5000,
+  );
+
+  assertEquals(result.messageCount, 3);
+  assertEquals(result.firstMessage, "x".repeat(100));
+  assertEquals(result.lastMessage, "Done");
+  assertEquals(result.lastUpdated, 5000);
+  assertEquals(result.revision, 1);
+});
+
+Deno.test("createSessionMetadata keeps the stored creation time, title and tags", () => {
+  const existing = metadata("s1", {
+    createdAt: 10,
+    title: "Named on the phone",
+    tags: ["bug"],
+  });
+  const result = createSessionMetadata(
+    {
+      metadata: metadata("s1", { createdAt: 20, title: "", tags: undefined }),
+      messages: [],
+    },
+    5000,
+    existing,
+  );
+
+  assertEquals(result.createdAt, 10);
+  assertEquals(result.title, "Named on the phone");
+  assertEquals(result.tags, ["bug"]);
+  assertEquals(result.firstMessage, undefined);
+  assertEquals(result.revision, 2);
+});
+
+Deno.test("createSessionMetadata lets saves without a base revision only add messages", () => {
+  const existing = metadata("s1", { title: "Renamed", tags: ["bug"] });
+  const result = createSessionMetadata(
+    {
+      metadata: metadata("s1", { title: "Generated title", tags: [] }),
+      messages: [{ type: "chat", role: "user", content: "hi" }],
+    },
+    5000,
+    existing,
+    true,
+  );
+
+  assertEquals(result.title, "Renamed");
+  assertEquals(result.tags, ["bug"]);
+  assertEquals(result.messageCount, 1);
+});
+
+Deno.test("isStale refuses changes built on an older revision", () => {
+  const stored = metadata("s1", { revision: 3 });
+
+  assertEquals(isStale(stored, 3), false);
+  assertEquals(isStale(stored, 2), true);
+  assertEquals(isStale(stored, 0), true);
+  // Unconditional saves and sessions the server has not seen yet
+  assertEquals(isStale(stored, undefined), false);
+  assertEquals(isStale(undefined, 2), false);
+});
+
+Deno.test("dropsStoredMessages refuses beacons with fewer messages than stored", () => {
+  const stored = metadata("s1", { messageCount: 4 });
+
+  assertEquals(dropsStoredMessages(stored, 3), true);
+  assertEquals(dropsStoredMessages(stored, 4), false);
+  assertEquals(dropsStoredMessages(stored, 5), false);
+  assertEquals(dropsStoredMessages(undefined, 1), false);
+});
+
+Deno.test("filterSessions matches project, tag and search text", () => {
+  const sessions = [
+    metadata("a", { lastUpdated: 1, tags: ["bug"] }),
+    metadata("b", { lastUpdated: 3, firstMessage: "Fix the login form" }),
+    metadata("c", { lastUpdated: 2, projectPath: "/work/other" }),
+  ];
+
+  assertEquals(
+    filterSessions(sessions, {}).map((s) => s.sessionId),
+    ["b", "c", "a"],
+  );
+  assertEquals(
+    filterSessions(sessions, { projectPath: "/work/app" }).map((s) =>
+      s.sessionId
+    ),
+    ["b", "a"],
+  );
+  assertEquals(
+    filterSessions(sessions, { tag: "bug" }).map((s) => s.sessionId),
+    ["a"],
+  );
+  assertEquals(
+    filterSessions(sessions, { search: " LOGIN " }).map((s) => s.sessionId),
+    ["b"],
+  );
+});
+
+Deno.test("paginateSessions pages by offset and rejects bad cursors", () => {
+  const sessions = ["a", "b", "c"].map((id) => metadata(id));
+
+  const first = paginateSessions(sessions, 2);
+  assertEquals(first?.sessions.map((s) => s.sessionId), ["a", "b"]);
+  assertEquals(first?.total, 3);
+  assertEquals(first?.nextCursor, "2");
+
+  const last = paginateSessions(sessions, 2, "2");
+  assertEquals(last?.sessions.map((s) => s.sessionId), ["c"]);
+  assertEquals(last?.nextCursor, null);
+
+  assertEquals(paginateSessions(sessions, 2, "-1"), null);
+  assertEquals(paginateSessions(sessions, 2, "abc"), null);
+  assertEquals(paginateSessions(sessions, 2, "4"), null);
+});
@@ -0,0 +1,364 @@
+/**
+ * Server-side chat session store
+ * Keeps each session's messages in its own file under ~/.claude and the
+ * metadata of all sessions in one index, so listing and searching never
+ * read messages. Writes go through one queue and replace files atomically.
+ */
+
+import type {
+  ServerSession,
+  ServerSessionMetadata,
+  SessionListResponse,
+  SessionUpdateRequest,
+} from "../../shared/types.ts";
+
+const STORE_DIR = "webui_sessions";
+const INDEX_FILE = "index.json";
+// Kept apart from the index so no session ID can name the index file
+const SESSIONS_DIR = "sessions";
+// Bumped when the index shape changes so it is rebuilt from session files
+const INDEX_VERSION = 1;
+const PREVIEW_LENGTH = 100;
+
+/**
+ * Outcome of a change made against a base revision
+ * On conflict nothing is stored and the metadata is the server's current
+ * one, so the device can fetch the session and merge.
+ */
+export interface SessionWriteResult {
+  metadata: ServerSessionMetadata;
+  conflict: boolean;
+}
+
+interface SessionIndex {
+  version: number;
+  sessions: Record<string, ServerSessionMetadata>;
+}
+
+/**
+ * Filters for listing sessions
+ */
+export interface SessionQuery {
+  projectPath?: string;
+  search?: string; // Matched against titles, message previews and tags
+  tag?: string;
+}
+
+/**
+ * Returns the store directory in the user's ~/.claude directory
+ */
+function getStoreDir(): string {
+  const home = Deno.env.get("HOME") || Deno.env.get("USERPROFILE");
+  if (!home) {
+    throw new Error("HOME environment variable not found");
+  }
+  return `${home}/.claude/${STORE_DIR}`;
+}
+
+// Session IDs are validated as file names before they reach the store
+function getSessionPath(storeDir: string, sessionId: string): string {
+  return `${storeDir}/${SESSIONS_DIR}/${sessionId}.json`;
+}
+
+/**
+ * Writes a file through a temporary file so readers never see half of it
+ */
+async function writeFileAtomic(filePath: string, content: string) {
+  const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+  await Deno.writeTextFile(tempPath, content);
+  await Deno.rename(tempPath, filePath);
+}
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs store changes one at a time so index updates never overwrite each
+ * other
+ */
+function queueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch(() => {});
+  return result;
+}
+
+/**
+ * Reads the index, rebuilding it from the session files if it is missing
+ * or was written by another version
+ */
+async function readIndex(storeDir: string): Promise<SessionIndex> {
+  try {
+    const index: SessionIndex = JSON.parse(
+      await Deno.readTextFile(`${storeDir}/${INDEX_FILE}`),
+    );
+    if (index?.version === INDEX_VERSION && index.sessions) return index;
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      console.warn(`[Session] Rebuilding unreadable session index:`, error);
+    }
+  }
+
+  const index: SessionIndex = { version: INDEX_VERSION, sessions: {} };
+  try {
+    for await (const entry of Deno.readDir(`${storeDir}/${SESSIONS_DIR}`)) {
+      if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+      try {
+        const session: ServerSession = JSON.parse(
+          await Deno.readTextFile(`${storeDir}/${SESSIONS_DIR}/${entry.name}`),
+        );
+        index.sessions[session.metadata.sessionId] = session.metadata;
+      } catch (error) {
+        console.warn(`[Session] Skipping unreadable ${entry.name}:`, error);
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  return index;
+}
+
+async function writeIndex(storeDir: string, index: SessionIndex) {
+  await writeFileAtomic(`${storeDir}/${INDEX_FILE}`, JSON.stringify(index));
+}
+
+/**
+ * Returns the text of a chat message, or null for other message types
+ */
+function getChatText(message: unknown): string | null {
+  const { type, content } = (message ?? {}) as {
+    type?: string;
+    content?: unknown;
+  };
+  return type === "chat" && typeof content === "string" ? content : null;
+}
+
+/**
+ * Fills in the metadata the store derives from the messages
+ * Counts and previews always follow the saved messages; the update time is
+ * the server's so devices with skewed clocks still sort correctly. Saves
+ * that do not name the revision they build on, and page-unload beacons,
+ * only bring messages and keep the stored title and tags.
+ */
+export function createSessionMetadata(
+  session: ServerSession,
+  now: number,
+  existing?: ServerSessionMetadata,
+  keepNames = false,
+): ServerSessionMetadata {
+  const { messages } = session;
+  const metadata = keepNames && existing
+    ? { ...session.metadata, title: existing.title, tags: existing.tags }
+    : session.metadata;
+  const chatTexts = messages
+    .map(getChatText)
+    .filter((text): text is string => text !== null);
+
+  return {
+    sessionId: metadata.sessionId,
+    projectPath: metadata.projectPath || existing?.projectPath || "default",
+    title: metadata.title || existing?.title || "New Session",
+    createdAt: existing?.createdAt ?? metadata.createdAt ?? now,
+    lastUpdated: now,
+    messageCount: messages.length,
+    ...(chatTexts.length > 0
+      ? {
+        firstMessage: chatTexts[0].slice(0, PREVIEW_LENGTH),
+        lastMessage: chatTexts[chatTexts.length - 1].slice(0, PREVIEW_LENGTH),
+      }
+      : {}),
+    tags: metadata.tags ?? existing?.tags ?? [],
+    revision: (existing?.revision ?? 0) + 1,
+  };
+}
+
+/**
+ * Returns the sessions matching a query, most recently updated first
+ */
+export function filterSessions(
+  sessions: ServerSessionMetadata[],
+  query: SessionQuery,
+): ServerSessionMetadata[] {
+  const search = query.search?.trim().toLowerCase();
+  return sessions
+    .filter((session) =>
+      (!query.projectPath || session.projectPath === query.projectPath) &&
+      (!query.tag || session.tags?.includes(query.tag)) &&
+      (!search ||
+        session.title.toLowerCase().includes(search) ||
+        session.firstMessage?.toLowerCase().includes(search) ||
+        session.lastMessage?.toLowerCase().includes(search) ||
+        session.tags?.some((tag) => tag.toLowerCase().includes(search)))
+    )
+    .sort((a, b) => b.lastUpdated - a.lastUpdated);
+}
+
+/**
+ * Cuts one page out of a session list
+ * The cursor is the offset of the page's first session.
+ * @returns The page, or null if the cursor is not an offset into the list
+ */
+export function paginateSessions(
+  sessions: ServerSessionMetadata[],
+  limit: number,
+  cursor?: string,
+): SessionListResponse | null {
+  const start = cursor === undefined ? 0 : Number(cursor);
+  if (!Number.isInteger(start) || start < 0 || start > sessions.length) {
+    return null;
+  }
+  const end = start + limit;
+  return {
+    sessions: sessions.slice(start, end),
+    total: sessions.length,
+    nextCursor: end < sessions.length ? String(end) : null,
+  };
+}
+
+/**
+ * Lists the metadata of stored sessions matching a query
+ */
+export async function listSessions(
+  query: SessionQuery,
+): Promise<ServerSessionMetadata[]> {
+  const index = await readIndex(getStoreDir());
+  return filterSessions(Object.values(index.sessions), query);
+}
+
+/**
+ * Tells whether another device changed a session since the base revision
+ */
+export function isStale(
+  existing: ServerSessionMetadata | undefined,
+  baseRevision: number | undefined,
+): boolean {
+  return existing !== undefined && baseRevision !== undefined &&
+    existing.revision !== baseRevision;
+}
+
+/**
+ * Tells whether a page-unload save would replace the stored messages with
+ * fewer, e.g. when it was sent by a tab that had not loaded all of them
+ */
+export function dropsStoredMessages(
+  existing: ServerSessionMetadata | undefined,
+  messageCount: number,
+): boolean {
+  return existing !== undefined && messageCount < existing.messageCount;
+}
+
+/**
+ * Loads a stored session with its messages
+ * @returns The session, or null if it is not stored
+ */
+export async function getSession(
+  sessionId: string,
+): Promise<ServerSession | null> {
+  try {
+    return JSON.parse(
+      await Deno.readTextFile(getSessionPath(getStoreDir(), sessionId)),
+    );
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+/**
+ * Stores a session, replacing its earlier messages
+ * @param session - Session with all of its messages
+ * @param baseRevision - Revision the device last synced; sessions it has
+ * not seen yet are 0
+ * @param fromBeacon - Sent on page unload; only adds messages and is
+ * refused if it holds fewer than the stored session
+ * @returns The metadata as stored, or the current one on conflict
+ */
+export function saveSession(
+  session: ServerSession,
+  baseRevision?: number,
+  fromBeacon = false,
+): Promise<SessionWriteResult> {
+  return queueWrite(async () => {
+    const storeDir = getStoreDir();
+    await Deno.mkdir(`${storeDir}/${SESSIONS_DIR}`, { recursive: true });
+    const index = await readIndex(storeDir);
+    const existing = index.sessions[session.metadata.sessionId];
+
+    if (
+      existing &&
+      (isStale(existing, baseRevision) ||
+        (fromBeacon &&
+          dropsStoredMessages(existing, session.messages.length)))
+    ) {
+      return { metadata: existing, conflict: true };
+    }
+
+    const metadata = createSessionMetadata(
+      session,
+      Date.now(),
+      existing,
+      fromBeacon || baseRevision === undefined,
+    );
+    await writeFileAtomic(
+      getSessionPath(storeDir, metadata.sessionId),
+      JSON.stringify({ metadata, messages: session.messages }),
+    );
+    index.sessions[metadata.sessionId] = metadata;
+    await writeIndex(storeDir, index);
+    return { metadata, conflict: false };
+  });
+}
+
+/**
+ * Renames or retags a stored session
+ * @returns The updated metadata or the current one on conflict, or null if
+ * the session is not stored
+ */
+export function updateSession(
+  sessionId: string,
+  update: SessionUpdateRequest,
+): Promise<SessionWriteResult | null> {
+  return queueWrite(async () => {
+    const storeDir = getStoreDir();
+    const session = await getSession(sessionId);
+    if (!session) return null;
+
+    if (isStale(session.metadata, update.baseRevision)) {
+      return { metadata: session.metadata, conflict: true };
+    }
+
+    const metadata: ServerSessionMetadata = {
+      ...session.metadata,
+      ...(update.title !== undefined ? { title: update.title } : {}),
+      ...(update.tags !== undefined ? { tags: update.tags } : {}),
+      lastUpdated: Date.now(),
+      revision: session.metadata.revision + 1,
+    };
+    await writeFileAtomic(
+      getSessionPath(storeDir, sessionId),
+      JSON.stringify({ metadata, messages: session.messages }),
+    );
+    const index = await readIndex(storeDir);
+    index.sessions[sessionId] = metadata;
+    await writeIndex(storeDir, index);
+    return { metadata, conflict: false };
+  });
+}
+
+/**
+ * Removes a stored session
+ * @returns Whether the session was stored
+ */
+export function deleteSession(sessionId: string): Promise<boolean> {
+  return queueWrite(async () => {
+    const storeDir = getStoreDir();
+    try {
+      await Deno.remove(getSessionPath(storeDir, sessionId));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return false;
+      throw error;
+    }
+    const index = await readIndex(storeDir);
+    delete index.sessions[sessionId];
+    await writeIndex(storeDir, index);
+    return true;
+  });
+}
@@ -1,4 +1,4 @@
-import { useEffect, useCallback, useState } from "react";
+import { useEffect, useCallback, useRef, useState } from "react";
 import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
 import {
   ChevronLeftIcon,
@@ -10,29 +10,20 @@ import {
   XMarkIcon,
   CodeBracketIcon,
 } from "@heroicons/react/24/outline";
-import type { ChatRequest, ChatMessage, ProjectInfo } from "../types";
-import { THINKING_MODE_CONFIGS } from "../types";
+import type { ProjectInfo, SessionActivity } from "../types";
 import { useTheme } from "../hooks/useTheme";
-import { useClaudeStreaming } from "../hooks/useClaudeStreaming";
-import { useChatState } from "../hooks/chat/useChatState";
-import { usePermissions } from "../hooks/chat/usePermissions";
-import { useAbortController } from "../hooks/chat/useAbortController";
-import { useSessionPersistence } from "../hooks/useSessionPersistence";
+import { useWorkspaceSessions } from "../hooks/chat/useWorkspaceSessions";
 import { ThemeToggle } from "./chat/ThemeToggle";
-import { HistoryButton } from "./chat/HistoryButton";
-import { ChatInput } from "./chat/ChatInput";
-import { ChatMessages } from "./chat/ChatMessages";
-import { ThinkingModeSelector } from "./chat/ThinkingModeSelector";
-import { PermissionDialog } from "./PermissionDialog";
+import { ChatSession } from "./chat/ChatSession";
+import { SessionSwitcher } from "./chat/SessionSwitcher";
 import { HistoryView } from "./HistoryView";
-import { SessionManager } from "./SessionManager";
 import { BrowserPanel } from "./toolbar/BrowserPanel";
 import { TerminalPanel } from "./toolbar/TerminalPanel";
 import { ExplorerPanel } from "./toolbar/ExplorerPanel";
 import { GitPanel } from "./toolbar/GitPanel";
-import { getChatUrl, getProjectsUrl } from "../config/api";
-import { KEYBOARD_SHORTCUTS, BUTTON_STYLES } from "../utils/constants";
-import type { StreamingContext } from "../hooks/streaming/useMessageProcessor";
+import { getProjectsUrl } from "../config/api";
+import { sessionSync } from "../services/sessionSync";
+import { BUTTON_STYLES } from "../utils/constants";
 import { useLanguage } from "../contexts/LanguageContext";
 
 // Tab type definition
@@ -45,7 +36,8 @@ export function ChatPage() {
   const [projects, setProjects] = useState<ProjectInfo[]>([]);
   const [activeTab, setActiveTab] = useState<MainTab>("chat");
   const [isToolbarCollapsed, setIsToolbarCollapsed] = useState(false);
-  const [showSessionManager, setShowSessionManager] = useState(false);
+  // Header element the visible chat renders its own controls into
+  const [headerSlot, setHeaderSlot] = useState<HTMLDivElement | null>(null);
 
   // Extract and normalize working directory from URL
   const workingDirectory = (() => {
@@ -65,359 +57,125 @@ export function ChatPage() {
   // Get current view from query parameters
   const currentView = searchParams.get("view");
   const urlSessionId = searchParams.get("sessionId");
+  // Set when a chat is opened from a history search result
+  const highlightText = searchParams.get("highlight");
+  const highlightUuid = searchParams.get("message");
   const isHistoryView = currentView === "history";
 
   const { theme, toggleTheme } = useTheme();
-  const { processStreamLine } = useClaudeStreaming();
-  const { abortRequest, createAbortHandler } = useAbortController();
   const { t } = useLanguage();
 
   const {
-    messages,
-    input,
-    isLoading,
-    currentSessionId,
-    currentRequestId,
-    hasShownInitMessage,
-    currentAssistantMessage,
-    thinkingMode,
-    setMessages,
-    setInput,
-    setCurrentSessionId,
-    setHasShownInitMessage,
-    setHasReceivedInit,
-    setCurrentAssistantMessage,
-    setThinkingMode,
-    addMessage,
-    updateLastMessage,
-    clearInput,
-    generateRequestId,
-    resetRequestState,
-    startRequest,
-  } = useChatState();
-
-  const {
-    allowedTools,
-    permissionDialog,
-    showPermissionDialog,
-    closePermissionDialog,
-    allowToolTemporary,
-    allowToolPermanent,
-  } = usePermissions();
-
-  // Session persistence
-  const { saveSession, loadSession, createNewSession } = useSessionPersistence({
-    messages,
-    currentSessionId,
-    workingDirectory,
-    onSessionIdChange: (sessionId) => {
-      setCurrentSessionId(sessionId);
-      // Update URL with new session ID
+    sessions,
+    activeSession,
+    activateSession,
+    addSession,
+    closeSession,
+    updateActivity,
+    setSessionId,
+    requestSessionLoad,
+  } = useWorkspaceSessions(workingDirectory, urlSessionId);
+
+  // Point the URL at a chat's project and session so reloads and the
+  // history view follow the chat being shown
+  const showSessionInUrl = useCallback(
+    (sessionWorkingDirectory: string | undefined, sessionId: string | null) => {
       const newSearchParams = new URLSearchParams(searchParams);
-      newSearchParams.set("sessionId", sessionId);
-      setSearchParams(newSearchParams);
+      if (sessionId) {
+        newSearchParams.set("sessionId", sessionId);
+      } else {
+        newSearchParams.delete("sessionId");
+      }
+      navigate({
+        pathname: sessionWorkingDirectory
+          ? `/projects${sessionWorkingDirectory}`
+          : location.pathname,
+        search: newSearchParams.toString(),
+      });
     },
-  });
+    [searchParams, navigate, location.pathname],
+  );
 
-  const handlePermissionError = useCallback(
-    (toolName: string, pattern: string, toolUseId: string) => {
-      showPermissionDialog(toolName, pattern, toolUseId);
+  const handleSessionIdChange = useCallback(
+    (workspaceId: string, sessionId: string) => {
+      setSessionId(workspaceId, sessionId);
+      if (workspaceId === activeSession.id) {
+        const newSearchParams = new URLSearchParams(searchParams);
+        newSearchParams.set("sessionId", sessionId);
+        setSearchParams(newSearchParams);
+      }
     },
-    [showPermissionDialog],
+    [setSessionId, activeSession.id, searchParams, setSearchParams],
   );
 
-  const sendMessage = useCallback(
-    async (
-      messageContent?: string,
-      tools?: string[],
-      hideUserMessage = false,
-    ) => {
-      const content = messageContent || input.trim();
-      if (!content || isLoading) return;
+  const handleActivityChange = useCallback(
+    (workspaceId: string, activity: SessionActivity) => {
+      updateActivity(workspaceId, activity);
+    },
+    [updateActivity],
+  );
 
-      // Use existing session ID or let Claude SDK create one
-      const sessionId = currentSessionId;
-      if (!sessionId) {
-        console.log(
-          "[Session] No current session, will let Claude SDK create one",
-        );
-      } else {
-        console.log("[Session] Using existing session:", sessionId);
-      }
+  const handleSwitchSession = useCallback(
+    (workspaceId: string) => {
+      const session = sessions.find((s) => s.id === workspaceId);
+      if (!session || session.id === activeSession.id) return;
+      activateSession(session.id);
+      showSessionInUrl(session.workingDirectory, session.sessionId);
+    },
+    [sessions, activeSession.id, activateSession, showSessionInUrl],
+  );
 
-      const requestId = generateRequestId();
+  const handleAddSession = useCallback(
+    (sessionWorkingDirectory?: string) => {
+      const session = addSession(sessionWorkingDirectory);
+      showSessionInUrl(session.workingDirectory, null);
+      setActiveTab("chat");
+    },
+    [addSession, showSessionInUrl],
+  );
 
-      // Only add user message to chat if not hidden
-      if (!hideUserMessage) {
-        const userMessage: ChatMessage = {
-          type: "chat",
-          role: "user",
-          content: content,
-          timestamp: Date.now(),
-        };
-        addMessage(userMessage);
+  const handleCloseSession = useCallback(
+    (workspaceId: string) => {
+      const session = sessions.find((s) => s.id === workspaceId);
+      if (
+        session &&
+        (session.status === "running" ||
+          session.status === "waiting_permission") &&
+        !confirm(t("sessions.confirmClose"))
+      ) {
+        return;
       }
-
-      if (!messageContent) clearInput();
-      startRequest();
-
-      try {
-        // Prepare thinking configuration
-        const thinkingConfig =
-          thinkingMode !== "auto"
-            ? {
-                type: "enabled" as const,
-                budget_tokens: THINKING_MODE_CONFIGS[thinkingMode].budgetTokens,
-              }
-            : undefined;
-
-        const requestBody = {
-          message: content,
-          requestId,
-          ...(sessionId ? { sessionId } : {}),
-          allowedTools: tools || allowedTools,
-          ...(workingDirectory ? { workingDirectory } : {}),
-          ...(thinkingConfig ? { thinking: thinkingConfig } : {}),
-        } as ChatRequest;
-
-        console.log("[Session] Sending request with body:", requestBody);
-
-        const response = await fetch(getChatUrl(), {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(requestBody),
-        });
-
-        if (!response.body) throw new Error("No response body");
-
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-
-        // Local state for this streaming session
-        let localHasReceivedInit = false;
-        let shouldAbort = false;
-
-        const streamingContext: StreamingContext = {
-          currentAssistantMessage,
-          setCurrentAssistantMessage,
-          addMessage,
-          updateLastMessage,
-          onSessionId: (newSessionId: string) => {
-            console.log(
-              "[Session] Received session ID from SDK:",
-              newSessionId,
-            );
-            setCurrentSessionId(newSessionId);
-
-            // Update URL with new session ID from SDK
-            const newSearchParams = new URLSearchParams(searchParams);
-            newSearchParams.set("sessionId", newSessionId);
-            setSearchParams(newSearchParams);
-          },
-          sessionId: currentSessionId,
-          shouldShowInitMessage: () => !hasShownInitMessage,
-          onInitMessageShown: () => setHasShownInitMessage(true),
-          get hasReceivedInit() {
-            return localHasReceivedInit;
-          },
-          setHasReceivedInit: (received: boolean) => {
-            localHasReceivedInit = received;
-            setHasReceivedInit(received);
-          },
-          onPermissionError: handlePermissionError,
-          onAbortRequest: async () => {
-            shouldAbort = true;
-            await createAbortHandler(requestId)();
-          },
-        };
-
-        try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done || shouldAbort) break;
-
-            const chunk = decoder.decode(value);
-            const lines = chunk.split("\n").filter((line) => line.trim());
-
-            for (const line of lines) {
-              if (shouldAbort) break;
-              processStreamLine(line, streamingContext);
-            }
-
-            if (shouldAbort) break;
-          }
-        } catch (readError) {
-          // Handle read errors separately to catch connection issues
-          if (
-            readError instanceof TypeError &&
-            readError.message.includes("Failed to fetch")
-          ) {
-            console.error("Connection to backend lost");
-            addMessage({
-              type: "error",
-              subtype: "stream_error",
-              message:
-                "Connection to backend server lost. Please ensure the backend is running.",
-              timestamp: Date.now(),
-            });
-          } else {
-            throw readError;
-          }
-        }
-      } catch (error) {
-        // Suppress Chrome extension errors
-        if (
-          error instanceof Error &&
-          error.message.includes("message port closed")
-        ) {
-          console.warn("Chrome extension communication error (ignored)");
-          return;
-        }
-
-        console.error("Failed to send message:", error);
-        addMessage({
-          type: "chat",
-          role: "assistant",
-          content:
-            "Error: Failed to get response. Please check if the backend server is running.",
-          timestamp: Date.now(),
-        });
-      } finally {
-        resetRequestState();
+      const next = closeSession(workspaceId);
+      if (next && workspaceId === activeSession.id) {
+        showSessionInUrl(next.workingDirectory, next.sessionId);
       }
     },
-    [
-      input,
-      isLoading,
-      currentSessionId,
-      allowedTools,
-      hasShownInitMessage,
-      currentAssistantMessage,
-      workingDirectory,
-      thinkingMode,
-      generateRequestId,
-      clearInput,
-      startRequest,
-      addMessage,
-      updateLastMessage,
-      setCurrentSessionId,
-      setHasShownInitMessage,
-      setHasReceivedInit,
-      setCurrentAssistantMessage,
-      resetRequestState,
-      processStreamLine,
-      handlePermissionError,
-      createAbortHandler,
-      createNewSession,
-      searchParams,
-      setSearchParams,
-    ],
+    [sessions, activeSession.id, closeSession, showSessionInUrl, t],
   );
 
-  const handleAbort = useCallback(() => {
-    abortRequest(currentRequestId, isLoading, resetRequestState);
-  }, [abortRequest, currentRequestId, isLoading, resetRequestState]);
-
-  // Permission dialog handlers
-  const handlePermissionAllow = useCallback(() => {
-    if (!permissionDialog) return;
-
-    const pattern = permissionDialog.pattern;
-    closePermissionDialog();
-
-    // Send continue message with allowed tools
-    sendMessage("continue", allowToolTemporary(pattern), true);
-  }, [
-    permissionDialog,
-    sendMessage,
-    allowToolTemporary,
-    closePermissionDialog,
-  ]);
-
-  const handlePermissionAllowPermanent = useCallback(() => {
-    if (!permissionDialog) return;
-
-    const pattern = permissionDialog.pattern;
-    const updatedAllowedTools = allowToolPermanent(pattern);
-    closePermissionDialog();
-
-    // Send continue message with updated allowed tools
-    sendMessage("continue", updatedAllowedTools, true);
+  // Load a session opened from the URL, e.g. from the history view, into
+  // the chat being shown. Only a new URL does this; switching chats must
+  // not load the URL's session into the newly shown one.
+  const handledUrlSessionRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (urlSessionId === handledUrlSessionRef.current) return;
+    handledUrlSessionRef.current = urlSessionId;
+    if (urlSessionId && urlSessionId !== activeSession.sessionId) {
+      requestSessionLoad(activeSession.id, urlSessionId);
+    }
   }, [
-    permissionDialog,
-    sendMessage,
-    allowToolPermanent,
-    closePermissionDialog,
+    urlSessionId,
+    activeSession.id,
+    activeSession.sessionId,
+    requestSessionLoad,
   ]);
 
-  const handlePermissionDeny = useCallback(() => {
-    closePermissionDialog();
-  }, [closePermissionDialog]);
-
-  const handleHistoryClick = useCallback(() => {
-    setShowSessionManager(true);
-  }, []);
-
   const handleOpenSettings = useCallback(() => {
     navigate("/settings");
   }, [navigate]);
 
-  // Session management handlers
-  const handleSessionSelect = useCallback(
-    async (sessionId: string) => {
-      const loadedMessages = await loadSession(sessionId);
-      if (loadedMessages.length > 0) {
-        setMessages(loadedMessages);
-        setCurrentSessionId(sessionId);
-
-        // Update URL with selected session
-        const newSearchParams = new URLSearchParams(searchParams);
-        newSearchParams.set("sessionId", sessionId);
-        setSearchParams(newSearchParams);
-      }
-      setShowSessionManager(false);
-    },
-    [
-      loadSession,
-      setMessages,
-      setCurrentSessionId,
-      searchParams,
-      setSearchParams,
-    ],
-  );
-
-  const handleSessionCreate = useCallback(async () => {
-    // Clear current session
-    setMessages([]);
-    setHasShownInitMessage(false);
-    setHasReceivedInit(false);
-
-    // Create new session
-    const newSessionId = await createNewSession();
-    setCurrentSessionId(newSessionId);
-
-    // Update URL
-    const newSearchParams = new URLSearchParams(searchParams);
-    newSearchParams.set("sessionId", newSessionId);
-    setSearchParams(newSearchParams);
-
-    setShowSessionManager(false);
-  }, [
-    createNewSession,
-    setMessages,
-    setCurrentSessionId,
-    setHasShownInitMessage,
-    setHasReceivedInit,
-    searchParams,
-    setSearchParams,
-  ]);
-
-  // Load session from URL on mount
-  useEffect(() => {
-    if (urlSessionId && urlSessionId !== currentSessionId) {
-      handleSessionSelect(urlSessionId);
-    }
-  }, [urlSessionId]);
+  // Share saved sessions with the user's other devices while chatting
+  useEffect(() => sessionSync.start(), []);
 
   // Load projects to get encodedName mapping
   useEffect(() => {
@@ -449,19 +207,6 @@ export function ChatPage() {
     navigate({ search: "" });
   }, [navigate]);
 
-  // Handle global keyboard shortcuts
-  useEffect(() => {
-    const handleGlobalKeyDown = (e: KeyboardEvent) => {
-      if (e.key === KEYBOARD_SHORTCUTS.ABORT && isLoading && currentRequestId) {
-        e.preventDefault();
-        handleAbort();
-      }
-    };
-
-    document.addEventListener("keydown", handleGlobalKeyDown);
-    return () => document.removeEventListener("keydown", handleGlobalKeyDown);
-  }, [isLoading, currentRequestId, handleAbort]);
-
   return (
     <div className="fullscreen-page mobile-optimized">
       <div className="w-full h-full flex flex-col px-2 sm:px-4 md:px-6 py-4 md:py-6">
@@ -491,7 +236,9 @@ export function ChatPage() {
             </div>
           </div>
           <div className="flex items-center gap-3">
-            {!isHistoryView && <HistoryButton onClick={handleHistoryClick} />}
+            {!isHistoryView && (
+              <div ref={setHeaderSlot} className="flex items-center gap-3" />
+            )}
             <button
               onClick={handleOpenSettings}
               className={BUTTON_STYLES.ICON_BUTTON}
@@ -504,22 +251,26 @@ export function ChatPage() {
         </div>
 
         {/* Main Content */}
-        {isHistoryView ? (
+        {isHistoryView && (
           <HistoryView
             workingDirectory={workingDirectory || ""}
             encodedName={getEncodedName()}
+            projects={projects}
             onBack={handleBackToChat}
           />
-        ) : (
-          <>
-            {/* Tab Navigation */}
-            <div className="flex-1 glass-card rounded-xl glow-effect flex flex-col min-h-0">
-              {/* Tab Header */}
-              <div className="flex items-center justify-between border-b border-accent/20 px-3 md:px-4 py-2 md:py-3 flex-shrink-0">
-                <div className="flex items-center gap-1">
-                  <button
-                    onClick={() => setActiveTab("chat")}
-                    className={`
+        )}
+        {/* Chats stay mounted in the history view so their streams keep running */}
+        <div
+          className={isHistoryView ? "hidden" : "flex-1 flex flex-col min-h-0"}
+        >
+          {/* Tab Navigation */}
+          <div className="flex-1 glass-card rounded-xl glow-effect flex flex-col min-h-0">
+            {/* Tab Header */}
+            <div className="flex items-center justify-between border-b border-accent/20 px-3 md:px-4 py-2 md:py-3 flex-shrink-0">
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setActiveTab("chat")}
+                  className={`
                       flex items-center gap-2 px-2 md:px-3 py-2 rounded-lg smooth-transition text-sm font-medium
                       ${
                         activeTab === "chat"
@@ -527,13 +278,13 @@ export function ChatPage() {
                           : "text-secondary hover:text-primary hover:bg-black-secondary/50"
                       }
                     `}
-                  >
-                    <ChatBubbleLeftIcon className="w-4 h-4" />
-                    <span className="hidden sm:inline">{t("chat.chat")}</span>
-                  </button>
-                  <button
-                    onClick={() => setActiveTab("browser")}
-                    className={`
+                >
+                  <ChatBubbleLeftIcon className="w-4 h-4" />
+                  <span className="hidden sm:inline">{t("chat.chat")}</span>
+                </button>
+                <button
+                  onClick={() => setActiveTab("browser")}
+                  className={`
                       flex items-center gap-2 px-2 md:px-3 py-2 rounded-lg smooth-transition text-sm font-medium
                       ${
                         activeTab === "browser"
@@ -541,15 +292,13 @@ export function ChatPage() {
                           : "text-secondary hover:text-primary hover:bg-black-secondary/50"
                       }
                     `}
-                  >
-                    <ComputerDesktopIcon className="w-4 h-4" />
-                    <span className="hidden sm:inline">
-                      {t("chat.browser")}
-                    </span>
-                  </button>
-                  <button
-                    onClick={() => setActiveTab("terminal")}
-                    className={`
+                >
+                  <ComputerDesktopIcon className="w-4 h-4" />
+                  <span className="hidden sm:inline">{t("chat.browser")}</span>
+                </button>
+                <button
+                  onClick={() => setActiveTab("terminal")}
+                  className={`
                       flex items-center gap-2 px-2 md:px-3 py-2 rounded-lg smooth-transition text-sm font-medium
                       ${
                         activeTab === "terminal"
@@ -557,15 +306,13 @@ export function ChatPage() {
                           : "text-secondary hover:text-primary hover:bg-black-secondary/50"
                       }
                     `}
-                  >
-                    <CommandLineIcon className="w-4 h-4" />
-                    <span className="hidden sm:inline">
-                      {t("chat.terminal")}
-                    </span>
-                  </button>
-                  <button
-                    onClick={() => setActiveTab("explorer")}
-                    className={`
+                >
+                  <CommandLineIcon className="w-4 h-4" />
+                  <span className="hidden sm:inline">{t("chat.terminal")}</span>
+                </button>
+                <button
+                  onClick={() => setActiveTab("explorer")}
+                  className={`
                       flex items-center gap-2 px-2 md:px-3 py-2 rounded-lg smooth-transition text-sm font-medium
                       ${
                         activeTab === "explorer"
@@ -573,15 +320,13 @@ export function ChatPage() {
                           : "text-secondary hover:text-primary hover:bg-black-secondary/50"
                       }
                     `}
-                  >
-                    <FolderIcon className="w-4 h-4" />
-                    <span className="hidden sm:inline">
-                      {t("chat.explorer")}
-                    </span>
-                  </button>
-                  <button
-                    onClick={() => setActiveTab("git")}
-                    className={`
+                >
+                  <FolderIcon className="w-4 h-4" />
+                  <span className="hidden sm:inline">{t("chat.explorer")}</span>
+                </button>
+                <button
+                  onClick={() => setActiveTab("git")}
+                  className={`
                       flex items-center gap-2 px-2 md:px-3 py-2 rounded-lg smooth-transition text-sm font-medium
                       ${
                         activeTab === "git"
@@ -589,128 +334,129 @@ export function ChatPage() {
                           : "text-secondary hover:text-primary hover:bg-black-secondary/50"
                       }
                     `}
-                  >
-                    <CodeBracketIcon className="w-4 h-4" />
-                    <span className="hidden sm:inline">Git</span>
-                  </button>
-                </div>
-
-                <button
-                  onClick={() => setIsToolbarCollapsed(!isToolbarCollapsed)}
-                  className="p-2 text-tertiary hover:text-primary smooth-transition rounded-lg hover:bg-black-secondary/50"
-                  aria-label={
-                    isToolbarCollapsed
-                      ? t("chat.expandToolbar")
-                      : t("chat.collapseToolbar")
-                  }
                 >
-                  <XMarkIcon className="w-4 h-4" />
+                  <CodeBracketIcon className="w-4 h-4" />
+                  <span className="hidden sm:inline">Git</span>
                 </button>
               </div>
 
-              {/* Panel Content */}
-              {!isToolbarCollapsed && (
-                <div className="flex-1 p-3 md:p-4 min-h-0">
-                  {/* Chat Interface */}
-                  {activeTab === "chat" && (
-                    <div className="h-full flex flex-col space-y-3 md:space-y-4 min-h-0">
-                      {/* Chat Messages */}
-                      <ChatMessages messages={messages} isLoading={isLoading} />
-
-                      {/* Thinking Mode Selector */}
-                      <div className="flex-shrink-0">
-                        <ThinkingModeSelector
-                          value={thinkingMode}
-                          onChange={setThinkingMode}
-                          disabled={isLoading}
-                        />
-                      </div>
+              <button
+                onClick={() => setIsToolbarCollapsed(!isToolbarCollapsed)}
+                className="p-2 text-tertiary hover:text-primary smooth-transition rounded-lg hover:bg-black-secondary/50"
+                aria-label={
+                  isToolbarCollapsed
+                    ? t("chat.expandToolbar")
+                    : t("chat.collapseToolbar")
+                }
+              >
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </div>
 
-                      {/* Chat Input */}
-                      <ChatInput
-                        input={input}
-                        isLoading={isLoading}
-                        currentRequestId={currentRequestId}
-                        onInputChange={setInput}
-                        onSubmit={() => sendMessage()}
-                        onAbort={handleAbort}
-                      />
-                    </div>
-                  )}
+            {/* Panel Content */}
+            <div
+              className={
+                isToolbarCollapsed ? "hidden" : "flex-1 p-3 md:p-4 min-h-0"
+              }
+            >
+              {/* Chat Interface: every chat stays mounted, only the active one is shown */}
+              <div
+                className={
+                  activeTab === "chat"
+                    ? "h-full flex flex-col space-y-3 md:space-y-4 min-h-0"
+                    : "hidden"
+                }
+              >
+                <SessionSwitcher
+                  sessions={sessions}
+                  activeId={activeSession.id}
+                  projects={projects}
+                  workingDirectory={workingDirectory}
+                  onSelect={handleSwitchSession}
+                  onAdd={handleAddSession}
+                  onClose={handleCloseSession}
+                />
+                {sessions.map((session) => (
+                  <div
+                    key={session.id}
+                    className={
+                      session.id === activeSession.id
+                        ? "flex-1 min-h-0"
+                        : "hidden"
+                    }
+                  >
+                    <ChatSession
+                      workspaceId={session.id}
+                      workingDirectory={session.workingDirectory}
+                      encodedProjectName={
+                        projects.find(
+                          (project) =>
+                            project.path === session.workingDirectory,
+                        )?.encodedName ?? null
+                      }
+                      isActive={session.id === activeSession.id}
+                      sessionToLoad={session.sessionToLoad}
+                      highlightText={
+                        session.id === activeSession.id ? highlightText : null
+                      }
+                      highlightUuid={
+                        session.id === activeSession.id ? highlightUuid : null
+                      }
+                      headerSlot={headerSlot}
+                      onSessionIdChange={handleSessionIdChange}
+                      onActivityChange={handleActivityChange}
+                    />
+                  </div>
+                ))}
+              </div>
 
-                  {/* Browser Panel */}
-                  {activeTab === "browser" && (
-                    <div className="h-full">
-                      <BrowserPanel />
-                    </div>
-                  )}
+              {/* Browser Panel */}
+              {activeTab === "browser" && (
+                <div className="h-full">
+                  <BrowserPanel />
+                </div>
+              )}
 
-                  {/* Terminal Panel */}
-                  {activeTab === "terminal" && (
-                    <div className="h-full">
-                      <TerminalPanel workingDirectory={workingDirectory} />
-                    </div>
-                  )}
+              {/* Terminal Panel */}
+              {activeTab === "terminal" && (
+                <div className="h-full">
+                  <TerminalPanel workingDirectory={workingDirectory} />
+                </div>
+              )}
 
-                  {/* Explorer Panel */}
-                  {activeTab === "explorer" && (
-                    <div className="h-full">
-                      <ExplorerPanel workingDirectory={workingDirectory} />
-                    </div>
-                  )}
+              {/* Explorer Panel */}
+              {activeTab === "explorer" && (
+                <div className="h-full">
+                  <ExplorerPanel workingDirectory={workingDirectory} />
+                </div>
+              )}
 
-                  {/* Git Panel */}
-                  {activeTab === "git" && workingDirectory && (
-                    <div className="h-full relative">
-                      <GitPanel
-                        isOpen={true}
-                        onClose={() => setActiveTab("chat")}
-                        workingDirectory={workingDirectory}
-                      />
-                    </div>
-                  )}
+              {/* Git Panel */}
+              {activeTab === "git" && workingDirectory && (
+                <div className="h-full relative">
+                  <GitPanel
+                    isOpen={true}
+                    onClose={() => setActiveTab("chat")}
+                    workingDirectory={workingDirectory}
+                  />
                 </div>
               )}
             </div>
+          </div>
 
-            {/* Collapsed State */}
-            {isToolbarCollapsed && (
-              <div className="mb-2 md:mb-4">
-                <button
-                  onClick={() => setIsToolbarCollapsed(false)}
-                  className="px-3 py-2 glass-button glow-border smooth-transition rounded-lg text-sm text-secondary hover:text-primary"
-                >
-                  Show Toolbar
-                </button>
-              </div>
-            )}
-          </>
-        )}
+          {/* Collapsed State */}
+          {isToolbarCollapsed && (
+            <div className="mb-2 md:mb-4">
+              <button
+                onClick={() => setIsToolbarCollapsed(false)}
+                className="px-3 py-2 glass-button glow-border smooth-transition rounded-lg text-sm text-secondary hover:text-primary"
+              >
+                Show Toolbar
+              </button>
+            </div>
+          )}
+        </div>
       </div>
-
-      {/* Permission Dialog */}
-      {permissionDialog && (
-        <PermissionDialog
-          isOpen={permissionDialog.isOpen}
-          toolName={permissionDialog.toolName}
-          pattern={permissionDialog.pattern}
-          onAllow={handlePermissionAllow}
-          onAllowPermanent={handlePermissionAllowPermanent}
-          onDeny={handlePermissionDeny}
-          onClose={closePermissionDialog}
-        />
-      )}
-
-      {/* Session Manager */}
-      {showSessionManager && (
-        <SessionManager
-          currentSessionId={currentSessionId}
-          workingDirectory={workingDirectory}
-          onSessionSelect={handleSessionSelect}
-          onSessionCreate={handleSessionCreate}
-          onClose={() => setShowSessionManager(false)}
-        />
-      )}
     </div>
   );
 }
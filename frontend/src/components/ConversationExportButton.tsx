@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { ArrowDownTrayIcon } from "@heroicons/react/24/outline";
+import type { ConversationExportFormat } from "../types";
+import { getConversationExportUrl } from "../config/api";
+
+interface ConversationExportButtonProps {
+  encodedName: string;
+  sessionId: string;
+}
+
+const FORMAT_LABELS: Record<ConversationExportFormat, string> = {
+  md: "Markdown",
+  html: "HTML",
+  json: "JSON bundle",
+};
+
+// Downloads a conversation as a document to attach to PRs or reviews
+export function ConversationExportButton({
+  encodedName,
+  sessionId,
+}: ConversationExportButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState<ConversationExportFormat | null>(
+    null,
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ConversationExportFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      const response = await fetch(
+        getConversationExportUrl(encodedName, sessionId, format),
+      );
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Export failed: ${response.status}`);
+      }
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `claude-conversation-${sessionId}.${format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+      setIsOpen(false);
+    } catch (err) {
+      console.error("Failed to export conversation:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    // Clicks here must not open the conversation the button sits on
+    <div className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-1.5 rounded-lg text-tertiary hover:text-accent smooth-transition"
+        title="Download conversation"
+        aria-label="Download conversation"
+        aria-expanded={isOpen}
+      >
+        <ArrowDownTrayIcon className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-1 w-40 glass-card rounded-lg p-1 text-xs shadow-lg">
+          {(Object.keys(FORMAT_LABELS) as ConversationExportFormat[]).map(
+            (format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={exporting !== null}
+                className="w-full text-left px-2 py-1.5 rounded text-secondary hover:text-primary hover:bg-white/5 smooth-transition disabled:opacity-50"
+              >
+                {exporting === format ? "Exporting..." : FORMAT_LABELS[format]}
+              </button>
+            ),
+          )}
+          {error && <p className="px-2 py-1 text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
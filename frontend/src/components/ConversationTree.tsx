@@ -0,0 +1,187 @@
+import { useState, useEffect } from "react";
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  ArrowsPointingOutIcon,
+} from "@heroicons/react/24/outline";
+import type {
+  ConversationRelation,
+  ConversationTreeNode,
+  HistoryTreeResponse,
+} from "../types";
+import { getHistoryTreeUrl } from "../config/api";
+
+interface ConversationTreeProps {
+  encodedName: string;
+  onSelect: (sessionId: string) => void;
+}
+
+const RELATION_LABELS: Record<ConversationRelation, string> = {
+  continuation: "Continued",
+  resume: "Resumed",
+  fork: "Forked",
+};
+
+const RELATION_STYLES: Record<ConversationRelation, string> = {
+  continuation: "text-tertiary border-white/10",
+  resume: "text-amber-400 border-amber-400/30",
+  fork: "text-accent border-accent",
+};
+
+// Sessions of a project laid out by what they were continued, resumed or
+// forked from; sessions with several children are branch points
+export function ConversationTree({
+  encodedName,
+  onSelect,
+}: ConversationTreeProps) {
+  const [nodes, setNodes] = useState<ConversationTreeNode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTree = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await fetch(getHistoryTreeUrl(encodedName));
+        if (!response.ok) {
+          throw new Error(
+            `Failed to load conversation tree: ${response.statusText}`,
+          );
+        }
+        const data: HistoryTreeResponse = await response.json();
+        setNodes(data.nodes || []);
+      } catch (err) {
+        setError(
+          err instanceof Error
+            ? err.message
+            : "Failed to load conversation tree",
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTree();
+  }, [encodedName]);
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-accent border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-400 text-center">{error}</p>;
+  }
+
+  const children = new Map<string, ConversationTreeNode[]>();
+  for (const node of nodes) {
+    if (!node.parentSessionId) continue;
+    children.set(node.parentSessionId, [
+      ...(children.get(node.parentSessionId) ?? []),
+      node,
+    ]);
+  }
+  // Newest trees first; nodes arrive oldest first
+  const roots = nodes.filter((node) => !node.parentSessionId).reverse();
+
+  return (
+    <ul className="flex-1 overflow-y-auto space-y-2">
+      {roots.map((node) => (
+        <TreeNode
+          key={node.sessionId}
+          node={node}
+          childNodes={children}
+          onSelect={onSelect}
+        />
+      ))}
+    </ul>
+  );
+}
+
+interface TreeNodeProps {
+  node: ConversationTreeNode;
+  childNodes: Map<string, ConversationTreeNode[]>;
+  onSelect: (sessionId: string) => void;
+}
+
+function TreeNode({ node, childNodes, onSelect }: TreeNodeProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const nodeChildren = childNodes.get(node.sessionId) ?? [];
+  const isBranchPoint = nodeChildren.length > 1;
+
+  return (
+    <li>
+      <div
+        onClick={() => onSelect(node.sessionId)}
+        className={`flex items-start gap-2 p-3 glass-card rounded-lg hover:glow-effect smooth-transition cursor-pointer ${
+          node.isDuplicate ? "opacity-60" : ""
+        }`}
+      >
+        {nodeChildren.length > 0 ? (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsExpanded(!isExpanded);
+            }}
+            className="mt-0.5 text-tertiary hover:text-primary smooth-transition"
+            aria-expanded={isExpanded}
+            aria-label={isExpanded ? "Collapse" : "Expand"}
+          >
+            {isExpanded ? (
+              <ChevronDownIcon className="w-4 h-4" />
+            ) : (
+              <ChevronRightIcon className="w-4 h-4" />
+            )}
+          </button>
+        ) : (
+          <span className="w-4 flex-shrink-0" />
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <h3 className="text-sm font-medium text-primary truncate">
+              Session: {node.sessionId.substring(0, 8)}...
+            </h3>
+            {node.relation && (
+              <span
+                className={`px-1.5 py-0.5 rounded border text-[10px] uppercase tracking-wide ${RELATION_STYLES[node.relation]}`}
+                title={`${node.sharedMessageCount ?? 0} responses shared with ${node.parentSessionId?.substring(0, 8)}...`}
+              >
+                {RELATION_LABELS[node.relation]}
+              </span>
+            )}
+            {isBranchPoint && (
+              <span className="inline-flex items-center gap-1 text-[10px] text-accent">
+                <ArrowsPointingOutIcon className="w-3 h-3" />
+                Branch point · {nodeChildren.length} branches
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-tertiary mt-1">
+            {new Date(node.startTime).toLocaleString()} • {node.messageCount}{" "}
+            messages
+            {node.isDuplicate && " • superseded by a continuation"}
+          </p>
+          <p className="text-sm text-secondary mt-1 line-clamp-1">
+            {node.lastMessagePreview}
+          </p>
+        </div>
+      </div>
+      {isExpanded && nodeChildren.length > 0 && (
+        <ul className="mt-2 ml-4 pl-3 border-l border-white/10 space-y-2">
+          {nodeChildren.map((child) => (
+            <TreeNode
+              key={child.sessionId}
+              node={child}
+              childNodes={childNodes}
+              onSelect={onSelect}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
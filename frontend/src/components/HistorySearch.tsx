@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { MagnifyingGlassIcon } from "@heroicons/react/24/outline";
+import type {
+  HistorySearchMatchKind,
+  HistorySearchResult,
+  ProjectInfo,
+} from "../types";
+import { useHistorySearch } from "../hooks/useHistorySearch";
+
+interface HistorySearchProps {
+  // Project the history view was opened for, searched by default
+  encodedName: string;
+  projects: ProjectInfo[];
+  onOpen: (result: HistorySearchResult, query: string) => void;
+}
+
+const KIND_LABELS: Record<HistorySearchMatchKind, string> = {
+  prompt: "Prompt",
+  assistant: "Reply",
+  tool_input: "Tool input",
+  tool_output: "Tool output",
+};
+
+const INPUT_CLASS =
+  "px-3 py-1.5 rounded-lg bg-black-quaternary border border-white/10 text-sm text-primary placeholder:text-tertiary focus:outline-none focus:border-accent";
+
+// Searches prompts, replies and tool calls across conversation histories
+export function HistorySearch({
+  encodedName,
+  projects,
+  onOpen,
+}: HistorySearchProps) {
+  const [query, setQuery] = useState("");
+  const [project, setProject] = useState(encodedName);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [tool, setTool] = useState("");
+  const [file, setFile] = useState("");
+  // Query of the results shown, so opening one highlights what was found
+  const [searchedQuery, setSearchedQuery] = useState("");
+  const { results, truncated, isSearching, error, search } = useHistorySearch();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchedQuery(query);
+    search({ query, project, from, to, tool, file });
+  };
+
+  const projectPath = (name: string) =>
+    projects.find((p) => p.encodedName === name)?.path;
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <form onSubmit={handleSubmit} className="space-y-2 mb-4">
+        <div className="flex gap-2">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search prompts, replies, tool inputs and outputs..."
+            className={`${INPUT_CLASS} flex-1`}
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={!query.trim() || isSearching}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg glass-button text-sm text-accent disabled:opacity-40 smooth-transition"
+          >
+            <MagnifyingGlassIcon className="w-4 h-4" />
+            Search
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          <select
+            value={project}
+            onChange={(e) => setProject(e.target.value)}
+            className={INPUT_CLASS}
+            aria-label="Project"
+          >
+            <option value="">All projects</option>
+            {projects.map((p) => (
+              <option key={p.encodedName} value={p.encodedName}>
+                {p.path}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className={INPUT_CLASS}
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className={INPUT_CLASS}
+            aria-label="To date"
+          />
+          <input
+            type="text"
+            value={tool}
+            onChange={(e) => setTool(e.target.value)}
+            placeholder="Tool, e.g. Bash"
+            className={`${INPUT_CLASS} w-32`}
+          />
+          <input
+            type="text"
+            value={file}
+            onChange={(e) => setFile(e.target.value)}
+            placeholder="File path touched"
+            className={`${INPUT_CLASS} flex-1 min-w-[10rem]`}
+          />
+        </div>
+      </form>
+
+      {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+
+      <ul className="flex-1 overflow-y-auto space-y-2">
+        {isSearching && (
+          <li className="text-sm text-secondary text-center">Searching...</li>
+        )}
+        {!isSearching && searchedQuery && results.length === 0 && !error && (
+          <li className="text-sm text-secondary text-center">
+            No matching messages
+          </li>
+        )}
+        {!isSearching &&
+          results.map((result, index) => {
+            const path = projectPath(result.encodedProjectName);
+            return (
+              <li key={`${result.sessionId}-${result.messageUuid}-${index}`}>
+                <button
+                  onClick={() => onOpen(result, searchedQuery)}
+                  disabled={!path}
+                  className="w-full text-left p-3 glass-card rounded-lg hover:glow-effect smooth-transition disabled:cursor-not-allowed"
+                  title={path ? undefined : "Project is no longer configured"}
+                >
+                  <div className="flex items-center gap-2 text-xs text-tertiary flex-wrap">
+                    <span className="px-1.5 py-0.5 rounded border border-white/10 uppercase tracking-wide text-[10px]">
+                      {KIND_LABELS[result.kind]}
+                      {result.toolName && ` · ${result.toolName}`}
+                    </span>
+                    <span className="font-mono truncate">
+                      {path ?? result.encodedProjectName}
+                    </span>
+                    <span>
+                      Session: {result.sessionId.substring(0, 8)}... •{" "}
+                      {new Date(result.timestamp).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-sm text-secondary mt-1 font-mono whitespace-pre-wrap break-words">
+                    {result.snippet}
+                  </p>
+                </button>
+              </li>
+            );
+          })}
+        {!isSearching && truncated && (
+          <li className="text-xs text-tertiary text-center">
+            Showing the newest {results.length} matches; narrow the search to
+            see more
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
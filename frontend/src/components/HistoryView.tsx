@@ -1,20 +1,51 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import type { ConversationSummary } from "../../../shared/types";
+import {
+  ArrowUpTrayIcon,
+  ListBulletIcon,
+  MagnifyingGlassIcon,
+  ShareIcon,
+  Squares2X2Icon,
+} from "@heroicons/react/24/outline";
+import type {
+  ConversationSummary,
+  HistorySearchResult,
+  ProjectInfo,
+} from "../../../shared/types";
 import { getHistoriesUrl } from "../config/api";
 import { BUTTON_STYLES } from "../utils/constants";
+import { ConversationExportButton } from "./ConversationExportButton";
+import { ConversationTree } from "./ConversationTree";
+import { HistorySearch } from "./HistorySearch";
+import { useHistoryImport } from "../hooks/useHistoryImport";
 
 interface HistoryViewProps {
   workingDirectory: string;
   encodedName: string | null;
+  // Known projects, to open search results from other projects
+  projects: ProjectInfo[];
   onBack: () => void;
 }
 
-export function HistoryView({ encodedName }: HistoryViewProps) {
+export function HistoryView({
+  workingDirectory,
+  encodedName,
+  projects,
+}: HistoryViewProps) {
   const navigate = useNavigate();
   const [conversations, setConversations] = useState<ConversationSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // The tree also shows continued and resumed files the list hides
+  const [viewMode, setViewMode] = useState<"list" | "tree" | "search">("list");
+  // Bumped to list conversations again after an import
+  const [reloadKey, setReloadKey] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const {
+    importHistory,
+    isImporting,
+    error: importError,
+  } = useHistoryImport(encodedName, workingDirectory);
 
   useEffect(() => {
     const loadConversations = async () => {
@@ -44,7 +75,7 @@ export function HistoryView({ encodedName }: HistoryViewProps) {
     };
 
     loadConversations();
-  }, [encodedName]);
+  }, [encodedName, reloadKey]);
 
   const handleConversationSelect = (sessionId: string) => {
     const searchParams = new URLSearchParams();
@@ -52,6 +83,59 @@ export function HistoryView({ encodedName }: HistoryViewProps) {
     navigate({ search: searchParams.toString() });
   };
 
+  // Imported sessions open right away so they can be resumed
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const imported = await importHistory(file);
+    if (imported) {
+      setReloadKey((key) => key + 1);
+      handleConversationSelect(imported.sessionId);
+    }
+  };
+
+  const importControl = (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".jsonl,.json"
+        onChange={handleImportFile}
+        className="hidden"
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isImporting}
+        className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs text-tertiary hover:text-primary smooth-transition disabled:opacity-50"
+        title="Import a session file or exported JSON bundle from another machine"
+      >
+        <ArrowUpTrayIcon className="w-4 h-4" />
+        {isImporting ? "Importing..." : "Import"}
+      </button>
+    </>
+  );
+
+  // Opens the result's session in its project and points the chat at the
+  // matched message
+  const handleSearchResultOpen = (
+    result: HistorySearchResult,
+    query: string,
+  ) => {
+    const project = projects.find(
+      (p) => p.encodedName === result.encodedProjectName,
+    );
+    if (!project) return;
+    const searchParams = new URLSearchParams();
+    searchParams.set("sessionId", result.sessionId);
+    searchParams.set("highlight", query);
+    searchParams.set("message", result.messageUuid);
+    navigate({
+      pathname: `/projects${project.path}`,
+      search: searchParams.toString(),
+    });
+  };
+
   if (loading || !encodedName) {
     return (
       <div className="flex-1 flex items-center justify-center">
@@ -118,6 +202,10 @@ export function HistoryView({ encodedName }: HistoryViewProps) {
           <p className="text-secondary text-sm max-w-sm">
             Start chatting to see your conversation history here.
           </p>
+          <div className="mt-4 flex justify-center">{importControl}</div>
+          {importError && (
+            <p className="text-sm text-red-400 mt-2">{importError}</p>
+          )}
         </div>
       </div>
     );
@@ -126,45 +214,102 @@ export function HistoryView({ encodedName }: HistoryViewProps) {
   return (
     <div className="flex-1 overflow-hidden">
       <div className="p-6 h-full flex flex-col">
-        <div className="grid gap-4 flex-1 overflow-y-auto">
-          {conversations.map((conversation) => (
-            <div
-              key={conversation.sessionId}
-              onClick={() => handleConversationSelect(conversation.sessionId)}
-              className={BUTTON_STYLES.HISTORY_ITEM}
+        <div className="flex justify-end gap-1 mb-4">
+          <div className="mr-auto">{importControl}</div>
+          {(
+            [
+              ["list", ListBulletIcon, "List"],
+              ["tree", Squares2X2Icon, "Tree"],
+              ["search", MagnifyingGlassIcon, "Search"],
+            ] as const
+          ).map(([mode, Icon, label]) => (
+            <button
+              key={mode}
+              onClick={() => setViewMode(mode)}
+              className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs smooth-transition ${
+                viewMode === mode
+                  ? "glass-button text-accent"
+                  : "text-tertiary hover:text-primary"
+              }`}
+              aria-pressed={viewMode === mode}
             >
-              <div className="flex items-start justify-between">
-                <div className="flex-1 min-w-0">
-                  <h3 className="text-sm font-medium text-primary truncate">
-                    Session: {conversation.sessionId.substring(0, 8)}...
-                  </h3>
-                  <p className="text-xs text-tertiary mt-1">
-                    {new Date(conversation.startTime).toLocaleString()} •{" "}
-                    {conversation.messageCount} messages
-                  </p>
-                  <p className="text-sm text-secondary mt-2 line-clamp-2">
-                    {conversation.lastMessagePreview}
-                  </p>
-                </div>
-                <div className="ml-4 flex-shrink-0">
-                  <svg
-                    className="w-5 h-5 text-accent"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M9 5l7 7-7 7"
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+        {importError && (
+          <p className="text-sm text-red-400 mb-2">{importError}</p>
+        )}
+        {viewMode === "search" ? (
+          <HistorySearch
+            encodedName={encodedName}
+            projects={projects}
+            onOpen={handleSearchResultOpen}
+          />
+        ) : viewMode === "tree" ? (
+          <ConversationTree
+            encodedName={encodedName}
+            onSelect={handleConversationSelect}
+          />
+        ) : (
+          <div className="grid gap-4 flex-1 overflow-y-auto">
+            {conversations.map((conversation) => (
+              <div
+                key={conversation.sessionId}
+                onClick={() => handleConversationSelect(conversation.sessionId)}
+                className={BUTTON_STYLES.HISTORY_ITEM}
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <h3 className="text-sm font-medium text-primary truncate">
+                      Session: {conversation.sessionId.substring(0, 8)}...
+                    </h3>
+                    <p className="text-xs text-tertiary mt-1">
+                      {new Date(conversation.startTime).toLocaleString()} •{" "}
+                      {conversation.messageCount} messages
+                    </p>
+                    {conversation.forkedFrom && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleConversationSelect(conversation.forkedFrom!);
+                        }}
+                        className="mt-1 inline-flex items-center gap-1 text-xs text-accent hover:underline"
+                        title="Open the conversation this one was forked from"
+                      >
+                        <ShareIcon className="w-3 h-3" />
+                        Forked from {conversation.forkedFrom.substring(0, 8)}...
+                      </button>
+                    )}
+                    <p className="text-sm text-secondary mt-2 line-clamp-2">
+                      {conversation.lastMessagePreview}
+                    </p>
+                  </div>
+                  <div className="ml-4 flex-shrink-0 flex items-center gap-1">
+                    <ConversationExportButton
+                      encodedName={encodedName}
+                      sessionId={conversation.sessionId}
                     />
-                  </svg>
+                    <svg
+                      className="w-5 h-5 text-accent"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M9 5l7 7-7 7"
+                      />
+                    </svg>
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
-        </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
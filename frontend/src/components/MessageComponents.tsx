@@ -1,14 +1,18 @@
+import { useState } from "react";
 import type {
+  BudgetExceededMessage,
   ChatMessage,
   SystemMessage,
   ToolMessage,
   ToolResultMessage,
 } from "../types";
+import { PencilSquareIcon, ShareIcon } from "@heroicons/react/24/outline";
 import { TimestampComponent } from "./TimestampComponent";
 import { MessageContainer } from "./messages/MessageContainer";
 import { CollapsibleDetails } from "./messages/CollapsibleDetails";
 import { MESSAGE_CONSTANTS } from "../utils/constants";
 import { useLanguage } from "../contexts/LanguageContext";
+import { AttachmentList } from "./chat/AttachmentList";
 
 // Tool style detection - matches all Claude Code tools
 type ToolStyle =
@@ -183,10 +187,19 @@ const TOOL_STYLES: Record<
 
 interface ChatMessageComponentProps {
   message: ChatMessage;
+  // Starts a new session from the conversation before this message
+  onFork?: () => void;
+  // Replaces this prompt and everything after it with the edited text
+  onEdit?: (content: string) => void;
 }
 
-export function ChatMessageComponent({ message }: ChatMessageComponentProps) {
+export function ChatMessageComponent({
+  message,
+  onFork,
+  onEdit,
+}: ChatMessageComponentProps) {
   const { t } = useLanguage();
+  const [draft, setDraft] = useState<string | null>(null);
   const isUser = message.role === "user";
   const colorScheme = isUser
     ? "bg-gradient-primary text-primary"
@@ -234,16 +247,78 @@ export function ChatMessageComponent({ message }: ChatMessageComponentProps) {
             </>
           )}
         </div>
-        <TimestampComponent
-          timestamp={message.timestamp}
-          className={`text-xs opacity-70 ${
-            isUser ? "text-primary" : "text-tertiary"
-          }`}
-        />
+        <div className="flex items-center gap-2">
+          {onEdit && draft === null && (
+            <button
+              onClick={() => setDraft(message.content)}
+              className="p-1 rounded text-primary opacity-60 hover:opacity-100 smooth-transition"
+              aria-label={t("message.edit")}
+              title={t("message.edit")}
+            >
+              <PencilSquareIcon className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {onFork && (
+            <button
+              onClick={onFork}
+              className="p-1 rounded text-primary opacity-60 hover:opacity-100 smooth-transition"
+              aria-label={t("message.fork")}
+              title={t("message.fork")}
+            >
+              <ShareIcon className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <TimestampComponent
+            timestamp={message.timestamp}
+            className={`text-xs opacity-70 ${
+              isUser ? "text-primary" : "text-tertiary"
+            }`}
+          />
+        </div>
       </div>
-      <pre className="whitespace-pre-wrap text-sm font-mono leading-relaxed">
-        {message.content}
-      </pre>
+      {message.attachments && message.attachments.length > 0 && (
+        <div className={message.content ? "mb-2" : ""}>
+          <AttachmentList attachments={message.attachments} />
+        </div>
+      )}
+      {onEdit && draft !== null ? (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setDraft(null);
+            }}
+            rows={Math.min(Math.max(draft.split("\n").length, 2), 10)}
+            className="w-full min-w-[16rem] px-3 py-2 rounded-lg bg-black-quaternary text-sm font-mono text-primary border border-accent focus:outline-none"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2 text-xs">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-3 py-1 rounded-lg glass-button text-secondary hover:text-primary smooth-transition"
+            >
+              {t("common.cancel")}
+            </button>
+            <button
+              onClick={() => {
+                onEdit(draft.trim());
+                setDraft(null);
+              }}
+              disabled={!draft.trim() || draft.trim() === message.content}
+              className="px-3 py-1 rounded-lg glass-button text-accent disabled:opacity-40 smooth-transition"
+            >
+              {t("message.editResend")}
+            </button>
+          </div>
+        </div>
+      ) : (
+        message.content && (
+          <pre className="whitespace-pre-wrap text-sm font-mono leading-relaxed">
+            {message.content}
+          </pre>
+        )
+      )}
     </MessageContainer>
   );
 }
@@ -307,6 +382,41 @@ export function SystemMessageComponent({
   );
 }
 
+interface BudgetExceededMessageComponentProps {
+  message: BudgetExceededMessage;
+}
+
+export function BudgetExceededMessageComponent({
+  message,
+}: BudgetExceededMessageComponentProps) {
+  const { t } = useLanguage();
+  const { reason, limit, actual } = message.budget;
+
+  const detail =
+    reason === "max_cost"
+      ? `${t("limits.costExceeded")}: $${actual.toFixed(4)} / $${limit.toFixed(2)}`
+      : `${t("limits.turnsExceeded")}: ${actual} / ${limit}`;
+
+  return (
+    <MessageContainer
+      alignment="center"
+      colorScheme="bg-red-900/30 text-red-300 border border-red-400/60"
+    >
+      <div className="flex items-center justify-between gap-4 mb-1">
+        <span className="text-xs font-semibold text-red-400 flex items-center gap-2">
+          <span aria-hidden="true">⛔</span>
+          {t("limits.stopped")}
+        </span>
+        <TimestampComponent
+          timestamp={message.timestamp}
+          className="text-xs opacity-70 text-red-300"
+        />
+      </div>
+      <p className="text-sm">{detail}</p>
+    </MessageContainer>
+  );
+}
+
 interface ToolMessageComponentProps {
   message: ToolMessage;
 }
@@ -361,11 +471,15 @@ export function ToolMessageComponent({ message }: ToolMessageComponentProps) {
 
 interface ToolResultMessageComponentProps {
   message: ToolResultMessage;
+  // Offered when a history page shortened the output
+  onLoadFull?: () => void;
 }
 
 export function ToolResultMessageComponent({
   message,
+  onLoadFull,
 }: ToolResultMessageComponentProps) {
+  const { t } = useLanguage();
   const toolStyle = detectToolStyle(message.toolName, message.content);
   const style = TOOL_STYLES[toolStyle];
 
@@ -486,7 +600,7 @@ export function ToolResultMessageComponent({
     message.content,
   );
 
-  return (
+  const details = (
     <CollapsibleDetails
       label={`${style.icon} ${message.toolName}`}
       details={formattedContent}
@@ -502,6 +616,20 @@ export function ToolResultMessageComponent({
       className="tool-result-details"
     />
   );
+
+  if (!message.truncated || !onLoadFull) return details;
+
+  return (
+    <div>
+      {details}
+      <button
+        onClick={onLoadFull}
+        className="-mt-2 mb-3 text-xs text-accent hover:underline"
+      >
+        {`${t("message.loadFullOutput")} (${message.truncated.fullLength.toLocaleString()} chars)`}
+      </button>
+    </div>
+  );
 }
 
 export function LoadingComponent() {
@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import type { DeviceAuthResponse } from "../../../shared/types";
+import { AUTH_CONSTANTS } from "../utils/constants";
 
 export const MobileAuth: React.FC = () => {
   const [step, setStep] = useState<"register" | "verify" | "complete">("register");
@@ -70,7 +71,7 @@ export const MobileAuth: React.FC = () => {
         setStep("complete");
         
         // Save token to local storage
-        localStorage.setItem("claude-webui-auth-token", data.authToken);
+        localStorage.setItem(AUTH_CONSTANTS.TOKEN_STORAGE_KEY, data.authToken);
         localStorage.setItem("claude-webui-device-id", deviceId);
       } else if (data.status === "rejected") {
         setError("Device authorization was rejected");
@@ -8,12 +8,82 @@ import {
   TagIcon,
   XMarkIcon,
   PlusIcon,
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
 } from "@heroicons/react/24/outline";
-import type { SessionMetadata } from "../services/sessionStorage";
+import type {
+  SessionConflict,
+  SessionMetadata,
+} from "../services/sessionStorage";
 import { sessionStorage } from "../services/sessionStorage";
+import { sessionSync, type SyncStatus } from "../services/sessionSync";
+import { useSessionSync } from "../hooks/useSessionSync";
 import { BUTTON_STYLES } from "../utils/constants";
 import { formatDistanceToNow } from "../utils/time";
 
+function describeSyncStatus(status: SyncStatus): string {
+  switch (status.state) {
+    case "syncing":
+      return "Syncing...";
+    case "offline":
+      return "Offline, changes sync when reconnected";
+    case "error":
+      return `Sync failed: ${status.error}`;
+    default:
+      return status.lastSyncedAt
+        ? `Synced ${formatDistanceToNow(new Date(status.lastSyncedAt))}`
+        : "Not synced yet";
+  }
+}
+
+// Title and tags another device saved while this one changed them too
+function ConflictNotice({
+  conflict,
+  onResolve,
+}: {
+  conflict: SessionConflict;
+  onResolve: (choice: "local" | "remote") => void;
+}) {
+  return (
+    <div
+      className="mt-3 p-3 rounded-lg border border-yellow-500/30 bg-yellow-500/10 text-xs"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <p className="flex items-center gap-1 font-medium text-yellow-400">
+        <ExclamationTriangleIcon className="w-4 h-4" />
+        Changed on another device
+      </p>
+      {conflict.title !== undefined && (
+        <p className="mt-1 text-secondary">
+          Other title: <span className="text-primary">{conflict.title}</span>
+        </p>
+      )}
+      {conflict.tags !== undefined && (
+        <p className="mt-1 text-secondary">
+          Other tags:{" "}
+          <span className="text-primary">
+            {conflict.tags.length > 0 ? conflict.tags.join(", ") : "none"}
+          </span>
+        </p>
+      )}
+      <div className="mt-2 flex gap-2">
+        <button
+          onClick={() => onResolve("local")}
+          className="px-2 py-1 rounded glass-button text-secondary hover:text-primary"
+        >
+          Keep this device's
+        </button>
+        <button
+          onClick={() => onResolve("remote")}
+          className="px-2 py-1 rounded glass-button text-secondary hover:text-primary"
+        >
+          Use other device's
+        </button>
+      </div>
+    </div>
+  );
+}
+
 interface SessionManagerProps {
   currentSessionId: string | null;
   workingDirectory?: string;
@@ -39,11 +109,16 @@ export function SessionManager({
   const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
   const [editingTitle, setEditingTitle] = useState("");
   const [showImportDialog, setShowImportDialog] = useState(false);
+  const {
+    status: syncStatus,
+    conflicts,
+    resolveConflict,
+    syncNow,
+  } = useSessionSync();
 
-  // Load sessions
+  // Load sessions; reloads after syncs keep the list in place
   const loadSessions = useCallback(async () => {
     try {
-      setIsLoading(true);
       const loadedSessions = workingDirectory
         ? await sessionStorage.getSessionsByProject(workingDirectory)
         : await sessionStorage.getAllSessions();
@@ -58,7 +133,7 @@ export function SessionManager({
 
   useEffect(() => {
     loadSessions();
-  }, [loadSessions]);
+  }, [loadSessions, syncStatus.lastSyncedAt]);
 
   // Filter sessions based on search and tags
   useEffect(() => {
@@ -94,7 +169,7 @@ export function SessionManager({
   const handleDelete = async (sessionId: string) => {
     if (confirm("Are you sure you want to delete this session?")) {
       try {
-        await sessionStorage.deleteSession(sessionId);
+        await sessionSync.deleteSession(sessionId);
         await loadSessions();
       } catch (error) {
         console.error("Failed to delete session:", error);
@@ -139,6 +214,18 @@ export function SessionManager({
     }
   };
 
+  const handleResolveConflict = async (
+    sessionId: string,
+    choice: "local" | "remote",
+  ) => {
+    try {
+      await resolveConflict(sessionId, choice);
+      await loadSessions();
+    } catch (error) {
+      console.error("Failed to resolve sync conflict:", error);
+    }
+  };
+
   const formatSessionDate = (timestamp: number) => {
     const date = new Date(timestamp);
     const now = new Date();
@@ -294,6 +381,14 @@ export function SessionManager({
                           ))}
                         </div>
                       )}
+                      {conflicts[session.sessionId] && (
+                        <ConflictNotice
+                          conflict={conflicts[session.sessionId]}
+                          onResolve={(choice) =>
+                            handleResolveConflict(session.sessionId, choice)
+                          }
+                        />
+                      )}
                     </div>
                     <div className="flex items-center gap-2 ml-4">
                       <button
@@ -333,8 +428,19 @@ export function SessionManager({
             <ArrowUpTrayIcon className="w-4 h-4 mr-2" />
             Import Session
           </button>
-          <div className="text-xs text-tertiary">
-            {sessions.length} total sessions
+          <div className="flex items-center gap-3 text-xs text-tertiary">
+            <button
+              onClick={syncNow}
+              disabled={syncStatus.state === "syncing"}
+              className="flex items-center gap-1 hover:text-primary smooth-transition disabled:opacity-50"
+              title="Sync sessions with other devices"
+            >
+              <ArrowPathIcon
+                className={`w-4 h-4 ${syncStatus.state === "syncing" ? "animate-spin" : ""}`}
+              />
+              {describeSyncStatus(syncStatus)}
+            </button>
+            <span>{sessions.length} total sessions</span>
           </div>
         </div>
       </div>
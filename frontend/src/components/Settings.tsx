@@ -3,17 +3,27 @@ import { useNavigate } from "react-router-dom";
 import {
   ChevronLeftIcon,
   CogIcon,
+  CommandLineIcon,
   CurrencyDollarIcon,
   Cog6ToothIcon,
   DevicePhoneMobileIcon,
+  ShieldCheckIcon,
 } from "@heroicons/react/24/outline";
 import { MCPTab } from "./settings/MCPTab";
 import { BillTab } from "./settings/BillTab";
 import { GeneralTab } from "./settings/GeneralTab";
 import { DeviceTab } from "./settings/DeviceTab";
+import { PermissionsTab } from "./settings/PermissionsTab";
+import { CommandsTab } from "./settings/CommandsTab";
 import { useLanguage } from "../contexts/LanguageContext";
 
-type TabType = "general" | "mcp" | "bill" | "devices";
+type TabType =
+  | "general"
+  | "mcp"
+  | "permissions"
+  | "commands"
+  | "bill"
+  | "devices";
 
 export function Settings() {
   const [activeTab, setActiveTab] = useState<TabType>("general");
@@ -34,6 +44,18 @@ export function Settings() {
       icon: CogIcon,
       description: t("settings.mcp.desc"),
     },
+    {
+      id: "permissions" as TabType,
+      name: t("settings.permissions"),
+      icon: ShieldCheckIcon,
+      description: t("settings.permissions.desc"),
+    },
+    {
+      id: "commands" as TabType,
+      name: t("settings.commands"),
+      icon: CommandLineIcon,
+      description: t("settings.commands.desc"),
+    },
     {
       id: "bill" as TabType,
       name: t("settings.bill"),
@@ -178,6 +200,8 @@ export function Settings() {
           <div className="p-4 lg:p-8">
             {activeTab === "general" && <GeneralTab />}
             {activeTab === "mcp" && <MCPTab />}
+            {activeTab === "permissions" && <PermissionsTab />}
+            {activeTab === "commands" && <CommandsTab />}
             {activeTab === "bill" && <BillTab />}
             {activeTab === "devices" && <DeviceTab />}
           </div>
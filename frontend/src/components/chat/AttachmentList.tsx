@@ -0,0 +1,67 @@
+import {
+  DocumentIcon,
+  PhotoIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import type { MessageAttachment } from "../../types";
+import { formatFileSize, isImageType } from "../../utils/attachments";
+
+// Only attachments still in the chat input have a preview
+type ListedAttachment = MessageAttachment & { previewUrl?: string };
+
+interface AttachmentListProps<T extends ListedAttachment> {
+  attachments: T[];
+  // Shows a remove button on each attachment when set
+  onRemove?: (attachment: T) => void;
+}
+
+export function AttachmentList<T extends ListedAttachment>({
+  attachments,
+  onRemove,
+}: AttachmentListProps<T>) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment, index) => (
+        <div
+          key={`${attachment.name}-${index}`}
+          className="relative group"
+          title={`${attachment.name} (${formatFileSize(attachment.size)})`}
+        >
+          {attachment.previewUrl ? (
+            <a href={attachment.previewUrl} target="_blank" rel="noreferrer">
+              <img
+                src={attachment.previewUrl}
+                alt={attachment.name}
+                className="h-20 w-20 object-cover rounded-lg border border-accent/30"
+              />
+            </a>
+          ) : (
+            <div className="flex items-center gap-2 h-10 px-3 rounded-lg bg-black-quaternary border border-accent/30 text-xs text-primary max-w-[14rem]">
+              {isImageType(attachment.mimeType) ? (
+                <PhotoIcon className="w-4 h-4 text-accent flex-shrink-0" />
+              ) : (
+                <DocumentIcon className="w-4 h-4 text-accent flex-shrink-0" />
+              )}
+              <span className="truncate">{attachment.name}</span>
+              <span className="text-tertiary flex-shrink-0">
+                {formatFileSize(attachment.size)}
+              </span>
+            </div>
+          )}
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(attachment)}
+              className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-black-secondary border border-accent/50 text-tertiary hover:text-red-400 smooth-transition"
+              aria-label={`Remove ${attachment.name}`}
+            >
+              <XMarkIcon className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,7 +1,31 @@
-import React, { useRef, useEffect, useState } from "react";
+import React, { useRef, useEffect, useState, useMemo } from "react";
 import { StopIcon } from "@heroicons/react/24/solid";
-import { UI_CONSTANTS, KEYBOARD_SHORTCUTS } from "../../utils/constants";
+import { PaperClipIcon } from "@heroicons/react/24/outline";
+import type { PendingAttachment, SlashCommand } from "../../types";
+import {
+  UI_CONSTANTS,
+  KEYBOARD_SHORTCUTS,
+  ATTACHMENT_CONSTANTS,
+} from "../../utils/constants";
+import {
+  readFileAsAttachment,
+  validateAttachmentFile,
+} from "../../utils/attachments";
+import {
+  filterSlashCommands,
+  getSlashCommandQuery,
+} from "../../utils/slashCommands";
+import {
+  filterFiles,
+  formatFileReference,
+  formatInlinedLines,
+  getFileMention,
+} from "../../utils/fileMentions";
+import type { FileIndex } from "../../hooks/chat/useFileIndex";
 import { useLanguage } from "../../contexts/LanguageContext";
+import { AttachmentList } from "./AttachmentList";
+import { SlashCommandPalette } from "./SlashCommandPalette";
+import { FileMentionPicker } from "./FileMentionPicker";
 
 interface ChatInputProps {
   input: string;
@@ -10,6 +34,15 @@ interface ChatInputProps {
   onInputChange: (value: string) => void;
   onSubmit: () => void;
   onAbort: () => void;
+  // Called instead of onSubmit while a request is running
+  onQueue?: (content: string) => void;
+  attachments?: PendingAttachment[];
+  onAttach?: (attachments: PendingAttachment[]) => void;
+  onRemoveAttachment?: (id: string) => void;
+  // Suggested while the input is a bare "/command"
+  commands?: SlashCommand[];
+  // Project files offered after typing "@"
+  fileIndex?: FileIndex;
 }
 
 export function ChatInput({
@@ -19,9 +52,26 @@ export function ChatInput({
   onInputChange,
   onSubmit,
   onAbort,
+  onQueue,
+  attachments = [],
+  onAttach,
+  onRemoveAttachment,
+  commands = [],
+  fileIndex,
 }: ChatInputProps) {
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [isComposing, setIsComposing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  // Shared by the slash command palette and the file picker, which never
+  // open at the same time
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+  const [caret, setCaret] = useState(0);
+  const [inlineLines, setInlineLines] = useState(false);
+  // Caret position to restore after inserting a picked file
+  const pendingCaretRef = useRef<number | null>(null);
   const { t } = useLanguage();
 
   // Focus input when not loading
@@ -45,15 +95,203 @@ export function ChatInput({
     }
   }, [input]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Reopen suggestions and restart their selection whenever the input changes
+  useEffect(() => {
+    setSuggestionIndex(0);
+    setSuggestionsDismissed(false);
+
+    const pendingCaret = pendingCaretRef.current;
+    if (pendingCaret !== null && inputRef.current) {
+      pendingCaretRef.current = null;
+      inputRef.current.focus();
+      inputRef.current.setSelectionRange(pendingCaret, pendingCaret);
+      setCaret(pendingCaret);
+    }
+  }, [input]);
+
+  const commandQuery = suggestionsDismissed
+    ? null
+    : getSlashCommandQuery(input);
+  const paletteCommands =
+    commandQuery === null ? [] : filterSlashCommands(commands, commandQuery);
+
+  const mention =
+    suggestionsDismissed || !fileIndex ? null : getFileMention(input, caret);
+  const mentionQuery = mention?.query ?? null;
+  const indexedFiles = fileIndex?.files;
+  const mentionFiles = useMemo(
+    () =>
+      mentionQuery === null || !indexedFiles
+        ? []
+        : filterFiles(indexedFiles, mentionQuery),
+    [indexedFiles, mentionQuery],
+  );
+
+  // Load the file index the first time the picker opens
+  const isMentionOpen = mention !== null;
+  const ensureFileIndexLoaded = fileIndex?.ensureLoaded;
+  useEffect(() => {
+    if (isMentionOpen) ensureFileIndexLoaded?.();
+  }, [isMentionOpen, ensureFileIndexLoaded]);
+
+  const selectCommand = (command: SlashCommand) => {
+    onInputChange(`/${command.name} `);
+    inputRef.current?.focus();
+  };
+
+  // Replaces the @-mention with the path, or with the lines of a typed
+  // range when inlining is enabled
+  const selectFile = async (path: string) => {
+    if (!mention || !fileIndex) return;
+
+    let insertion = `${formatFileReference(
+      path,
+      mention.startLine,
+      mention.endLine,
+    )} `;
+    if (inlineLines && mention.startLine) {
+      const lines = await fileIndex.readLines(
+        path,
+        mention.startLine,
+        mention.endLine,
+      );
+      if (!lines) return;
+      insertion = formatInlinedLines(
+        path,
+        lines.startLine,
+        lines.endLine,
+        lines.content,
+      );
+    }
+
+    pendingCaretRef.current = mention.start + insertion.length;
+    onInputChange(
+      input.slice(0, mention.start) + insertion + input.slice(mention.end),
+    );
+  };
+
+  const canQueue = isLoading && !!onQueue;
+  const hasContent = !!input.trim() || attachments.length > 0;
+
+  // Reads dropped, pasted or picked files, skipping ones over the limits
+  const addFiles = async (files: File[]) => {
+    if (!onAttach || files.length === 0) return;
+    setAttachmentError(null);
+
+    const room = ATTACHMENT_CONSTANTS.MAX_ATTACHMENTS - attachments.length;
+    if (files.length > room) {
+      setAttachmentError(t("attachments.tooMany"));
+    }
+
+    const accepted: File[] = [];
+    for (const file of files.slice(0, Math.max(room, 0))) {
+      const error = validateAttachmentFile(file);
+      if (error) {
+        setAttachmentError(`${t(error)}: ${file.name}`);
+      } else {
+        accepted.push(file);
+      }
+    }
+
+    try {
+      onAttach(await Promise.all(accepted.map(readFileAsAttachment)));
+    } catch (error) {
+      console.error("Failed to read attachment:", error);
+      setAttachmentError(t("attachments.readFailed"));
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0 && onAttach) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!onAttach || !e.dataTransfer.types.includes("Files")) return;
     e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!onAttach) return;
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    // Allow picking the same file again after removing it
+    e.target.value = "";
+  };
+
+  const submit = () => {
+    if (canQueue) {
+      const content = input.trim();
+      if (!content) return;
+      onQueue(content);
+      onInputChange("");
+      return;
+    }
     onSubmit();
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit();
+  };
+
+  // Returns true when the key was used by the open palette or file picker
+  const handleSuggestionKeyDown = (
+    e: React.KeyboardEvent<HTMLTextAreaElement>,
+  ) => {
+    if ((paletteCommands.length === 0 && !mention) || isComposing) {
+      return false;
+    }
+    const count = mention ? mentionFiles.length : paletteCommands.length;
+    const index = suggestionIndex < count ? suggestionIndex : 0;
+
+    switch (e.key) {
+      case "ArrowDown":
+        if (count === 0) return false;
+        setSuggestionIndex((index + 1) % count);
+        break;
+      case "ArrowUp":
+        if (count === 0) return false;
+        setSuggestionIndex((index - 1 + count) % count);
+        break;
+      case "Tab":
+      case KEYBOARD_SHORTCUTS.SUBMIT:
+        if (count === 0 || (e.key !== "Tab" && e.shiftKey)) return false;
+        if (mention) {
+          selectFile(mentionFiles[index]);
+        } else {
+          // A fully typed command is sent as is
+          const command = paletteCommands[index];
+          if (e.key !== "Tab" && input === `/${command.name}`) return false;
+          selectCommand(command);
+        }
+        break;
+      case "Escape":
+        setSuggestionsDismissed(true);
+        // Closing suggestions must not abort a running request
+        e.stopPropagation();
+        break;
+      default:
+        return false;
+    }
+    e.preventDefault();
+    return true;
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (handleSuggestionKeyDown(e)) return;
     if (e.key === KEYBOARD_SHORTCUTS.SUBMIT && !e.shiftKey && !isComposing) {
       e.preventDefault();
-      onSubmit();
+      submit();
     }
   };
 
@@ -67,13 +305,60 @@ export function ChatInput({
   };
 
   return (
-    <div className="flex-shrink-0">
-      <form onSubmit={handleSubmit} className="relative">
+    <div className="flex-shrink-0 space-y-2">
+      {attachments.length > 0 && (
+        <AttachmentList
+          attachments={attachments}
+          onRemove={
+            onRemoveAttachment
+              ? (attachment) => onRemoveAttachment(attachment.id)
+              : undefined
+          }
+        />
+      )}
+      {attachmentError && (
+        <p className="text-xs text-red-400">{attachmentError}</p>
+      )}
+      <form
+        onSubmit={handleSubmit}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`relative rounded-2xl ${
+          isDragging ? "ring-2 ring-accent ring-offset-0" : ""
+        }`}
+      >
+        {mention && fileIndex ? (
+          <FileMentionPicker
+            files={mentionFiles}
+            selectedIndex={suggestionIndex}
+            onSelect={selectFile}
+            onHover={setSuggestionIndex}
+            isLoading={fileIndex.isLoading}
+            truncated={fileIndex.truncated}
+            error={fileIndex.error}
+            hasLineRange={!!mention.startLine}
+            inlineLines={inlineLines}
+            onInlineLinesChange={setInlineLines}
+          />
+        ) : (
+          <SlashCommandPalette
+            commands={paletteCommands}
+            selectedIndex={suggestionIndex}
+            onSelect={selectCommand}
+            onHover={setSuggestionIndex}
+          />
+        )}
         <textarea
           ref={inputRef}
           value={input}
-          onChange={(e) => onInputChange(e.target.value)}
+          onChange={(e) => {
+            setCaret(e.target.selectionStart);
+            onInputChange(e.target.value);
+          }}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
           onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
           onCompositionStart={handleCompositionStart}
           onCompositionEnd={handleCompositionEnd}
           placeholder={
@@ -82,10 +367,30 @@ export function ChatInput({
               : t("chat.placeholder")
           }
           rows={1}
-          className={`w-full px-4 py-3 pr-32 glass-input text-primary placeholder-text-tertiary resize-none overflow-hidden min-h-[48px] max-h-[${UI_CONSTANTS.TEXTAREA_MAX_HEIGHT}px] smooth-transition rounded-2xl`}
-          disabled={isLoading}
+          className={`w-full px-4 py-3 pr-44 glass-input text-primary placeholder-text-tertiary resize-none overflow-hidden min-h-[48px] max-h-[${UI_CONSTANTS.TEXTAREA_MAX_HEIGHT}px] smooth-transition rounded-2xl`}
+          disabled={isLoading && !canQueue}
         />
         <div className="absolute right-3 bottom-3 flex gap-2">
+          {onAttach && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                onChange={handleFileInputChange}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="p-2 glass-button text-accent glow-border smooth-transition rounded-xl"
+                title={t("attachments.attach")}
+                aria-label={t("attachments.attach")}
+              >
+                <PaperClipIcon className="w-4 h-4" />
+              </button>
+            </>
+          )}
           {isLoading && currentRequestId && (
             <button
               type="button"
@@ -98,10 +403,13 @@ export function ChatInput({
           )}
           <button
             type="submit"
-            disabled={!input.trim() || isLoading}
+            disabled={
+              (canQueue ? !input.trim() : !hasContent) ||
+              (isLoading && !canQueue)
+            }
             className="px-4 py-2 bg-gradient-primary text-primary rounded-xl font-medium smooth-transition glow-effect disabled:cursor-not-allowed disabled:opacity-50 text-sm"
           >
-            {isLoading ? "..." : t("chat.send")}
+            {canQueue ? t("chat.queue") : isLoading ? "..." : t("chat.send")}
           </button>
         </div>
       </form>
@@ -1,28 +1,111 @@
-import { useRef, useEffect } from "react";
-import type { AllMessage } from "../../types";
+import { useRef, useEffect, useLayoutEffect, useState } from "react";
+import { ChevronDownIcon, ChevronRightIcon } from "@heroicons/react/24/outline";
+import type { AllMessage, SupersededBranchMessage } from "../../types";
 import {
+  isBudgetExceededMessage,
   isChatMessage,
+  isSupersededBranchMessage,
   isSystemMessage,
   isToolMessage,
   isToolResultMessage,
 } from "../../types";
 import {
+  BudgetExceededMessageComponent,
   ChatMessageComponent,
   SystemMessageComponent,
   ToolMessageComponent,
   ToolResultMessageComponent,
   LoadingComponent,
 } from "../MessageComponents";
-// import { UI_CONSTANTS } from "../../utils/constants"; // Unused for now
+import { useLanguage } from "../../contexts/LanguageContext";
+import { UI_CONSTANTS } from "../../utils/constants";
 
 interface ChatMessagesProps {
   messages: AllMessage[];
   isLoading: boolean;
+  // Offered on user messages when the conversation can be forked
+  onForkMessage?: (index: number) => void;
+  // Offered on the last user message; replaces it and what followed
+  onEditLastMessage?: (content: string) => void;
+  // Search text of a message to scroll to and mark, e.g. from history search
+  highlightText?: string | null;
+  // Transcript line of that message, preferred over matching its text
+  highlightUuid?: string | null;
+  // Older messages of a stored conversation that are not loaded yet
+  hasOlderMessages?: boolean;
+  isLoadingOlder?: boolean;
+  // Resolves to whether any messages were added
+  onLoadOlder?: () => Promise<boolean>;
+  // Fetches the rest of a tool output a history page shortened
+  onLoadFullToolResult?: (index: number) => void;
 }
 
-export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
+// Text a message is found by when opened from a search result
+function getSearchableText(message: AllMessage): string {
+  if (isChatMessage(message) || isToolMessage(message)) return message.content;
+  if (isToolResultMessage(message)) return message.content;
+  return "";
+}
+
+export function ChatMessages({
+  messages,
+  isLoading,
+  onForkMessage,
+  onEditLastMessage,
+  highlightText,
+  highlightUuid,
+  hasOlderMessages = false,
+  isLoadingOlder = false,
+  onLoadOlder,
+  onLoadFullToolResult,
+}: ChatMessagesProps) {
+  const { t } = useLanguage();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  // The highlighted message is scrolled to once, later turns scroll as usual
+  const scrolledHighlightRef = useRef<string | null>(null);
+
+  const highlightTerms = highlightText
+    ?.toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean);
+  const uuidIndex = highlightUuid
+    ? messages.findIndex(
+        (message) => "uuid" in message && message.uuid === highlightUuid,
+      )
+    : -1;
+  // Matching the text waits until the page holding the message could be loaded
+  const highlightIndex =
+    uuidIndex >= 0 ||
+    !highlightTerms?.length ||
+    (highlightUuid && hasOlderMessages)
+      ? uuidIndex
+      : messages.findIndex((message) => {
+          const text = getSearchableText(message).toLowerCase();
+          return highlightTerms.every((term) => text.includes(term));
+        });
+  const highlightKey = highlightUuid ?? highlightText ?? null;
+
+  // Only the newest messages are rendered; scrolling up renders more
+  const [visibleCount, setVisibleCount] = useState<number>(
+    UI_CONSTANTS.MESSAGE_WINDOW_SIZE,
+  );
+  const firstVisible = Math.max(
+    0,
+    Math.min(
+      messages.length - visibleCount,
+      highlightIndex >= 0 ? highlightIndex : messages.length,
+    ),
+  );
+  const renderedCount = messages.length - firstVisible;
+  // Scroll position to keep while messages are added above it
+  const scrollAnchorRef = useRef<{ height: number; top: number } | null>(null);
+  const previousMessagesRef = useRef<{
+    length: number;
+    first?: AllMessage;
+    last?: AllMessage;
+  }>({ length: 0 });
 
   // Auto-scroll to bottom
   const scrollToBottom = () => {
@@ -43,12 +126,89 @@ export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
   //   );
   // };
 
-  // Auto-scroll when messages change
+  // Auto-scroll when messages change; messages loaded above the oldest one
+  // widen the window instead
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    const previous = previousMessagesRef.current;
+    const highlightPending =
+      highlightIndex >= 0 && scrolledHighlightRef.current !== highlightKey;
+    const first = messages[0];
+    const last = messages[messages.length - 1];
+    previousMessagesRef.current = { length: messages.length, first, last };
+
+    if (last === previous.last && messages.length > previous.length) {
+      const added = messages.length - previous.length;
+      setVisibleCount((count) => count + added);
+      if (!highlightPending) return;
+      // An older page brought in the highlighted message, go to it instead
+      scrollAnchorRef.current = null;
+    }
+    if (last !== previous.last) {
+      scrollAnchorRef.current = null;
+      // Another conversation was opened
+      if (first !== previous.first && previous.length > 0) {
+        setVisibleCount(UI_CONSTANTS.MESSAGE_WINDOW_SIZE);
+      }
+    }
+
+    if (highlightPending) {
+      scrolledHighlightRef.current = highlightKey;
+      highlightRef.current?.scrollIntoView?.({ block: "center" });
+      return;
+    }
+    if (last !== previous.last) scrollToBottom();
+  }, [messages, highlightIndex, highlightKey]);
+
+  // Keep the view still while older messages render above it
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    const anchor = scrollAnchorRef.current;
+    if (!container || !anchor) return;
+    scrollAnchorRef.current = null;
+    container.scrollTop = container.scrollHeight - anchor.height + anchor.top;
+  }, [renderedCount]);
+
+  const showOlderMessages = () => {
+    const container = messagesContainerRef.current;
+    if (firstVisible === 0 && (!hasOlderMessages || isLoadingOlder)) return;
+    if (container) {
+      scrollAnchorRef.current = {
+        height: container.scrollHeight,
+        top: container.scrollTop,
+      };
+    }
+    if (firstVisible > 0) {
+      setVisibleCount((count) => count + UI_CONSTANTS.MESSAGE_WINDOW_SIZE);
+    } else if (onLoadOlder) {
+      onLoadOlder().then((loaded) => {
+        if (!loaded) scrollAnchorRef.current = null;
+      });
+    }
+  };
 
-  const renderMessage = (message: AllMessage, index: number) => {
+  const handleScroll = () => {
+    const container = messagesContainerRef.current;
+    if (
+      container &&
+      container.scrollTop < UI_CONSTANTS.NEAR_TOP_THRESHOLD_PX &&
+      !scrollAnchorRef.current
+    ) {
+      showOlderMessages();
+    }
+  };
+
+  const lastUserIndex = messages.reduce(
+    (last, message, index) =>
+      isChatMessage(message) && message.role === "user" ? index : last,
+    -1,
+  );
+
+  // Superseded messages render without actions, they are no longer live
+  const renderMessage = (
+    message: AllMessage,
+    index: number,
+    nested = false,
+  ): React.ReactNode => {
     // Use timestamp as key for stable rendering, fallback to index if needed
     const key = `${message.timestamp}-${index}`;
 
@@ -57,9 +217,46 @@ export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
     } else if (isToolMessage(message)) {
       return <ToolMessageComponent key={key} message={message} />;
     } else if (isToolResultMessage(message)) {
-      return <ToolResultMessageComponent key={key} message={message} />;
+      return (
+        <ToolResultMessageComponent
+          key={key}
+          message={message}
+          onLoadFull={
+            !nested && onLoadFullToolResult && message.truncated
+              ? () => onLoadFullToolResult(index)
+              : undefined
+          }
+        />
+      );
+    } else if (isBudgetExceededMessage(message)) {
+      return <BudgetExceededMessageComponent key={key} message={message} />;
     } else if (isChatMessage(message)) {
-      return <ChatMessageComponent key={key} message={message} />;
+      return (
+        <ChatMessageComponent
+          key={key}
+          message={message}
+          onFork={
+            !nested && onForkMessage && message.role === "user"
+              ? () => onForkMessage(index)
+              : undefined
+          }
+          onEdit={
+            !nested && onEditLastMessage && index === lastUserIndex
+              ? onEditLastMessage
+              : undefined
+          }
+        />
+      );
+    } else if (isSupersededBranchMessage(message)) {
+      return (
+        <SupersededBranch
+          key={key}
+          message={message}
+          renderMessage={(branchMessage, branchIndex) =>
+            renderMessage(branchMessage, branchIndex, true)
+          }
+        />
+      );
     }
     return null;
   };
@@ -67,6 +264,7 @@ export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
   return (
     <div
       ref={messagesContainerRef}
+      onScroll={handleScroll}
       className="flex-1 overflow-y-auto glass-card p-4 md:p-6 rounded-2xl glow-effect flex flex-col min-h-0"
     >
       {messages.length === 0 ? (
@@ -75,7 +273,31 @@ export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
         <>
           {/* Spacer div to push messages to the bottom */}
           <div className="flex-1" aria-hidden="true"></div>
-          {messages.map(renderMessage)}
+          {(firstVisible > 0 || hasOlderMessages) && (
+            <button
+              onClick={showOlderMessages}
+              disabled={isLoadingOlder}
+              className="self-center mb-4 px-3 py-1 rounded-lg glass-button text-xs text-secondary hover:text-primary smooth-transition disabled:opacity-50"
+            >
+              {isLoadingOlder
+                ? t("message.loadingEarlier")
+                : t("message.loadEarlier")}
+            </button>
+          )}
+          {messages.slice(firstVisible).map((message, offset) => {
+            const index = firstVisible + offset;
+            return index === highlightIndex ? (
+              <div
+                key={`highlight-${message.timestamp}-${index}`}
+                ref={highlightRef}
+                className="rounded-2xl ring-2 ring-accent/60 mb-4"
+              >
+                {renderMessage(message, index)}
+              </div>
+            ) : (
+              renderMessage(message, index)
+            );
+          })}
           {isLoading && <LoadingComponent />}
           <div ref={messagesEndRef} />
         </>
@@ -84,6 +306,39 @@ export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
   );
 }
 
+interface SupersededBranchProps {
+  message: SupersededBranchMessage;
+  renderMessage: (message: AllMessage, index: number) => React.ReactNode;
+}
+
+// Collapsed earlier version of the conversation's tail
+function SupersededBranch({ message, renderMessage }: SupersededBranchProps) {
+  const { t } = useLanguage();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="mb-4 rounded-xl border border-dashed border-white/10">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-1.5 px-3 py-2 text-xs text-tertiary hover:text-primary smooth-transition"
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? (
+          <ChevronDownIcon className="w-3.5 h-3.5" />
+        ) : (
+          <ChevronRightIcon className="w-3.5 h-3.5" />
+        )}
+        {`${t("message.superseded")} (${message.messages.length})`}
+      </button>
+      {isExpanded && (
+        <div className="px-3 pb-1 opacity-70">
+          {message.messages.map(renderMessage)}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function EmptyState() {
   return (
     <div className="flex-1 flex items-center justify-center text-center text-secondary">
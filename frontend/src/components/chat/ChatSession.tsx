@@ -0,0 +1,1079 @@
+import { useEffect, useCallback, useState, useRef } from "react";
+import { createPortal } from "react-dom";
+import { ShieldExclamationIcon } from "@heroicons/react/24/outline";
+import type {
+  AllMessage,
+  ChatRequest,
+  ChatMessage,
+  ForkConversationRequest,
+  PermissionRequest,
+  SessionActivity,
+  SessionStatus,
+} from "../../types";
+import {
+  THINKING_MODE_CONFIGS,
+  isChatMessage,
+  isToolResultMessage,
+} from "../../types";
+import {
+  useClaudeStreaming,
+  type MirroredRequest,
+} from "../../hooks/useClaudeStreaming";
+import { useChatState } from "../../hooks/chat/useChatState";
+import { usePermissions } from "../../hooks/chat/usePermissions";
+import { usePermissionRules } from "../../hooks/chat/usePermissionRules";
+import { useAbortController } from "../../hooks/chat/useAbortController";
+import { useModelSelection } from "../../hooks/chat/useModelSelection";
+import { usePromptPresets } from "../../hooks/chat/usePromptPresets";
+import { useRequestLimits } from "../../hooks/chat/useRequestLimits";
+import { useSlashCommands } from "../../hooks/chat/useSlashCommands";
+import { useFileIndex } from "../../hooks/chat/useFileIndex";
+import { useConversationFork } from "../../hooks/chat/useConversationFork";
+import { useConversationHistory } from "../../hooks/chat/useConversationHistory";
+import { useSessionPersistence } from "../../hooks/useSessionPersistence";
+import { HistoryButton } from "./HistoryButton";
+import { ChatInput } from "./ChatInput";
+import { ChatMessages } from "./ChatMessages";
+import { ThinkingModeSelector } from "./ThinkingModeSelector";
+import { ModelSelector } from "./ModelSelector";
+import { PermissionModeSwitcher } from "./PermissionModeSwitcher";
+import { QueuedMessages } from "./QueuedMessages";
+import { PromptPresetSelector } from "./PromptPresetSelector";
+import { PromptPresetEditor } from "./PromptPresetEditor";
+import { RequestLimitsInput } from "./RequestLimitsInput";
+import { PermissionDialog } from "../PermissionDialog";
+import { SessionManager } from "../SessionManager";
+import { KEYBOARD_SHORTCUTS } from "../../utils/constants";
+import { extractToolInfo, generateToolPattern } from "../../utils/toolUtils";
+import { stripAttachedFiles, toChatAttachment } from "../../utils/attachments";
+import type { StreamingContext } from "../../hooks/streaming/useMessageProcessor";
+import { useLanguage } from "../../contexts/LanguageContext";
+
+// Names the prompt to fork before. Prompts typed in this chat have no
+// transcript UUID, so they are told apart by how many identical prompts
+// came after; the newest messages are loaded even when older pages are not
+function getForkRequest(
+  messages: AllMessage[],
+  index: number,
+  message: ChatMessage,
+): ForkConversationRequest {
+  const prompt = stripAttachedFiles(message.content);
+  const laterOccurrences = messages
+    .slice(index + 1)
+    .filter(
+      (later) =>
+        isChatMessage(later) &&
+        later.role === "user" &&
+        stripAttachedFiles(later.content) === prompt,
+    ).length;
+  return {
+    content: message.content,
+    laterOccurrences,
+    ...(message.uuid ? { messageUuid: message.uuid } : {}),
+  };
+}
+
+interface ChatSessionProps {
+  // Workspace tab this chat belongs to
+  workspaceId: string;
+  workingDirectory?: string;
+  // History folder of the project, needed to fork the conversation
+  encodedProjectName: string | null;
+  // Only the visible chat handles shortcuts and shows dialogs
+  isActive: boolean;
+  sessionToLoad: { sessionId: string } | null;
+  // Search text of a message to scroll to, e.g. from history search
+  highlightText?: string | null;
+  // Transcript line of that message; older pages are loaded until it is found
+  highlightUuid?: string | null;
+  // Header element the visible chat renders its controls into
+  headerSlot: HTMLElement | null;
+  onSessionIdChange: (workspaceId: string, sessionId: string) => void;
+  onActivityChange: (workspaceId: string, activity: SessionActivity) => void;
+}
+
+// One chat of the workspace. Stays mounted while hidden so its stream keeps
+// running in the background.
+export function ChatSession({
+  workspaceId,
+  workingDirectory,
+  encodedProjectName,
+  isActive,
+  sessionToLoad,
+  highlightText,
+  highlightUuid,
+  headerSlot,
+  onSessionIdChange,
+  onActivityChange,
+}: ChatSessionProps) {
+  const [showSessionManager, setShowSessionManager] = useState(false);
+  // Set when the last request failed outside the stream, e.g. connection lost
+  const [requestFailed, setRequestFailed] = useState(false);
+
+  const { streamChat, watchSession } = useClaudeStreaming();
+  const { abortRequest, createAbortHandler } = useAbortController();
+  const { t } = useLanguage();
+
+  const {
+    messages,
+    input,
+    isLoading,
+    currentSessionId,
+    currentRequestId,
+    hasShownInitMessage,
+    currentAssistantMessage,
+    thinkingMode,
+    permissionMode,
+    queuedMessages,
+    attachments,
+    setMessages,
+    setInput,
+    setCurrentSessionId,
+    setCurrentRequestId,
+    setHasShownInitMessage,
+    setHasReceivedInit,
+    setCurrentAssistantMessage,
+    setThinkingMode,
+    setPermissionMode,
+    addMessage,
+    updateLastMessage,
+    clearInput,
+    generateRequestId,
+    resetRequestState,
+    startRequest,
+    enqueueMessage,
+    removeQueuedMessage,
+    moveQueuedMessage,
+    clearQueuedMessages,
+    addAttachments,
+    removeAttachment,
+    clearAttachments,
+  } = useChatState();
+
+  // Set when a turn emits `done` so the next queued prompt goes out once idle
+  const [sendQueuedOnIdle, setSendQueuedOnIdle] = useState(false);
+  // Edited last prompt, applied once the running turn has stopped
+  const [pendingEdit, setPendingEdit] = useState<string | null>(null);
+  // Edited prompt to send once the session it continues is current
+  const [resendPrompt, setResendPrompt] = useState<string | null>(null);
+
+  const {
+    allowedTools,
+    permissionDialog,
+    showPermissionDialog,
+    closePermissionDialog,
+    respondToPermissionRequest,
+    dismissPermissionRequest,
+    allowToolTemporary,
+    allowToolPermanent,
+  } = usePermissions();
+
+  const { rules: permissionRules, addRule: addPermissionRule } =
+    usePermissionRules(workingDirectory);
+
+  const { modelChoice, modelConfig, setModelChoice } =
+    useModelSelection(workingDirectory);
+
+  const {
+    presets: promptPresets,
+    selectedPreset: promptPreset,
+    setSelectedPresetId: setPromptPresetId,
+    savePresets: savePromptPresets,
+    error: promptPresetsError,
+  } = usePromptPresets(workingDirectory);
+  const [showPromptPresetEditor, setShowPromptPresetEditor] = useState(false);
+
+  const { requestLimits, setRequestLimits } =
+    useRequestLimits(workingDirectory);
+
+  const { commands: slashCommands } = useSlashCommands(workingDirectory);
+  const fileIndex = useFileIndex(workingDirectory);
+  const { forkConversation, isForking } =
+    useConversationFork(encodedProjectName);
+  const {
+    loadLatest: loadLatestHistory,
+    loadOlder: loadOlderHistory,
+    loadFullToolResult,
+    reset: resetHistory,
+    hasLoadedLine,
+    hasOlder: hasOlderHistory,
+    isLoadingOlder: isLoadingOlderHistory,
+  } = useConversationHistory(encodedProjectName);
+
+  const handlePersistedSessionId = useCallback(
+    (sessionId: string) => {
+      setCurrentSessionId(sessionId);
+      onSessionIdChange(workspaceId, sessionId);
+    },
+    [setCurrentSessionId, onSessionIdChange, workspaceId],
+  );
+
+  // Session persistence; the workspace decides which stored session to load
+  const { loadSession, createNewSession } = useSessionPersistence({
+    messages,
+    currentSessionId,
+    workingDirectory,
+    onSessionIdChange: handlePersistedSessionId,
+    syncWithUrl: false,
+  });
+
+  const handlePermissionError = useCallback(
+    (toolName: string, pattern: string, toolUseId: string) => {
+      showPermissionDialog(toolName, pattern, toolUseId);
+    },
+    [showPermissionDialog],
+  );
+
+  const handlePermissionRequest = useCallback(
+    (requestId: string, request: PermissionRequest) => {
+      const { toolName, command } = extractToolInfo(
+        request.toolName,
+        request.input,
+      );
+      const pattern = generateToolPattern(toolName, command);
+      showPermissionDialog(toolName, pattern, "", {
+        requestId,
+        permissionId: request.permissionId,
+      });
+    },
+    [showPermissionDialog],
+  );
+
+  // Routes one request's stream events into this chat
+  const createStreamingContext = useCallback(
+    (
+      requestId: string,
+      onAbortRequest: () => Promise<void>,
+    ): StreamingContext => {
+      // Local state for this streaming session
+      let localHasReceivedInit = false;
+
+      return {
+        currentAssistantMessage,
+        setCurrentAssistantMessage,
+        addMessage,
+        updateLastMessage,
+        onSessionId: (newSessionId: string) => {
+          console.log("[Session] Received session ID from SDK:", newSessionId);
+          setCurrentSessionId(newSessionId);
+          onSessionIdChange(workspaceId, newSessionId);
+        },
+        sessionId: currentSessionId ?? undefined,
+        shouldShowInitMessage: () => !hasShownInitMessage,
+        onInitMessageShown: () => setHasShownInitMessage(true),
+        get hasReceivedInit() {
+          return localHasReceivedInit;
+        },
+        setHasReceivedInit: (received: boolean) => {
+          localHasReceivedInit = received;
+          setHasReceivedInit(received);
+        },
+        onPermissionError: handlePermissionError,
+        onPermissionRequest: (request: PermissionRequest) =>
+          handlePermissionRequest(requestId, request),
+        onPermissionResolved: dismissPermissionRequest,
+        onDone: () => setSendQueuedOnIdle(true),
+        onAbortRequest,
+      };
+    },
+    [
+      currentSessionId,
+      hasShownInitMessage,
+      currentAssistantMessage,
+      addMessage,
+      updateLastMessage,
+      setCurrentSessionId,
+      setHasShownInitMessage,
+      setHasReceivedInit,
+      setCurrentAssistantMessage,
+      handlePermissionError,
+      handlePermissionRequest,
+      dismissPermissionRequest,
+      workspaceId,
+      onSessionIdChange,
+    ],
+  );
+
+  const sendMessage = useCallback(
+    async (
+      messageContent?: string,
+      tools?: string[],
+      hideUserMessage = false,
+    ) => {
+      const content = messageContent || input.trim();
+      // Attachments belong to what was typed, not to queued or retried messages
+      const messageAttachments = messageContent ? [] : attachments;
+      if ((!content && messageAttachments.length === 0) || isLoading) return;
+
+      // Use existing session ID or let Claude SDK create one
+      const sessionId = currentSessionId;
+      if (!sessionId) {
+        console.log(
+          "[Session] No current session, will let Claude SDK create one",
+        );
+      } else {
+        console.log("[Session] Using existing session:", sessionId);
+      }
+
+      const requestId = generateRequestId();
+
+      // Only add user message to chat if not hidden
+      if (!hideUserMessage) {
+        const userMessage: ChatMessage = {
+          type: "chat",
+          role: "user",
+          content: content,
+          timestamp: Date.now(),
+          ...(messageAttachments.length > 0
+            ? {
+                attachments: messageAttachments.map(
+                  ({ name, mimeType, size }) => ({ name, mimeType, size }),
+                ),
+              }
+            : {}),
+        };
+        addMessage(userMessage);
+      }
+
+      if (!messageContent) {
+        clearInput();
+        clearAttachments();
+      }
+      startRequest();
+      setRequestFailed(false);
+
+      try {
+        // Prepare thinking configuration
+        const thinkingConfig =
+          thinkingMode !== "auto"
+            ? {
+                type: "enabled" as const,
+                budget_tokens: THINKING_MODE_CONFIGS[thinkingMode].budgetTokens,
+              }
+            : undefined;
+
+        const requestBody = {
+          message: content,
+          ...(messageAttachments.length > 0
+            ? { attachments: messageAttachments.map(toChatAttachment) }
+            : {}),
+          requestId,
+          ...(sessionId ? { sessionId } : {}),
+          // Saved project rules are always sent alongside session allowances
+          allowedTools: Array.from(
+            new Set([...(tools || allowedTools), ...permissionRules.allow]),
+          ),
+          ...(permissionRules.deny.length > 0
+            ? { disallowedTools: permissionRules.deny }
+            : {}),
+          ...(workingDirectory ? { workingDirectory } : {}),
+          ...(thinkingConfig ? { thinking: thinkingConfig } : {}),
+          ...(modelConfig.model ? { model: modelConfig.model } : {}),
+          ...(modelConfig.fallbackModel
+            ? { fallbackModel: modelConfig.fallbackModel }
+            : {}),
+          ...(permissionMode !== "default" ? { permissionMode } : {}),
+          ...(promptPreset?.customSystemPrompt
+            ? { customSystemPrompt: promptPreset.customSystemPrompt }
+            : {}),
+          ...(promptPreset?.appendSystemPrompt
+            ? { appendSystemPrompt: promptPreset.appendSystemPrompt }
+            : {}),
+          ...(requestLimits.maxTurns
+            ? { maxTurns: requestLimits.maxTurns }
+            : {}),
+          ...(requestLimits.maxCostUsd
+            ? { maxCostUsd: requestLimits.maxCostUsd }
+            : {}),
+        } as ChatRequest;
+
+        console.log("[Session] Sending request with body:", requestBody);
+
+        let shouldAbort = false;
+        const streamingContext = createStreamingContext(requestId, async () => {
+          shouldAbort = true;
+          await createAbortHandler(requestId)();
+        });
+
+        try {
+          await streamChat(requestBody, streamingContext, () => shouldAbort);
+        } catch (readError) {
+          // Handle read errors separately to catch connection issues
+          if (
+            readError instanceof TypeError &&
+            readError.message.includes("Failed to fetch")
+          ) {
+            console.error("Connection to backend lost");
+            setRequestFailed(true);
+            addMessage({
+              type: "error",
+              subtype: "stream_error",
+              message:
+                "Connection to backend server lost. Please ensure the backend is running.",
+              timestamp: Date.now(),
+            });
+          } else {
+            throw readError;
+          }
+        }
+      } catch (error) {
+        // Suppress Chrome extension errors
+        if (
+          error instanceof Error &&
+          error.message.includes("message port closed")
+        ) {
+          console.warn("Chrome extension communication error (ignored)");
+          return;
+        }
+
+        console.error("Failed to send message:", error);
+        setRequestFailed(true);
+        addMessage({
+          type: "chat",
+          role: "assistant",
+          content:
+            "Error: Failed to get response. Please check if the backend server is running.",
+          timestamp: Date.now(),
+        });
+      } finally {
+        resetRequestState();
+      }
+    },
+    [
+      input,
+      attachments,
+      isLoading,
+      currentSessionId,
+      allowedTools,
+      permissionRules,
+      workingDirectory,
+      thinkingMode,
+      modelConfig,
+      permissionMode,
+      promptPreset,
+      requestLimits,
+      generateRequestId,
+      clearInput,
+      clearAttachments,
+      startRequest,
+      addMessage,
+      resetRequestState,
+      streamChat,
+      createStreamingContext,
+      createAbortHandler,
+      createNewSession,
+    ],
+  );
+
+  // Shows a turn another device started in this session as it streams;
+  // it can be answered and aborted from here like a local one
+  const handleMirroredRequest = useCallback(
+    (requestId: string, message: string): MirroredRequest | null => {
+      if (isLoading) return null;
+
+      addMessage({
+        type: "chat",
+        role: "user",
+        content: message,
+        timestamp: Date.now(),
+      });
+      startRequest();
+      setCurrentRequestId(requestId);
+      setRequestFailed(false);
+
+      return {
+        context: createStreamingContext(
+          requestId,
+          createAbortHandler(requestId),
+        ),
+        onFinished: resetRequestState,
+      };
+    },
+    [
+      isLoading,
+      addMessage,
+      startRequest,
+      setCurrentRequestId,
+      createStreamingContext,
+      createAbortHandler,
+      resetRequestState,
+    ],
+  );
+
+  // The socket calls back long after watching starts, so read the latest
+  const mirroredRequestHandlerRef = useRef(handleMirroredRequest);
+  useEffect(() => {
+    mirroredRequestHandlerRef.current = handleMirroredRequest;
+  }, [handleMirroredRequest]);
+
+  // Follow the session live while other devices run turns in it
+  useEffect(() => {
+    if (!currentSessionId) return;
+
+    let unwatch: (() => void) | null = null;
+    let cancelled = false;
+    watchSession(currentSessionId, (requestId, message) =>
+      mirroredRequestHandlerRef.current(requestId, message),
+    ).then((stop) => {
+      if (cancelled) stop();
+      else unwatch = stop;
+    });
+
+    return () => {
+      cancelled = true;
+      unwatch?.();
+    };
+  }, [currentSessionId, watchSession]);
+
+  const handleAbort = useCallback(() => {
+    abortRequest(currentRequestId, isLoading, resetRequestState);
+  }, [abortRequest, currentRequestId, isLoading, resetRequestState]);
+
+  // Permission dialog handlers
+  const handlePermissionAllow = useCallback(() => {
+    if (!permissionDialog) return;
+
+    const { pattern, pendingRequest } = permissionDialog;
+    closePermissionDialog();
+
+    // Let the paused turn continue in place
+    if (pendingRequest) {
+      respondToPermissionRequest(pendingRequest.requestId, {
+        permissionId: pendingRequest.permissionId,
+        behavior: "allow",
+      });
+      return;
+    }
+
+    // Send continue message with allowed tools
+    sendMessage("continue", allowToolTemporary(pattern), true);
+  }, [
+    permissionDialog,
+    sendMessage,
+    allowToolTemporary,
+    closePermissionDialog,
+    respondToPermissionRequest,
+  ]);
+
+  const handlePermissionAllowPermanent = useCallback(() => {
+    if (!permissionDialog) return;
+
+    const { pattern, pendingRequest } = permissionDialog;
+    const updatedAllowedTools = allowToolPermanent(pattern);
+    closePermissionDialog();
+
+    // Persist the rule so it survives reloads
+    addPermissionRule("allow", pattern);
+
+    // Let the paused turn continue; later requests include the new pattern
+    if (pendingRequest) {
+      respondToPermissionRequest(pendingRequest.requestId, {
+        permissionId: pendingRequest.permissionId,
+        behavior: "allow",
+      });
+      return;
+    }
+
+    // Send continue message with updated allowed tools
+    sendMessage("continue", updatedAllowedTools, true);
+  }, [
+    permissionDialog,
+    sendMessage,
+    allowToolPermanent,
+    addPermissionRule,
+    closePermissionDialog,
+    respondToPermissionRequest,
+  ]);
+
+  const handlePermissionDeny = useCallback(() => {
+    const pendingRequest = permissionDialog?.pendingRequest;
+    closePermissionDialog();
+
+    // Tell Claude the tool was denied so it can continue without it
+    if (pendingRequest) {
+      respondToPermissionRequest(pendingRequest.requestId, {
+        permissionId: pendingRequest.permissionId,
+        behavior: "deny",
+      });
+    }
+  }, [permissionDialog, closePermissionDialog, respondToPermissionRequest]);
+
+  const handleHistoryClick = useCallback(() => {
+    setShowSessionManager(true);
+  }, []);
+
+  const sendNextQueuedMessage = useCallback(() => {
+    const [next] = queuedMessages;
+    if (!next || isLoading) return;
+    removeQueuedMessage(next.id);
+    sendMessage(next.content);
+  }, [queuedMessages, isLoading, removeQueuedMessage, sendMessage]);
+
+  // Send the next queued follow-up with the same session once the turn is done
+  useEffect(() => {
+    if (isLoading || !sendQueuedOnIdle) return;
+    setSendQueuedOnIdle(false);
+    sendNextQueuedMessage();
+  }, [isLoading, sendQueuedOnIdle, sendNextQueuedMessage]);
+
+  // Session management handlers
+  // The CLI's transcript is loaded page by page when the project has one;
+  // sessions only kept in the browser come from local storage
+  const handleSessionSelect = useCallback(
+    async (sessionId: string) => {
+      let loadedMessages: AllMessage[] | null = null;
+      try {
+        loadedMessages = await loadLatestHistory(sessionId);
+      } catch (error) {
+        console.error("Failed to load conversation history:", error);
+      }
+      if (!loadedMessages?.length) {
+        resetHistory();
+        loadedMessages = await loadSession(sessionId);
+      }
+      if (loadedMessages.length > 0) {
+        setMessages(loadedMessages);
+        clearQueuedMessages();
+        setCurrentSessionId(sessionId);
+        onSessionIdChange(workspaceId, sessionId);
+      }
+      setShowSessionManager(false);
+    },
+    [
+      loadLatestHistory,
+      resetHistory,
+      loadSession,
+      setMessages,
+      clearQueuedMessages,
+      setCurrentSessionId,
+      workspaceId,
+      onSessionIdChange,
+    ],
+  );
+
+  // Resolves to whether an older page was added above the loaded messages
+  const handleLoadOlder = useCallback(async () => {
+    try {
+      const olderMessages = await loadOlderHistory();
+      if (olderMessages.length === 0) return false;
+      setMessages((prev) => [...olderMessages, ...prev]);
+      return true;
+    } catch (error) {
+      console.error("Failed to load earlier messages:", error);
+      return false;
+    }
+  }, [loadOlderHistory, setMessages]);
+
+  const handleLoadFullToolResult = useCallback(
+    async (index: number) => {
+      const message = messages[index];
+      if (!isToolResultMessage(message)) return;
+
+      try {
+        const fullMessage = await loadFullToolResult(message);
+        setMessages((prev) =>
+          prev.map((existing) =>
+            existing === message ? fullMessage : existing,
+          ),
+        );
+      } catch (error) {
+        console.error("Failed to load tool output:", error);
+        addMessage({
+          type: "error",
+          subtype: "stream_error",
+          message: `${t("message.loadFullOutputFailed")}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          timestamp: Date.now(),
+        });
+      }
+    },
+    [messages, loadFullToolResult, setMessages, addMessage, t],
+  );
+
+  const handleSessionCreate = useCallback(async () => {
+    // Clear current session
+    setMessages([]);
+    clearQueuedMessages();
+    resetHistory();
+    setHasShownInitMessage(false);
+    setHasReceivedInit(false);
+
+    // Create new session
+    const newSessionId = await createNewSession();
+    setCurrentSessionId(newSessionId);
+    onSessionIdChange(workspaceId, newSessionId);
+
+    setShowSessionManager(false);
+  }, [
+    createNewSession,
+    setMessages,
+    clearQueuedMessages,
+    resetHistory,
+    setCurrentSessionId,
+    setHasShownInitMessage,
+    setHasReceivedInit,
+    workspaceId,
+    onSessionIdChange,
+  ]);
+
+  // Continue in a new session holding the conversation before a prompt;
+  // the prompt goes back into the input so it can be changed and resent
+  const handleForkMessage = useCallback(
+    async (index: number) => {
+      const message = messages[index];
+      if (!currentSessionId || !isChatMessage(message)) return;
+
+      try {
+        const forkSessionId = await forkConversation(
+          currentSessionId,
+          getForkRequest(messages, index, message),
+        );
+        setMessages(messages.slice(0, index));
+        clearQueuedMessages();
+        setInput(message.content);
+        setCurrentSessionId(forkSessionId);
+        onSessionIdChange(workspaceId, forkSessionId);
+      } catch (error) {
+        console.error("Failed to fork conversation:", error);
+        addMessage({
+          type: "error",
+          subtype: "stream_error",
+          message: `${t("fork.failed")}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          timestamp: Date.now(),
+        });
+      }
+    },
+    [
+      messages,
+      currentSessionId,
+      forkConversation,
+      setMessages,
+      clearQueuedMessages,
+      setInput,
+      setCurrentSessionId,
+      onSessionIdChange,
+      workspaceId,
+      addMessage,
+      t,
+    ],
+  );
+
+  // Replace the last prompt and its replies; the session continues from a
+  // fork holding the conversation before it, and the old replies stay
+  // available as a collapsed branch
+  const applyLastMessageEdit = useCallback(
+    async (content: string) => {
+      const index = messages.reduce(
+        (last, message, i) =>
+          isChatMessage(message) && message.role === "user" ? i : last,
+        -1,
+      );
+      const original = messages[index];
+      if (!isChatMessage(original)) return;
+
+      const earlierMessages = messages.slice(0, index);
+      let sessionId: string | null = null;
+      if (
+        currentSessionId &&
+        (hasOlderHistory ||
+          earlierMessages.some(
+            (message) => isChatMessage(message) && message.role === "user",
+          ))
+      ) {
+        try {
+          sessionId = await forkConversation(
+            currentSessionId,
+            getForkRequest(messages, index, original),
+          );
+        } catch (error) {
+          console.error("Failed to edit message:", error);
+          setInput(content);
+          addMessage({
+            type: "error",
+            subtype: "stream_error",
+            message: `${t("message.editFailed")}: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+            timestamp: Date.now(),
+          });
+          return;
+        }
+      }
+
+      setMessages([
+        ...earlierMessages,
+        {
+          type: "superseded_branch",
+          messages: messages.slice(index),
+          timestamp: Date.now(),
+        },
+      ]);
+      setCurrentSessionId(sessionId);
+      if (sessionId) onSessionIdChange(workspaceId, sessionId);
+      setResendPrompt(content);
+    },
+    [
+      messages,
+      currentSessionId,
+      hasOlderHistory,
+      forkConversation,
+      setInput,
+      addMessage,
+      setMessages,
+      setCurrentSessionId,
+      onSessionIdChange,
+      workspaceId,
+      t,
+    ],
+  );
+
+  // A running turn is stopped first; the edit applies once it has ended
+  const handleEditLastMessage = useCallback(
+    (content: string) => {
+      setPendingEdit(content);
+      setSendQueuedOnIdle(false);
+      if (isLoading && currentRequestId) {
+        createAbortHandler(currentRequestId)();
+      }
+    },
+    [isLoading, currentRequestId, createAbortHandler],
+  );
+
+  useEffect(() => {
+    if (isLoading || pendingEdit === null) return;
+    setPendingEdit(null);
+    applyLastMessageEdit(pendingEdit);
+  }, [isLoading, pendingEdit, applyLastMessageEdit]);
+
+  // sendMessage picks up the new session on the render after the edit
+  useEffect(() => {
+    if (isLoading || resendPrompt === null) return;
+    setResendPrompt(null);
+    sendMessage(resendPrompt);
+  }, [isLoading, resendPrompt, sendMessage]);
+
+  // Load a stored session when the workspace asks for one
+  useEffect(() => {
+    if (sessionToLoad) {
+      handleSessionSelect(sessionToLoad.sessionId);
+    }
+  }, [sessionToLoad]);
+
+  // Load older pages of the requested session until the highlighted message
+  // is among them
+  useEffect(() => {
+    if (
+      !highlightUuid ||
+      !sessionToLoad ||
+      sessionToLoad.sessionId !== currentSessionId ||
+      !hasOlderHistory ||
+      isLoadingOlderHistory ||
+      hasLoadedLine(highlightUuid)
+    ) {
+      return;
+    }
+    handleLoadOlder();
+  }, [
+    highlightUuid,
+    sessionToLoad,
+    currentSessionId,
+    hasOlderHistory,
+    isLoadingOlderHistory,
+    hasLoadedLine,
+    handleLoadOlder,
+    messages,
+  ]);
+
+  // Report status and unread-relevant changes to the session switcher
+  const lastMessage = messages[messages.length - 1];
+  const status: SessionStatus = permissionDialog
+    ? "waiting_permission"
+    : isLoading
+      ? "running"
+      : requestFailed || lastMessage?.type === "error"
+        ? "error"
+        : messages.length > 0
+          ? "done"
+          : "idle";
+  const firstUserMessage = messages.find(
+    (message): message is ChatMessage =>
+      message.type === "chat" && message.role === "user",
+  );
+  const title = firstUserMessage?.content.split("\n")[0] || null;
+
+  useEffect(() => {
+    onActivityChange(workspaceId, {
+      status,
+      messageCount: messages.length,
+      title,
+    });
+  }, [workspaceId, status, messages.length, title, onActivityChange]);
+
+  // Stop the stream when the chat is closed while Claude is working
+  const runningRequestRef = useRef<string | null>(null);
+  useEffect(() => {
+    runningRequestRef.current = isLoading ? currentRequestId : null;
+  }, [isLoading, currentRequestId]);
+  useEffect(() => {
+    return () => {
+      const requestId = runningRequestRef.current;
+      if (requestId) createAbortHandler(requestId)();
+    };
+  }, [createAbortHandler]);
+
+  // Handle global keyboard shortcuts
+  useEffect(() => {
+    if (!isActive) return;
+    const handleGlobalKeyDown = (e: KeyboardEvent) => {
+      if (e.key === KEYBOARD_SHORTCUTS.ABORT && isLoading && currentRequestId) {
+        e.preventDefault();
+        handleAbort();
+      }
+    };
+
+    document.addEventListener("keydown", handleGlobalKeyDown);
+    return () => document.removeEventListener("keydown", handleGlobalKeyDown);
+  }, [isActive, isLoading, currentRequestId, handleAbort]);
+
+  return (
+    <div className="h-full flex flex-col space-y-3 md:space-y-4 min-h-0">
+      {/* Header controls of the visible chat */}
+      {isActive &&
+        headerSlot &&
+        createPortal(
+          <>
+            {workingDirectory && (
+              <PromptPresetSelector
+                presets={promptPresets}
+                selectedPreset={promptPreset}
+                onSelect={setPromptPresetId}
+                onManage={() => setShowPromptPresetEditor(true)}
+                disabled={isLoading}
+              />
+            )}
+            <PermissionModeSwitcher
+              value={permissionMode}
+              onChange={setPermissionMode}
+              disabled={isLoading}
+            />
+            <HistoryButton onClick={handleHistoryClick} />
+          </>,
+          headerSlot,
+        )}
+
+      {/* Bypass Permissions Warning */}
+      {permissionMode === "bypassPermissions" && (
+        <div
+          role="alert"
+          className="flex-shrink-0 flex items-center gap-2 px-3 py-2 rounded-lg bg-red-900/20 border border-red-400/30 text-red-400 text-xs sm:text-sm"
+        >
+          <ShieldExclamationIcon className="w-4 h-4 flex-shrink-0" />
+          <span>{t("permissionMode.bypassWarning")}</span>
+        </div>
+      )}
+
+      {/* Chat Messages */}
+      <ChatMessages
+        messages={messages}
+        isLoading={isLoading}
+        highlightText={highlightText}
+        highlightUuid={highlightUuid}
+        hasOlderMessages={hasOlderHistory}
+        isLoadingOlder={isLoadingOlderHistory}
+        onLoadOlder={handleLoadOlder}
+        onLoadFullToolResult={handleLoadFullToolResult}
+        onForkMessage={
+          encodedProjectName && currentSessionId && !isLoading && !isForking
+            ? handleForkMessage
+            : undefined
+        }
+        onEditLastMessage={
+          !isForking && pendingEdit === null && resendPrompt === null
+            ? handleEditLastMessage
+            : undefined
+        }
+      />
+
+      {/* Thinking Mode and Model Selectors */}
+      <div className="flex-shrink-0 flex items-center gap-2 sm:gap-4">
+        <ThinkingModeSelector
+          value={thinkingMode}
+          onChange={setThinkingMode}
+          disabled={isLoading}
+        />
+        <ModelSelector
+          value={modelChoice}
+          onChange={setModelChoice}
+          disabled={isLoading}
+        />
+        <RequestLimitsInput
+          value={requestLimits}
+          onChange={setRequestLimits}
+          disabled={isLoading}
+        />
+      </div>
+
+      {/* Follow-ups typed while Claude is working */}
+      <QueuedMessages
+        messages={queuedMessages}
+        isLoading={isLoading}
+        onMove={moveQueuedMessage}
+        onRemove={removeQueuedMessage}
+        onClear={clearQueuedMessages}
+        onSendNext={sendNextQueuedMessage}
+      />
+
+      {/* Chat Input */}
+      <ChatInput
+        input={input}
+        isLoading={isLoading}
+        currentRequestId={currentRequestId}
+        onInputChange={setInput}
+        onSubmit={() => sendMessage()}
+        onAbort={handleAbort}
+        onQueue={enqueueMessage}
+        attachments={attachments}
+        onAttach={addAttachments}
+        onRemoveAttachment={removeAttachment}
+        commands={slashCommands}
+        fileIndex={fileIndex}
+      />
+
+      {/* Permission Dialog */}
+      {isActive && permissionDialog && (
+        <PermissionDialog
+          isOpen={permissionDialog.isOpen}
+          toolName={permissionDialog.toolName}
+          pattern={permissionDialog.pattern}
+          onAllow={handlePermissionAllow}
+          onAllowPermanent={handlePermissionAllowPermanent}
+          onDeny={handlePermissionDeny}
+          onClose={handlePermissionDeny}
+        />
+      )}
+
+      {/* Prompt Preset Editor */}
+      <PromptPresetEditor
+        isOpen={showPromptPresetEditor}
+        presets={promptPresets}
+        error={promptPresetsError}
+        onSave={savePromptPresets}
+        onClose={() => setShowPromptPresetEditor(false)}
+      />
+
+      {/* Session Manager */}
+      {showSessionManager && (
+        <SessionManager
+          currentSessionId={currentSessionId}
+          workingDirectory={workingDirectory}
+          onSessionSelect={handleSessionSelect}
+          onSessionCreate={handleSessionCreate}
+          onClose={() => setShowSessionManager(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useRef } from "react";
+import { DocumentIcon } from "@heroicons/react/24/outline";
+import { useLanguage } from "../../contexts/LanguageContext";
+
+interface FileMentionPickerProps {
+  files: string[];
+  selectedIndex: number;
+  onSelect: (path: string) => void;
+  onHover: (index: number) => void;
+  isLoading: boolean;
+  truncated: boolean;
+  error: string | null;
+  // Set when a ":start-end" range was typed after the query
+  hasLineRange: boolean;
+  inlineLines: boolean;
+  onInlineLinesChange: (inline: boolean) => void;
+}
+
+export function FileMentionPicker({
+  files,
+  selectedIndex,
+  onSelect,
+  onHover,
+  isLoading,
+  truncated,
+  error,
+  hasLineRange,
+  inlineLines,
+  onInlineLinesChange,
+}: FileMentionPickerProps) {
+  const listRef = useRef<HTMLUListElement>(null);
+  const { t } = useLanguage();
+
+  // Keep the keyboard selection visible
+  useEffect(() => {
+    const item = listRef.current?.children[selectedIndex] as
+      | HTMLElement
+      | undefined;
+    item?.scrollIntoView({ block: "nearest" });
+  }, [selectedIndex]);
+
+  return (
+    <div className="absolute left-0 right-0 bottom-full mb-2 glass-card glow-effect rounded-xl shadow-2xl z-50 p-2">
+      {files.length > 0 ? (
+        <ul
+          ref={listRef}
+          role="listbox"
+          aria-label={t("fileMention.title")}
+          className="max-h-64 overflow-y-auto"
+        >
+          {files.map((path, index) => {
+            const nameStart = path.lastIndexOf("/") + 1;
+            return (
+              <li
+                key={path}
+                role="option"
+                aria-selected={index === selectedIndex}
+              >
+                <button
+                  type="button"
+                  // Keep focus in the textarea while picking with the mouse
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => onSelect(path)}
+                  onMouseEnter={() => onHover(index)}
+                  className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left smooth-transition ${
+                    index === selectedIndex
+                      ? "bg-black-secondary/50 ring-1 ring-accent/40"
+                      : "hover:bg-black-secondary/50"
+                  }`}
+                >
+                  <DocumentIcon className="w-4 h-4 text-accent flex-shrink-0" />
+                  <span className="text-sm font-mono text-primary truncate">
+                    {path.slice(nameStart)}
+                  </span>
+                  <span className="text-xs font-mono text-tertiary truncate">
+                    {path.slice(0, nameStart)}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="px-2 py-1.5 text-sm text-tertiary">
+          {isLoading
+            ? t("fileMention.loading")
+            : error
+              ? error
+              : t("fileMention.noMatches")}
+        </p>
+      )}
+      {files.length > 0 && error && (
+        <p className="px-2 pt-1 text-xs text-red-400">{error}</p>
+      )}
+
+      <div className="flex items-center justify-between gap-2 mt-2 pt-2 px-2 border-t border-accent/20 text-xs text-tertiary">
+        {hasLineRange ? (
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={inlineLines}
+              onChange={(e) => onInlineLinesChange(e.target.checked)}
+              onMouseDown={(e) => e.preventDefault()}
+              className="accent-current"
+            />
+            {t("fileMention.inlineLines")}
+          </label>
+        ) : (
+          <span>{t("fileMention.rangeHint")}</span>
+        )}
+        {truncated && <span>{t("fileMention.truncated")}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import React from "react";
+import { ChevronDownIcon } from "@heroicons/react/24/outline";
+import type { ModelChoice } from "../../types";
+import { MODEL_LABELS, MODEL_CONFIGS } from "../../types";
+
+interface ModelSelectorProps {
+  value: ModelChoice;
+  onChange: (choice: ModelChoice) => void;
+  disabled?: boolean;
+}
+
+export function ModelSelector({
+  value,
+  onChange,
+  disabled = false,
+}: ModelSelectorProps) {
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    onChange(event.target.value as ModelChoice);
+  };
+
+  const getStatusText = (choice: ModelChoice) => {
+    const config = MODEL_CONFIGS[choice];
+    if (!config.model) {
+      return "Claude CLI default model";
+    }
+    return config.fallbackModel
+      ? `${config.model} • falls back to ${config.fallbackModel}`
+      : config.model;
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <label
+        htmlFor="model-choice"
+        className="text-xs text-secondary whitespace-nowrap hidden sm:block"
+      >
+        Model:
+      </label>
+      <div className="relative flex-1 min-w-0">
+        <select
+          id="model-choice"
+          value={value}
+          onChange={handleChange}
+          disabled={disabled}
+          className={`
+            appearance-none w-full px-2 py-1.5 pr-6 text-xs sm:text-sm
+            glass-button glow-border smooth-transition rounded-md
+            text-primary bg-black-secondary/50 border-accent/30
+            focus:outline-none focus:ring-1 focus:ring-accent/50 focus:border-accent
+            disabled:opacity-50 disabled:cursor-not-allowed
+            hover:bg-black-secondary/70 hover:border-accent/50
+            mobile-button mobile-text-xs
+            max-w-[120px] sm:max-w-[140px] md:max-w-none
+          `}
+          title={getStatusText(value)}
+        >
+          {(Object.keys(MODEL_CONFIGS) as ModelChoice[]).map((choice) => (
+            <option
+              key={choice}
+              value={choice}
+              className="bg-black-secondary text-primary"
+            >
+              {MODEL_LABELS[choice]}
+            </option>
+          ))}
+        </select>
+        <ChevronDownIcon
+          className={`
+            absolute right-1.5 top-1/2 transform -translate-y-1/2 w-3 h-3 sm:w-4 sm:h-4
+            text-accent pointer-events-none smooth-transition
+            ${disabled ? "opacity-50" : ""}
+          `}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState, useRef, useEffect } from "react";
+import {
+  ShieldCheckIcon,
+  ShieldExclamationIcon,
+  ClipboardDocumentListIcon,
+  PencilSquareIcon,
+  CheckIcon,
+} from "@heroicons/react/24/outline";
+import type { PermissionMode, PermissionModeRisk } from "../../types";
+import { PERMISSION_MODE_RISK } from "../../types";
+import { useLanguage } from "../../contexts/LanguageContext";
+
+interface PermissionModeSwitcherProps {
+  value: PermissionMode;
+  onChange: (mode: PermissionMode) => void;
+  disabled?: boolean;
+}
+
+const MODE_ORDER: PermissionMode[] = [
+  "default",
+  "plan",
+  "acceptEdits",
+  "bypassPermissions",
+];
+
+const MODE_ICONS: Record<PermissionMode, typeof ShieldCheckIcon> = {
+  default: ShieldCheckIcon,
+  plan: ClipboardDocumentListIcon,
+  acceptEdits: PencilSquareIcon,
+  bypassPermissions: ShieldExclamationIcon,
+};
+
+// Button styles per risk level so dangerous modes stand out in the header
+const RISK_STYLES: Record<PermissionModeRisk, string> = {
+  safe: "glass-button glow-border text-accent",
+  elevated:
+    "bg-yellow-900/20 border border-yellow-400/50 text-yellow-400 hover:bg-yellow-900/30",
+  dangerous:
+    "bg-red-900/30 border border-red-400/60 text-red-400 hover:bg-red-900/40 animate-pulse",
+};
+
+export function PermissionModeSwitcher({
+  value,
+  onChange,
+  disabled = false,
+}: PermissionModeSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { t } = useLanguage();
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const handleSelect = (mode: PermissionMode) => {
+    onChange(mode);
+    setIsOpen(false);
+  };
+
+  const risk = PERMISSION_MODE_RISK[value];
+  const Icon = MODE_ICONS[value];
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`flex items-center gap-2 px-3 py-3 rounded-xl smooth-transition text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed ${RISK_STYLES[risk]}`}
+        aria-label={t("permissionMode.label")}
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        title={t(`permissionMode.${value}.desc`)}
+      >
+        <Icon className="w-5 h-5" />
+        <span className="hidden md:inline">{t(`permissionMode.${value}`)}</span>
+      </button>
+
+      {isOpen && (
+        <div
+          role="listbox"
+          className="absolute right-0 mt-2 w-72 glass-card glow-effect rounded-xl shadow-2xl z-50 p-2"
+        >
+          {MODE_ORDER.map((mode) => {
+            const ModeIcon = MODE_ICONS[mode];
+            const modeRisk = PERMISSION_MODE_RISK[mode];
+            return (
+              <button
+                key={mode}
+                role="option"
+                aria-selected={mode === value}
+                onClick={() => handleSelect(mode)}
+                className="w-full flex items-start gap-3 p-3 rounded-lg text-left smooth-transition hover:bg-black-secondary/50"
+              >
+                <ModeIcon
+                  className={`w-5 h-5 flex-shrink-0 mt-0.5 ${
+                    modeRisk === "dangerous"
+                      ? "text-red-400"
+                      : modeRisk === "elevated"
+                        ? "text-yellow-400"
+                        : "text-accent"
+                  }`}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-primary">
+                    {t(`permissionMode.${mode}`)}
+                  </div>
+                  <div className="text-xs text-tertiary">
+                    {t(`permissionMode.${mode}.desc`)}
+                  </div>
+                </div>
+                {mode === value && (
+                  <CheckIcon className="w-4 h-4 text-accent flex-shrink-0 mt-0.5" />
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import {
+  XMarkIcon,
+  DocumentTextIcon,
+  PencilIcon,
+  TrashIcon,
+  PlusIcon,
+} from "@heroicons/react/24/outline";
+import type { PromptPreset } from "../../types";
+import { useLanguage } from "../../contexts/LanguageContext";
+import { generateId } from "../../utils/id";
+
+interface PromptPresetEditorProps {
+  isOpen: boolean;
+  presets: PromptPreset[];
+  error: string | null;
+  onSave: (presets: PromptPreset[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const EMPTY_DRAFT: PromptPreset = {
+  id: "",
+  name: "",
+  customSystemPrompt: "",
+  appendSystemPrompt: "",
+};
+
+export function PromptPresetEditor({
+  isOpen,
+  presets,
+  error,
+  onSave,
+  onClose,
+}: PromptPresetEditorProps) {
+  const [draft, setDraft] = useState<PromptPreset>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const { t } = useLanguage();
+
+  if (!isOpen) return null;
+
+  const canSaveDraft =
+    draft.name.trim().length > 0 &&
+    !!(draft.customSystemPrompt?.trim() || draft.appendSystemPrompt?.trim());
+
+  const save = async (nextPresets: PromptPreset[]) => {
+    setIsSaving(true);
+    const saved = await onSave(nextPresets);
+    setIsSaving(false);
+    return saved;
+  };
+
+  const handleSaveDraft = async () => {
+    if (!canSaveDraft) return;
+
+    const preset = { ...draft, id: draft.id || generateId() };
+    const nextPresets = presets.some((existing) => existing.id === preset.id)
+      ? presets.map((existing) =>
+          existing.id === preset.id ? preset : existing,
+        )
+      : [...presets, preset];
+
+    if (await save(nextPresets)) {
+      setDraft(EMPTY_DRAFT);
+    }
+  };
+
+  const handleDelete = async (presetId: string) => {
+    await save(presets.filter((preset) => preset.id !== presetId));
+    if (draft.id === presetId) setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="glass-card glow-effect rounded-xl shadow-2xl max-w-2xl w-full mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-accent">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-primary rounded-lg">
+              <DocumentTextIcon className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-primary">
+                {t("promptPresets.title")}
+              </h2>
+              <p className="text-xs text-tertiary">{t("promptPresets.desc")}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 glass-button rounded-lg smooth-transition"
+            aria-label="Close dialog"
+          >
+            <XMarkIcon className="w-5 h-5 text-accent" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="px-3 py-2 rounded-lg bg-red-900/20 border border-red-400/50 text-sm text-red-400">
+              {error}
+            </div>
+          )}
+
+          {/* Saved presets */}
+          <div className="space-y-2">
+            {presets.length === 0 ? (
+              <p className="text-sm text-tertiary">
+                {t("promptPresets.empty")}
+              </p>
+            ) : (
+              presets.map((preset) => (
+                <div
+                  key={preset.id}
+                  className="flex items-center gap-3 px-3 py-2 rounded-lg bg-black-quaternary"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-primary truncate">
+                      {preset.name}
+                    </div>
+                    <div className="text-xs text-tertiary truncate">
+                      {preset.customSystemPrompt || preset.appendSystemPrompt}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => setDraft({ ...EMPTY_DRAFT, ...preset })}
+                    className="p-1 text-tertiary hover:text-accent smooth-transition"
+                    title={t("promptPresets.edit")}
+                  >
+                    <PencilIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(preset.id)}
+                    disabled={isSaving}
+                    className="p-1 text-tertiary hover:text-red-400 smooth-transition disabled:opacity-50"
+                    title={t("promptPresets.delete")}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Add / edit form */}
+          <div className="space-y-3 border-t border-accent/20 pt-4">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder={t("promptPresets.name")}
+              className="w-full px-3 py-2 glass-input text-primary rounded-lg text-sm"
+            />
+            <label className="block text-xs text-secondary">
+              {t("promptPresets.append")}
+              <textarea
+                value={draft.appendSystemPrompt ?? ""}
+                onChange={(e) =>
+                  setDraft({ ...draft, appendSystemPrompt: e.target.value })
+                }
+                rows={4}
+                className="mt-1 w-full px-3 py-2 glass-input text-primary rounded-lg text-sm font-mono"
+              />
+            </label>
+            <label className="block text-xs text-secondary">
+              {t("promptPresets.custom")}
+              <textarea
+                value={draft.customSystemPrompt ?? ""}
+                onChange={(e) =>
+                  setDraft({ ...draft, customSystemPrompt: e.target.value })
+                }
+                rows={4}
+                className="mt-1 w-full px-3 py-2 glass-input text-primary rounded-lg text-sm font-mono"
+              />
+            </label>
+            <div className="flex justify-end gap-2">
+              {draft.id && (
+                <button
+                  onClick={() => setDraft(EMPTY_DRAFT)}
+                  className="px-4 py-2 glass-button text-secondary rounded-lg text-sm smooth-transition"
+                >
+                  {t("promptPresets.cancelEdit")}
+                </button>
+              )}
+              <button
+                onClick={handleSaveDraft}
+                disabled={!canSaveDraft || isSaving}
+                className="flex items-center gap-1.5 px-4 py-2 bg-gradient-primary text-primary rounded-lg text-sm font-medium smooth-transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <PlusIcon className="w-4 h-4" />
+                {draft.id ? t("promptPresets.update") : t("promptPresets.add")}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
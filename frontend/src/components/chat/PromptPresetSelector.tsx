@@ -0,0 +1,119 @@
+import { useState, useRef, useEffect } from "react";
+import {
+  DocumentTextIcon,
+  CheckIcon,
+  Cog6ToothIcon,
+} from "@heroicons/react/24/outline";
+import type { PromptPreset } from "../../types";
+import { useLanguage } from "../../contexts/LanguageContext";
+
+interface PromptPresetSelectorProps {
+  presets: PromptPreset[];
+  selectedPreset: PromptPreset | null;
+  onSelect: (presetId: string | null) => void;
+  onManage: () => void;
+  disabled?: boolean;
+}
+
+export function PromptPresetSelector({
+  presets,
+  selectedPreset,
+  onSelect,
+  onManage,
+  disabled = false,
+}: PromptPresetSelectorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { t } = useLanguage();
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const handleSelect = (presetId: string | null) => {
+    onSelect(presetId);
+    setIsOpen(false);
+  };
+
+  const handleManage = () => {
+    onManage();
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`flex items-center gap-2 px-3 py-3 rounded-xl smooth-transition text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed glass-button glow-border ${
+          selectedPreset ? "text-accent" : "text-secondary"
+        }`}
+        aria-label={t("promptPresets.label")}
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        title={selectedPreset?.name ?? t("promptPresets.none")}
+      >
+        <DocumentTextIcon className="w-5 h-5" />
+        <span className="hidden md:inline max-w-[8rem] truncate">
+          {selectedPreset?.name ?? t("promptPresets.none")}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div
+          role="listbox"
+          className="absolute right-0 mt-2 w-72 glass-card glow-effect rounded-xl shadow-2xl z-50 p-2"
+        >
+          {[null, ...presets].map((preset) => {
+            const isSelected = (selectedPreset?.id ?? null) === preset?.id;
+            return (
+              <button
+                key={preset?.id ?? "none"}
+                role="option"
+                aria-selected={isSelected}
+                onClick={() => handleSelect(preset?.id ?? null)}
+                className="w-full flex items-start gap-3 p-3 rounded-lg text-left smooth-transition hover:bg-black-secondary/50"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-primary truncate">
+                    {preset?.name ?? t("promptPresets.none")}
+                  </div>
+                  <div className="text-xs text-tertiary truncate">
+                    {!preset
+                      ? t("promptPresets.none.desc")
+                      : preset.customSystemPrompt
+                        ? t("promptPresets.replaces")
+                        : t("promptPresets.appends")}
+                  </div>
+                </div>
+                {isSelected && (
+                  <CheckIcon className="w-4 h-4 text-accent flex-shrink-0 mt-0.5" />
+                )}
+              </button>
+            );
+          })}
+          <button
+            onClick={handleManage}
+            className="w-full flex items-center gap-2 p-3 mt-1 border-t border-accent/20 text-sm text-accent text-left smooth-transition hover:bg-black-secondary/50 rounded-lg"
+          >
+            <Cog6ToothIcon className="w-4 h-4" />
+            {t("promptPresets.manage")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import {
+  ChevronUpIcon,
+  ChevronDownIcon,
+  XMarkIcon,
+  PaperAirplaneIcon,
+  QueueListIcon,
+} from "@heroicons/react/24/outline";
+import type { QueuedMessage } from "../../types";
+import { useLanguage } from "../../contexts/LanguageContext";
+
+interface QueuedMessagesProps {
+  messages: QueuedMessage[];
+  isLoading: boolean;
+  onMove: (id: string, offset: number) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onSendNext: () => void;
+}
+
+export function QueuedMessages({
+  messages,
+  isLoading,
+  onMove,
+  onRemove,
+  onClear,
+  onSendNext,
+}: QueuedMessagesProps) {
+  const { t } = useLanguage();
+
+  if (messages.length === 0) return null;
+
+  return (
+    <div className="flex-shrink-0 glass-card rounded-xl p-2 space-y-1">
+      <div className="flex items-center justify-between px-1 text-xs text-secondary">
+        <span className="flex items-center gap-1.5">
+          <QueueListIcon className="w-4 h-4" />
+          {isLoading
+            ? `${t("queue.waiting")} (${messages.length})`
+            : t("queue.paused")}
+        </span>
+        <div className="flex items-center gap-2">
+          {!isLoading && (
+            <button
+              onClick={onSendNext}
+              className="flex items-center gap-1 text-accent hover:underline"
+            >
+              <PaperAirplaneIcon className="w-3.5 h-3.5" />
+              {t("queue.sendNext")}
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            className="text-tertiary hover:text-primary smooth-transition"
+          >
+            {t("queue.clear")}
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-1 max-h-32 overflow-y-auto">
+        {messages.map((message, index) => (
+          <li
+            key={message.id}
+            className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-black-quaternary text-sm"
+          >
+            <span className="text-xs text-tertiary w-4 text-right">
+              {index + 1}
+            </span>
+            <span
+              className="flex-1 truncate text-primary"
+              title={message.content}
+            >
+              {message.content}
+            </span>
+            <button
+              onClick={() => onMove(message.id, -1)}
+              disabled={index === 0}
+              className="p-0.5 text-tertiary hover:text-primary disabled:opacity-30 smooth-transition"
+              title={t("queue.moveUp")}
+            >
+              <ChevronUpIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onMove(message.id, 1)}
+              disabled={index === messages.length - 1}
+              className="p-0.5 text-tertiary hover:text-primary disabled:opacity-30 smooth-transition"
+              title={t("queue.moveDown")}
+            >
+              <ChevronDownIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onRemove(message.id)}
+              className="p-0.5 text-tertiary hover:text-red-400 smooth-transition"
+              title={t("queue.remove")}
+            >
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect, type KeyboardEvent } from "react";
+import type { RequestLimits } from "../../hooks/chat/useRequestLimits";
+import { useLanguage } from "../../contexts/LanguageContext";
+
+interface RequestLimitsInputProps {
+  value: RequestLimits;
+  onChange: (limits: RequestLimits) => void;
+  disabled?: boolean;
+}
+
+// Empty or non-positive input clears the limit
+const parseLimit = (raw: string, integer: boolean) => {
+  const parsed = integer ? parseInt(raw, 10) : parseFloat(raw);
+  return parsed > 0 ? parsed : undefined;
+};
+
+const INPUT_CLASS_NAME = `
+  w-14 sm:w-16 px-2 py-1.5 text-xs sm:text-sm
+  glass-button glow-border smooth-transition rounded-md
+  text-primary bg-black-secondary/50 border-accent/30
+  focus:outline-none focus:ring-1 focus:ring-accent/50 focus:border-accent
+  disabled:opacity-50 disabled:cursor-not-allowed
+`;
+
+export function RequestLimitsInput({
+  value,
+  onChange,
+  disabled = false,
+}: RequestLimitsInputProps) {
+  const { t } = useLanguage();
+  // Drafts keep partial input such as "0." until the field is committed
+  const [turnsDraft, setTurnsDraft] = useState("");
+  const [costDraft, setCostDraft] = useState("");
+
+  useEffect(() => {
+    setTurnsDraft(value.maxTurns?.toString() ?? "");
+    setCostDraft(value.maxCostUsd?.toString() ?? "");
+  }, [value.maxTurns, value.maxCostUsd]);
+
+  const commit = () => {
+    const maxTurns = parseLimit(turnsDraft, true);
+    const maxCostUsd = parseLimit(costDraft, false);
+    setTurnsDraft(maxTurns?.toString() ?? "");
+    setCostDraft(maxCostUsd?.toString() ?? "");
+    if (maxTurns !== value.maxTurns || maxCostUsd !== value.maxCostUsd) {
+      onChange({ maxTurns, maxCostUsd });
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") commit();
+  };
+
+  return (
+    <div className="flex items-center gap-2" title={t("limits.desc")}>
+      <label
+        htmlFor="max-turns"
+        className="text-xs text-secondary whitespace-nowrap hidden sm:block"
+      >
+        {t("limits.maxTurns")}:
+      </label>
+      <input
+        id="max-turns"
+        type="number"
+        min={1}
+        step={1}
+        placeholder="∞"
+        value={turnsDraft}
+        onChange={(e) => setTurnsDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+        className={INPUT_CLASS_NAME}
+        aria-label={t("limits.maxTurns")}
+      />
+      <label
+        htmlFor="max-cost"
+        className="text-xs text-secondary whitespace-nowrap hidden sm:block"
+      >
+        {t("limits.maxCost")}:
+      </label>
+      <input
+        id="max-cost"
+        type="number"
+        min={0.01}
+        step={0.5}
+        placeholder="∞"
+        value={costDraft}
+        onChange={(e) => setCostDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+        className={INPUT_CLASS_NAME}
+        aria-label={t("limits.maxCost")}
+      />
+    </div>
+  );
+}
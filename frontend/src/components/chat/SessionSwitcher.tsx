@@ -0,0 +1,180 @@
+import { useState, useRef, useEffect } from "react";
+import { PlusIcon, XMarkIcon, FolderIcon } from "@heroicons/react/24/outline";
+import type { ProjectInfo, SessionStatus, WorkspaceSession } from "../../types";
+import { useLanguage } from "../../contexts/LanguageContext";
+
+interface SessionSwitcherProps {
+  sessions: WorkspaceSession[];
+  activeId: string;
+  // Projects offered when opening a chat in another directory or worktree
+  projects: ProjectInfo[];
+  workingDirectory?: string;
+  onSelect: (id: string) => void;
+  onAdd: (workingDirectory?: string) => void;
+  onClose: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<SessionStatus, string> = {
+  idle: "bg-gray-500",
+  running: "bg-accent animate-pulse",
+  waiting_permission: "bg-yellow-400 animate-pulse",
+  done: "bg-green-400",
+  error: "bg-red-400",
+};
+
+const getDirectoryName = (path?: string) =>
+  path?.split(/[\\/]/).filter(Boolean).pop();
+
+export function SessionSwitcher({
+  sessions,
+  activeId,
+  projects,
+  workingDirectory,
+  onSelect,
+  onAdd,
+  onClose,
+}: SessionSwitcherProps) {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { t } = useLanguage();
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    if (!isMenuOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsMenuOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isMenuOpen]);
+
+  const handleAdd = (path?: string) => {
+    onAdd(path);
+    setIsMenuOpen(false);
+  };
+
+  const otherProjects = projects.filter(
+    (project) => project.path !== workingDirectory,
+  );
+
+  return (
+    <div className="flex-shrink-0 flex items-center gap-2">
+      <div
+        role="tablist"
+        aria-label={t("sessions.label")}
+        className="flex-1 min-w-0 flex items-center gap-2 overflow-x-auto"
+      >
+        {sessions.map((session) => {
+          const isActive = session.id === activeId;
+          const directoryName = getDirectoryName(session.workingDirectory);
+          return (
+            <div
+              key={session.id}
+              className={`group flex-shrink-0 flex items-center gap-2 pl-3 pr-1 py-1.5 rounded-lg text-sm smooth-transition max-w-[16rem] ${
+                isActive
+                  ? "bg-gradient-primary text-primary glow-effect"
+                  : "glass-button text-secondary hover:text-primary"
+              }`}
+              title={session.workingDirectory}
+            >
+              <button
+                role="tab"
+                aria-selected={isActive}
+                onClick={() => onSelect(session.id)}
+                className="flex items-center gap-2 min-w-0"
+              >
+                <span
+                  className={`w-2 h-2 rounded-full flex-shrink-0 ${STATUS_STYLES[session.status]}`}
+                  title={t(`sessions.status.${session.status}`)}
+                  aria-label={t(`sessions.status.${session.status}`)}
+                />
+                <span
+                  className={`truncate ${session.unread ? "font-semibold text-primary" : ""}`}
+                >
+                  {session.title || t("sessions.untitled")}
+                </span>
+                {directoryName && directoryName !== session.title && (
+                  <span className="text-xs text-tertiary font-mono truncate hidden md:inline">
+                    {directoryName}
+                  </span>
+                )}
+                {session.unread && (
+                  <span
+                    className="w-1.5 h-1.5 rounded-full bg-blue-400 flex-shrink-0"
+                    aria-label={t("sessions.unread")}
+                  />
+                )}
+              </button>
+              {sessions.length > 1 && (
+                <button
+                  onClick={() => onClose(session.id)}
+                  className="p-0.5 rounded text-tertiary hover:text-primary smooth-transition"
+                  aria-label={t("sessions.close")}
+                >
+                  <XMarkIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div ref={containerRef} className="relative flex-shrink-0">
+        <button
+          onClick={() => setIsMenuOpen(!isMenuOpen)}
+          className="p-2 glass-button glow-border text-accent rounded-lg smooth-transition"
+          aria-label={t("sessions.new")}
+          aria-haspopup="menu"
+          aria-expanded={isMenuOpen}
+          title={t("sessions.new")}
+        >
+          <PlusIcon className="w-4 h-4" />
+        </button>
+
+        {isMenuOpen && (
+          <div
+            role="menu"
+            className="absolute right-0 mt-2 w-72 max-h-80 overflow-y-auto glass-card glow-effect rounded-xl shadow-2xl z-50 p-2"
+          >
+            <button
+              role="menuitem"
+              onClick={() => handleAdd(workingDirectory)}
+              className="w-full flex items-center gap-3 p-3 rounded-lg text-left smooth-transition hover:bg-black-secondary/50"
+            >
+              <PlusIcon className="w-4 h-4 text-accent flex-shrink-0" />
+              <span className="text-sm font-medium text-primary">
+                {t("sessions.newInProject")}
+              </span>
+            </button>
+            {otherProjects.length > 0 && (
+              <div className="px-3 pt-2 pb-1 text-xs text-tertiary">
+                {t("sessions.otherProjects")}
+              </div>
+            )}
+            {otherProjects.map((project) => (
+              <button
+                key={project.path}
+                role="menuitem"
+                onClick={() => handleAdd(project.path)}
+                className="w-full flex items-center gap-3 p-2 rounded-lg text-left smooth-transition hover:bg-black-secondary/50"
+                title={project.path}
+              >
+                <FolderIcon className="w-4 h-4 text-accent flex-shrink-0" />
+                <span className="text-xs font-mono text-secondary truncate">
+                  {project.path}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
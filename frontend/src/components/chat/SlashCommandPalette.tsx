@@ -0,0 +1,79 @@
+import { useEffect, useRef } from "react";
+import type { SlashCommand } from "../../types";
+import { useLanguage } from "../../contexts/LanguageContext";
+
+interface SlashCommandPaletteProps {
+  commands: SlashCommand[];
+  selectedIndex: number;
+  onSelect: (command: SlashCommand) => void;
+  onHover: (index: number) => void;
+}
+
+export function SlashCommandPalette({
+  commands,
+  selectedIndex,
+  onSelect,
+  onHover,
+}: SlashCommandPaletteProps) {
+  const listRef = useRef<HTMLUListElement>(null);
+  const { t } = useLanguage();
+
+  // Keep the keyboard selection visible
+  useEffect(() => {
+    const item = listRef.current?.children[selectedIndex] as
+      | HTMLElement
+      | undefined;
+    item?.scrollIntoView({ block: "nearest" });
+  }, [selectedIndex]);
+
+  if (commands.length === 0) return null;
+
+  return (
+    <ul
+      ref={listRef}
+      role="listbox"
+      aria-label={t("commands.palette")}
+      className="absolute left-0 right-0 bottom-full mb-2 max-h-72 overflow-y-auto glass-card glow-effect rounded-xl shadow-2xl z-50 p-2"
+    >
+      {commands.map((command, index) => (
+        <li
+          key={`${command.source}:${command.file ?? command.name}`}
+          role="option"
+          aria-selected={index === selectedIndex}
+        >
+          <button
+            type="button"
+            // Keep focus in the textarea while picking with the mouse
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(command)}
+            onMouseEnter={() => onHover(index)}
+            className={`w-full flex items-start gap-3 p-2 rounded-lg text-left smooth-transition ${
+              index === selectedIndex
+                ? "bg-black-secondary/50 ring-1 ring-accent/40"
+                : "hover:bg-black-secondary/50"
+            }`}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-mono text-primary">
+                /{command.name}
+                {command.argumentHint && (
+                  <span className="ml-2 text-tertiary">
+                    {command.argumentHint}
+                  </span>
+                )}
+              </div>
+              {command.description && (
+                <div className="text-xs text-tertiary truncate">
+                  {command.description}
+                </div>
+              )}
+            </div>
+            <span className="text-xs text-accent flex-shrink-0">
+              {t(`commands.source.${command.source}`)}
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
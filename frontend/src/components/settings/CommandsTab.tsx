@@ -0,0 +1,294 @@
+import { useState, useEffect } from "react";
+import {
+  CommandLineIcon,
+  PencilIcon,
+  TrashIcon,
+  PlusIcon,
+} from "@heroicons/react/24/outline";
+import type { CommandFileScope, ProjectsResponse } from "../../types";
+import { useSlashCommands } from "../../hooks/chat/useSlashCommands";
+import { getProjectsUrl } from "../../config/api";
+import { useLanguage } from "../../contexts/LanguageContext";
+
+const SCOPES: CommandFileScope[] = ["project", "user"];
+
+// Mirrors the backend check: relative path without ".md"
+const COMMAND_FILE_PATTERN = /^[A-Za-z0-9_-]+(?:\/[A-Za-z0-9_-]+)*$/;
+
+const NEW_COMMAND_TEMPLATE = `---
+description:
+argument-hint:
+---
+
+`;
+
+interface CommandDraft {
+  scope: CommandFileScope;
+  file: string;
+  content: string;
+  // Existing files keep their scope and name while editing
+  isNew: boolean;
+}
+
+export function CommandsTab() {
+  const { t } = useLanguage();
+  const [projects, setProjects] = useState<string[]>([]);
+  const [selectedProject, setSelectedProject] = useState<string>("");
+  const [draft, setDraft] = useState<CommandDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const {
+    commands,
+    isLoading,
+    error,
+    readCommandFile,
+    saveCommandFile,
+    deleteCommandFile,
+  } = useSlashCommands(selectedProject || undefined);
+
+  useEffect(() => {
+    const loadProjects = async () => {
+      try {
+        const response = await fetch(getProjectsUrl());
+        if (response.ok) {
+          const data: ProjectsResponse = await response.json();
+          const paths = data.projects.map((project) => project.path);
+          setProjects(paths);
+          setSelectedProject((current) => current || paths[0] || "");
+        }
+      } catch (err) {
+        console.error("Failed to load projects:", err);
+      }
+    };
+    loadProjects();
+  }, []);
+
+  const handleEdit = async (scope: CommandFileScope, file: string) => {
+    const content = await readCommandFile(scope, file);
+    if (content !== null) {
+      setDraft({ scope, file, content, isNew: false });
+    }
+  };
+
+  const handleDelete = async (scope: CommandFileScope, file: string) => {
+    if (!confirm(t("commands.confirmDelete"))) return;
+    if (await deleteCommandFile(scope, file)) {
+      if (draft?.scope === scope && draft.file === file) setDraft(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    if (await saveCommandFile(draft.scope, draft.file, draft.content)) {
+      setDraft(null);
+    }
+    setIsSaving(false);
+  };
+
+  const isFileValid = !!draft && COMMAND_FILE_PATTERN.test(draft.file);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-primary text-gradient mb-2">
+          {t("commands.title")}
+        </h2>
+        <p className="text-secondary">{t("commands.subtitle")}</p>
+      </div>
+
+      {/* Project Selection */}
+      <div className="glass-card p-6 space-y-4">
+        <label
+          htmlFor="commands-project"
+          className="block text-sm font-medium text-secondary"
+        >
+          {t("permissionRules.project")}
+        </label>
+        {projects.length > 0 ? (
+          <select
+            id="commands-project"
+            value={selectedProject}
+            onChange={(e) => {
+              setSelectedProject(e.target.value);
+              setDraft(null);
+            }}
+            className="w-full px-3 py-2 glass-button glow-border rounded-lg text-primary bg-black-secondary/50 font-mono text-sm focus:outline-none focus:ring-1 focus:ring-accent/50"
+          >
+            {projects.map((path) => (
+              <option
+                key={path}
+                value={path}
+                className="bg-black-secondary text-primary"
+              >
+                {path}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <p className="text-sm text-tertiary">
+            {t("permissionRules.noProjects")}
+          </p>
+        )}
+        <p className="text-xs text-tertiary">{t("commands.storage")}</p>
+      </div>
+
+      {/* Editor */}
+      {draft ? (
+        <div className="glass-card p-6 space-y-3">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <select
+              value={draft.scope}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  scope: e.target.value as CommandFileScope,
+                })
+              }
+              disabled={!draft.isNew}
+              className="px-3 py-2 glass-button glow-border rounded-lg text-primary bg-black-secondary/50 text-sm focus:outline-none disabled:opacity-50"
+              aria-label={t("commands.scope")}
+            >
+              {SCOPES.map((scope) => (
+                <option
+                  key={scope}
+                  value={scope}
+                  className="bg-black-secondary text-primary"
+                >
+                  {t(`commands.source.${scope}`)}
+                </option>
+              ))}
+            </select>
+            <div className="flex-1 flex items-center gap-1 px-3 py-2 glass-button glow-border rounded-lg bg-black-secondary/50 font-mono text-sm">
+              <span className="text-tertiary">/</span>
+              <input
+                type="text"
+                value={draft.file}
+                onChange={(e) => setDraft({ ...draft, file: e.target.value })}
+                disabled={!draft.isNew}
+                placeholder={t("commands.namePlaceholder")}
+                className="flex-1 bg-transparent text-primary focus:outline-none disabled:opacity-50"
+                aria-label={t("commands.name")}
+              />
+              <span className="text-tertiary">.md</span>
+            </div>
+          </div>
+          {draft.file && !isFileValid && (
+            <p className="text-xs text-red-400">{t("commands.invalidName")}</p>
+          )}
+          <textarea
+            value={draft.content}
+            onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+            rows={12}
+            className="w-full px-3 py-2 glass-input rounded-lg text-primary font-mono text-sm resize-y focus:outline-none focus:ring-1 focus:ring-accent/50"
+            aria-label={t("commands.content")}
+          />
+          <p className="text-xs text-tertiary">{t("commands.contentHint")}</p>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 glass-button glow-border rounded-lg text-sm text-secondary hover:text-primary smooth-transition"
+            >
+              {t("permissionRules.cancel")}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!isFileValid || isSaving}
+              className="px-4 py-2 bg-gradient-primary glow-effect text-primary rounded-lg text-sm font-medium smooth-transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t("permissionRules.save")}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() =>
+            setDraft({
+              scope: selectedProject ? "project" : "user",
+              file: "",
+              content: NEW_COMMAND_TEMPLATE,
+              isNew: true,
+            })
+          }
+          className="flex items-center gap-2 px-4 py-2 bg-gradient-primary glow-effect text-primary rounded-lg text-sm font-medium smooth-transition"
+        >
+          <PlusIcon className="w-4 h-4" />
+          {t("commands.new")}
+        </button>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {/* Command Lists */}
+      {isLoading ? (
+        <div className="glass-card p-6 animate-pulse space-y-3">
+          <div className="h-5 bg-black-tertiary rounded w-32"></div>
+          <div className="h-10 bg-black-quaternary rounded"></div>
+          <div className="h-10 bg-black-quaternary rounded"></div>
+        </div>
+      ) : (
+        SCOPES.map((scope) => {
+          const scopeCommands = commands.filter(
+            (command) => command.source === scope && command.file,
+          );
+          return (
+            <div key={scope} className="glass-card p-6 space-y-3">
+              <div className="flex items-center gap-2">
+                <CommandLineIcon className="h-5 w-5 text-accent" />
+                <h3 className="text-lg font-semibold text-primary">
+                  {t(`commands.source.${scope}`)}
+                </h3>
+                <span className="text-xs text-tertiary">
+                  ({scopeCommands.length})
+                </span>
+              </div>
+
+              {scopeCommands.length === 0 ? (
+                <p className="text-sm text-tertiary">{t("commands.empty")}</p>
+              ) : (
+                <ul className="space-y-2">
+                  {scopeCommands.map((command) => (
+                    <li
+                      key={command.file}
+                      className="flex items-center gap-2 p-2 bg-black-quaternary rounded-lg"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="font-mono text-sm text-primary break-all">
+                          /{command.name}
+                          {command.argumentHint && (
+                            <span className="ml-2 text-tertiary">
+                              {command.argumentHint}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs text-tertiary truncate">
+                          {command.file}.md
+                          {command.description && ` · ${command.description}`}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleEdit(scope, command.file!)}
+                        className="p-1 glass-button rounded smooth-transition"
+                        aria-label={t("commands.edit")}
+                      >
+                        <PencilIcon className="w-4 h-4 text-secondary" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(scope, command.file!)}
+                        className="p-1 glass-button rounded smooth-transition"
+                        aria-label={t("commands.delete")}
+                      >
+                        <TrashIcon className="w-4 h-4 text-red-400" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
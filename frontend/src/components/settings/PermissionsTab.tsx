@@ -0,0 +1,376 @@
+import { useState, useEffect, useRef, type ChangeEvent } from "react";
+import {
+  ShieldCheckIcon,
+  NoSymbolIcon,
+  PencilIcon,
+  TrashIcon,
+  CheckIcon,
+  XMarkIcon,
+  ArrowDownTrayIcon,
+  DocumentArrowUpIcon,
+  PlusIcon,
+} from "@heroicons/react/24/outline";
+import type { PermissionRules, ProjectsResponse } from "../../types";
+import {
+  usePermissionRules,
+  type PermissionRuleKind,
+} from "../../hooks/chat/usePermissionRules";
+import { getProjectsUrl } from "../../config/api";
+import { useLanguage } from "../../contexts/LanguageContext";
+
+const RULE_KINDS: PermissionRuleKind[] = ["allow", "deny"];
+
+// Accepts a full Claude settings file or a bare { allow, deny } object
+function parseImportedRules(content: string): PermissionRules {
+  const parsed = JSON.parse(content);
+  const source = parsed?.permissions ?? parsed;
+  const toRules = (value: unknown) =>
+    Array.isArray(value)
+      ? value.filter((rule): rule is string => typeof rule === "string")
+      : [];
+  return { allow: toRules(source?.allow), deny: toRules(source?.deny) };
+}
+
+function mergeRules(
+  current: PermissionRules,
+  incoming: PermissionRules,
+): PermissionRules {
+  return {
+    allow: Array.from(new Set([...current.allow, ...incoming.allow])),
+    deny: Array.from(new Set([...current.deny, ...incoming.deny])),
+  };
+}
+
+export function PermissionsTab() {
+  const { t } = useLanguage();
+  const [projects, setProjects] = useState<string[]>([]);
+  const [selectedProject, setSelectedProject] = useState<string>("");
+  const [newRule, setNewRule] = useState("");
+  const [newRuleKind, setNewRuleKind] = useState<PermissionRuleKind>("allow");
+  const [editing, setEditing] = useState<{
+    kind: PermissionRuleKind;
+    rule: string;
+    value: string;
+  } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const {
+    rules,
+    projectRules,
+    isLoading,
+    error,
+    saveRules,
+    addRule,
+    removeRule,
+  } = usePermissionRules(selectedProject || undefined);
+
+  useEffect(() => {
+    const loadProjects = async () => {
+      try {
+        const response = await fetch(getProjectsUrl());
+        if (response.ok) {
+          const data: ProjectsResponse = await response.json();
+          const paths = data.projects.map((project) => project.path);
+          setProjects(paths);
+          setSelectedProject((current) => current || paths[0] || "");
+        }
+      } catch (err) {
+        console.error("Failed to load projects:", err);
+      }
+    };
+    loadProjects();
+  }, []);
+
+  const handleAddRule = async () => {
+    const rule = newRule.trim();
+    if (!rule) return;
+    if (await addRule(newRuleKind, rule)) {
+      setNewRule("");
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    const value = editing.value.trim();
+    if (!value) return;
+
+    const updated = rules[editing.kind].map((rule) =>
+      rule === editing.rule ? value : rule,
+    );
+    if (await saveRules({ ...rules, [editing.kind]: updated })) {
+      setEditing(null);
+    }
+  };
+
+  const handleImportFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setImportError(null);
+    try {
+      const imported = parseImportedRules(await file.text());
+      await saveRules(mergeRules(rules, imported));
+    } catch (err) {
+      console.error("Failed to import permission rules:", err);
+      setImportError(t("permissionRules.importError"));
+    }
+  };
+
+  const handleImportProjectRules = () => {
+    saveRules(mergeRules(rules, projectRules));
+  };
+
+  const hasProjectRules =
+    projectRules.allow.length > 0 || projectRules.deny.length > 0;
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-primary text-gradient mb-2">
+          {t("permissionRules.title")}
+        </h2>
+        <p className="text-secondary">{t("permissionRules.subtitle")}</p>
+      </div>
+
+      {/* Project Selection */}
+      <div className="glass-card p-6 space-y-4">
+        <label
+          htmlFor="permission-rules-project"
+          className="block text-sm font-medium text-secondary"
+        >
+          {t("permissionRules.project")}
+        </label>
+        {projects.length > 0 ? (
+          <select
+            id="permission-rules-project"
+            value={selectedProject}
+            onChange={(e) => {
+              setSelectedProject(e.target.value);
+              setEditing(null);
+            }}
+            className="w-full px-3 py-2 glass-button glow-border rounded-lg text-primary bg-black-secondary/50 font-mono text-sm focus:outline-none focus:ring-1 focus:ring-accent/50"
+          >
+            {projects.map((path) => (
+              <option
+                key={path}
+                value={path}
+                className="bg-black-secondary text-primary"
+              >
+                {path}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <p className="text-sm text-tertiary">
+            {t("permissionRules.noProjects")}
+          </p>
+        )}
+        <p className="text-xs text-tertiary">{t("permissionRules.storage")}</p>
+      </div>
+
+      {selectedProject && (
+        <>
+          {/* Add Rule */}
+          <div className="glass-card p-6 space-y-3">
+            <div className="flex flex-col sm:flex-row gap-2">
+              <select
+                value={newRuleKind}
+                onChange={(e) =>
+                  setNewRuleKind(e.target.value as PermissionRuleKind)
+                }
+                className="px-3 py-2 glass-button glow-border rounded-lg text-primary bg-black-secondary/50 text-sm focus:outline-none"
+                aria-label={t("permissionRules.kind")}
+              >
+                {RULE_KINDS.map((kind) => (
+                  <option
+                    key={kind}
+                    value={kind}
+                    className="bg-black-secondary text-primary"
+                  >
+                    {t(`permissionRules.${kind}`)}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={newRule}
+                onChange={(e) => setNewRule(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleAddRule();
+                }}
+                placeholder={t("permissionRules.placeholder")}
+                className="flex-1 px-3 py-2 glass-button glow-border rounded-lg text-primary bg-black-secondary/50 font-mono text-sm focus:outline-none focus:ring-1 focus:ring-accent/50"
+              />
+              <button
+                onClick={handleAddRule}
+                disabled={!newRule.trim()}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-gradient-primary glow-effect text-primary rounded-lg text-sm font-medium smooth-transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <PlusIcon className="w-4 h-4" />
+                {t("permissionRules.add")}
+              </button>
+            </div>
+
+            {/* Import */}
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-2 px-3 py-2 glass-button glow-border rounded-lg text-sm text-secondary hover:text-primary smooth-transition"
+              >
+                <DocumentArrowUpIcon className="w-4 h-4" />
+                {t("permissionRules.importFile")}
+              </button>
+              {hasProjectRules && (
+                <button
+                  onClick={handleImportProjectRules}
+                  className="flex items-center gap-2 px-3 py-2 glass-button glow-border rounded-lg text-sm text-secondary hover:text-primary smooth-transition"
+                >
+                  <ArrowDownTrayIcon className="w-4 h-4" />
+                  {t("permissionRules.importProject")}
+                </button>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleImportFile}
+                className="hidden"
+              />
+            </div>
+
+            {(error || importError) && (
+              <p className="text-sm text-red-400">{importError || error}</p>
+            )}
+          </div>
+
+          {/* Rule Lists */}
+          {isLoading ? (
+            <div className="glass-card p-6 animate-pulse space-y-3">
+              <div className="h-5 bg-black-tertiary rounded w-32"></div>
+              <div className="h-10 bg-black-quaternary rounded"></div>
+              <div className="h-10 bg-black-quaternary rounded"></div>
+            </div>
+          ) : (
+            RULE_KINDS.map((kind) => {
+              const Icon = kind === "allow" ? ShieldCheckIcon : NoSymbolIcon;
+              return (
+                <div key={kind} className="glass-card p-6 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Icon
+                      className={`h-5 w-5 ${
+                        kind === "allow" ? "text-accent" : "text-red-400"
+                      }`}
+                    />
+                    <h3 className="text-lg font-semibold text-primary">
+                      {t(`permissionRules.${kind}`)}
+                    </h3>
+                    <span className="text-xs text-tertiary">
+                      ({rules[kind].length})
+                    </span>
+                  </div>
+
+                  {rules[kind].length === 0 ? (
+                    <p className="text-sm text-tertiary">
+                      {t("permissionRules.empty")}
+                    </p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {rules[kind].map((rule) => {
+                        const isEditing =
+                          editing?.kind === kind && editing.rule === rule;
+                        return (
+                          <li
+                            key={rule}
+                            className="flex items-center gap-2 p-2 bg-black-quaternary rounded-lg"
+                          >
+                            {isEditing ? (
+                              <>
+                                <input
+                                  type="text"
+                                  value={editing.value}
+                                  onChange={(e) =>
+                                    setEditing({
+                                      ...editing,
+                                      value: e.target.value,
+                                    })
+                                  }
+                                  onKeyDown={(e) => {
+                                    if (e.key === "Enter") handleSaveEdit();
+                                    if (e.key === "Escape") setEditing(null);
+                                  }}
+                                  autoFocus
+                                  className="flex-1 px-2 py-1 glass-button rounded text-primary bg-black-secondary/50 font-mono text-sm focus:outline-none"
+                                />
+                                <button
+                                  onClick={handleSaveEdit}
+                                  className="p-1 glass-button rounded smooth-transition"
+                                  aria-label={t("permissionRules.save")}
+                                >
+                                  <CheckIcon className="w-4 h-4 text-accent" />
+                                </button>
+                                <button
+                                  onClick={() => setEditing(null)}
+                                  className="p-1 glass-button rounded smooth-transition"
+                                  aria-label={t("permissionRules.cancel")}
+                                >
+                                  <XMarkIcon className="w-4 h-4 text-secondary" />
+                                </button>
+                              </>
+                            ) : (
+                              <>
+                                <span className="flex-1 font-mono text-sm text-primary break-all">
+                                  {rule}
+                                </span>
+                                <button
+                                  onClick={() =>
+                                    setEditing({ kind, rule, value: rule })
+                                  }
+                                  className="p-1 glass-button rounded smooth-transition"
+                                  aria-label={t("permissionRules.edit")}
+                                >
+                                  <PencilIcon className="w-4 h-4 text-secondary" />
+                                </button>
+                                <button
+                                  onClick={() => removeRule(kind, rule)}
+                                  className="p-1 glass-button rounded smooth-transition"
+                                  aria-label={t("permissionRules.delete")}
+                                >
+                                  <TrashIcon className="w-4 h-4 text-red-400" />
+                                </button>
+                              </>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+
+                  {projectRules[kind].length > 0 && (
+                    <div className="pt-2 border-t border-accent/30">
+                      <p className="text-xs text-tertiary mb-2">
+                        {t("permissionRules.projectRules")}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {projectRules[kind].map((rule) => (
+                          <span
+                            key={rule}
+                            className="px-2 py-1 bg-black-quaternary rounded font-mono text-xs text-secondary"
+                          >
+                            {rule}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,23 @@
+import { AUTH_CONSTANTS } from "../utils/constants";
+
 // API configuration - uses relative paths with Vite proxy in development
 export const API_CONFIG = {
   ENDPOINTS: {
     CHAT: "/api/chat",
+    WEBSOCKET: "/api/ws",
     ABORT: "/api/abort",
+    PERMISSION: "/api/permission",
+    PERMISSION_RULES: "/api/permissions/rules",
+    PROMPT_PRESETS: "/api/prompt-presets",
+    COMMANDS: "/api/commands",
+    COMMAND_FILE: "/api/commands/file",
+    FILES_INDEX: "/api/files/index",
+    FILES_LINES: "/api/files/lines",
     PROJECTS: "/api/projects",
     HISTORIES: "/api/projects",
     CONVERSATIONS: "/api/projects",
+    HISTORY_SEARCH: "/api/histories/search",
+    SESSIONS: "/api/sessions",
   },
 } as const;
 
@@ -19,6 +31,79 @@ export const getAbortUrl = (requestId: string) => {
   return `${API_CONFIG.ENDPOINTS.ABORT}/${requestId}`;
 };
 
+// Helper function to get the chat WebSocket URL for the current host
+// Paired devices send their token as a query parameter, since browsers
+// cannot set an Authorization header on WebSocket upgrades
+export const getWebSocketUrl = () => {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const token = localStorage.getItem(AUTH_CONSTANTS.TOKEN_STORAGE_KEY);
+  const query = token ? `?token=${encodeURIComponent(token)}` : "";
+  return `${protocol}//${window.location.host}${API_CONFIG.ENDPOINTS.WEBSOCKET}${query}`;
+};
+
+// Helper function to get the URL for reattaching to a chat stream
+export const getChatStreamUrl = (requestId: string, after: number) => {
+  return `${API_CONFIG.ENDPOINTS.CHAT}/${requestId}/stream?after=${after}`;
+};
+
+// Helper function to get permission response URL
+export const getPermissionUrl = (requestId: string) => {
+  return `${API_CONFIG.ENDPOINTS.PERMISSION}/${requestId}`;
+};
+
+// Helper function to get permission rules URL
+export const getPermissionRulesUrl = (workingDirectory?: string) => {
+  if (!workingDirectory) {
+    return API_CONFIG.ENDPOINTS.PERMISSION_RULES;
+  }
+  const params = new URLSearchParams({ workingDirectory });
+  return `${API_CONFIG.ENDPOINTS.PERMISSION_RULES}?${params}`;
+};
+
+// Helper function to get the prompt presets URL, scoped to a project when reading
+export const getPromptPresetsUrl = (workingDirectory?: string) => {
+  if (!workingDirectory) {
+    return API_CONFIG.ENDPOINTS.PROMPT_PRESETS;
+  }
+  const params = new URLSearchParams({ workingDirectory });
+  return `${API_CONFIG.ENDPOINTS.PROMPT_PRESETS}?${params}`;
+};
+
+// Helper function to get the slash commands URL for a project
+export const getCommandsUrl = (workingDirectory?: string) => {
+  if (!workingDirectory) {
+    return API_CONFIG.ENDPOINTS.COMMANDS;
+  }
+  const params = new URLSearchParams({ workingDirectory });
+  return `${API_CONFIG.ENDPOINTS.COMMANDS}?${params}`;
+};
+
+// Helper function to get a custom command file URL; without a file it is the save URL
+export const getCommandFileUrl = (
+  scope?: string,
+  file?: string,
+  workingDirectory?: string,
+) => {
+  if (!scope || !file) {
+    return API_CONFIG.ENDPOINTS.COMMAND_FILE;
+  }
+  const params = new URLSearchParams({ scope, file });
+  if (workingDirectory) {
+    params.set("workingDirectory", workingDirectory);
+  }
+  return `${API_CONFIG.ENDPOINTS.COMMAND_FILE}?${params}`;
+};
+
+// Helper function to get the recursive project file index URL
+export const getFilesIndexUrl = () => {
+  return API_CONFIG.ENDPOINTS.FILES_INDEX;
+};
+
+// Helper function to get the URL for reading a file's line range
+export const getFileLinesUrl = () => {
+  return API_CONFIG.ENDPOINTS.FILES_LINES;
+};
+
 // Helper function to get chat URL
 export const getChatUrl = () => {
   return API_CONFIG.ENDPOINTS.CHAT;
@@ -35,8 +120,68 @@ export const getHistoriesUrl = (projectPath: string) => {
   return `${API_CONFIG.ENDPOINTS.HISTORIES}/${encodedPath}/histories`;
 };
 
+// Helper function to get the URL for importing a session into a project
+export const getHistoryImportUrl = (projectPath: string) => {
+  return `${getHistoriesUrl(projectPath)}/import`;
+};
+
+// Helper function to get the URL of a project's conversation tree
+export const getHistoryTreeUrl = (projectPath: string) => {
+  return `${getHistoriesUrl(projectPath)}/tree`;
+};
+
+// Helper function to get the URL for searching conversation histories
+export const getHistorySearchUrl = (params: Record<string, string>) => {
+  return `${API_CONFIG.ENDPOINTS.HISTORY_SEARCH}?${new URLSearchParams(params)}`;
+};
+
 // Helper function to get conversation URL
 export const getConversationUrl = (projectPath: string, sessionId: string) => {
   const encodedPath = encodeURIComponent(projectPath);
   return `${API_CONFIG.ENDPOINTS.CONVERSATIONS}/${encodedPath}/histories/${sessionId}`;
 };
+
+// Helper function to get the URL of one page of a conversation
+export const getConversationPageUrl = (
+  encodedProjectName: string,
+  sessionId: string,
+  params: Record<string, string>,
+) => {
+  return `${getConversationUrl(encodedProjectName, sessionId)}?${new URLSearchParams(params)}`;
+};
+
+// Helper function to get the URL of a tool output shortened in a page
+export const getToolResultUrl = (
+  encodedProjectName: string,
+  sessionId: string,
+  toolUseId: string,
+) => {
+  return `${getConversationUrl(encodedProjectName, sessionId)}/tool-results/${encodeURIComponent(toolUseId)}`;
+};
+
+// Helper function to get the URL for downloading a conversation
+export const getConversationExportUrl = (
+  encodedProjectName: string,
+  sessionId: string,
+  format: string,
+) => {
+  return `${getConversationUrl(encodedProjectName, sessionId)}/export?${new URLSearchParams({ format })}`;
+};
+
+// Helper function to get the URL for forking a conversation
+export const getConversationForkUrl = (
+  encodedProjectName: string,
+  sessionId: string,
+) => {
+  return `${getConversationUrl(encodedProjectName, sessionId)}/fork`;
+};
+
+// Helper function to get the URL for listing stored sessions
+export const getSessionsUrl = (params: Record<string, string>) => {
+  return `${API_CONFIG.ENDPOINTS.SESSIONS}?${new URLSearchParams(params)}`;
+};
+
+// Helper function to get the URL of one stored session
+export const getSessionUrl = (sessionId: string) => {
+  return `${API_CONFIG.ENDPOINTS.SESSIONS}/${encodeURIComponent(sessionId)}`;
+};
@@ -23,6 +23,8 @@ const translations = {
     "settings.general.subtitle": "Configure general application preferences",
     "settings.mcp": "MCP",
     "settings.mcp.desc": "MCP Server Configuration",
+    "settings.permissions": "Permissions",
+    "settings.permissions.desc": "Allow and deny rules",
     "settings.bill": "Bill",
     "settings.bill.desc": "Usage & Billing",
     "settings.language": "Language",
@@ -48,6 +50,97 @@ const translations = {
     "chat.placeholder": "Type a message...",
     "chat.send": "Send",
     "chat.thinking": "Claude is thinking...",
+    "promptPresets.label": "System prompt preset",
+    "promptPresets.none": "No preset",
+    "promptPresets.none.desc": "Use Claude Code's default system prompt",
+    "promptPresets.replaces": "Replaces the system prompt",
+    "promptPresets.appends": "Appends to the system prompt",
+    "promptPresets.manage": "Manage presets...",
+    "promptPresets.title": "Prompt Presets",
+    "promptPresets.desc":
+      "Saved per project on the server, no CLAUDE.md needed",
+    "promptPresets.empty": "No presets for this project yet",
+    "promptPresets.name": "Preset name",
+    "promptPresets.append": "Append to system prompt",
+    "promptPresets.custom": "Replace system prompt (optional)",
+    "promptPresets.add": "Add preset",
+    "promptPresets.update": "Update preset",
+    "promptPresets.edit": "Edit",
+    "promptPresets.delete": "Delete",
+    "promptPresets.cancelEdit": "Cancel",
+    "limits.maxTurns": "Max turns",
+    "limits.maxCost": "Max $",
+    "limits.desc":
+      "Stop each request after this many turns or this estimated spend",
+    "limits.stopped": "Stopped by request limit",
+    "limits.costExceeded": "Cost ceiling reached",
+    "limits.turnsExceeded": "Turn limit reached",
+    "attachments.attach": "Attach files or screenshots",
+    "attachments.tooLarge": "File is too large",
+    "attachments.tooMany": "Too many attachments",
+    "attachments.readFailed": "Could not read the file",
+    "settings.commands": "Commands",
+    "settings.commands.desc": "Custom slash commands",
+    "commands.title": "Slash Commands",
+    "commands.subtitle":
+      "Custom commands appear in the chat input palette when you type /",
+    "commands.storage":
+      "Project commands live in .claude/commands, personal ones in ~/.claude/commands",
+    "commands.palette": "Slash commands",
+    "commands.source.builtin": "Built-in",
+    "commands.source.project": "Project",
+    "commands.source.user": "Personal",
+    "commands.scope": "Scope",
+    "commands.name": "Command name",
+    "commands.namePlaceholder": "e.g. fix-issue or frontend/component",
+    "commands.invalidName":
+      "Use letters, numbers, - and _, with / for subfolders",
+    "commands.content": "Command prompt",
+    "commands.contentHint":
+      "description and argument-hint are shown in the palette; $ARGUMENTS is replaced with the text after the command",
+    "commands.new": "New command",
+    "commands.edit": "Edit command",
+    "commands.delete": "Delete command",
+    "commands.confirmDelete": "Delete this command file?",
+    "commands.empty": "No custom commands yet",
+    "fileMention.title": "Project files",
+    "fileMention.loading": "Indexing project files...",
+    "fileMention.noMatches": "No matching files",
+    "fileMention.rangeHint": "Add :10-20 after the name to reference lines",
+    "fileMention.inlineLines": "Inline the selected lines",
+    "fileMention.truncated": "Showing the first 20,000 files",
+    "sessions.label": "Parallel chats",
+    "sessions.new": "New parallel chat",
+    "sessions.newInProject": "New chat in this project",
+    "sessions.otherProjects": "Other projects and worktrees",
+    "sessions.untitled": "New chat",
+    "sessions.close": "Close chat",
+    "sessions.confirmClose":
+      "Claude is still working in this chat. Stop it and close the chat?",
+    "sessions.unread": "New activity",
+    "sessions.status.idle": "Idle",
+    "sessions.status.running": "Running",
+    "sessions.status.waiting_permission": "Waiting for permission",
+    "sessions.status.done": "Done",
+    "sessions.status.error": "Error",
+    "message.fork": "Fork from here",
+    "message.edit": "Edit and resend",
+    "message.editResend": "Resend",
+    "message.superseded": "Previous version",
+    "message.editFailed": "Could not resend the edited message",
+    "message.loadEarlier": "Show earlier messages",
+    "message.loadingEarlier": "Loading earlier messages...",
+    "message.loadFullOutput": "Load full output",
+    "message.loadFullOutputFailed": "Could not load the full output",
+    "fork.failed": "Failed to fork the conversation",
+    "queue.waiting": "Queued, sent when Claude finishes",
+    "queue.paused": "Queue paused",
+    "queue.sendNext": "Send next",
+    "queue.clear": "Clear",
+    "queue.moveUp": "Move up",
+    "queue.moveDown": "Move down",
+    "queue.remove": "Remove from queue",
+    "chat.queue": "Queue",
     "chat.error": "Error",
     "chat.abort": "Abort",
     "chat.newSession": "New Session",
@@ -90,6 +183,47 @@ const translations = {
     "permission.allowAlways": "Allow Always",
     "permission.deny": "Deny",
 
+    // Permission Modes
+    "permissionMode.label": "Permission mode",
+    "permissionMode.default": "Ask",
+    "permissionMode.default.desc":
+      "Ask before running tools that need approval",
+    "permissionMode.plan": "Plan",
+    "permissionMode.plan.desc":
+      "Claude only plans changes and does not edit files or run commands",
+    "permissionMode.acceptEdits": "Accept Edits",
+    "permissionMode.acceptEdits.desc":
+      "File edits are applied automatically without asking",
+    "permissionMode.bypassPermissions": "Bypass",
+    "permissionMode.bypassPermissions.desc":
+      "Every tool runs without asking. Use with caution",
+    "permissionMode.bypassWarning":
+      "Bypass mode is active: Claude can edit files and run commands without asking.",
+
+    // Permission Rules
+    "permissionRules.title": "Permission Rules",
+    "permissionRules.subtitle":
+      "Tools and commands Claude may always use, or must never use, in each project",
+    "permissionRules.project": "Project",
+    "permissionRules.noProjects": "No projects found",
+    "permissionRules.storage":
+      "Rules are saved to .claude/settings.local.json in the project and are sent with every chat request.",
+    "permissionRules.kind": "Rule type",
+    "permissionRules.allow": "Allow",
+    "permissionRules.deny": "Deny",
+    "permissionRules.placeholder": "e.g. Bash(npm run test:*) or Edit",
+    "permissionRules.add": "Add",
+    "permissionRules.importFile": "Import from file",
+    "permissionRules.importProject": "Import from .claude/settings.json",
+    "permissionRules.importError":
+      "Could not read permission rules from this file",
+    "permissionRules.empty": "No rules yet",
+    "permissionRules.projectRules": "Shared rules from .claude/settings.json",
+    "permissionRules.edit": "Edit rule",
+    "permissionRules.delete": "Delete rule",
+    "permissionRules.save": "Save",
+    "permissionRules.cancel": "Cancel",
+
     // Tool Messages
     "tool.running": "Running",
     "tool.completed": "Completed",
@@ -174,6 +308,8 @@ const translations = {
     "settings.general.subtitle": "配置通用应用程序首选项",
     "settings.mcp": "MCP",
     "settings.mcp.desc": "MCP 服务器配置",
+    "settings.permissions": "权限",
+    "settings.permissions.desc": "允许与拒绝规则",
     "settings.bill": "账单",
     "settings.bill.desc": "使用量与计费",
     "settings.language": "语言",
@@ -198,6 +334,92 @@ const translations = {
     "chat.placeholder": "输入消息...",
     "chat.send": "发送",
     "chat.thinking": "Claude 正在思考...",
+    "promptPresets.label": "系统提示词预设",
+    "promptPresets.none": "无预设",
+    "promptPresets.none.desc": "使用 Claude Code 默认系统提示词",
+    "promptPresets.replaces": "替换系统提示词",
+    "promptPresets.appends": "追加到系统提示词",
+    "promptPresets.manage": "管理预设...",
+    "promptPresets.title": "提示词预设",
+    "promptPresets.desc": "按项目保存在服务器上，无需 CLAUDE.md",
+    "promptPresets.empty": "此项目还没有预设",
+    "promptPresets.name": "预设名称",
+    "promptPresets.append": "追加到系统提示词",
+    "promptPresets.custom": "替换系统提示词（可选）",
+    "promptPresets.add": "添加预设",
+    "promptPresets.update": "更新预设",
+    "promptPresets.edit": "编辑",
+    "promptPresets.delete": "删除",
+    "promptPresets.cancelEdit": "取消",
+    "limits.maxTurns": "最大轮数",
+    "limits.maxCost": "最高 $",
+    "limits.desc": "每个请求达到此轮数或预估花费后停止",
+    "limits.stopped": "已因请求限制停止",
+    "limits.costExceeded": "已达到费用上限",
+    "limits.turnsExceeded": "已达到轮数上限",
+    "attachments.attach": "附加文件或截图",
+    "attachments.tooLarge": "文件过大",
+    "attachments.tooMany": "附件过多",
+    "attachments.readFailed": "无法读取文件",
+    "settings.commands": "命令",
+    "settings.commands.desc": "自定义斜杠命令",
+    "commands.title": "斜杠命令",
+    "commands.subtitle": "在聊天输入框中输入 / 时会显示自定义命令",
+    "commands.storage":
+      "项目命令保存在 .claude/commands，个人命令保存在 ~/.claude/commands",
+    "commands.palette": "斜杠命令",
+    "commands.source.builtin": "内置",
+    "commands.source.project": "项目",
+    "commands.source.user": "个人",
+    "commands.scope": "范围",
+    "commands.name": "命令名称",
+    "commands.namePlaceholder": "例如 fix-issue 或 frontend/component",
+    "commands.invalidName": "只能使用字母、数字、- 和 _，子文件夹用 / 分隔",
+    "commands.content": "命令提示词",
+    "commands.contentHint":
+      "description 和 argument-hint 会显示在命令面板中；$ARGUMENTS 会被替换为命令后的文本",
+    "commands.new": "新建命令",
+    "commands.edit": "编辑命令",
+    "commands.delete": "删除命令",
+    "commands.confirmDelete": "确定删除此命令文件？",
+    "commands.empty": "暂无自定义命令",
+    "fileMention.title": "项目文件",
+    "fileMention.loading": "正在索引项目文件...",
+    "fileMention.noMatches": "没有匹配的文件",
+    "fileMention.rangeHint": "在文件名后添加 :10-20 以引用指定行",
+    "fileMention.inlineLines": "内联所选行的内容",
+    "fileMention.truncated": "仅显示前 20,000 个文件",
+    "sessions.label": "并行对话",
+    "sessions.new": "新建并行对话",
+    "sessions.newInProject": "在此项目中新建对话",
+    "sessions.otherProjects": "其他项目和工作树",
+    "sessions.untitled": "新对话",
+    "sessions.close": "关闭对话",
+    "sessions.confirmClose": "Claude 仍在此对话中工作。要停止并关闭吗？",
+    "sessions.unread": "有新动态",
+    "sessions.status.idle": "空闲",
+    "sessions.status.running": "运行中",
+    "sessions.status.waiting_permission": "等待授权",
+    "sessions.status.done": "已完成",
+    "sessions.status.error": "出错",
+    "message.fork": "从此处分叉",
+    "message.edit": "编辑并重新发送",
+    "message.editResend": "重新发送",
+    "message.superseded": "之前的版本",
+    "message.editFailed": "无法重新发送编辑后的消息",
+    "message.loadEarlier": "显示更早的消息",
+    "message.loadingEarlier": "正在加载更早的消息...",
+    "message.loadFullOutput": "加载完整输出",
+    "message.loadFullOutputFailed": "无法加载完整输出",
+    "fork.failed": "分叉对话失败",
+    "queue.waiting": "已排队，Claude 完成后发送",
+    "queue.paused": "队列已暂停",
+    "queue.sendNext": "发送下一条",
+    "queue.clear": "清空",
+    "queue.moveUp": "上移",
+    "queue.moveDown": "下移",
+    "queue.remove": "移出队列",
+    "chat.queue": "排队",
     "chat.error": "错误",
     "chat.abort": "中止",
     "chat.newSession": "新会话",
@@ -240,6 +462,42 @@ const translations = {
     "permission.allowAlways": "始终允许",
     "permission.deny": "拒绝",
 
+    // Permission Modes
+    "permissionMode.label": "权限模式",
+    "permissionMode.default": "询问",
+    "permissionMode.default.desc": "运行需要授权的工具前先询问",
+    "permissionMode.plan": "计划",
+    "permissionMode.plan.desc": "Claude 只制定修改计划，不会编辑文件或运行命令",
+    "permissionMode.acceptEdits": "自动接受编辑",
+    "permissionMode.acceptEdits.desc": "文件编辑将自动应用，无需询问",
+    "permissionMode.bypassPermissions": "跳过权限",
+    "permissionMode.bypassPermissions.desc": "所有工具都将直接运行，请谨慎使用",
+    "permissionMode.bypassWarning":
+      "已启用跳过权限模式：Claude 可以在不询问的情况下编辑文件和运行命令。",
+
+    // Permission Rules
+    "permissionRules.title": "权限规则",
+    "permissionRules.subtitle":
+      "为每个项目设置 Claude 始终可以使用或禁止使用的工具和命令",
+    "permissionRules.project": "项目",
+    "permissionRules.noProjects": "未找到项目",
+    "permissionRules.storage":
+      "规则保存在项目的 .claude/settings.local.json 中，并随每次聊天请求发送。",
+    "permissionRules.kind": "规则类型",
+    "permissionRules.allow": "允许",
+    "permissionRules.deny": "拒绝",
+    "permissionRules.placeholder": "例如 Bash(npm run test:*) 或 Edit",
+    "permissionRules.add": "添加",
+    "permissionRules.importFile": "从文件导入",
+    "permissionRules.importProject": "从 .claude/settings.json 导入",
+    "permissionRules.importError": "无法从此文件读取权限规则",
+    "permissionRules.empty": "暂无规则",
+    "permissionRules.projectRules": "来自 .claude/settings.json 的共享规则",
+    "permissionRules.edit": "编辑规则",
+    "permissionRules.delete": "删除规则",
+    "permissionRules.save": "保存",
+    "permissionRules.cancel": "取消",
+
     // Tool Messages
     "tool.running": "运行中",
     "tool.completed": "已完成",
@@ -1,9 +1,11 @@
 import { useCallback } from "react";
 import { getAbortUrl } from "../../config/api";
+import { chatSocket } from "../../services/chatSocket";
 
 export function useAbortController() {
   // Helper function to perform abort request
   const performAbortRequest = useCallback(async (requestId: string) => {
+    if (chatSocket.abort(requestId)) return;
     await fetch(getAbortUrl(requestId), {
       method: "POST",
       headers: { "Content-Type": "application/json" },
@@ -1,5 +1,12 @@
 import { useState, useCallback } from "react";
-import type { AllMessage, ChatMessage, ThinkingMode } from "../../types";
+import type {
+  AllMessage,
+  ChatMessage,
+  PendingAttachment,
+  PermissionMode,
+  QueuedMessage,
+  ThinkingMode,
+} from "../../types";
 import { generateId } from "../../utils/id";
 
 export function useChatState() {
@@ -13,6 +20,10 @@ export function useChatState() {
   const [currentAssistantMessage, setCurrentAssistantMessage] =
     useState<ChatMessage | null>(null);
   const [thinkingMode, setThinkingMode] = useState<ThinkingMode>("auto");
+  const [permissionMode, setPermissionMode] =
+    useState<PermissionMode>("default");
+  const [queuedMessages, setQueuedMessages] = useState<QueuedMessage[]>([]);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
 
   const addMessage = useCallback((msg: AllMessage) => {
     setMessages((prev) => [...prev, msg]);
@@ -32,6 +43,45 @@ export function useChatState() {
     setInput("");
   }, []);
 
+  const enqueueMessage = useCallback((content: string) => {
+    setQueuedMessages((prev) => [
+      ...prev,
+      { id: generateId(), content, timestamp: Date.now() },
+    ]);
+  }, []);
+
+  const removeQueuedMessage = useCallback((id: string) => {
+    setQueuedMessages((prev) => prev.filter((msg) => msg.id !== id));
+  }, []);
+
+  const moveQueuedMessage = useCallback((id: string, offset: number) => {
+    setQueuedMessages((prev) => {
+      const index = prev.findIndex((msg) => msg.id === id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const clearQueuedMessages = useCallback(() => {
+    setQueuedMessages([]);
+  }, []);
+
+  const addAttachments = useCallback((added: PendingAttachment[]) => {
+    setAttachments((prev) => [...prev, ...added]);
+  }, []);
+
+  const removeAttachment = useCallback((id: string) => {
+    setAttachments((prev) => prev.filter((attachment) => attachment.id !== id));
+  }, []);
+
+  const clearAttachments = useCallback(() => {
+    setAttachments([]);
+  }, []);
+
   const generateRequestId = useCallback(() => {
     const requestId = generateId();
     setCurrentRequestId(requestId);
@@ -61,6 +111,9 @@ export function useChatState() {
     hasReceivedInit,
     currentAssistantMessage,
     thinkingMode,
+    permissionMode,
+    queuedMessages,
+    attachments,
 
     // State setters
     setMessages,
@@ -72,6 +125,7 @@ export function useChatState() {
     setHasReceivedInit,
     setCurrentAssistantMessage,
     setThinkingMode,
+    setPermissionMode,
 
     // Helper functions
     addMessage,
@@ -80,5 +134,12 @@ export function useChatState() {
     generateRequestId,
     resetRequestState,
     startRequest,
+    enqueueMessage,
+    removeQueuedMessage,
+    moveQueuedMessage,
+    clearQueuedMessages,
+    addAttachments,
+    removeAttachment,
+    clearAttachments,
   };
 }
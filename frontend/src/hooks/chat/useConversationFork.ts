@@ -0,0 +1,48 @@
+import { useState, useCallback } from "react";
+import type {
+  ForkConversationRequest,
+  ForkConversationResponse,
+} from "../../types";
+import { getConversationForkUrl } from "../../config/api";
+
+// Branches a stored conversation into a new session before one of its prompts
+export function useConversationFork(encodedProjectName: string | null) {
+  const [isForking, setIsForking] = useState(false);
+
+  // Resolves to the new session's ID; rejects with the server's reason
+  const forkConversation = useCallback(
+    async (
+      sessionId: string,
+      request: ForkConversationRequest,
+    ): Promise<string> => {
+      if (!encodedProjectName) {
+        throw new Error("The project's history folder is not known yet");
+      }
+
+      setIsForking(true);
+      try {
+        const response = await fetch(
+          getConversationForkUrl(encodedProjectName, sessionId),
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(request),
+          },
+        );
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(
+            data?.error || `Failed to fork conversation: ${response.status}`,
+          );
+        }
+        const data: ForkConversationResponse = await response.json();
+        return data.sessionId;
+      } finally {
+        setIsForking(false);
+      }
+    },
+    [encodedProjectName],
+  );
+
+  return { forkConversation, isForking };
+}
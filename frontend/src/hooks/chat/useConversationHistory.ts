@@ -0,0 +1,238 @@
+import { useState, useCallback, useRef } from "react";
+import type {
+  AllMessage,
+  ConversationPage,
+  TimestampedSDKMessage,
+  ToolResultContentResponse,
+  ToolResultMessage,
+} from "../../types";
+import { getConversationPageUrl, getToolResultUrl } from "../../config/api";
+import { HISTORY_CONSTANTS } from "../../utils/constants";
+import { useMessageProcessor } from "../streaming/useMessageProcessor";
+
+// Loads a stored conversation page by page, newest messages first
+export function useConversationHistory(encodedProjectName: string | null) {
+  const { createToolMessage, createToolResultMessage } = useMessageProcessor();
+  // Cursor of the next older page; null once the first message is loaded
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  // Session the cursor belongs to, also used to fetch shortened outputs
+  const sessionIdRef = useRef<string | null>(null);
+  // Guards against fetching the same page twice while scrolling
+  const loadingOlderRef = useRef(false);
+  // Transcript lines fetched so far, to tell whether a message is loaded
+  const loadedLinesRef = useRef(new Set<string>());
+
+  // Converts a page's transcript lines to chat messages, oldest first
+  const convertPage = useCallback(
+    (page: ConversationPage): AllMessage[] => {
+      const lines = page.messages as TimestampedSDKMessage[];
+      const chronological =
+        page.order === "desc" ? [...lines].reverse() : lines;
+      const converted: AllMessage[] = [];
+
+      for (const line of chronological) {
+        // Lets forks and search results name a message however much
+        // history is loaded
+        const { uuid } = line as { uuid?: string };
+        if (uuid) loadedLinesRef.current.add(uuid);
+        // Caveats and command output the CLI adds for the model only
+        if ((line as { isMeta?: boolean }).isMeta) continue;
+        const timestamp = Date.parse(line.timestamp) || Date.now();
+        const lineUuid = uuid ? { uuid } : {};
+
+        if (line.type === "user") {
+          const content = line.message.content;
+          if (typeof content === "string") {
+            converted.push({
+              type: "chat",
+              role: "user",
+              content,
+              timestamp,
+              ...lineUuid,
+            });
+            continue;
+          }
+
+          const textParts: string[] = [];
+          for (const block of content) {
+            if (block.type === "text" && block.text) textParts.push(block.text);
+          }
+          if (textParts.length > 0) {
+            converted.push({
+              type: "chat",
+              role: "user",
+              content: textParts.join("\n"),
+              timestamp,
+              ...lineUuid,
+            });
+          }
+
+          for (const block of content) {
+            if (block.type !== "tool_result") continue;
+            const toolUseId = block.tool_use_id;
+            const output =
+              typeof block.content === "string"
+                ? block.content
+                : JSON.stringify(block.content ?? "");
+            const fullLength = page.truncatedToolResults[toolUseId];
+            converted.push({
+              ...createToolResultMessage(
+                page.toolNames[toolUseId] || "Tool result",
+                output,
+              ),
+              timestamp,
+              ...lineUuid,
+              ...(fullLength ? { truncated: { toolUseId, fullLength } } : {}),
+            });
+          }
+        } else if (line.type === "assistant") {
+          for (const block of line.message.content) {
+            if (block.type === "text") {
+              // The CLI writes each block of a reply as its own line
+              const previous = converted[converted.length - 1];
+              if (previous?.type === "chat" && previous.role === "assistant") {
+                previous.content += block.text;
+              } else {
+                converted.push({
+                  type: "chat",
+                  role: "assistant",
+                  content: block.text,
+                  timestamp,
+                  ...lineUuid,
+                });
+              }
+            } else if (block.type === "tool_use") {
+              converted.push({
+                ...createToolMessage({
+                  name: block.name,
+                  input: block.input as Record<string, unknown>,
+                }),
+                timestamp,
+                ...lineUuid,
+              });
+            }
+          }
+        }
+      }
+
+      return converted;
+    },
+    [createToolMessage, createToolResultMessage],
+  );
+
+  const fetchPage = useCallback(
+    async (
+      sessionId: string,
+      cursor?: string,
+    ): Promise<ConversationPage | null> => {
+      if (!encodedProjectName) return null;
+
+      const response = await fetch(
+        getConversationPageUrl(encodedProjectName, sessionId, {
+          order: "desc",
+          limit: String(HISTORY_CONSTANTS.PAGE_SIZE),
+          ...(cursor ? { cursor } : {}),
+        }),
+      );
+      // Sessions the CLI never saw, e.g. ones only kept in the browser
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(
+          data?.error || `Failed to load conversation: ${response.status}`,
+        );
+      }
+      return response.json();
+    },
+    [encodedProjectName],
+  );
+
+  // Resolves to the newest messages, or null if the session has no history
+  const loadLatest = useCallback(
+    async (sessionId: string): Promise<AllMessage[] | null> => {
+      const page = await fetchPage(sessionId);
+      if (!page) return null;
+
+      sessionIdRef.current = sessionId;
+      loadedLinesRef.current = new Set();
+      setOlderCursor(page.nextCursor);
+      return convertPage(page);
+    },
+    [fetchPage, convertPage],
+  );
+
+  // Resolves to the page before the oldest loaded message
+  const loadOlder = useCallback(async (): Promise<AllMessage[]> => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId || olderCursor === null || loadingOlderRef.current) {
+      return [];
+    }
+
+    loadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+    try {
+      const page = await fetchPage(sessionId, olderCursor);
+      if (!page) return [];
+      setOlderCursor(page.nextCursor);
+      return convertPage(page);
+    } finally {
+      loadingOlderRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  }, [olderCursor, fetchPage, convertPage]);
+
+  // Resolves to the message with the output the page left out
+  const loadFullToolResult = useCallback(
+    async (message: ToolResultMessage): Promise<ToolResultMessage> => {
+      const sessionId = sessionIdRef.current;
+      if (!message.truncated || !sessionId || !encodedProjectName) {
+        return message;
+      }
+
+      const response = await fetch(
+        getToolResultUrl(
+          encodedProjectName,
+          sessionId,
+          message.truncated.toolUseId,
+        ),
+      );
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(
+          data?.error || `Failed to load tool output: ${response.status}`,
+        );
+      }
+      const data: ToolResultContentResponse = await response.json();
+      return {
+        ...createToolResultMessage(message.toolName, data.content),
+        timestamp: message.timestamp,
+        ...(message.uuid ? { uuid: message.uuid } : {}),
+      };
+    },
+    [encodedProjectName, createToolResultMessage],
+  );
+
+  // Forgets the loaded session, e.g. when a new conversation starts
+  const reset = useCallback(() => {
+    sessionIdRef.current = null;
+    loadedLinesRef.current = new Set();
+    setOlderCursor(null);
+  }, []);
+
+  // Whether the page holding a transcript line has been fetched
+  const hasLoadedLine = useCallback(
+    (uuid: string) => loadedLinesRef.current.has(uuid),
+    [],
+  );
+
+  return {
+    loadLatest,
+    loadOlder,
+    loadFullToolResult,
+    reset,
+    hasLoadedLine,
+    hasOlder: olderCursor !== null,
+    isLoadingOlder,
+  };
+}
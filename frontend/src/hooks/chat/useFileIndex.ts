@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { FileIndexResponse, FileLinesResponse } from "../../types";
+import { getFileLinesUrl, getFilesIndexUrl } from "../../config/api";
+import { FILE_MENTION_CONSTANTS } from "../../utils/constants";
+
+// Lazily loads the project's file list for the @-mention picker and reads
+// line ranges to inline into prompts
+export function useFileIndex(workingDirectory?: string) {
+  const [files, setFiles] = useState<string[]>([]);
+  const [root, setRoot] = useState<string | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const loadedAtRef = useRef(0);
+  const loadingRef = useRef(false);
+
+  // Drop the previous project's index when switching projects
+  useEffect(() => {
+    setFiles([]);
+    setRoot(null);
+    setTruncated(false);
+    loadedAtRef.current = 0;
+  }, [workingDirectory]);
+
+  // Fetches the index unless a recent one is already loaded
+  const ensureLoaded = useCallback(async () => {
+    if (!workingDirectory || loadingRef.current) return;
+    if (Date.now() - loadedAtRef.current < FILE_MENTION_CONSTANTS.INDEX_TTL_MS)
+      return;
+
+    loadingRef.current = true;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(getFilesIndexUrl(), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ path: workingDirectory }),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to index files: ${response.status}`);
+      }
+      const data: FileIndexResponse = await response.json();
+      setFiles(data.files);
+      setRoot(data.root);
+      setTruncated(data.truncated);
+      loadedAtRef.current = Date.now();
+    } catch (err) {
+      console.error("Failed to index files:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      loadingRef.current = false;
+      setIsLoading(false);
+    }
+  }, [workingDirectory]);
+
+  const readLines = useCallback(
+    async (
+      path: string,
+      startLine: number,
+      endLine?: number,
+    ): Promise<FileLinesResponse | null> => {
+      if (!root) return null;
+
+      setError(null);
+      try {
+        const response = await fetch(getFileLinesUrl(), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ root, path, startLine, endLine }),
+        });
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(
+            data?.error || `Failed to read file lines: ${response.status}`,
+          );
+        }
+        return await response.json();
+      } catch (err) {
+        console.error("Failed to read file lines:", err);
+        setError(err instanceof Error ? err.message : String(err));
+        return null;
+      }
+    },
+    [root],
+  );
+
+  return { files, truncated, isLoading, error, ensureLoaded, readLines };
+}
+
+export type FileIndex = ReturnType<typeof useFileIndex>;
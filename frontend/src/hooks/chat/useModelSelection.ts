@@ -0,0 +1,32 @@
+import type { ModelChoice } from "../../types";
+import { MODEL_CONFIGS } from "../../types";
+import { usePerProjectSetting } from "./usePerProjectSetting";
+
+const STORAGE_KEY_PREFIX = "modelChoice:";
+
+function parseModelChoice(saved: string | null): ModelChoice {
+  if (saved && saved in MODEL_CONFIGS) {
+    return saved as ModelChoice;
+  }
+  return "default";
+}
+
+function serializeModelChoice(choice: ModelChoice): string {
+  return choice;
+}
+
+// Remembers the selected model separately for each project directory
+export function useModelSelection(workingDirectory?: string) {
+  const [modelChoice, setModelChoice] = usePerProjectSetting(
+    STORAGE_KEY_PREFIX,
+    workingDirectory,
+    parseModelChoice,
+    serializeModelChoice,
+  );
+
+  return {
+    modelChoice,
+    modelConfig: MODEL_CONFIGS[modelChoice],
+    setModelChoice,
+  };
+}
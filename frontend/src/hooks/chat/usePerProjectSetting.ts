@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from "react";
+
+// A setting stored in localStorage separately for each project directory.
+// parse turns the stored text (null when unset) into a value, serialize the
+// reverse; both should be module-level so they stay stable.
+export function usePerProjectSetting<T>(
+  keyPrefix: string,
+  workingDirectory: string | undefined,
+  parse: (saved: string | null) => T,
+  serialize: (value: T) => string,
+) {
+  const storageKey = `${keyPrefix}${workingDirectory || "default"}`;
+  const [value, setValueState] = useState<T>(() =>
+    parse(localStorage.getItem(storageKey)),
+  );
+
+  // Reload the saved value when switching projects
+  useEffect(() => {
+    setValueState(parse(localStorage.getItem(storageKey)));
+  }, [storageKey, parse]);
+
+  const setValue = useCallback(
+    (next: T) => {
+      setValueState(next);
+      localStorage.setItem(storageKey, serialize(next));
+    },
+    [storageKey, serialize],
+  );
+
+  return [value, setValue] as const;
+}
@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from "react";
+import type { PermissionRules, PermissionRulesResponse } from "../../types";
+import { getPermissionRulesUrl } from "../../config/api";
+
+export type PermissionRuleKind = keyof PermissionRules;
+
+const EMPTY_RULES: PermissionRules = { allow: [], deny: [] };
+
+// Loads and saves the allow/deny rules stored in a project's .claude/settings.local.json
+export function usePermissionRules(workingDirectory?: string) {
+  const [rules, setRules] = useState<PermissionRules>(EMPTY_RULES);
+  const [projectRules, setProjectRules] =
+    useState<PermissionRules>(EMPTY_RULES);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    if (!workingDirectory) {
+      setRules(EMPTY_RULES);
+      setProjectRules(EMPTY_RULES);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(getPermissionRulesUrl(workingDirectory));
+      if (!response.ok) {
+        throw new Error(`Failed to load permission rules: ${response.status}`);
+      }
+      const data: PermissionRulesResponse = await response.json();
+      setRules(data.rules);
+      setProjectRules(data.projectRules);
+    } catch (err) {
+      console.error("Failed to load permission rules:", err);
+      setError(err instanceof Error ? err.message : String(err));
+      setRules(EMPTY_RULES);
+      setProjectRules(EMPTY_RULES);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workingDirectory]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const saveRules = useCallback(
+    async (nextRules: PermissionRules) => {
+      if (!workingDirectory) return false;
+
+      setError(null);
+      try {
+        const response = await fetch(getPermissionRulesUrl(), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ workingDirectory, ...nextRules }),
+        });
+        if (!response.ok) {
+          throw new Error(
+            `Failed to save permission rules: ${response.status}`,
+          );
+        }
+        const data: { rules: PermissionRules } = await response.json();
+        setRules(data.rules);
+        return true;
+      } catch (err) {
+        console.error("Failed to save permission rules:", err);
+        setError(err instanceof Error ? err.message : String(err));
+        return false;
+      }
+    },
+    [workingDirectory],
+  );
+
+  const addRule = useCallback(
+    (kind: PermissionRuleKind, rule: string) => {
+      if (rules[kind].includes(rule)) return Promise.resolve(true);
+      return saveRules({ ...rules, [kind]: [...rules[kind], rule] });
+    },
+    [rules, saveRules],
+  );
+
+  const removeRule = useCallback(
+    (kind: PermissionRuleKind, rule: string) => {
+      return saveRules({
+        ...rules,
+        [kind]: rules[kind].filter((existing) => existing !== rule),
+      });
+    },
+    [rules, saveRules],
+  );
+
+  return {
+    rules,
+    projectRules,
+    isLoading,
+    error,
+    loadRules,
+    saveRules,
+    addRule,
+    removeRule,
+  };
+}
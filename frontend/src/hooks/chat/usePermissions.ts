@@ -1,31 +1,77 @@
 import { useState, useCallback } from "react";
+import type { PermissionResponse } from "../../types";
+import { getPermissionUrl } from "../../config/api";
+import { chatSocket } from "../../services/chatSocket";
 
 interface PermissionDialog {
   isOpen: boolean;
   toolName: string;
   pattern: string;
   toolUseId: string;
+  // Set when the backend is paused waiting for an answer (canUseTool prompt)
+  pendingRequest?: {
+    requestId: string;
+    permissionId: string;
+  };
 }
 
 export function usePermissions() {
   const [allowedTools, setAllowedTools] = useState<string[]>([]);
-  const [permissionDialog, setPermissionDialog] =
-    useState<PermissionDialog | null>(null);
+  // Prompts are queued because parallel tool calls can ask at the same time
+  const [permissionQueue, setPermissionQueue] = useState<PermissionDialog[]>(
+    [],
+  );
+  const permissionDialog = permissionQueue[0] ?? null;
 
   const showPermissionDialog = useCallback(
-    (toolName: string, pattern: string, toolUseId: string) => {
-      setPermissionDialog({
-        isOpen: true,
-        toolName,
-        pattern,
-        toolUseId,
-      });
+    (
+      toolName: string,
+      pattern: string,
+      toolUseId: string,
+      pendingRequest?: PermissionDialog["pendingRequest"],
+    ) => {
+      setPermissionQueue((queue) => [
+        ...queue,
+        {
+          isOpen: true,
+          toolName,
+          pattern,
+          toolUseId,
+          pendingRequest,
+        },
+      ]);
+    },
+    [],
+  );
+
+  // Answer a prompt the backend is waiting on so the turn continues in place
+  const respondToPermissionRequest = useCallback(
+    async (requestId: string, response: PermissionResponse) => {
+      if (chatSocket.respondToPermission(requestId, response)) return;
+      try {
+        await fetch(getPermissionUrl(requestId), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(response),
+        });
+      } catch (error) {
+        console.error("Failed to send permission response:", error);
+      }
     },
     [],
   );
 
   const closePermissionDialog = useCallback(() => {
-    setPermissionDialog(null);
+    setPermissionQueue((queue) => queue.slice(1));
+  }, []);
+
+  // Drop a prompt that was answered elsewhere, e.g. on another device
+  const dismissPermissionRequest = useCallback((permissionId: string) => {
+    setPermissionQueue((queue) =>
+      queue.filter(
+        (dialog) => dialog.pendingRequest?.permissionId !== permissionId,
+      ),
+    );
   }, []);
 
   const allowToolTemporary = useCallback(
@@ -53,6 +99,8 @@ export function usePermissions() {
     permissionDialog,
     showPermissionDialog,
     closePermissionDialog,
+    respondToPermissionRequest,
+    dismissPermissionRequest,
     allowToolTemporary,
     allowToolPermanent,
     resetPermissions,
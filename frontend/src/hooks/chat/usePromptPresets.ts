@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from "react";
+import type { PromptPreset, PromptPresetsResponse } from "../../types";
+import { getPromptPresetsUrl } from "../../config/api";
+
+const STORAGE_KEY_PREFIX = "promptPreset:";
+
+// Loads the project's system prompt presets from the backend and remembers
+// which one is selected for each project directory
+export function usePromptPresets(workingDirectory?: string) {
+  const storageKey = `${STORAGE_KEY_PREFIX}${workingDirectory || "default"}`;
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  const [selectedPresetId, setSelectedPresetIdState] = useState<string | null>(
+    () => localStorage.getItem(storageKey),
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload the saved selection when switching projects
+  useEffect(() => {
+    setSelectedPresetIdState(localStorage.getItem(storageKey));
+  }, [storageKey]);
+
+  const setSelectedPresetId = useCallback(
+    (presetId: string | null) => {
+      setSelectedPresetIdState(presetId);
+      if (presetId) {
+        localStorage.setItem(storageKey, presetId);
+      } else {
+        localStorage.removeItem(storageKey);
+      }
+    },
+    [storageKey],
+  );
+
+  const loadPresets = useCallback(async () => {
+    if (!workingDirectory) {
+      setPresets([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(getPromptPresetsUrl(workingDirectory));
+      if (!response.ok) {
+        throw new Error(`Failed to load prompt presets: ${response.status}`);
+      }
+      const data: PromptPresetsResponse = await response.json();
+      setPresets(data.presets);
+    } catch (err) {
+      console.error("Failed to load prompt presets:", err);
+      setError(err instanceof Error ? err.message : String(err));
+      setPresets([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workingDirectory]);
+
+  useEffect(() => {
+    loadPresets();
+  }, [loadPresets]);
+
+  const savePresets = useCallback(
+    async (nextPresets: PromptPreset[]) => {
+      if (!workingDirectory) return false;
+
+      setError(null);
+      try {
+        const response = await fetch(getPromptPresetsUrl(), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ workingDirectory, presets: nextPresets }),
+        });
+        if (!response.ok) {
+          throw new Error(`Failed to save prompt presets: ${response.status}`);
+        }
+        const data: PromptPresetsResponse = await response.json();
+        setPresets(data.presets);
+        return true;
+      } catch (err) {
+        console.error("Failed to save prompt presets:", err);
+        setError(err instanceof Error ? err.message : String(err));
+        return false;
+      }
+    },
+    [workingDirectory],
+  );
+
+  // A selection pointing at a deleted preset behaves like "none"
+  const selectedPreset =
+    presets.find((preset) => preset.id === selectedPresetId) ?? null;
+
+  return {
+    presets,
+    selectedPreset,
+    setSelectedPresetId,
+    isLoading,
+    error,
+    loadPresets,
+    savePresets,
+  };
+}
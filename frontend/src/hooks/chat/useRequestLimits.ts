@@ -0,0 +1,36 @@
+import { usePerProjectSetting } from "./usePerProjectSetting";
+
+const STORAGE_KEY_PREFIX = "requestLimits:";
+
+// Guardrails sent with every chat request; undefined means no limit
+export interface RequestLimits {
+  maxTurns?: number;
+  maxCostUsd?: number;
+}
+
+function parseRequestLimits(saved: string | null): RequestLimits {
+  try {
+    const limits = JSON.parse(saved || "{}");
+    return {
+      ...(limits.maxTurns > 0 ? { maxTurns: limits.maxTurns } : {}),
+      ...(limits.maxCostUsd > 0 ? { maxCostUsd: limits.maxCostUsd } : {}),
+    };
+  } catch {
+    return {};
+  }
+}
+
+// Remembers the max-turns and cost ceiling separately for each project directory
+export function useRequestLimits(workingDirectory?: string) {
+  const [requestLimits, setRequestLimits] = usePerProjectSetting<RequestLimits>(
+    STORAGE_KEY_PREFIX,
+    workingDirectory,
+    parseRequestLimits,
+    JSON.stringify,
+  );
+
+  return {
+    requestLimits,
+    setRequestLimits,
+  };
+}
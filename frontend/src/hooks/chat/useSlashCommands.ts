@@ -0,0 +1,122 @@
+import { useState, useEffect, useCallback } from "react";
+import type {
+  CommandFileResponse,
+  CommandFileScope,
+  SaveCommandFileRequest,
+  SlashCommand,
+  SlashCommandsResponse,
+} from "../../types";
+import { getCommandFileUrl, getCommandsUrl } from "../../config/api";
+
+// Loads built-in and custom slash commands for a project and edits the
+// markdown files behind custom commands
+export function useSlashCommands(workingDirectory?: string) {
+  const [commands, setCommands] = useState<SlashCommand[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCommands = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(getCommandsUrl(workingDirectory));
+      if (!response.ok) {
+        throw new Error(`Failed to load slash commands: ${response.status}`);
+      }
+      const data: SlashCommandsResponse = await response.json();
+      setCommands(data.commands);
+    } catch (err) {
+      console.error("Failed to load slash commands:", err);
+      setError(err instanceof Error ? err.message : String(err));
+      setCommands([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workingDirectory]);
+
+  useEffect(() => {
+    loadCommands();
+  }, [loadCommands]);
+
+  const readCommandFile = useCallback(
+    async (scope: CommandFileScope, file: string) => {
+      setError(null);
+      try {
+        const response = await fetch(
+          getCommandFileUrl(scope, file, workingDirectory),
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to read command file: ${response.status}`);
+        }
+        const data: CommandFileResponse = await response.json();
+        return data.content;
+      } catch (err) {
+        console.error("Failed to read command file:", err);
+        setError(err instanceof Error ? err.message : String(err));
+        return null;
+      }
+    },
+    [workingDirectory],
+  );
+
+  const saveCommandFile = useCallback(
+    async (scope: CommandFileScope, file: string, content: string) => {
+      setError(null);
+      try {
+        const request: SaveCommandFileRequest = {
+          scope,
+          file,
+          content,
+          workingDirectory,
+        };
+        const response = await fetch(getCommandFileUrl(), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(request),
+        });
+        if (!response.ok) {
+          throw new Error(`Failed to save command file: ${response.status}`);
+        }
+        await loadCommands();
+        return true;
+      } catch (err) {
+        console.error("Failed to save command file:", err);
+        setError(err instanceof Error ? err.message : String(err));
+        return false;
+      }
+    },
+    [workingDirectory, loadCommands],
+  );
+
+  const deleteCommandFile = useCallback(
+    async (scope: CommandFileScope, file: string) => {
+      setError(null);
+      try {
+        const response = await fetch(
+          getCommandFileUrl(scope, file, workingDirectory),
+          { method: "DELETE" },
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to delete command file: ${response.status}`);
+        }
+        await loadCommands();
+        return true;
+      } catch (err) {
+        console.error("Failed to delete command file:", err);
+        setError(err instanceof Error ? err.message : String(err));
+        return false;
+      }
+    },
+    [workingDirectory, loadCommands],
+  );
+
+  return {
+    commands,
+    isLoading,
+    error,
+    loadCommands,
+    readCommandFile,
+    saveCommandFile,
+    deleteCommandFile,
+  };
+}
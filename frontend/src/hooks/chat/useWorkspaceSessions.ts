@@ -0,0 +1,127 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+import type { SessionActivity, WorkspaceSession } from "../../types";
+import { generateId } from "../../utils/id";
+
+function createWorkspaceSession(
+  workingDirectory?: string,
+  sessionId: string | null = null,
+): WorkspaceSession {
+  return {
+    id: generateId(),
+    workingDirectory,
+    sessionId: null,
+    sessionToLoad: sessionId ? { sessionId } : null,
+    status: "idle",
+    messageCount: 0,
+    title: null,
+    unread: false,
+  };
+}
+
+// Chats running in parallel in one page, each with its own stream; tracks
+// which one is shown and which ones changed while in the background
+export function useWorkspaceSessions(
+  workingDirectory?: string,
+  initialSessionId: string | null = null,
+) {
+  const [sessions, setSessions] = useState<WorkspaceSession[]>(() => [
+    createWorkspaceSession(workingDirectory, initialSessionId),
+  ]);
+  const [activeId, setActiveId] = useState(() => sessions[0].id);
+  // Read inside state updaters, which must not depend on a stale render
+  const activeIdRef = useRef(activeId);
+
+  useEffect(() => {
+    activeIdRef.current = activeId;
+  }, [activeId]);
+
+  const updateSession = useCallback(
+    (id: string, update: (session: WorkspaceSession) => WorkspaceSession) => {
+      setSessions((prev) =>
+        prev.map((session) => (session.id === id ? update(session) : session)),
+      );
+    },
+    [],
+  );
+
+  const activateSession = useCallback(
+    (id: string) => {
+      activeIdRef.current = id;
+      setActiveId(id);
+      updateSession(id, (session) => ({ ...session, unread: false }));
+    },
+    [updateSession],
+  );
+
+  const addSession = useCallback((sessionWorkingDirectory?: string) => {
+    const session = createWorkspaceSession(sessionWorkingDirectory);
+    setSessions((prev) => [...prev, session]);
+    activeIdRef.current = session.id;
+    setActiveId(session.id);
+    return session;
+  }, []);
+
+  // Returns the session shown after closing, or null if nothing changed
+  const closeSession = useCallback(
+    (id: string) => {
+      const index = sessions.findIndex((session) => session.id === id);
+      if (index === -1 || sessions.length === 1) return null;
+
+      const remaining = sessions.filter((session) => session.id !== id);
+      setSessions(remaining);
+      if (id !== activeIdRef.current) {
+        return remaining.find((s) => s.id === activeIdRef.current) ?? null;
+      }
+
+      const next = remaining[Math.min(index, remaining.length - 1)];
+      activateSession(next.id);
+      return next;
+    },
+    [sessions, activateSession],
+  );
+
+  // New messages in a background chat mark it unread
+  const updateActivity = useCallback(
+    (id: string, activity: SessionActivity) => {
+      updateSession(id, (session) => ({
+        ...session,
+        ...activity,
+        unread:
+          id !== activeIdRef.current &&
+          (session.unread || activity.messageCount > session.messageCount),
+      }));
+    },
+    [updateSession],
+  );
+
+  const setSessionId = useCallback(
+    (id: string, sessionId: string) => {
+      updateSession(id, (session) => ({ ...session, sessionId }));
+    },
+    [updateSession],
+  );
+
+  const requestSessionLoad = useCallback(
+    (id: string, sessionId: string) => {
+      updateSession(id, (session) => ({
+        ...session,
+        sessionToLoad: { sessionId },
+      }));
+    },
+    [updateSession],
+  );
+
+  const activeSession =
+    sessions.find((session) => session.id === activeId) ?? sessions[0];
+
+  return {
+    sessions,
+    activeSession,
+    activateSession,
+    addSession,
+    closeSession,
+    updateActivity,
+    setSessionId,
+    requestSessionLoad,
+  };
+}
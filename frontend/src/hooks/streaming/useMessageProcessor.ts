@@ -6,6 +6,7 @@ import type {
   ToolMessage,
   ToolResultMessage,
   SDKMessage,
+  PermissionRequest,
 } from "../../types";
 import { MESSAGE_CONSTANTS } from "../../utils/constants";
 import { formatToolArguments } from "../../utils/toolUtils";
@@ -27,6 +28,10 @@ export interface StreamingContext {
     toolUseId: string,
   ) => void;
   onAbortRequest?: () => void;
+  onPermissionRequest?: (request: PermissionRequest) => void;
+  // A prompt was answered, possibly on another device mirroring the session
+  onPermissionResolved?: (permissionId: string) => void;
+  onDone?: () => void;
 }
 
 export function useMessageProcessor() {
@@ -205,38 +205,60 @@ export function useStreamParser() {
     ],
   );
 
+  const processStreamResponse = useCallback(
+    (data: StreamResponse, context: StreamingContext) => {
+      if (data.type === "claude_json" && data.data) {
+        // data.data is already an SDKMessage object, no need to parse
+        const claudeData = data.data as SDKMessage;
+        processClaudeData(claudeData, context);
+      } else if (data.type === "error") {
+        const errorMessage: SystemMessage = {
+          type: "error",
+          subtype: "stream_error",
+          message: data.error || "Unknown error",
+          timestamp: Date.now(),
+        };
+        context.addMessage(errorMessage);
+
+        // If error indicates Claude Code exit, provide more context
+        if (data.error && data.error.includes("Claude Code process exited")) {
+          console.error("Claude Code process terminated unexpectedly");
+        }
+      } else if (data.type === "permission_request" && data.permission) {
+        // Claude is paused until the user answers this prompt
+        context.onPermissionRequest?.(data.permission);
+      } else if (data.type === "permission_resolved" && data.resolved) {
+        context.onPermissionResolved?.(data.resolved.permissionId);
+      } else if (data.type === "budget_exceeded" && data.budget) {
+        // Replaces done/aborted, so queued follow-ups are not sent
+        context.addMessage({
+          type: "budget_exceeded",
+          budget: data.budget,
+          timestamp: Date.now(),
+        });
+        context.setCurrentAssistantMessage(null);
+      } else if (data.type === "done") {
+        context.onDone?.();
+      } else if (data.type === "aborted") {
+        const abortedMessage: AbortMessage = {
+          type: "system",
+          subtype: "abort",
+          message: "Operation was aborted by user",
+          timestamp: Date.now(),
+        };
+        context.addMessage(abortedMessage);
+        context.setCurrentAssistantMessage(null);
+      }
+    },
+    [processClaudeData],
+  );
+
   const processStreamLine = useCallback(
-    (line: string, context: StreamingContext) => {
+    (line: string, context: StreamingContext): StreamResponse | null => {
       try {
         const data: StreamResponse = JSON.parse(line);
-
-        if (data.type === "claude_json" && data.data) {
-          // data.data is already an SDKMessage object, no need to parse
-          const claudeData = data.data as SDKMessage;
-          processClaudeData(claudeData, context);
-        } else if (data.type === "error") {
-          const errorMessage: SystemMessage = {
-            type: "error",
-            subtype: "stream_error",
-            message: data.error || "Unknown error",
-            timestamp: Date.now(),
-          };
-          context.addMessage(errorMessage);
-
-          // If error indicates Claude Code exit, provide more context
-          if (data.error && data.error.includes("Claude Code process exited")) {
-            console.error("Claude Code process terminated unexpectedly");
-          }
-        } else if (data.type === "aborted") {
-          const abortedMessage: AbortMessage = {
-            type: "system",
-            subtype: "abort",
-            message: "Operation was aborted by user",
-            timestamp: Date.now(),
-          };
-          context.addMessage(abortedMessage);
-          context.setCurrentAssistantMessage(null);
-        }
+        processStreamResponse(data, context);
+        return data;
       } catch (parseError) {
         console.error("Failed to parse stream line:", parseError);
         console.error("Raw line:", line);
@@ -252,12 +274,14 @@ export function useStreamParser() {
           };
           context.addMessage(errorMessage);
         }
+        return null;
       }
     },
-    [processClaudeData],
+    [processStreamResponse],
   );
 
   return {
     processStreamLine,
+    processStreamResponse,
   };
 }
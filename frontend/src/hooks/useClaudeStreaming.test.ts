@@ -28,6 +28,7 @@ describe("useClaudeStreaming", () => {
       mcp_servers: [],
       model: "claude-3-sonnet",
       permissionMode: "default" as const,
+      slash_commands: [],
     };
 
     const streamLine = JSON.stringify({
@@ -189,6 +190,7 @@ describe("useClaudeStreaming", () => {
       mcp_servers: [],
       model: "claude-3-sonnet",
       permissionMode: "default" as const,
+      slash_commands: [],
     };
 
     const streamLine = JSON.stringify({
@@ -343,4 +345,78 @@ describe("useClaudeStreaming", () => {
       }),
     );
   });
+
+  it("reattaches to the chat stream after a dropped connection", async () => {
+    vi.useFakeTimers();
+    const { result } = renderHook(() => useClaudeStreaming());
+
+    const mockContext = {
+      currentAssistantMessage: null,
+      setCurrentAssistantMessage: vi.fn(),
+      addMessage: vi.fn(),
+      updateLastMessage: vi.fn(),
+    };
+
+    // The first response closes after seq 1 without a terminal event
+    const initialResponse = new Response(
+      JSON.stringify({ type: "claude_json", seq: 1 }) + "\n",
+    );
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(
+        new Response(
+          JSON.stringify({ type: "error", error: "replayed", seq: 2 }) + "\n",
+        ),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const reading = result.current.readChatStream(
+      "req-1",
+      initialResponse,
+      mockContext,
+    );
+    await vi.runAllTimersAsync();
+    await reading;
+
+    expect(fetchMock).toHaveBeenCalledWith("/api/chat/req-1/stream?after=1");
+    expect(mockContext.addMessage).toHaveBeenCalledTimes(1);
+    expect(mockContext.addMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "error", message: "replayed" }),
+    );
+
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("reports a refused chat request as an error without reconnecting", async () => {
+    const { result } = renderHook(() => useClaudeStreaming());
+
+    const mockContext = {
+      currentAssistantMessage: null,
+      setCurrentAssistantMessage: vi.fn(),
+      addMessage: vi.fn(),
+      updateLastMessage: vi.fn(),
+    };
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    await result.current.readChatStream(
+      "req-1",
+      new Response(
+        JSON.stringify({ error: "maxTurns must be a positive integer" }),
+        { status: 400 },
+      ),
+      mockContext,
+    );
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(mockContext.addMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "error",
+        message: "maxTurns must be a positive integer",
+      }),
+    );
+
+    vi.unstubAllGlobals();
+  });
 });
@@ -1,10 +1,170 @@
 // Simplified useClaudeStreaming hook that uses the new modular hooks
+import { useCallback } from "react";
 import { useStreamParser } from "./streaming/useStreamParser";
+import type { StreamingContext } from "./streaming/useMessageProcessor";
+import type { ChatRequest, StreamResponse } from "../types";
+import { getChatStreamUrl, getChatUrl } from "../config/api";
+import { STREAM_CONSTANTS } from "../utils/constants";
+import { chatSocket } from "../services/chatSocket";
+
+// A request another device runs in a watched session, shown through context
+export interface MirroredRequest {
+  context: StreamingContext;
+  onFinished: () => void;
+}
+
+// Stream responses after which the backend closes the stream
+const TERMINAL_TYPES: StreamResponse["type"][] = [
+  "done",
+  "error",
+  "aborted",
+  "budget_exceeded",
+];
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 export function useClaudeStreaming() {
-  const { processStreamLine } = useStreamParser();
+  const { processStreamLine, processStreamResponse } = useStreamParser();
+
+  // Reads a chat NDJSON stream. If the connection drops before a terminal
+  // event, reattaches to the backend buffer and replays what was missed.
+  const readChatStream = useCallback(
+    async (
+      requestId: string,
+      initialResponse: Response,
+      context: StreamingContext,
+      shouldStop: () => boolean = () => false,
+    ) => {
+      let response: Response | null = initialResponse;
+      let lastSeq = 0;
+      let finished = false;
+      let attempts = 0;
+
+      while (!finished && !shouldStop()) {
+        try {
+          if (!response) {
+            response = await fetch(getChatStreamUrl(requestId, lastSeq));
+            // The stream is gone (expired or never buffered), nothing to replay
+            if (response.status === 404) return;
+          }
+          // A refused request answers with a JSON error instead of a stream
+          if (!response.ok) {
+            const data = await response.json().catch(() => null);
+            processStreamResponse(
+              {
+                type: "error",
+                error: data?.error || `Chat request failed: ${response.status}`,
+              },
+              context,
+            );
+            return;
+          }
+          if (!response.body) throw new Error("No response body");
+
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+          let pending = "";
+
+          while (!shouldStop()) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            // Keep partial lines until the rest of the line arrives
+            pending += decoder.decode(value, { stream: true });
+            const lines = pending.split("\n");
+            pending = lines.pop() ?? "";
+
+            for (const line of lines) {
+              if (!line.trim() || shouldStop()) continue;
+              const data = processStreamLine(line, context);
+              if (!data) continue;
+
+              // Events are counted once received so reconnects skip them
+              if (data.seq) lastSeq = data.seq;
+              if (TERMINAL_TYPES.includes(data.type)) finished = true;
+              attempts = 0;
+            }
+          }
+
+          if (pending.trim() && !shouldStop()) {
+            const data = processStreamLine(pending, context);
+            if (data?.seq) lastSeq = data.seq;
+            if (data && TERMINAL_TYPES.includes(data.type)) finished = true;
+          }
+        } catch (error) {
+          if (shouldStop()) return;
+          if (attempts >= STREAM_CONSTANTS.MAX_RECONNECT_ATTEMPTS) {
+            throw error;
+          }
+          console.warn("[Stream] Connection lost, reconnecting:", error);
+        }
+
+        if (finished || shouldStop()) return;
+
+        attempts++;
+        if (attempts > STREAM_CONSTANTS.MAX_RECONNECT_ATTEMPTS) {
+          throw new TypeError(
+            "Failed to fetch: chat stream ended unexpectedly",
+          );
+        }
+        response = null;
+        await wait(STREAM_CONSTANTS.RECONNECT_DELAY_MS * attempts);
+      }
+    },
+    [processStreamLine, processStreamResponse],
+  );
+
+  // Sends a chat request over the WebSocket when available, otherwise
+  // falls back to the HTTP NDJSON stream
+  const streamChat = useCallback(
+    async (
+      request: ChatRequest,
+      context: StreamingContext,
+      shouldStop: () => boolean = () => false,
+    ) => {
+      if (await chatSocket.connect()) {
+        await chatSocket.sendChat(request, (event) => {
+          if (!shouldStop()) processStreamResponse(event, context);
+        });
+        return;
+      }
+
+      const response = await fetch(getChatUrl(), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+      await readChatStream(request.requestId, response, context, shouldStop);
+    },
+    [processStreamResponse, readChatStream],
+  );
+
+  // Follows requests other devices start in the session. Mirroring needs
+  // the WebSocket, so nothing is watched on the HTTP fallback.
+  // Resolves to a function that stops watching.
+  const watchSession = useCallback(
+    async (
+      sessionId: string,
+      onRequest: (requestId: string, message: string) => MirroredRequest | null,
+    ): Promise<() => void> => {
+      if (!(await chatSocket.connect())) return () => {};
+
+      return chatSocket.watchSession(sessionId, (requestId, message) => {
+        const mirror = onRequest(requestId, message);
+        if (!mirror) return null;
+        return {
+          onEvent: (event) => processStreamResponse(event, mirror.context),
+          onFinished: mirror.onFinished,
+        };
+      });
+    },
+    [processStreamResponse],
+  );
 
   return {
     processStreamLine,
+    readChatStream,
+    streamChat,
+    watchSession,
   };
 }
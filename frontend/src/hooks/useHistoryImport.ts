@@ -0,0 +1,52 @@
+import { useState, useCallback } from "react";
+import type { HistoryImportRequest, HistoryImportResponse } from "../types";
+import { getHistoryImportUrl } from "../config/api";
+
+// Uploads a session file or export bundle from another machine into a
+// project's history
+export function useHistoryImport(
+  encodedName: string | null,
+  workingDirectory: string,
+) {
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Resolves to the imported session, or null if the upload was rejected
+  const importHistory = useCallback(
+    async (file: File): Promise<HistoryImportResponse | null> => {
+      if (!encodedName) return null;
+
+      setIsImporting(true);
+      setError(null);
+      try {
+        const request: HistoryImportRequest = {
+          content: await file.text(),
+          fileName: file.name,
+          projectPath: workingDirectory,
+        };
+        const response = await fetch(getHistoryImportUrl(encodedName), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(request),
+        });
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(
+            [data?.error, data?.details].filter(Boolean).join(": ") ||
+              `Import failed: ${response.status}`,
+          );
+        }
+        return (await response.json()) as HistoryImportResponse;
+      } catch (err) {
+        console.error("Failed to import history:", err);
+        setError(err instanceof Error ? err.message : String(err));
+        return null;
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [encodedName, workingDirectory],
+  );
+
+  return { importHistory, isImporting, error };
+}
@@ -0,0 +1,64 @@
+import { useState, useCallback, useRef } from "react";
+import type { HistorySearchResponse, HistorySearchResult } from "../types";
+import { getHistorySearchUrl } from "../config/api";
+
+export interface HistorySearchParams {
+  query: string;
+  project?: string; // Encoded project name; all projects when empty
+  from?: string;
+  to?: string;
+  tool?: string;
+  file?: string;
+}
+
+// Searches prompts, replies and tool calls across conversation histories
+export function useHistorySearch() {
+  const [results, setResults] = useState<HistorySearchResult[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest search may update the results
+  const searchIdRef = useRef(0);
+
+  const search = useCallback(async (params: HistorySearchParams) => {
+    const searchId = ++searchIdRef.current;
+    const { query, project, from, to, tool, file } = params;
+    if (!query.trim()) {
+      setResults([]);
+      setTruncated(false);
+      setError(null);
+      return;
+    }
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        getHistorySearchUrl({
+          q: query.trim(),
+          ...(project ? { project } : {}),
+          ...(from ? { from } : {}),
+          ...(to ? { to } : {}),
+          ...(tool?.trim() ? { tool: tool.trim() } : {}),
+          ...(file?.trim() ? { file: file.trim() } : {}),
+        }),
+      );
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Search failed: ${response.status}`);
+      }
+      const data: HistorySearchResponse = await response.json();
+      if (searchId !== searchIdRef.current) return;
+      setResults(data.results);
+      setTruncated(data.truncated);
+    } catch (err) {
+      if (searchId !== searchIdRef.current) return;
+      console.error("Failed to search history:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (searchId === searchIdRef.current) setIsSearching(false);
+    }
+  }, []);
+
+  return { results, truncated, isSearching, error, search };
+}
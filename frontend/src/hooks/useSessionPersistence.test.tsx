@@ -234,20 +234,29 @@ describe("useSessionPersistence", () => {
     });
   });
 
-  it("should use sendBeacon on unmount", () => {
-    const { unmount } = renderHook(
-      () =>
-        useSessionPersistence({
-          messages: mockMessages,
-          currentSessionId: "test-session-123",
-          workingDirectory: "/test/project",
-          onSessionIdChange: mockOnSessionIdChange,
-        }),
-      { wrapper },
-    );
+  it("should use sendBeacon only when the page is hidden", () => {
+    const { rerender } = renderHook((props) => useSessionPersistence(props), {
+      wrapper,
+      initialProps: {
+        messages: mockMessages.slice(0, 1),
+        currentSessionId: "test-session-123",
+        workingDirectory: "/test/project",
+        onSessionIdChange: mockOnSessionIdChange,
+      },
+    });
+
+    // Streamed messages are left to the debounced save
+    rerender({
+      messages: mockMessages,
+      currentSessionId: "test-session-123",
+      workingDirectory: "/test/project",
+      onSessionIdChange: mockOnSessionIdChange,
+    });
+    expect(global.navigator.sendBeacon).not.toHaveBeenCalled();
 
-    unmount();
+    window.dispatchEvent(new Event("pagehide"));
 
+    expect(global.navigator.sendBeacon).toHaveBeenCalledTimes(1);
     expect(global.navigator.sendBeacon).toHaveBeenCalledWith(
       "/api/sessions/test-session-123/save",
       expect.any(Blob),
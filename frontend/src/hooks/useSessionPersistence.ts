@@ -1,6 +1,6 @@
 import { useEffect, useCallback, useRef } from "react";
 import { useLocation } from "react-router-dom";
-import type { AllMessage } from "../types";
+import type { AllMessage, SessionSaveRequest } from "../types";
 import {
   sessionStorage,
   type SessionMetadata,
@@ -12,6 +12,8 @@ interface UseSessionPersistenceProps {
   currentSessionId: string | null;
   workingDirectory?: string;
   onSessionIdChange: (sessionId: string) => void;
+  // Adopt the URL's sessionId on mount; off when the caller loads sessions itself
+  syncWithUrl?: boolean;
 }
 
 export function useSessionPersistence({
@@ -19,10 +21,26 @@ export function useSessionPersistence({
   currentSessionId,
   workingDirectory,
   onSessionIdChange,
+  syncWithUrl = true,
 }: UseSessionPersistenceProps) {
   const location = useLocation();
   const saveTimeoutRef = useRef<number | null>(null);
   const lastSavedMessagesRef = useRef<number>(0);
+  // Server revision of the session as last read from storage; a page-unload
+  // save built on another revision is refused by the server
+  const syncedRevisionRef = useRef<{
+    sessionId: string;
+    revision: number;
+  } | null>(null);
+  // What the page-unload save sends, read outside of React
+  const unloadStateRef = useRef({
+    currentSessionId,
+    messages,
+    workingDirectory,
+  });
+  useEffect(() => {
+    unloadStateRef.current = { currentSessionId, messages, workingDirectory };
+  }, [currentSessionId, messages, workingDirectory]);
 
   // Generate session title from first user message
   const generateSessionTitle = useCallback((messages: AllMessage[]): string => {
@@ -59,6 +77,10 @@ export function useSessionPersistence({
 
     try {
       const existingSession = await sessionStorage.getSession(currentSessionId);
+      syncedRevisionRef.current = {
+        sessionId: currentSessionId,
+        revision: existingSession?.sync?.revision ?? 0,
+      };
 
       const metadata: SessionMetadata = existingSession?.metadata || {
         sessionId: currentSessionId,
@@ -113,31 +135,45 @@ export function useSessionPersistence({
     };
   }, [messages, currentSessionId, debouncedSave]);
 
-  // Save immediately when session ID changes or component unmounts
+  // Send messages the debounced save has not stored yet when the page goes
+  // away; the server only adds them if nothing changed there since
   useEffect(() => {
-    return () => {
-      if (currentSessionId && messages.length > lastSavedMessagesRef.current) {
-        // Save synchronously on unmount
-        const session = {
-          metadata: {
-            sessionId: currentSessionId,
-            projectPath: workingDirectory || "default",
-            title: generateSessionTitle(messages),
-            createdAt: Date.now(),
-            lastUpdated: Date.now(),
-            messageCount: messages.length,
-          },
-          messages,
-        };
-
-        // Use sendBeacon for reliable save on page unload
-        const blob = new Blob([JSON.stringify(session)], {
-          type: "application/json",
-        });
-        navigator.sendBeacon(`/api/sessions/${currentSessionId}/save`, blob);
+    const handlePageHide = () => {
+      const { currentSessionId, messages, workingDirectory } =
+        unloadStateRef.current;
+      if (
+        !currentSessionId ||
+        messages.length <= lastSavedMessagesRef.current
+      ) {
+        return;
       }
+      const synced = syncedRevisionRef.current;
+      const revision =
+        synced?.sessionId === currentSessionId ? synced.revision : 0;
+      const session: SessionSaveRequest = {
+        metadata: {
+          sessionId: currentSessionId,
+          projectPath: workingDirectory || "default",
+          title: generateSessionTitle(messages),
+          createdAt: Date.now(),
+          lastUpdated: Date.now(),
+          messageCount: messages.length,
+          revision,
+        },
+        messages,
+        baseRevision: revision,
+      };
+
+      // Use sendBeacon for reliable save on page unload
+      const blob = new Blob([JSON.stringify(session)], {
+        type: "application/json",
+      });
+      navigator.sendBeacon(`/api/sessions/${currentSessionId}/save`, blob);
     };
-  }, [currentSessionId, messages, workingDirectory, generateSessionTitle]);
+
+    window.addEventListener("pagehide", handlePageHide);
+    return () => window.removeEventListener("pagehide", handlePageHide);
+  }, [generateSessionTitle]);
 
   // Load session from URL params
   const loadSession = useCallback(
@@ -146,6 +182,10 @@ export function useSessionPersistence({
         const session = await sessionStorage.getSession(sessionId);
         if (session) {
           lastSavedMessagesRef.current = session.messages.length;
+          syncedRevisionRef.current = {
+            sessionId,
+            revision: session.sync?.revision ?? 0,
+          };
           return session.messages;
         }
       } catch (error) {
@@ -158,6 +198,7 @@ export function useSessionPersistence({
 
   // Initialize session on mount (only load existing, don't create new)
   useEffect(() => {
+    if (!syncWithUrl) return;
     const searchParams = new URLSearchParams(location.search);
     const urlSessionId = searchParams.get("sessionId");
 
@@ -171,7 +212,13 @@ export function useSessionPersistence({
       });
     }
     // Don't create new session automatically - wait for first message
-  }, [location.search, currentSessionId, onSessionIdChange, loadSession]);
+  }, [
+    syncWithUrl,
+    location.search,
+    currentSessionId,
+    onSessionIdChange,
+    loadSession,
+  ]);
 
   return {
     saveSession,
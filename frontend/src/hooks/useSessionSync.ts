@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from "react";
+import type { SessionConflict } from "../services/sessionStorage";
+import {
+  sessionSync,
+  type ConflictChoice,
+  type SyncStatus,
+} from "../services/sessionSync";
+
+// Follows session syncing and the conflicts it leaves for the user
+export function useSessionSync() {
+  const [status, setStatus] = useState<SyncStatus>(sessionSync.getStatus());
+  const [conflicts, setConflicts] = useState<Record<string, SessionConflict>>(
+    {},
+  );
+
+  const loadConflicts = useCallback(async () => {
+    try {
+      setConflicts(await sessionSync.getConflicts());
+    } catch (error) {
+      console.error("Failed to load sync conflicts:", error);
+    }
+  }, []);
+
+  useEffect(() => sessionSync.subscribe(setStatus), []);
+
+  // Each finished sync may have found or settled conflicts
+  useEffect(() => {
+    loadConflicts();
+  }, [status.lastSyncedAt, loadConflicts]);
+
+  const resolveConflict = useCallback(
+    async (sessionId: string, choice: ConflictChoice) => {
+      await sessionSync.resolveConflict(sessionId, choice);
+      await loadConflicts();
+    },
+    [loadConflicts],
+  );
+
+  const syncNow = useCallback(() => sessionSync.sync(), []);
+
+  return { status, conflicts, resolveConflict, syncNow };
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ChatSocketService } from "./chatSocket";
+import { STREAM_CONSTANTS } from "../utils/constants";
+import type {
+  StreamResponse,
+  WebSocketClientMessage,
+  WebSocketServerMessage,
+} from "../types";
+
+// Records every socket the service opens so tests can drive the server side
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  sent: WebSocketClientMessage[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor() {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: WebSocketServerMessage) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+function latestSocket(): FakeWebSocket {
+  return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+}
+
+async function connectService(): Promise<ChatSocketService> {
+  const service = new ChatSocketService();
+  const connected = service.connect();
+  latestSocket().open();
+  expect(await connected).toBe(true);
+  return service;
+}
+
+function streamFrame(
+  requestId: string,
+  event: StreamResponse,
+): WebSocketServerMessage {
+  return { type: "stream", requestId, event };
+}
+
+describe("ChatSocketService", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    FakeWebSocket.instances = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("resumes after a reconnect without delivering replayed events twice", async () => {
+    const service = await connectService();
+    const received: (number | undefined)[] = [];
+    const finished = service.sendChat(
+      { message: "hi", requestId: "r1" },
+      (event) => received.push(event.seq),
+    );
+
+    const first = latestSocket();
+    first.receive(streamFrame("r1", { type: "claude_json", seq: 1 }));
+    first.receive(streamFrame("r1", { type: "claude_json", seq: 2 }));
+    first.close();
+
+    await vi.advanceTimersByTimeAsync(STREAM_CONSTANTS.RECONNECT_DELAY_MS);
+    const second = latestSocket();
+    expect(second).not.toBe(first);
+    second.open();
+
+    expect(second.sent).toContainEqual({
+      type: "resume",
+      requestId: "r1",
+      after: 2,
+    });
+
+    // The backend replays from its buffer, which may overlap
+    second.receive(streamFrame("r1", { type: "claude_json", seq: 2 }));
+    second.receive(streamFrame("r1", { type: "done", seq: 3 }));
+
+    await finished;
+    expect(received).toEqual([1, 2, 3]);
+  });
+
+  it("fails waiting streams once reconnecting gives up", async () => {
+    const service = await connectService();
+    const finished = service.sendChat(
+      { message: "hi", requestId: "r1" },
+      () => {},
+    );
+    const failure = expect(finished).rejects.toThrow(
+      "Failed to fetch: WebSocket connection lost",
+    );
+
+    latestSocket().close();
+    for (
+      let attempt = 1;
+      attempt <= STREAM_CONSTANTS.MAX_RECONNECT_ATTEMPTS;
+      attempt++
+    ) {
+      await vi.advanceTimersByTimeAsync(
+        STREAM_CONSTANTS.RECONNECT_DELAY_MS * attempt,
+      );
+      // The backend stays unreachable
+      latestSocket().close();
+    }
+
+    await failure;
+    expect(FakeWebSocket.instances).toHaveLength(
+      STREAM_CONSTANTS.MAX_RECONNECT_ATTEMPTS + 1,
+    );
+  });
+
+  it("ignores stream frames for requests it is not waiting on", async () => {
+    const service = await connectService();
+    const onEvent = vi.fn();
+    const finished = service.sendChat(
+      { message: "hi", requestId: "r1" },
+      onEvent,
+    );
+
+    latestSocket().receive(streamFrame("other", { type: "done", seq: 1 }));
+    latestSocket().receive(streamFrame("r1", { type: "done", seq: 1 }));
+
+    await finished;
+    expect(onEvent).toHaveBeenCalledTimes(1);
+  });
+});
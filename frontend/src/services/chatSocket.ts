@@ -0,0 +1,280 @@
+import type {
+  ChatRequest,
+  PermissionResponse,
+  StreamResponse,
+  WebSocketClientMessage,
+  WebSocketServerMessage,
+} from "../types";
+import { getWebSocketUrl } from "../config/api";
+import { STREAM_CONSTANTS } from "../utils/constants";
+
+// Stream responses after which the backend stops sending events for a request
+const TERMINAL_TYPES: StreamResponse["type"][] = [
+  "done",
+  "error",
+  "aborted",
+  "budget_exceeded",
+];
+
+interface ActiveStream {
+  onEvent: (event: StreamResponse) => void;
+  lastSeq: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// Follows a request another device started in a watched session
+export interface MirroredStream {
+  onEvent: (event: StreamResponse) => void;
+  // Called once the request ends or the connection is lost for good
+  onFinished: () => void;
+}
+
+// Decides whether to follow a request started in a watched session
+export type SessionRequestHandler = (
+  requestId: string,
+  message: string,
+) => MirroredStream | null;
+
+/**
+ * Chat transport over the backend's /api/ws WebSocket.
+ * Multiplexes every chat request on one connection and resumes in-flight
+ * streams after a reconnect. Callers fall back to HTTP when connect() fails.
+ */
+export class ChatSocketService {
+  private socket: WebSocket | null = null;
+  private connecting: Promise<boolean> | null = null;
+  private streams = new Map<string, ActiveStream>();
+  private watchedSessions = new Map<string, SessionRequestHandler>();
+  private unavailableUntil = 0;
+  private reconnectAttempts = 0;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  get isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Opens the connection if needed
+   * @returns false when the WebSocket endpoint is unreachable
+   */
+  connect(): Promise<boolean> {
+    if (this.isConnected) return Promise.resolve(true);
+    if (this.connecting) return this.connecting;
+    if (
+      typeof WebSocket === "undefined" ||
+      Date.now() < this.unavailableUntil
+    ) {
+      return Promise.resolve(false);
+    }
+
+    this.connecting = new Promise<boolean>((resolve) => {
+      let opened = false;
+      const socket = new WebSocket(getWebSocketUrl());
+      const connectTimeout = setTimeout(
+        () => socket.close(),
+        STREAM_CONSTANTS.WEBSOCKET_CONNECT_TIMEOUT_MS,
+      );
+
+      socket.onopen = () => {
+        opened = true;
+        clearTimeout(connectTimeout);
+        this.socket = socket;
+        this.connecting = null;
+        this.reconnectAttempts = 0;
+        this.resetIdleTimer();
+        this.resumeStreams();
+        resolve(true);
+      };
+
+      socket.onmessage = (event) => {
+        this.resetIdleTimer();
+        try {
+          this.handleMessage(JSON.parse(event.data) as WebSocketServerMessage);
+        } catch (error) {
+          console.error("[WebSocket] Invalid message:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        clearTimeout(connectTimeout);
+        if (!opened) {
+          // Remember the failure so requests go straight to HTTP for a while
+          this.connecting = null;
+          this.unavailableUntil =
+            Date.now() + STREAM_CONSTANTS.WEBSOCKET_RETRY_AFTER_MS;
+          resolve(false);
+          return;
+        }
+        if (this.socket === socket) {
+          this.socket = null;
+          this.clearIdleTimer();
+          this.handleDisconnect();
+        }
+      };
+    });
+
+    return this.connecting;
+  }
+
+  /**
+   * Starts a chat request and streams its events to onEvent
+   * @returns Promise resolving once a terminal event has been delivered
+   */
+  sendChat(
+    request: ChatRequest,
+    onEvent: (event: StreamResponse) => void,
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.streams.set(request.requestId, {
+        onEvent,
+        lastSeq: 0,
+        resolve,
+        reject,
+      });
+      if (!this.send({ type: "chat", request })) {
+        this.streams.delete(request.requestId);
+        reject(new TypeError("Failed to fetch: WebSocket is not connected"));
+      }
+    });
+  }
+
+  /**
+   * Asks the backend to abort a chat request
+   * @returns false if the socket is not connected
+   */
+  abort(requestId: string): boolean {
+    return this.send({ type: "abort", requestId });
+  }
+
+  /**
+   * Answers a tool permission prompt
+   * @returns false if the socket is not connected
+   */
+  respondToPermission(
+    requestId: string,
+    response: PermissionResponse,
+  ): boolean {
+    return this.send({ type: "permission_response", requestId, response });
+  }
+
+  /**
+   * Mirrors requests other devices run in a session to onRequest
+   * The watch is renewed automatically after reconnecting
+   * @returns Function that stops watching the session
+   */
+  watchSession(sessionId: string, onRequest: SessionRequestHandler) {
+    this.watchedSessions.set(sessionId, onRequest);
+    this.send({ type: "watch_session", sessionId });
+
+    return () => {
+      if (this.watchedSessions.get(sessionId) !== onRequest) return;
+      this.watchedSessions.delete(sessionId);
+      this.send({ type: "unwatch_session", sessionId });
+    };
+  }
+
+  private send(message: WebSocketClientMessage): boolean {
+    if (!this.socket || !this.isConnected) return false;
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  private handleMessage(message: WebSocketServerMessage) {
+    switch (message.type) {
+      case "ping":
+        this.send({ type: "pong" });
+        break;
+      case "stream": {
+        const stream = this.streams.get(message.requestId);
+        if (!stream) break;
+        // Replayed events can overlap with ones already delivered
+        if (message.event.seq && message.event.seq <= stream.lastSeq) break;
+        if (message.event.seq) stream.lastSeq = message.event.seq;
+
+        stream.onEvent(message.event);
+        if (TERMINAL_TYPES.includes(message.event.type)) {
+          this.streams.delete(message.requestId);
+          stream.resolve();
+        }
+        break;
+      }
+      case "session_request": {
+        // Requests this client started or already follows are skipped
+        if (this.streams.has(message.requestId)) break;
+        const mirror = this.watchedSessions.get(message.sessionId)?.(
+          message.requestId,
+          message.message,
+        );
+        if (!mirror) break;
+        this.streams.set(message.requestId, {
+          onEvent: mirror.onEvent,
+          lastSeq: 0,
+          resolve: mirror.onFinished,
+          reject: mirror.onFinished,
+        });
+        break;
+      }
+      case "error":
+        console.warn("[WebSocket] Server error:", message.error);
+        break;
+    }
+  }
+
+  private resumeStreams() {
+    for (const [requestId, stream] of this.streams) {
+      this.send({ type: "resume", requestId, after: stream.lastSeq });
+    }
+    for (const sessionId of this.watchedSessions.keys()) {
+      this.send({ type: "watch_session", sessionId });
+    }
+  }
+
+  private handleDisconnect() {
+    // Watched sessions keep reconnecting so mirrors see the next request
+    if (this.streams.size === 0 && this.watchedSessions.size === 0) return;
+
+    this.reconnectAttempts++;
+    if (this.reconnectAttempts > STREAM_CONSTANTS.MAX_RECONNECT_ATTEMPTS) {
+      this.reconnectAttempts = 0;
+      this.failStreams();
+      return;
+    }
+
+    console.warn("[WebSocket] Connection lost, reconnecting");
+    setTimeout(async () => {
+      // Streams are still waiting, so retry even after a failed connect
+      this.unavailableUntil = 0;
+      if (!(await this.connect())) {
+        this.handleDisconnect();
+      }
+    }, STREAM_CONSTANTS.RECONNECT_DELAY_MS * this.reconnectAttempts);
+  }
+
+  private failStreams() {
+    const error = new TypeError("Failed to fetch: WebSocket connection lost");
+    for (const stream of this.streams.values()) {
+      stream.reject(error);
+    }
+    this.streams.clear();
+  }
+
+  // The server pings every 30s; treat a longer silence as a dead connection
+  private resetIdleTimer() {
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => {
+      console.warn("[WebSocket] Heartbeat timed out");
+      this.socket?.close();
+    }, STREAM_CONSTANTS.WEBSOCKET_IDLE_TIMEOUT_MS);
+  }
+
+  private clearIdleTimer() {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
+
+// Export singleton instance
+export const chatSocket = new ChatSocketService();
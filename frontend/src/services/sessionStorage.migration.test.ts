@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import {
+  SessionStorageService,
+  DB_VERSION,
+  SESSION_SCHEMA_VERSION,
+  migrateSessionRecord,
+  type StoredSession,
+} from "./sessionStorage";
+
+// Sessions as the first version of the app stored them: no schema
+// version, no sync state and no tags unless the user added some
+const V1_SESSIONS = [
+  {
+    metadata: {
+      sessionId: "v1-session-a",
+      projectPath: "/work/app",
+      title: "Fix the login form",
+      createdAt: 1700000000000,
+      lastUpdated: 1700000060000,
+      messageCount: 2,
+      firstMessage: "Fix the login form",
+      lastMessage: "Done",
+    },
+    messages: [
+      {
+        type: "chat",
+        role: "user",
+        content: "Fix the login form",
+        timestamp: 1700000000000,
+      },
+      {
+        type: "chat",
+        role: "assistant",
+        content: "Done",
+        timestamp: 1700000060000,
+      },
+    ],
+  },
+  {
+    metadata: {
+      sessionId: "v1-session-b",
+      projectPath: "/work/other",
+      title: "Tagged session",
+      createdAt: 1700000100000,
+      lastUpdated: 1700000100000,
+      messageCount: 0,
+      tags: ["bug"],
+    },
+    messages: [],
+  },
+];
+
+// Creates the database exactly as the first version of the app did
+function createV1Database(factory: IDBFactory): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open("ClaudeWebUIDB", 1);
+
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore("sessions", {
+        keyPath: "metadata.sessionId",
+      });
+      store.createIndex("sessionId", "metadata.sessionId", { unique: true });
+      store.createIndex("projectPath", "metadata.projectPath", {
+        unique: false,
+      });
+      store.createIndex("lastUpdated", "metadata.lastUpdated", {
+        unique: false,
+      });
+      V1_SESSIONS.forEach((session) => store.put(session));
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function getDatabaseVersion(factory: IDBFactory): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open("ClaudeWebUIDB");
+    request.onsuccess = () => {
+      resolve(request.result.version);
+      request.result.close();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe("SessionStorageService migrations", () => {
+  it("upgrades a version 1 database without losing sessions", async () => {
+    const factory = new IDBFactory();
+    await createV1Database(factory);
+
+    const storage = new SessionStorageService(factory);
+    const session = await storage.getSession("v1-session-a");
+
+    expect(session?.schemaVersion).toBe(SESSION_SCHEMA_VERSION);
+    expect(session?.metadata.title).toBe("Fix the login form");
+    expect(session?.metadata.tags).toEqual([]);
+    expect(session?.messages).toEqual(V1_SESSIONS[0].messages);
+    // Sessions from before syncing are uploaded on the next sync
+    expect(session?.sync).toEqual({ revision: 0, dirty: true });
+
+    const tagged = await storage.getSession("v1-session-b");
+    expect(tagged?.metadata.tags).toEqual(["bug"]);
+
+    expect(await getDatabaseVersion(factory)).toBe(DB_VERSION);
+  });
+
+  it("keeps the version 1 indexes working", async () => {
+    const factory = new IDBFactory();
+    await createV1Database(factory);
+
+    const storage = new SessionStorageService(factory);
+    const sessions = await storage.getSessionsByProject("/work/other");
+
+    expect(sessions.map((s) => s.sessionId)).toEqual(["v1-session-b"]);
+  });
+
+  it("writes new sessions in the current schema", async () => {
+    const storage = new SessionStorageService(new IDBFactory());
+    await storage.saveSession({
+      metadata: { ...V1_SESSIONS[1].metadata, sessionId: "new-session" },
+      messages: [],
+    });
+
+    const session = await storage.getSession("new-session");
+    expect(session?.schemaVersion).toBe(SESSION_SCHEMA_VERSION);
+    expect(session?.sync).toEqual({ revision: 0, dirty: true });
+  });
+});
+
+describe("migrateSessionRecord", () => {
+  it("leaves records in the current schema unchanged", () => {
+    const current: StoredSession = {
+      ...(V1_SESSIONS[1] as StoredSession),
+      sync: { revision: 3, dirty: false },
+      schemaVersion: SESSION_SCHEMA_VERSION,
+    };
+
+    expect(migrateSessionRecord(current)).toEqual(current);
+  });
+
+  it("upgrades exports written by the first version", () => {
+    const migrated = migrateSessionRecord(V1_SESSIONS[0] as StoredSession);
+
+    expect(migrated.schemaVersion).toBe(SESSION_SCHEMA_VERSION);
+    expect(migrated.sync).toEqual({ revision: 0, dirty: true });
+  });
+});
+
+describe("version 3 migration", () => {
+  const withPreview = {
+    ...(V1_SESSIONS[0] as StoredSession),
+    messages: [
+      {
+        type: "chat",
+        role: "user",
+        content: "What is wrong here?",
+        timestamp: 1700000000000,
+        attachments: [
+          {
+            name: "shot.png",
+            mimeType: "image/png",
+            size: 2048,
+            previewUrl: "data:image/png;base64,aGk=",
+          },
+        ],
+      },
+    ],
+    sync: { revision: 4, dirty: false },
+    schemaVersion: 2,
+  } as unknown as StoredSession;
+
+  it("drops image previews from stored messages and re-uploads them", () => {
+    const migrated = migrateSessionRecord(withPreview);
+
+    expect(migrated.messages[0]).toMatchObject({
+      attachments: [{ name: "shot.png", mimeType: "image/png", size: 2048 }],
+    });
+    expect(migrated.messages[0]).not.toHaveProperty("attachments.0.previewUrl");
+    expect(migrated.sync).toEqual({ revision: 4, dirty: true });
+  });
+
+  it("leaves sessions without previews in sync", () => {
+    const migrated = migrateSessionRecord({
+      ...withPreview,
+      messages: V1_SESSIONS[0].messages,
+    } as StoredSession);
+
+    expect(migrated.sync).toEqual({ revision: 4, dirty: false });
+  });
+});
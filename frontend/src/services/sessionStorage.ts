@@ -1,7 +1,6 @@
 import type { AllMessage } from "../types";
 
 const DB_NAME = "ClaudeWebUIDB";
-const DB_VERSION = 1;
 const SESSIONS_STORE = "sessions";
 const SESSION_INDEX = "sessionId";
 const PROJECT_INDEX = "projectPath";
@@ -19,22 +18,150 @@ export interface SessionMetadata {
   tags?: string[];
 }
 
+// Title and tag values another device saved while this one changed them too
+export interface SessionConflict {
+  title?: string;
+  tags?: string[];
+}
+
+// How a stored session relates to its copy on the server
+export interface SessionSyncState {
+  revision: number; // Server revision last synced; 0 if never uploaded
+  dirty: boolean; // Changed here since that revision
+  // Title and tags at that revision, to tell which device changed them
+  base?: { title: string; tags: string[] };
+  conflict?: SessionConflict;
+}
+
 export interface StoredSession {
   metadata: SessionMetadata;
   messages: AllMessage[];
+  sync?: SessionSyncState; // Missing on sessions saved before syncing
+  // Shape the record was written in; missing on the first version
+  schemaVersion?: number;
+}
+
+// A change to the shape of stored sessions, upgrading records written in
+// the previous schema version
+interface RecordMigration {
+  version: number;
+  migrate: (session: StoredSession) => StoredSession;
 }
 
-class SessionStorageService {
+// Ordered; add a step here whenever StoredSession or AllMessage change
+const RECORD_MIGRATIONS: RecordMigration[] = [
+  {
+    // Sessions from before syncing have never been uploaded
+    version: 2,
+    migrate: (session) => ({
+      ...session,
+      metadata: { ...session.metadata, tags: session.metadata.tags ?? [] },
+      sync: session.sync ?? { revision: 0, dirty: true },
+    }),
+  },
+  {
+    // Image attachments kept their full data: URL as a preview
+    version: 3,
+    migrate: (session) => {
+      let stripped = false;
+      const messages = session.messages.map((message) => {
+        if (message.type !== "chat" || !message.attachments) return message;
+        return {
+          ...message,
+          attachments: message.attachments.map((attachment) => {
+            const { name, mimeType, size } = attachment;
+            if ("previewUrl" in attachment) stripped = true;
+            return { name, mimeType, size };
+          }),
+        };
+      });
+      if (!stripped) return session;
+      // Upload the smaller copy so the server drops the previews too
+      return {
+        ...session,
+        messages,
+        sync: session.sync && { ...session.sync, dirty: true },
+      };
+    },
+  },
+];
+
+export const SESSION_SCHEMA_VERSION =
+  RECORD_MIGRATIONS[RECORD_MIGRATIONS.length - 1].version;
+
+// Brings a record written in any earlier schema version up to date
+export function migrateSessionRecord(session: StoredSession): StoredSession {
+  const from = session.schemaVersion ?? 1;
+  return RECORD_MIGRATIONS.filter((step) => step.version > from).reduce(
+    (record, step) => ({
+      ...step.migrate(record),
+      schemaVersion: step.version,
+    }),
+    { ...session, schemaVersion: from },
+  );
+}
+
+// A schema change, run inside the versionchange transaction
+interface DatabaseMigration {
+  version: number;
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Rewrites every record in the current schema
+function rewriteRecords(_db: IDBDatabase, transaction: IDBTransaction) {
+  const request = transaction.objectStore(SESSIONS_STORE).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.update(migrateSessionRecord(cursor.value));
+    cursor.continue();
+  };
+}
+
+// Ordered schema changes; record changes are in RECORD_MIGRATIONS
+const DB_MIGRATIONS: DatabaseMigration[] = [
+  {
+    version: 1,
+    upgrade: (db) => {
+      const store = db.createObjectStore(SESSIONS_STORE, {
+        keyPath: "metadata.sessionId",
+      });
+
+      // Create indexes for efficient querying
+      store.createIndex(SESSION_INDEX, "metadata.sessionId", {
+        unique: true,
+      });
+      store.createIndex(PROJECT_INDEX, "metadata.projectPath", {
+        unique: false,
+      });
+      store.createIndex(TIMESTAMP_INDEX, "metadata.lastUpdated", {
+        unique: false,
+      });
+    },
+  },
+];
+
+// Bumped with either migration list so a new record schema triggers an upgrade
+export const DB_VERSION = Math.max(
+  DB_MIGRATIONS[DB_MIGRATIONS.length - 1].version,
+  SESSION_SCHEMA_VERSION,
+);
+
+export class SessionStorageService {
   private db: IDBDatabase | null = null;
   private initPromise: Promise<void> | null = null;
+  private changeListeners = new Set<() => void>();
+  private factory: IDBFactory;
 
-  constructor() {
+  // Tests pass their own IndexedDB implementation
+  constructor(factory: IDBFactory = indexedDB) {
+    this.factory = factory;
     this.initPromise = this.initDB();
   }
 
   private async initDB(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      const request = this.factory.open(DB_NAME, DB_VERSION);
 
       request.onerror = () => {
         console.error("Failed to open IndexedDB:", request.error);
@@ -43,35 +170,41 @@ class SessionStorageService {
 
       request.onsuccess = () => {
         this.db = request.result;
+        // Let a newer version of the app open in another tab upgrade it,
+        // and reopen on the next call
+        this.db.onversionchange = () => {
+          this.db?.close();
+          this.db = null;
+          this.initPromise = null;
+        };
         resolve();
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Create sessions store if it doesn't exist
-        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
-          const store = db.createObjectStore(SESSIONS_STORE, {
-            keyPath: "metadata.sessionId",
-          });
-
-          // Create indexes for efficient querying
-          store.createIndex(SESSION_INDEX, "metadata.sessionId", {
-            unique: true,
-          });
-          store.createIndex(PROJECT_INDEX, "metadata.projectPath", {
-            unique: false,
-          });
-          store.createIndex(TIMESTAMP_INDEX, "metadata.lastUpdated", {
-            unique: false,
-          });
+        const db = request.result;
+        const transaction = request.transaction!;
+        for (const step of DB_MIGRATIONS) {
+          if (step.version > event.oldVersion) {
+            step.upgrade(db, transaction);
+          }
         }
+        if (event.oldVersion > 0) {
+          rewriteRecords(db, transaction);
+        }
+      };
+
+      // Another tab has the database open at an older version
+      request.onblocked = () => {
+        console.warn(
+          "[SessionStorage] Database upgrade waiting for other tabs to close",
+        );
       };
     });
   }
 
   private async ensureDB(): Promise<IDBDatabase> {
     if (!this.db) {
+      this.initPromise ??= this.initDB();
       await this.initPromise;
     }
     if (!this.db) {
@@ -80,10 +213,22 @@ class SessionStorageService {
     return this.db;
   }
 
+  // Notifies the listener after every change made on this device
+  onLocalChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private notifyLocalChange() {
+    this.changeListeners.forEach((listener) => listener());
+  }
+
   async saveSession(session: StoredSession): Promise<void> {
     const db = await this.ensureDB();
 
-    return new Promise((resolve, reject) => {
+    await new Promise<void>((resolve, reject) => {
       const transaction = db.transaction([SESSIONS_STORE], "readwrite");
       const store = transaction.objectStore(SESSIONS_STORE);
 
@@ -100,13 +245,77 @@ class SessionStorageService {
         ].content.slice(0, 100);
       }
 
-      const request = store.put(session);
+      // Callers rebuild sessions from their metadata, so the sync state is
+      // carried over from the stored record
+      const existing = store.get(session.metadata.sessionId);
+      existing.onsuccess = () => {
+        const sync = session.sync ??
+          (existing.result as StoredSession | undefined)?.sync ?? {
+            revision: 0,
+            dirty: true,
+          };
+        const request = store.put({
+          ...session,
+          sync: { ...sync, dirty: true },
+          schemaVersion: SESSION_SCHEMA_VERSION,
+        });
+        request.onerror = () => reject(request.error);
+      };
+      existing.onerror = () => reject(existing.error);
+      transaction.oncomplete = () => resolve();
+    });
+
+    this.notifyLocalChange();
+  }
+
+  // Stores a session as synced with the server, keeping its timestamps
+  async storeSyncedSession(session: StoredSession): Promise<void> {
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SESSIONS_STORE], "readwrite");
+      const store = transaction.objectStore(SESSIONS_STORE);
+      const request = store.put({
+        ...session,
+        schemaVersion: SESSION_SCHEMA_VERSION,
+      });
 
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
   }
 
+  // Records that a pushed copy was stored as the given server revision;
+  // sessions changed again while it was being pushed stay dirty
+  async markSessionSynced(
+    sessionId: string,
+    metadata: SessionMetadata & { revision: number },
+    pushedUpdate: number,
+  ): Promise<void> {
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SESSIONS_STORE], "readwrite");
+      const store = transaction.objectStore(SESSIONS_STORE);
+      const request = store.get(sessionId);
+
+      request.onsuccess = () => {
+        const session: StoredSession | undefined = request.result;
+        if (!session) return;
+        session.sync = {
+          ...session.sync,
+          revision: metadata.revision,
+          dirty: session.metadata.lastUpdated !== pushedUpdate,
+          base: { title: metadata.title, tags: metadata.tags ?? [] },
+        };
+        store.put(session);
+      };
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   async getSession(sessionId: string): Promise<StoredSession | null> {
     const db = await this.ensureDB();
 
@@ -149,6 +358,20 @@ class SessionStorageService {
     });
   }
 
+  // Every stored session with its messages and sync state
+  async getAllStoredSessions(): Promise<StoredSession[]> {
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SESSIONS_STORE], "readonly");
+      const store = transaction.objectStore(SESSIONS_STORE);
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   async getAllSessions(): Promise<SessionMetadata[]> {
     const db = await this.ensureDB();
 
@@ -187,7 +410,7 @@ class SessionStorageService {
     query: string,
     projectPath?: string,
   ): Promise<SessionMetadata[]> {
-    let sessions = projectPath
+    const sessions = projectPath
       ? await this.getSessionsByProject(projectPath)
       : await this.getAllSessions();
 
@@ -232,12 +455,15 @@ class SessionStorageService {
   }
 
   async importSession(jsonData: string): Promise<string> {
-    const session: StoredSession = JSON.parse(jsonData);
+    // Exports from older versions are in their schema
+    const session = migrateSessionRecord(JSON.parse(jsonData));
 
     // Generate new session ID to avoid conflicts
     const newSessionId = `imported_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     session.metadata.sessionId = newSessionId;
     session.metadata.title = `[Imported] ${session.metadata.title}`;
+    // The copy is a new session to the server
+    session.sync = { revision: 0, dirty: true };
 
     await this.saveSession(session);
     return newSessionId;
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from "vitest";
+import { mergeRemoteSession, resolveSessionConflict } from "./sessionSync";
+import type { StoredSession } from "./sessionStorage";
+import type { AllMessage, ServerSession } from "../types";
+
+// The merge helpers never touch IndexedDB
+vi.mock("./sessionStorage", () => ({ sessionStorage: {} }));
+
+function chat(content: string): AllMessage {
+  return { type: "chat", role: "user", content, timestamp: 1000 };
+}
+
+function localSession(
+  overrides: Partial<StoredSession["metadata"]>,
+  messages: AllMessage[],
+  sync: StoredSession["sync"],
+): StoredSession {
+  return {
+    metadata: {
+      sessionId: "s1",
+      projectPath: "/work/app",
+      title: "Original",
+      createdAt: 1000,
+      lastUpdated: 2000,
+      messageCount: messages.length,
+      tags: [],
+      ...overrides,
+    },
+    messages,
+    sync,
+  };
+}
+
+function remoteSession(
+  overrides: Partial<ServerSession["metadata"]>,
+  messages: AllMessage[],
+): ServerSession {
+  return {
+    metadata: {
+      sessionId: "s1",
+      projectPath: "/work/app",
+      title: "Original",
+      createdAt: 1000,
+      lastUpdated: 3000,
+      messageCount: messages.length,
+      tags: [],
+      revision: 2,
+      ...overrides,
+    },
+    messages,
+  };
+}
+
+const base = { title: "Original", tags: [] };
+
+describe("mergeRemoteSession", () => {
+  it("takes the server's copy when nothing changed locally", () => {
+    const merged = mergeRemoteSession(
+      localSession({}, [chat("a")], { revision: 1, dirty: false, base }),
+      remoteSession({ title: "Renamed" }, [chat("a"), chat("b")]),
+    );
+
+    expect(merged.metadata.title).toBe("Renamed");
+    expect(merged.messages).toHaveLength(2);
+    expect(merged.sync).toEqual({
+      revision: 2,
+      dirty: false,
+      base: { title: "Renamed", tags: [] },
+    });
+    expect(merged.metadata).not.toHaveProperty("revision");
+  });
+
+  it("keeps changes each device made to different values", () => {
+    const merged = mergeRemoteSession(
+      localSession({ tags: ["bug"] }, [chat("a"), chat("b"), chat("c")], {
+        revision: 1,
+        dirty: true,
+        base,
+      }),
+      remoteSession({ title: "Renamed on phone" }, [chat("a"), chat("b")]),
+    );
+
+    expect(merged.metadata.title).toBe("Renamed on phone");
+    expect(merged.metadata.tags).toEqual(["bug"]);
+    expect(merged.messages).toHaveLength(3);
+    expect(merged.sync?.conflict).toBeUndefined();
+    expect(merged.sync?.dirty).toBe(true);
+    expect(merged.sync?.revision).toBe(2);
+  });
+
+  it("records a conflict when both devices changed the title", () => {
+    const merged = mergeRemoteSession(
+      localSession({ title: "Desktop title" }, [chat("a")], {
+        revision: 1,
+        dirty: true,
+        base,
+      }),
+      remoteSession({ title: "Phone title" }, [chat("a")]),
+    );
+
+    expect(merged.metadata.title).toBe("Desktop title");
+    expect(merged.sync?.conflict).toEqual({ title: "Phone title" });
+    expect(merged.sync?.base).toEqual({ title: "Phone title", tags: [] });
+  });
+
+  it("keeps the messages both devices added after the shared ones", () => {
+    const merged = mergeRemoteSession(
+      localSession({}, [chat("a"), chat("desktop")], {
+        revision: 1,
+        dirty: true,
+        base,
+      }),
+      remoteSession({}, [chat("a"), chat("phone")]),
+    );
+
+    expect(merged.messages).toEqual([
+      chat("a"),
+      chat("phone"),
+      chat("desktop"),
+    ]);
+    expect(merged.metadata.messageCount).toBe(3);
+    expect(merged.sync?.dirty).toBe(true);
+  });
+
+  it("takes the server's messages when they extend the local ones", () => {
+    const merged = mergeRemoteSession(
+      localSession({ tags: ["bug"] }, [chat("a")], {
+        revision: 1,
+        dirty: true,
+        base,
+      }),
+      remoteSession({}, [chat("a"), chat("b")]),
+    );
+
+    expect(merged.messages).toEqual([chat("a"), chat("b")]);
+    expect(merged.sync?.dirty).toBe(true);
+  });
+
+  it("treats sessions saved before syncing as changed locally", () => {
+    const merged = mergeRemoteSession(
+      localSession({ tags: ["a"] }, [chat("a")], undefined),
+      remoteSession({ tags: ["b"] }, [chat("a")]),
+    );
+
+    expect(merged.sync?.conflict).toEqual({ tags: ["b"] });
+  });
+});
+
+describe("resolveSessionConflict", () => {
+  const conflicted = localSession({ title: "Desktop title" }, [chat("a")], {
+    revision: 2,
+    dirty: true,
+    base: { title: "Phone title", tags: [] },
+    conflict: { title: "Phone title" },
+  });
+
+  it("keeps this device's values", () => {
+    const resolved = resolveSessionConflict(conflicted, "local");
+
+    expect(resolved.metadata.title).toBe("Desktop title");
+    expect(resolved.sync).toEqual({
+      revision: 2,
+      dirty: true,
+      base: { title: "Phone title", tags: [] },
+    });
+  });
+
+  it("takes the other device's values", () => {
+    const resolved = resolveSessionConflict(conflicted, "remote");
+
+    expect(resolved.metadata.title).toBe("Phone title");
+    expect(resolved.sync?.conflict).toBeUndefined();
+  });
+});
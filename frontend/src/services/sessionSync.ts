@@ -0,0 +1,464 @@
+import type {
+  AllMessage,
+  ServerSession,
+  ServerSessionMetadata,
+  SessionConflictResponse,
+  SessionListResponse,
+  SessionSaveRequest,
+} from "../types";
+import { getSessionsUrl, getSessionUrl } from "../config/api";
+import { SESSION_SYNC_CONSTANTS } from "../utils/constants";
+import {
+  sessionStorage,
+  type SessionConflict,
+  type StoredSession,
+} from "./sessionStorage";
+
+export type SyncState = "idle" | "syncing" | "offline" | "error";
+
+export interface SyncStatus {
+  state: SyncState;
+  lastSyncedAt: number | null;
+  error?: string;
+}
+
+// Which device's title and tags win a conflict
+export type ConflictChoice = "local" | "remote";
+
+// Sessions saved before syncing existed have never been uploaded
+function isDirty(session: StoredSession): boolean {
+  return session.sync?.dirty ?? true;
+}
+
+function sameTags(a: string[] = [], b: string[] = []): boolean {
+  return [...a].sort().join("\n") === [...b].sort().join("\n");
+}
+
+// Three-way merge of one value: a side that still has the base value takes
+// the other side's change; both sides changing it differently is a conflict
+function mergeValue<T>(
+  local: T,
+  remote: T,
+  base: T | undefined,
+  equal: (a: T, b: T) => boolean,
+): { value: T; conflict: boolean } {
+  if (equal(local, remote)) return { value: local, conflict: false };
+  if (base !== undefined && equal(local, base)) {
+    return { value: remote, conflict: false };
+  }
+  if (base !== undefined && equal(remote, base)) {
+    return { value: local, conflict: false };
+  }
+  return { value: local, conflict: true };
+}
+
+// Number of leading messages two message lists have in common
+function sharedPrefixLength(a: AllMessage[], b: AllMessage[]): number {
+  const length = Math.min(a.length, b.length);
+  for (let index = 0; index < length; index++) {
+    if (JSON.stringify(a[index]) !== JSON.stringify(b[index])) return index;
+  }
+  return length;
+}
+
+/**
+ * Combines a session another device saved with the copy stored here
+ * Copies without local changes take the server's session. Otherwise a
+ * message list that extends the other wins, since a session only grows;
+ * when both devices added messages, this device's are appended after the
+ * other's so neither is lost. Title and tags are merged against the values
+ * of the last synced revision. Values both devices changed stay as they are
+ * here and are recorded as a conflict.
+ */
+export function mergeRemoteSession(
+  local: StoredSession | null,
+  remote: ServerSession,
+): StoredSession {
+  const { revision, ...remoteMetadata } = remote.metadata;
+  const remoteMessages = remote.messages as AllMessage[];
+  const remoteTags = remoteMetadata.tags ?? [];
+  const base = { title: remoteMetadata.title, tags: remoteTags };
+
+  if (!local || !isDirty(local)) {
+    return {
+      metadata: remoteMetadata,
+      messages: remoteMessages,
+      sync: { revision, dirty: false, base },
+    };
+  }
+
+  const previous = local.sync?.base;
+  const title = mergeValue(
+    local.metadata.title,
+    remoteMetadata.title,
+    previous?.title,
+    (a, b) => a === b,
+  );
+  const tags = mergeValue(
+    local.metadata.tags ?? [],
+    remoteTags,
+    previous?.tags,
+    sameTags,
+  );
+  const shared = sharedPrefixLength(local.messages, remoteMessages);
+  const messages =
+    shared === local.messages.length
+      ? remoteMessages
+      : shared === remoteMessages.length
+        ? local.messages
+        : [...remoteMessages, ...local.messages.slice(shared)];
+  const takeRemoteMessages = messages === remoteMessages;
+
+  const conflict: SessionConflict = {
+    ...(title.conflict ? { title: remoteMetadata.title } : {}),
+    ...(tags.conflict ? { tags: remoteTags } : {}),
+  };
+  const hasConflict = title.conflict || tags.conflict;
+
+  return {
+    metadata: {
+      ...local.metadata,
+      ...(takeRemoteMessages
+        ? {
+            messageCount: remoteMetadata.messageCount,
+            firstMessage: remoteMetadata.firstMessage,
+            lastMessage: remoteMetadata.lastMessage,
+          }
+        : { messageCount: messages.length }),
+      title: title.value,
+      tags: tags.value,
+      lastUpdated: Math.max(
+        local.metadata.lastUpdated,
+        remoteMetadata.lastUpdated,
+      ),
+    },
+    messages,
+    sync: {
+      revision,
+      dirty:
+        !takeRemoteMessages ||
+        title.value !== remoteMetadata.title ||
+        !sameTags(tags.value, remoteTags),
+      base,
+      ...(hasConflict ? { conflict } : {}),
+    },
+  };
+}
+
+/**
+ * Settles a conflict by keeping this device's or the other device's values
+ * The session is left dirty, so the chosen values are pushed.
+ */
+export function resolveSessionConflict(
+  session: StoredSession,
+  choice: ConflictChoice,
+): StoredSession {
+  const conflict = session.sync?.conflict;
+  if (!session.sync || !conflict) return session;
+
+  const { revision, base } = session.sync;
+  return {
+    ...session,
+    metadata:
+      choice === "remote"
+        ? {
+            ...session.metadata,
+            ...(conflict.title !== undefined ? { title: conflict.title } : {}),
+            ...(conflict.tags !== undefined ? { tags: conflict.tags } : {}),
+          }
+        : session.metadata,
+    sync: { revision, dirty: true, base },
+  };
+}
+
+async function readError(response: Response, action: string): Promise<Error> {
+  const data = await response.json().catch(() => null);
+  return new Error(data?.error || `Failed to ${action}: ${response.status}`);
+}
+
+/**
+ * Keeps the sessions stored in this browser in step with the server
+ * The browser's copy stays the one the chat reads and writes, so sessions
+ * work offline. Changes made here are pushed with the revision they were
+ * based on and other devices' changes are pulled, whenever the server can
+ * be reached again.
+ */
+class SessionSyncService {
+  private status: SyncStatus = { state: "idle", lastSyncedAt: null };
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private running: Promise<void> | null = null;
+  private rerun = false;
+  private pushTimeout: number | null = null;
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setStatus(status: SyncStatus) {
+    this.status = status;
+    this.listeners.forEach((listener) => listener(status));
+  }
+
+  // Syncs now, on reconnect, periodically and after local changes;
+  // returns a function that stops syncing
+  start(): () => void {
+    const handleOnline = () => this.sync();
+    const handleOffline = () =>
+      this.setStatus({ ...this.status, state: "offline" });
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    const stopListening = sessionStorage.onLocalChange(() =>
+      this.schedulePush(),
+    );
+    const interval = window.setInterval(
+      () => this.sync(),
+      SESSION_SYNC_CONSTANTS.PULL_INTERVAL_MS,
+    );
+    this.sync();
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      stopListening();
+      window.clearInterval(interval);
+      if (this.pushTimeout) window.clearTimeout(this.pushTimeout);
+    };
+  }
+
+  private schedulePush() {
+    if (this.pushTimeout) window.clearTimeout(this.pushTimeout);
+    this.pushTimeout = window.setTimeout(() => {
+      this.pushTimeout = null;
+      this.sync();
+    }, SESSION_SYNC_CONSTANTS.PUSH_DELAY_MS);
+  }
+
+  // Pushes local changes, then pulls remote ones; calls made while a sync
+  // runs start one more afterwards
+  sync(): Promise<void> {
+    if (this.running) {
+      this.rerun = true;
+      return this.running;
+    }
+
+    this.running = (async () => {
+      do {
+        this.rerun = false;
+        await this.runSync();
+      } while (this.rerun);
+    })().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async runSync() {
+    if (!navigator.onLine) {
+      this.setStatus({ ...this.status, state: "offline" });
+      return;
+    }
+
+    this.setStatus({ ...this.status, state: "syncing", error: undefined });
+    try {
+      await this.pushDeletes();
+      for (const session of await sessionStorage.getAllStoredSessions()) {
+        if (isDirty(session) && !session.sync?.conflict) {
+          await this.pushSession(session);
+        }
+      }
+      await this.pull();
+      this.setStatus({ state: "idle", lastSyncedAt: Date.now() });
+    } catch (error) {
+      // fetch rejects with a TypeError when the server cannot be reached
+      if (error instanceof TypeError) {
+        this.setStatus({ ...this.status, state: "offline" });
+      } else {
+        console.error("[SessionSync] Failed to sync sessions:", error);
+        this.setStatus({
+          ...this.status,
+          state: "error",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private getPendingDeletes(): string[] {
+    try {
+      return JSON.parse(
+        localStorage.getItem(
+          SESSION_SYNC_CONSTANTS.PENDING_DELETES_STORAGE_KEY,
+        ) || "[]",
+      );
+    } catch {
+      return [];
+    }
+  }
+
+  private setPendingDeletes(sessionIds: string[]) {
+    localStorage.setItem(
+      SESSION_SYNC_CONSTANTS.PENDING_DELETES_STORAGE_KEY,
+      JSON.stringify(sessionIds),
+    );
+  }
+
+  private async pushDeletes() {
+    for (const sessionId of this.getPendingDeletes()) {
+      const response = await fetch(getSessionUrl(sessionId), {
+        method: "DELETE",
+      });
+      if (!response.ok && response.status !== 404) {
+        throw await readError(response, "delete session");
+      }
+      this.setPendingDeletes(
+        this.getPendingDeletes().filter((id) => id !== sessionId),
+      );
+    }
+  }
+
+  private async pushSession(session: StoredSession, retried = false) {
+    const { sessionId } = session.metadata;
+    const body: SessionSaveRequest = {
+      metadata: { ...session.metadata, revision: session.sync?.revision ?? 0 },
+      messages: session.messages,
+      baseRevision: session.sync?.revision ?? 0,
+    };
+    const response = await fetch(getSessionUrl(sessionId), {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+    if (response.status === 409) {
+      // Another device saved first: merge its copy and push the result
+      const data: SessionConflictResponse = await response.json();
+      console.log(
+        `[SessionSync] Session ${sessionId} changed elsewhere (revision ${data.metadata.revision}), merging`,
+      );
+      const merged = await this.applyRemoteSession(sessionId);
+      if (merged && isDirty(merged) && !merged.sync?.conflict && !retried) {
+        await this.pushSession(merged, true);
+      }
+      return;
+    }
+    if (!response.ok) {
+      throw await readError(response, "save session");
+    }
+
+    const metadata: ServerSessionMetadata = await response.json();
+    await sessionStorage.markSessionSynced(
+      sessionId,
+      metadata,
+      session.metadata.lastUpdated,
+    );
+  }
+
+  // Fetches a session from the server and merges it into the local copy
+  private async applyRemoteSession(
+    sessionId: string,
+  ): Promise<StoredSession | null> {
+    const response = await fetch(getSessionUrl(sessionId));
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw await readError(response, "load session");
+    }
+    const remote: ServerSession = await response.json();
+
+    // Read again right before writing to keep changes made meanwhile
+    const merged = mergeRemoteSession(
+      await sessionStorage.getSession(sessionId),
+      remote,
+    );
+    await sessionStorage.storeSyncedSession(merged);
+    return merged;
+  }
+
+  private async fetchRemoteSessions(): Promise<ServerSessionMetadata[]> {
+    const sessions: ServerSessionMetadata[] = [];
+    let cursor: string | null = null;
+    do {
+      const response = await fetch(
+        getSessionsUrl({
+          limit: String(SESSION_SYNC_CONSTANTS.LIST_PAGE_SIZE),
+          ...(cursor ? { cursor } : {}),
+        }),
+      );
+      if (!response.ok) {
+        throw await readError(response, "list sessions");
+      }
+      const page: SessionListResponse = await response.json();
+      sessions.push(...page.sessions);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return sessions;
+  }
+
+  private async pull() {
+    const remoteSessions = await this.fetchRemoteSessions();
+    const pendingDeletes = new Set(this.getPendingDeletes());
+    const local = new Map(
+      (await sessionStorage.getAllStoredSessions()).map((session) => [
+        session.metadata.sessionId,
+        session,
+      ]),
+    );
+
+    for (const metadata of remoteSessions) {
+      if (pendingDeletes.has(metadata.sessionId)) continue;
+      const session = local.get(metadata.sessionId);
+      if ((session?.sync?.revision ?? 0) >= metadata.revision) continue;
+      await this.applyRemoteSession(metadata.sessionId);
+    }
+
+    // Synced sessions no longer on the server were deleted on another device
+    const remoteIds = new Set(remoteSessions.map((s) => s.sessionId));
+    for (const session of local.values()) {
+      const { sessionId } = session.metadata;
+      if (!session.sync?.revision || remoteIds.has(sessionId)) continue;
+      const current = await sessionStorage.getSession(sessionId);
+      if (current && !isDirty(current)) {
+        await sessionStorage.deleteSession(sessionId);
+      }
+    }
+  }
+
+  // Deletes a session here and, now or once back online, on the server
+  async deleteSession(sessionId: string): Promise<void> {
+    await sessionStorage.deleteSession(sessionId);
+    this.setPendingDeletes([
+      ...this.getPendingDeletes().filter((id) => id !== sessionId),
+      sessionId,
+    ]);
+    this.schedulePush();
+  }
+
+  // Title and tag conflicts waiting for the user, by session ID
+  async getConflicts(): Promise<Record<string, SessionConflict>> {
+    const conflicts: Record<string, SessionConflict> = {};
+    for (const session of await sessionStorage.getAllStoredSessions()) {
+      if (session.sync?.conflict) {
+        conflicts[session.metadata.sessionId] = session.sync.conflict;
+      }
+    }
+    return conflicts;
+  }
+
+  async resolveConflict(
+    sessionId: string,
+    choice: ConflictChoice,
+  ): Promise<void> {
+    const session = await sessionStorage.getSession(sessionId);
+    if (!session) return;
+    await sessionStorage.saveSession(resolveSessionConflict(session, choice));
+  }
+}
+
+// Export singleton instance
+export const sessionSync = new SessionSyncService();
@@ -4,6 +4,11 @@ import type {
   SDKSystemMessage,
   SDKResultMessage,
 } from "@anthropic-ai/claude-code";
+import type {
+  BudgetExceeded,
+  ChatAttachment,
+  PermissionMode,
+} from "../../shared/types";
 
 // Thinking mode types
 export type ThinkingMode =
@@ -36,12 +41,96 @@ export const THINKING_MODE_LABELS: Record<ThinkingMode, string> = {
   ultrathink: "Ultrathink",
 };
 
+// Model selection types
+export type ModelChoice = "default" | "sonnet" | "opus";
+
+export interface ModelConfig {
+  choice: ModelChoice;
+  model?: string;
+  fallbackModel?: string;
+}
+
+// Model configurations passed through to the Claude SDK
+export const MODEL_CONFIGS: Record<ModelChoice, ModelConfig> = {
+  default: { choice: "default" }, // Use the CLI's configured model
+  sonnet: { choice: "sonnet", model: "sonnet" },
+  opus: { choice: "opus", model: "opus", fallbackModel: "sonnet" },
+};
+
+// Model labels for UI
+export const MODEL_LABELS: Record<ModelChoice, string> = {
+  default: "Default",
+  sonnet: "Sonnet",
+  opus: "Opus",
+};
+
+// Permission mode risk levels for UI indicators
+export type PermissionModeRisk = "safe" | "elevated" | "dangerous";
+
+export const PERMISSION_MODE_RISK: Record<PermissionMode, PermissionModeRisk> =
+  {
+    plan: "safe", // Read-only planning, no edits or commands
+    default: "safe",
+    acceptEdits: "elevated", // File edits are applied without asking
+    bypassPermissions: "dangerous", // Every tool runs without asking
+  };
+
 // Chat message for user/assistant interactions (not part of SDKMessage)
 export interface ChatMessage {
   type: "chat";
   role: "user" | "assistant";
   content: string;
   timestamp: number;
+  attachments?: MessageAttachment[]; // Files sent with a user message
+  uuid?: string; // Transcript line the message was loaded from
+}
+
+// Attachment shown on a sent message; its contents are not kept, as
+// messages are stored and synced
+export interface MessageAttachment {
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+// Attachment waiting in the chat input until the message is sent
+export interface PendingAttachment extends ChatAttachment, MessageAttachment {
+  id: string;
+  previewUrl?: string; // data: URL for images
+}
+
+// Follow-up prompt typed while Claude is still working, sent after `done`
+export interface QueuedMessage {
+  id: string;
+  content: string;
+  timestamp: number;
+}
+
+// Status badge of a session in the workspace switcher
+export type SessionStatus =
+  | "idle"
+  | "running"
+  | "waiting_permission"
+  | "done"
+  | "error";
+
+// What a running chat reports to the workspace switcher
+export interface SessionActivity {
+  status: SessionStatus;
+  messageCount: number;
+  // First line of the first user message, if any
+  title: string | null;
+}
+
+// One of the chats running side by side in the workspace
+export interface WorkspaceSession extends SessionActivity {
+  id: string;
+  workingDirectory?: string;
+  // Claude session currently shown in this chat
+  sessionId: string | null;
+  // Set to a new object to make the chat load a stored session
+  sessionToLoad: { sessionId: string } | null;
+  unread: boolean;
 }
 
 // Error message for streaming errors
@@ -70,11 +159,19 @@ export type SystemMessage = (
   timestamp: number;
 };
 
+// Shown when a request was stopped by its max-turns or cost guardrail
+export type BudgetExceededMessage = {
+  type: "budget_exceeded";
+  budget: BudgetExceeded;
+  timestamp: number;
+};
+
 // Tool message for tool usage display
 export type ToolMessage = {
   type: "tool";
   content: string;
   timestamp: number;
+  uuid?: string; // Transcript line the message was loaded from
 };
 
 // Tool result message for tool result display
@@ -84,6 +181,12 @@ export type ToolResultMessage = {
   content: string;
   summary: string;
   timestamp: number;
+  uuid?: string; // Transcript line the message was loaded from
+  // Set when a history page shortened the output; the rest is fetched on demand
+  truncated?: {
+    toolUseId: string;
+    fullLength: number;
+  };
 };
 
 // TimestampedSDKMessage types for conversation history API
@@ -105,7 +208,17 @@ export type AllMessage =
   | ChatMessage
   | SystemMessage
   | ToolMessage
-  | ToolResultMessage;
+  | ToolResultMessage
+  | BudgetExceededMessage
+  | SupersededBranchMessage;
+
+// Messages replaced by editing and resending the last prompt, kept as a
+// collapsed alternative above the new version
+export type SupersededBranchMessage = {
+  type: "superseded_branch";
+  messages: AllMessage[];
+  timestamp: number;
+};
 
 // Type guard functions
 export function isChatMessage(message: AllMessage): message is ChatMessage {
@@ -124,12 +237,24 @@ export function isToolMessage(message: AllMessage): message is ToolMessage {
   return message.type === "tool";
 }
 
+export function isBudgetExceededMessage(
+  message: AllMessage,
+): message is BudgetExceededMessage {
+  return message.type === "budget_exceeded";
+}
+
 export function isToolResultMessage(
   message: AllMessage,
 ): message is ToolResultMessage {
   return message.type === "tool_result";
 }
 
+export function isSupersededBranchMessage(
+  message: AllMessage,
+): message is SupersededBranchMessage {
+  return message.type === "superseded_branch";
+}
+
 // File system types
 export interface FileItem {
   name: string;
@@ -153,9 +278,50 @@ export interface ListFilesResponse {
 // Re-export shared types
 export type {
   StreamResponse,
+  BudgetExceeded,
+  ChatAttachment,
   ChatRequest,
+  PermissionMode,
+  PermissionRequest,
+  PermissionResponse,
+  PermissionRules,
+  PermissionRulesResponse,
+  PromptPreset,
+  PromptPresetsResponse,
+  SlashCommand,
+  SlashCommandSource,
+  SlashCommandsResponse,
+  CommandFileScope,
+  CommandFileResponse,
+  SaveCommandFileRequest,
+  FileIndexResponse,
+  FileLinesResponse,
+  WebSocketClientMessage,
+  WebSocketServerMessage,
   ProjectsResponse,
   ProjectInfo,
+  ConversationSummary,
+  ForkConversationRequest,
+  ForkConversationResponse,
+  ConversationRelation,
+  ConversationTreeNode,
+  HistoryTreeResponse,
+  HistorySearchMatchKind,
+  HistorySearchResult,
+  HistorySearchResponse,
+  ConversationPageOrder,
+  ConversationPage,
+  ToolResultContentResponse,
+  ConversationExportFormat,
+  ConversationExportBundle,
+  HistoryImportRequest,
+  HistoryImportResponse,
+  ServerSessionMetadata,
+  ServerSession,
+  SessionSaveRequest,
+  SessionUpdateRequest,
+  SessionConflictResponse,
+  SessionListResponse,
 } from "../../shared/types";
 
 // Re-export SDK types
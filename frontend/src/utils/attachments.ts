@@ -0,0 +1,71 @@
+import type { ChatAttachment, PendingAttachment } from "../types";
+import { ATTACHMENT_CONSTANTS } from "./constants";
+import { generateId } from "./id";
+
+export function isImageType(mimeType: string): boolean {
+  return (ATTACHMENT_CONSTANTS.IMAGE_TYPES as readonly string[]).includes(
+    mimeType,
+  );
+}
+
+// The backend lists the paths of saved files after the typed text; forks
+// compare prompts without that list on both sides
+const ATTACHED_FILES_PATTERN = /(^|\n)Attached files:(\n- [^\n]*)+$/;
+
+export function stripAttachedFiles(content: string): string {
+  return content.replace(ATTACHED_FILES_PATTERN, "");
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Returns an error key for files over the size limit, or null if accepted
+export function validateAttachmentFile(file: File): string | null {
+  const limit = isImageType(file.type)
+    ? ATTACHMENT_CONSTANTS.MAX_IMAGE_BYTES
+    : ATTACHMENT_CONSTANTS.MAX_FILE_BYTES;
+  return file.size > limit ? "attachments.tooLarge" : null;
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Reads a dropped, pasted or uploaded file into a pending attachment
+export async function readFileAsAttachment(
+  file: File,
+): Promise<PendingAttachment> {
+  const dataUrl = await readAsDataUrl(file);
+  const mimeType = file.type || "application/octet-stream";
+  // Pasted screenshots arrive as "image.png" at best, so name them uniquely
+  const name =
+    file.name && file.name !== "image.png"
+      ? file.name
+      : `screenshot-${Date.now()}.${mimeType.split("/")[1] || "png"}`;
+
+  return {
+    id: generateId(),
+    name,
+    mimeType,
+    size: file.size,
+    data: dataUrl.slice(dataUrl.indexOf(",") + 1),
+    ...(isImageType(mimeType) ? { previewUrl: dataUrl } : {}),
+  };
+}
+
+// Strips display-only fields before sending attachments to the backend
+export function toChatAttachment({
+  name,
+  mimeType,
+  data,
+}: PendingAttachment): ChatAttachment {
+  return { name, mimeType, data };
+}
@@ -2,6 +2,9 @@
 export const UI_CONSTANTS = {
   NEAR_BOTTOM_THRESHOLD_PX: 100,
   TEXTAREA_MAX_HEIGHT: 200,
+  // Messages rendered at once; scrolling to the top renders this many more
+  MESSAGE_WINDOW_SIZE: 50,
+  NEAR_TOP_THRESHOLD_PX: 200,
 } as const;
 
 // Keyboard shortcuts
@@ -20,6 +23,54 @@ export const MESSAGE_CONSTANTS = {
   SESSION_ID_DISPLAY_LENGTH: 8,
 } as const;
 
+// Paired device credentials stored by the mobile authorization flow
+export const AUTH_CONSTANTS = {
+  TOKEN_STORAGE_KEY: "claude-webui-auth-token",
+} as const;
+
+// Chat stream reconnection constants
+export const STREAM_CONSTANTS = {
+  MAX_RECONNECT_ATTEMPTS: 5,
+  RECONNECT_DELAY_MS: 1000,
+  // WebSocket transport: the server pings every 30s
+  WEBSOCKET_CONNECT_TIMEOUT_MS: 3000,
+  WEBSOCKET_IDLE_TIMEOUT_MS: 75000,
+  WEBSOCKET_RETRY_AFTER_MS: 60000,
+} as const;
+
+// Chat attachment limits
+export const ATTACHMENT_CONSTANTS = {
+  // Image types Claude accepts as image content blocks
+  IMAGE_TYPES: ["image/jpeg", "image/png", "image/gif", "image/webp"],
+  MAX_IMAGE_BYTES: 5 * 1024 * 1024,
+  MAX_FILE_BYTES: 10 * 1024 * 1024,
+  MAX_ATTACHMENTS: 10,
+} as const;
+
+// @-mention file picker
+export const FILE_MENTION_CONSTANTS = {
+  // The project file index is refetched when older than this
+  INDEX_TTL_MS: 30000,
+  MAX_RESULTS: 50,
+} as const;
+
+// Stored conversations opened from history
+export const HISTORY_CONSTANTS = {
+  // Transcript lines fetched per page
+  PAGE_SIZE: 100,
+} as const;
+
+// Syncing browser sessions through the server's session store
+export const SESSION_SYNC_CONSTANTS = {
+  // Local changes are pushed once saving has been quiet this long
+  PUSH_DELAY_MS: 2000,
+  // Other devices' changes are pulled this often while online
+  PULL_INTERVAL_MS: 30000,
+  LIST_PAGE_SIZE: 200,
+  // Sessions deleted while offline, removed from the server on reconnect
+  PENDING_DELETES_STORAGE_KEY: "claude-webui-pending-session-deletes",
+} as const;
+
 // Tool-related constants
 export const TOOL_CONSTANTS = {
   MULTI_WORD_COMMANDS: ["cargo", "git", "npm", "yarn", "docker"],
@@ -0,0 +1,108 @@
+import { FILE_MENTION_CONSTANTS } from "./constants";
+
+// An "@query" token being typed at the caret
+export interface FileMention {
+  // Offsets of the token in the input, including the "@"
+  start: number;
+  end: number;
+  query: string;
+  // Optional ":start-end" line range typed after the path
+  startLine?: number;
+  endLine?: number;
+}
+
+// Finds the @-mention under the caret; "@" must start the input or follow
+// whitespace so e-mail addresses do not open the picker
+export function getFileMention(
+  input: string,
+  caret: number,
+): FileMention | null {
+  const before = input.slice(0, caret).match(/(?:^|\s)@([^\s@]*)$/);
+  if (!before) return null;
+
+  const start = caret - before[1].length - 1;
+  const end = caret + (input.slice(caret).match(/^\S*/)?.[0].length ?? 0);
+  const token = input.slice(start + 1, end);
+
+  const range = token.match(/^(.*?):(\d+)(?:-(\d*))?$/);
+  if (!range) {
+    return { start, end, query: token.replace(/:$/, "") };
+  }
+  const startLine = parseInt(range[2], 10);
+  const endLine = range[3] ? parseInt(range[3], 10) : undefined;
+  return {
+    start,
+    end,
+    query: range[1],
+    ...(startLine > 0 ? { startLine } : {}),
+    ...(endLine && endLine >= startLine ? { endLine } : {}),
+  };
+}
+
+// Scores a path against a fuzzy query, or returns null when the query
+// characters do not appear in order. Consecutive matches, matches at the
+// start of a path segment and matches in the file name score higher.
+export function fuzzyScore(query: string, path: string): number | null {
+  if (!query) return 0;
+
+  const lowerQuery = query.toLowerCase();
+  const lowerPath = path.toLowerCase();
+  const nameStart = lowerPath.lastIndexOf("/") + 1;
+
+  let score = 0;
+  let previous = -2;
+  let from = 0;
+  for (const char of lowerQuery) {
+    const index = lowerPath.indexOf(char, from);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === previous + 1) score += 5;
+    if (index === 0 || "/._-".includes(lowerPath[index - 1])) score += 8;
+    if (index >= nameStart) score += 2;
+    previous = index;
+    from = index + 1;
+  }
+
+  if (lowerPath.slice(nameStart).includes(lowerQuery)) score += 20;
+  // Prefer shorter paths among equal matches
+  return score - path.length * 0.1;
+}
+
+// Best matching paths for the picker, highest score first
+export function filterFiles(files: string[], query: string): string[] {
+  const scored: { path: string; score: number }[] = [];
+  for (const path of files) {
+    const score = fuzzyScore(query, path);
+    if (score !== null) scored.push({ path, score });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, FILE_MENTION_CONSTANTS.MAX_RESULTS)
+    .map(({ path }) => path);
+}
+
+// "path", "path:12" or "path:12-30"
+export function formatFileReference(
+  path: string,
+  startLine?: number,
+  endLine?: number,
+): string {
+  if (!startLine) return path;
+  return endLine && endLine !== startLine
+    ? `${path}:${startLine}-${endLine}`
+    : `${path}:${startLine}`;
+}
+
+// The reference followed by the lines in a fenced code block
+export function formatInlinedLines(
+  path: string,
+  startLine: number,
+  endLine: number,
+  content: string,
+): string {
+  const extension = path.includes(".") ? path.split(".").pop() : "";
+  // Use a longer fence when the snippet itself contains one
+  const fence = content.includes("```") ? "````" : "```";
+  return `${formatFileReference(path, startLine, endLine)}\n${fence}${extension}\n${content}\n${fence}\n`;
+}
@@ -28,6 +28,7 @@ export function createSystemMessage(
     mcp_servers: [],
     model: "claude-3-5-sonnet-20241022",
     permissionMode: "default",
+    slash_commands: [],
   };
 }
 
@@ -0,0 +1,27 @@
+import type { SlashCommand } from "../types";
+
+// Maximum number of suggestions shown in the palette
+const MAX_SUGGESTIONS = 8;
+
+// Returns the partial command name while the input is "/<name>" with no
+// arguments yet, or null when the palette should stay closed
+export function getSlashCommandQuery(input: string): string | null {
+  const match = input.match(/^\/(\S*)$/);
+  return match ? match[1].toLowerCase() : null;
+}
+
+// Commands starting with the query come first, then ones containing it
+export function filterSlashCommands(
+  commands: SlashCommand[],
+  query: string,
+): SlashCommand[] {
+  const prefixMatches = commands.filter((command) =>
+    command.name.toLowerCase().startsWith(query),
+  );
+  const otherMatches = commands.filter(
+    (command) =>
+      !command.name.toLowerCase().startsWith(query) &&
+      command.name.toLowerCase().includes(query),
+  );
+  return [...prefixMatches, ...otherMatches].slice(0, MAX_SUGGESTIONS);
+}
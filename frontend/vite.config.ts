@@ -28,6 +28,7 @@ export default defineConfig(({ mode }) => {
           target: `http://localhost:${apiPort}`,
           changeOrigin: true,
           secure: false,
+          ws: true, // Proxy the /api/ws chat WebSocket
         },
       },
     },
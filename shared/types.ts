@@ -1,21 +1,191 @@
 export interface StreamResponse {
-  type: "claude_json" | "error" | "done" | "aborted";
+  type:
+    | "claude_json"
+    | "error"
+    | "done"
+    | "aborted"
+    | "permission_request"
+    | "permission_resolved"
+    | "budget_exceeded";
   data?: unknown; // SDKMessage object for claude_json type
   error?: string;
+  permission?: PermissionRequest; // For permission_request type
+  resolved?: PermissionResponse; // For permission_resolved type, answered on any device
+  budget?: BudgetExceeded; // For budget_exceeded type
+  seq?: number; // Sequence number for resuming via /api/chat/:requestId/stream
 }
 
+// Guardrail that stopped a request; sent instead of done/aborted
+export interface BudgetExceeded {
+  reason: "max_turns" | "max_cost";
+  limit: number;
+  actual: number; // Turns used, or estimated USD spent
+}
+
+// Tool permission prompt raised while Claude waits for the user's decision
+export interface PermissionRequest {
+  permissionId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+export interface PermissionResponse {
+  permissionId: string;
+  behavior: "allow" | "deny";
+  message?: string; // Reason reported back to Claude when denying
+}
+
+// Permission modes supported by the Claude SDK
+export type PermissionMode =
+  | "default"
+  | "acceptEdits"
+  | "bypassPermissions"
+  | "plan";
+
 export interface ChatRequest {
   message: string;
   sessionId?: string;
   requestId: string;
   allowedTools?: string[];
+  disallowedTools?: string[];
   workingDirectory?: string;
   thinking?: {
     type: "enabled";
     budget_tokens: number;
   };
+  model?: string; // Model alias or full name, e.g. "sonnet" or "claude-opus-4-20250514"
+  fallbackModel?: string; // Used automatically when the primary model is overloaded
+  permissionMode?: PermissionMode;
+  customSystemPrompt?: string; // Replaces Claude Code's default system prompt
+  appendSystemPrompt?: string; // Appended to the default system prompt
+  maxTurns?: number; // Stop after this many agentic turns
+  maxCostUsd?: number; // Abort once the estimated spend crosses this ceiling
+  attachments?: ChatAttachment[];
+}
+
+// File sent with a chat message; images go to Claude inline, other files by path
+export interface ChatAttachment {
+  name: string;
+  mimeType: string;
+  data: string; // Base64 file contents without the data: URL prefix
+}
+
+// Permission rules in the format of permissions.allow/deny in .claude/settings.json
+export interface PermissionRules {
+  allow: string[];
+  deny: string[];
+}
+
+export interface PermissionRulesResponse {
+  rules: PermissionRules; // Editable rules stored in .claude/settings.local.json
+  projectRules: PermissionRules; // Read-only rules from .claude/settings.json
+}
+
+export interface SavePermissionRulesRequest extends PermissionRules {
+  workingDirectory: string;
+}
+
+// Named system prompt preset saved per project by the web UI
+export interface PromptPreset {
+  id: string;
+  name: string;
+  customSystemPrompt?: string;
+  appendSystemPrompt?: string;
+}
+
+export interface PromptPresetsResponse {
+  presets: PromptPreset[];
+}
+
+export interface SavePromptPresetsRequest extends PromptPresetsResponse {
+  workingDirectory: string;
+}
+
+// Slash commands offered by the chat input palette (/api/commands)
+export type SlashCommandSource = "builtin" | "project" | "user";
+
+// Scopes whose command files can be edited from the web UI
+export type CommandFileScope = Exclude<SlashCommandSource, "builtin">;
+
+export interface SlashCommand {
+  name: string;
+  source: SlashCommandSource;
+  description?: string;
+  argumentHint?: string;
+  // Path of a custom command file relative to its commands directory, without ".md"
+  file?: string;
 }
 
+export interface SlashCommandsResponse {
+  commands: SlashCommand[];
+}
+
+export interface CommandFileResponse {
+  scope: CommandFileScope;
+  file: string;
+  content: string;
+}
+
+export interface SaveCommandFileRequest extends CommandFileResponse {
+  workingDirectory?: string;
+}
+
+// Recursive project file index for the @-mention picker (/api/files/index)
+export interface FileIndexRequest {
+  path: string;
+}
+
+export interface FileIndexResponse {
+  root: string;
+  // Paths relative to root, using "/" separators
+  files: string[];
+  // Set when the project has more files than the index limit
+  truncated: boolean;
+}
+
+// Line range of a project file inlined into a prompt (/api/files/lines)
+export interface FileLinesRequest {
+  root: string;
+  path: string;
+  startLine: number;
+  endLine?: number;
+}
+
+export interface FileLinesResponse {
+  path: string;
+  startLine: number;
+  endLine: number;
+  totalLines: number;
+  content: string;
+}
+
+// WebSocket chat transport (/api/ws)
+// Every frame is a JSON object; stream frames carry the request they belong to
+export type WebSocketClientMessage =
+  | { type: "chat"; request: ChatRequest }
+  | { type: "abort"; requestId: string }
+  | {
+    type: "permission_response";
+    requestId: string;
+    response: PermissionResponse;
+  }
+  | { type: "resume"; requestId: string; after: number } // Reattach after reconnecting
+  | { type: "watch_session"; sessionId: string } // Mirror requests other devices run in the session
+  | { type: "unwatch_session"; sessionId: string }
+  | { type: "pong" };
+
+export type WebSocketServerMessage =
+  | { type: "stream"; requestId: string; event: StreamResponse }
+  | {
+    // A request started in a watched session; its stream frames follow
+    type: "session_request";
+    sessionId: string;
+    requestId: string;
+    message: string;
+  }
+  | { type: "error"; requestId?: string; error: string }
+  | { type: "ping" };
+
 export interface AbortRequest {
   requestId: string;
 }
@@ -36,12 +206,68 @@ export interface ConversationSummary {
   lastTime: string;
   messageCount: number;
   lastMessagePreview: string;
+  forkedFrom?: string; // Listed session this one was forked from
 }
 
 export interface HistoryListResponse {
   conversations: ConversationSummary[];
 }
 
+// How a session came from its parent: a continuation extends all of the
+// parent's messages, a resume picks it up from an earlier point and a fork
+// was branched off in the web UI
+export type ConversationRelation = "continuation" | "resume" | "fork";
+
+export interface ConversationTreeNode {
+  sessionId: string;
+  parentSessionId?: string;
+  relation?: ConversationRelation;
+  sharedMessageCount?: number; // Assistant messages it has in common with its parent
+  startTime: string;
+  lastTime: string;
+  messageCount: number;
+  lastMessagePreview: string;
+  isDuplicate: boolean; // Hidden from the history list by a continuation
+}
+
+export interface HistoryTreeResponse {
+  nodes: ConversationTreeNode[]; // Every session file, oldest first
+}
+
+// Part of a history message a search matched
+export type HistorySearchMatchKind =
+  | "prompt"
+  | "assistant"
+  | "tool_input"
+  | "tool_output";
+
+export interface HistorySearchResult {
+  encodedProjectName: string;
+  sessionId: string;
+  messageUuid: string; // JSONL line the match is in
+  kind: HistorySearchMatchKind;
+  toolName?: string;
+  timestamp: string;
+  snippet: string; // Text around the first matched term
+}
+
+export interface HistorySearchResponse {
+  results: HistorySearchResult[]; // Newest first
+  truncated: boolean; // More messages matched than were returned
+}
+
+// Forks a conversation before one of its user prompts
+export interface ForkConversationRequest {
+  messageUuid?: string; // Transcript line of the prompt, known for messages loaded from history
+  content: string; // Prompt text as shown in the chat, used without a UUID
+  laterOccurrences?: number; // Later prompts with the same text; the newest messages are always loaded
+}
+
+export interface ForkConversationResponse {
+  sessionId: string; // New session holding the conversation before the prompt
+  parentSessionId: string;
+}
+
 // Conversation history types
 // Note: messages are typed as unknown[] to avoid frontend/backend dependency issues
 // Frontend should cast to TimestampedSDKMessage[] (defined in frontend/src/types.ts)
@@ -55,6 +281,94 @@ export interface ConversationHistory {
   };
 }
 
+// Direction conversation pages are read in; "desc" starts at the newest message
+export type ConversationPageOrder = "asc" | "desc";
+
+// One page of a conversation, in the requested order
+export interface ConversationPage extends ConversationHistory {
+  order: ConversationPageOrder;
+  nextCursor: string | null; // Cursor of the following page, null after the last one
+  toolNames: Record<string, string>; // Tools whose results are on this page, by tool use ID
+  truncatedToolResults: Record<string, number>; // Full length of each shortened tool output, by tool use ID
+}
+
+// Document types a conversation can be exported as
+export type ConversationExportFormat = "md" | "html" | "json";
+
+// JSON export of a conversation, keeping its transcript lines
+export interface ConversationExportBundle {
+  format: "claude-webui-conversation";
+  version: number;
+  exportedAt: string;
+  sessionId: string;
+  encodedProjectName: string;
+  metadata: ConversationHistory["metadata"];
+  messages: unknown[]; // Transcript lines as the CLI wrote them
+}
+
+// Session file or export bundle uploaded into a project's history
+export interface HistoryImportRequest {
+  content: string; // JSONL transcript or a JSON export bundle
+  fileName?: string; // Name of the uploaded file; a .jsonl name gives the session ID
+  projectPath: string; // Local project the session's working directories are moved to
+}
+
+export interface HistoryImportResponse {
+  sessionId: string;
+  messageCount: number;
+}
+
+// Full output of a tool result that was shortened in a conversation page
+export interface ToolResultContentResponse {
+  toolUseId: string;
+  content: string;
+}
+
+// Chat sessions kept by the server (/api/sessions), so every device sees the
+// same named sessions; mirrors the browser's stored sessions
+export interface ServerSessionMetadata {
+  sessionId: string;
+  projectPath: string;
+  title: string;
+  createdAt: number;
+  lastUpdated: number;
+  messageCount: number;
+  firstMessage?: string;
+  lastMessage?: string;
+  tags?: string[];
+  revision: number; // Raised by every change the server stores
+}
+
+export interface ServerSession {
+  metadata: ServerSessionMetadata;
+  messages: unknown[]; // AllMessage[] in practice, as the chat shows them
+}
+
+// Stores a session; with a base revision the save is refused if another
+// device changed the session since that revision
+export interface SessionSaveRequest extends ServerSession {
+  baseRevision?: number;
+}
+
+// Renames or retags a session without sending its messages
+export interface SessionUpdateRequest {
+  title?: string;
+  tags?: string[];
+  baseRevision?: number;
+}
+
+// Body of a 409 response to a save or update with a stale base revision
+export interface SessionConflictResponse {
+  error: string;
+  metadata: ServerSessionMetadata; // The session as the server has it
+}
+
+export interface SessionListResponse {
+  sessions: ServerSessionMetadata[]; // Most recently updated first
+  total: number; // Sessions matching the filters across all pages
+  nextCursor: string | null;
+}
+
 // Device authentication types
 export interface DeviceAuthRequest {
   deviceId: string;
@@ -95,4 +409,3 @@ export interface AuthorizeDeviceRequest {
   deviceId: string;
   action: "approve" | "reject";
 }
-